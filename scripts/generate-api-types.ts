@@ -0,0 +1,207 @@
+/**
+ * Generate Zod schemas and types for the Honeycomb API from api.yaml
+ *
+ * Usage: pnpm run generate:api
+ *
+ * Every schema under components.schemas becomes a `<Name>Schema` constant
+ * and a `<Name>` type. Objects pass unknown properties through, so responses
+ * with fields added after the spec was written still validate. Length,
+ * range and pattern constraints are left out: the schemas check the shape of
+ * what Honeycomb sends, not what it accepts.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { dirname, join } from "node:path";
+import { parse } from "yaml";
+
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  allOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  writeOnly?: boolean;
+}
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const SPEC_PATH = join(root, "api.yaml");
+const OUTPUT_PATH = join(root, "src/types/generated/honeycomb-api.ts");
+
+// Places where the spec is narrower than what Honeycomb sends, patched before generating
+const CORRECTIONS: Record<string, (schema: JsonSchema) => void> = {
+  // Result rows hold null for a missing breakdown or calculation value, and objects for HEATMAP
+  QueryResultsData: schema => {
+    schema.properties!.data!.additionalProperties = {};
+  },
+};
+
+function refName(ref: string): string {
+  return ref.replace("#/components/schemas/", "");
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function union(members: string[]): string {
+  return members.length === 1 ? members[0]! : `z.union([${members.join(", ")}])`;
+}
+
+function enumSchema(values: unknown[]): string {
+  const nonNull = values.filter(value => value !== null);
+  const schema = nonNull.every(value => typeof value === "string")
+    ? `z.enum([${nonNull.map(value => JSON.stringify(value)).join(", ")}])`
+    : union(nonNull.map(value => `z.literal(${JSON.stringify(value)})`));
+  return nonNull.length < values.length ? `${schema}.nullable()` : schema;
+}
+
+function objectSchema(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) {
+    const values = typeof schema.additionalProperties === "object"
+      ? toZod(schema.additionalProperties, indent)
+      : "z.unknown()";
+    return `z.record(z.string(), ${values})`;
+  }
+
+  const required = new Set(schema.required ?? []);
+  const inner = `${indent}  `;
+  const lines = properties.map(([name, property]) => {
+    // Write-only properties are never sent back, even when required in requests
+    const optional = !required.has(name) || property.writeOnly;
+    return `${inner}${propertyKey(name)}: ${toZod(property, inner)}${optional ? ".optional()" : ""},`;
+  });
+  return `z.object({\n${lines.join("\n")}\n${indent}}).passthrough()`;
+}
+
+function typeSchema(type: string, schema: JsonSchema, indent: string): string {
+  switch (type) {
+    case "object": return objectSchema(schema, indent);
+    case "array": return `z.array(${schema.items ? toZod(schema.items, indent) : "z.unknown()"})`;
+    case "string": return "z.string()";
+    case "integer": return "z.number().int()";
+    case "number": return "z.number()";
+    case "boolean": return "z.boolean()";
+    case "null": return "z.null()";
+    default: throw new Error(`Unsupported schema type ${type}`);
+  }
+}
+
+/**
+ * Translate a JSON schema into the source of an equivalent Zod schema
+ */
+function toZod(schema: JsonSchema, indent = ""): string {
+  if (schema.$ref) {
+    return `${refName(schema.$ref)}Schema`;
+  }
+
+  const parts: string[] = [];
+  if (schema.allOf) {
+    parts.push(...schema.allOf.map(member => toZod(member, indent)));
+  }
+  const alternatives = schema.oneOf ?? schema.anyOf;
+  if (alternatives) {
+    parts.push(union(alternatives.map(member => toZod(member, indent))));
+  }
+
+  if (schema.enum) {
+    parts.push(enumSchema(schema.enum));
+  } else if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const nonNull = types.filter(type => type !== "null");
+    const base = nonNull.length === 0
+      ? "z.null()"
+      : union(nonNull.map(type => typeSchema(type, schema, indent)));
+    parts.push(nonNull.length > 0 && nonNull.length < types.length ? `${base}.nullable()` : base);
+  } else if (schema.properties) {
+    parts.push(objectSchema(schema, indent));
+  }
+
+  if (parts.length === 0) {
+    return "z.unknown()";
+  }
+  return parts.reduce((combined, part) => `${combined}.and(${part})`);
+}
+
+function collectRefs(schema: unknown, refs = new Set<string>()): Set<string> {
+  if (Array.isArray(schema)) {
+    schema.forEach(item => collectRefs(item, refs));
+  } else if (schema && typeof schema === "object") {
+    for (const [key, value] of Object.entries(schema)) {
+      if (key === "$ref" && typeof value === "string") {
+        refs.add(refName(value));
+      } else {
+        collectRefs(value, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+/**
+ * Order schemas so that each comes after the schemas it references
+ *
+ * @throws Error if the schemas reference each other in a cycle
+ */
+function sortByDependencies(schemas: Record<string, JsonSchema>): string[] {
+  const sorted: string[] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (name: string, path: string[]) => {
+    if (state.get(name) === "done") return;
+    if (state.get(name) === "visiting") {
+      throw new Error(`Schemas reference each other in a cycle: ${[...path, name].join(" -> ")}`);
+    }
+    state.set(name, "visiting");
+    for (const dependency of collectRefs(schemas[name])) {
+      visit(dependency, [...path, name]);
+    }
+    state.set(name, "done");
+    sorted.push(name);
+  };
+  Object.keys(schemas).forEach(name => visit(name, []));
+  return sorted;
+}
+
+function docComment(description: string | undefined): string {
+  const summary = description?.trim().split(/\n\s*\n/)[0]?.replace(/\s+/g, " ").replace(/\*\//g, "*\\/");
+  return summary ? `/**\n * ${summary}\n */\n` : "";
+}
+
+async function main() {
+  const spec = parse(await readFile(SPEC_PATH, "utf8")) as { components: { schemas: Record<string, JsonSchema> } };
+  const schemas = spec.components.schemas;
+  for (const [name, correct] of Object.entries(CORRECTIONS)) {
+    if (!schemas[name]) {
+      throw new Error(`Correction for unknown schema ${name}`);
+    }
+    correct(schemas[name]!);
+  }
+
+  const declarations = sortByDependencies(schemas).map(name =>
+    `${docComment(schemas[name]!.description)}` +
+    `export const ${name}Schema = ${toZod(schemas[name]!)};\n` +
+    `export type ${name} = z.infer<typeof ${name}Schema>;\n`
+  );
+
+  const source = [
+    "// Generated by scripts/generate-api-types.ts from api.yaml. Do not edit by hand;",
+    "// run `pnpm run generate:api` after updating the spec.",
+    'import { z } from "zod";',
+    "",
+    declarations.join("\n"),
+  ].join("\n");
+
+  await writeFile(OUTPUT_PATH, source, "utf8");
+  console.log(`Wrote ${Object.keys(schemas).length} schemas to ${OUTPUT_PATH}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,15 +1,18 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { HoneycombAPI } from "./client.js";
 import { Config, Environment } from "../config.js";
-import { HoneycombError } from "../utils/errors.js";
+import { HoneycombError, ResponseValidationError } from "../utils/errors.js";
 import { Column } from "../types/column.js";
 import { initializeCache } from "../cache/index.js";
+import { RetryConfigSchema } from "./retry.js";
 
 // Mock fetch globally
 const fetchMock = vi.fn();
 // Cast to proper type to ensure TypeScript compatibility
 global.fetch = fetchMock as unknown as typeof fetch;
 
+const retryPolicy = RetryConfigSchema.parse({});
+
 describe("HoneycombAPI", () => {
   let api: HoneycombAPI;
   const testConfig: Config = {
@@ -79,6 +82,108 @@ describe("HoneycombAPI", () => {
       expect(api.hasPermission("unknown", "query")).toBe(false);
     });
     
+    it("restricts a scoped client to its allowed environments", async () => {
+      const scoped = api.withEnvironmentScope(["dev"]);
+
+      expect(scoped.getEnvironments()).toEqual(["dev"]);
+      expect(scoped.hasPermission("prod", "query")).toBe(false);
+      await expect(scoped.listDatasets("prod")).rejects.toThrow(/Unknown environment: "prod". Available environments: dev/);
+      expect(fetchMock).not.toHaveBeenCalled();
+      // The unscoped client is unaffected
+      expect(api.getEnvironments()).toEqual(["prod", "dev"]);
+    });
+
+    it("does not serve cached data outside a client's scope", async () => {
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          json: () => Promise.resolve([{ name: "secret", slug: "secret" }]),
+          headers: new Headers({})
+        })
+      );
+      await api.listDatasets("prod");
+
+      const scoped = api.withEnvironmentScope(["dev"]);
+      await expect(scoped.listDatasets("prod")).rejects.toThrow(/Unknown environment/);
+    });
+
+    it("resolves environment aliases", async () => {
+      const aliased = new HoneycombAPI({
+        ...testConfig,
+        environments: [
+          { name: "prod", apiKey: "prod-key", aliases: ["production"], defaultDataset: "api" },
+        ],
+      });
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve([]),
+        headers: new Headers({})
+      });
+
+      await aliased.listDatasets("production");
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://api.honeycomb.io/1/datasets",
+        expect.objectContaining({
+          headers: expect.objectContaining({ "X-Honeycomb-Team": "prod-key" }),
+        }),
+      );
+      expect(aliased.getEnvironments()).toEqual(["prod"]);
+      expect(aliased.withEnvironmentScope(["production"]).getEnvironments()).toEqual(["prod"]);
+    });
+
+    it("returns the configured default dataset", () => {
+      const withDefault = new HoneycombAPI({
+        ...testConfig,
+        environments: [{ name: "prod", apiKey: "prod-key", defaultDataset: "api" }],
+      });
+
+      expect(withDefault.getDefaultDataset("prod")).toBe("api");
+      expect(() => api.getDefaultDataset("prod")).toThrow(/no default dataset is configured/);
+    });
+
+    it("reloads environments and invalidates their cached data", async () => {
+      fetchMock.mockImplementation(() =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          json: () => Promise.resolve([{ name: "ds", slug: "ds" }]),
+          headers: new Headers({})
+        })
+      );
+      await api.listDatasets("prod");
+      await api.listDatasets("dev");
+      const scoped = api.withEnvironmentScope(["prod", "staging"]);
+
+      const summary = api.reloadConfig({
+        ...testConfig,
+        environments: [
+          { ...testConfig.environments[0]!, apiKey: "rotated-key" },
+          { name: "staging", apiKey: "staging-key" },
+        ],
+      });
+
+      expect(summary).toEqual({ added: ["staging"], removed: ["dev"], updated: ["prod"] });
+      expect(scoped.getEnvironments()).toEqual(["prod", "staging"]);
+      await expect(api.listDatasets("dev")).rejects.toThrow(/Unknown environment/);
+
+      fetchMock.mockClear();
+      await scoped.listDatasets("prod");
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://api.honeycomb.io/1/datasets",
+        expect.objectContaining({
+          headers: expect.objectContaining({ "X-Honeycomb-Team": "rotated-key" }),
+        }),
+      );
+    });
+
+    it("returns the same client for a wildcard scope", () => {
+      expect(api.withEnvironmentScope(["*"])).toBe(api);
+    });
+    
     it("gets team slug from environment", async () => {
       const slug = await api.getTeamSlug("prod");
       expect(slug).toBe("test-team");
@@ -246,7 +351,11 @@ describe("HoneycombAPI", () => {
             ok: true,
             status: 200,
             statusText: "OK",
-            json: () => Promise.resolve({ complete: true, data: { results: [] } }),
+            json: () => Promise.resolve({
+              id: "result-id",
+              complete: true,
+              data: { results: [{ data: { COUNT: 5 } }] },
+            }),
             headers: new Headers({})
           })
         );
@@ -255,10 +364,11 @@ describe("HoneycombAPI", () => {
         calculations: [{ op: "COUNT" }],
       });
 
-      expect(result).toEqual({ complete: true, data: { results: [] } });
+      // Result rows arrive wrapped in { data } and are flattened
+      expect(result).toEqual({ id: "result-id", complete: true, data: { results: [{ COUNT: 5 }] } });
     });
 
-    it("times out after max attempts", async () => {
+    it("times out when the query deadline passes", async () => {
       // Mock sequence: create query -> create result -> incomplete results
       fetchMock
         .mockImplementationOnce(() => 
@@ -290,8 +400,162 @@ describe("HoneycombAPI", () => {
         );
 
       await expect(
-        api.queryAndWaitForResults("prod", "dataset", { calculations: [{ op: "COUNT" }] }, 2)
-      ).rejects.toThrow(/timed out/);
+        api.queryAndWaitForResults("prod", "dataset", { calculations: [{ op: "COUNT" }] }, { queryTimeoutMs: 300 })
+      ).rejects.toThrow(/Query timed out waiting for results/);
+    });
+
+    it("reports progress while polling", async () => {
+      fetchMock
+        .mockImplementationOnce(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            statusText: "OK",
+            json: () => Promise.resolve({ id: "query-id" }),
+            headers: new Headers({})
+          })
+        )
+        .mockImplementationOnce(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            statusText: "OK",
+            json: () => Promise.resolve({ id: "result-id" }),
+            headers: new Headers({})
+          })
+        )
+        .mockImplementationOnce(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            statusText: "OK",
+            json: () => Promise.resolve({ complete: false }),
+            headers: new Headers({})
+          })
+        )
+        .mockImplementationOnce(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            statusText: "OK",
+            json: () => Promise.resolve({ complete: true, data: { results: [] } }),
+            headers: new Headers({})
+          })
+        );
+      const onProgress = vi.fn();
+
+      const result = await api.queryAndWaitForResults(
+        "prod", "dataset", { calculations: [{ op: "COUNT" }] }, { onProgress, queryTimeoutMs: 5000 }
+      );
+
+      expect(result.complete).toBe(true);
+      expect(onProgress).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenCalledWith({ polls: 1, elapsedMs: expect.any(Number), timeoutMs: 5000 });
+    });
+
+    it("stops polling when the caller aborts", async () => {
+      fetchMock
+        .mockImplementationOnce(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            statusText: "OK",
+            json: () => Promise.resolve({ id: "query-id" }),
+            headers: new Headers({})
+          })
+        )
+        .mockImplementationOnce(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            statusText: "OK",
+            json: () => Promise.resolve({ id: "result-id" }),
+            headers: new Headers({})
+          })
+        )
+        .mockImplementation(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            statusText: "OK",
+            json: () => Promise.resolve({ complete: false }),
+            headers: new Headers({})
+          })
+        );
+      const controller = new AbortController();
+
+      const pending = api.queryAndWaitForResults(
+        "prod", "dataset", { calculations: [{ op: "COUNT" }] }, { signal: controller.signal }
+      );
+      setTimeout(() => controller.abort(new Error("cancelled by client")), 50);
+
+      await expect(pending).rejects.toThrow("cancelled by client");
+      // create query, create result, first poll
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("accepts null and HEATMAP values in result rows", async () => {
+      const heatmap = { buckets: [{ lower: 0, upper: 100, count: 3 }] };
+      fetchMock.mockImplementation(() =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          json: () => Promise.resolve({
+            id: "result-id",
+            complete: true,
+            data: {
+              results: [
+                { data: { "service.name": "api", COUNT: 5, "HEATMAP(duration_ms)": heatmap } },
+                { data: { "service.name": null, COUNT: 2, "AVG(duration_ms)": null } },
+              ],
+              series: [{ time: "2024-01-01T00:00:00Z", data: { "service.name": null, COUNT: 2 } }],
+            },
+          }),
+          headers: new Headers({})
+        })
+      );
+
+      const result = await api.getQueryResults("prod", "dataset", "result-id", true);
+
+      expect(result.data?.results).toEqual([
+        { "service.name": "api", COUNT: 5, "HEATMAP(duration_ms)": heatmap },
+        { "service.name": null, COUNT: 2, "AVG(duration_ms)": null },
+      ]);
+      expect(result.data?.series).toEqual([{ time: "2024-01-01T00:00:00Z", "service.name": null, COUNT: 2 }]);
+    });
+
+    it("rewrites query links to the environment's regional UI", async () => {
+      const euApi = new HoneycombAPI({
+        ...testConfig,
+        environments: [
+          { name: "eu", apiKey: "eu-key", apiEndpoint: "https://api.eu1.honeycomb.io" },
+        ],
+      });
+      fetchMock.mockImplementation(() =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          statusText: "OK",
+          json: () => Promise.resolve({
+            complete: true,
+            data: { results: [] },
+            links: { query_url: "https://ui.honeycomb.io/team/environments/eu/datasets/dataset/result/abc" },
+          }),
+          headers: new Headers({})
+        })
+      );
+
+      const result = await euApi.getQueryResults("eu", "dataset", "abc");
+
+      expect(euApi.getUiEndpoint("eu")).toBe("https://ui.eu1.honeycomb.io");
+      expect(result.links?.query_url).toBe(
+        "https://ui.eu1.honeycomb.io/team/environments/eu/datasets/dataset/result/abc"
+      );
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringMatching(/^https:\/\/api\.eu1\.honeycomb\.io\/1\/query_results\/dataset\/abc/),
+        expect.anything()
+      );
     });
   });
 
@@ -354,6 +618,138 @@ describe("HoneycombAPI", () => {
       })).rejects.toThrow(/\/1\/queries\/dataset/);
     });
 
+    it("rejects responses that do not match the API schema without retrying", async () => {
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve([{ slug: 42 }]),
+          headers: new Headers({})
+        })
+      );
+
+      const error = await api.listDatasets("prod").catch(e => e);
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error.statusCode).toBe(502);
+      expect(error.message).toContain("GET /1/datasets");
+      expect(error.message).toMatch(/0\.slug: Expected string/);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("times out requests that take too long", async () => {
+      const slowApi = new HoneycombAPI({ ...testConfig, requestTimeoutMs: 20 });
+      fetchMock.mockImplementation((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        })
+      );
+
+      const error = await slowApi.listDatasets("prod").catch(e => e);
+
+      expect(error).toBeInstanceOf(HoneycombError);
+      expect((error as HoneycombError).statusCode).toBe(408);
+      expect((error as HoneycombError).message).toMatch(/\/1\/datasets timed out after 20ms/);
+    });
+
+    it("lets a call override the configured timeout", async () => {
+      fetchMock.mockImplementation((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        })
+      );
+
+      await expect(api.getDataset("prod", "dataset", { timeoutMs: 20 })).rejects.toThrow(/timed out after 20ms/);
+    });
+
+    it("retries server errors for GET requests", async () => {
+      const retrying = new HoneycombAPI({ ...testConfig, retry: { ...retryPolicy, initialDelayMs: 1 } });
+      fetchMock
+        .mockImplementationOnce(() =>
+          Promise.resolve({
+            ok: false,
+            status: 502,
+            statusText: "Bad Gateway",
+            json: () => Promise.resolve({}),
+            headers: new Headers({})
+          })
+        )
+        .mockImplementationOnce(() =>
+          Promise.reject(new TypeError("fetch failed", { cause: Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" }) }))
+        )
+        .mockImplementationOnce(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            statusText: "OK",
+            json: () => Promise.resolve([]),
+            headers: new Headers({})
+          })
+        );
+
+      await expect(retrying.listDatasets("prod")).resolves.toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("does not retry server errors for POST requests", async () => {
+      const retrying = new HoneycombAPI({ ...testConfig, retry: { ...retryPolicy, initialDelayMs: 1 } });
+      fetchMock.mockImplementation(() =>
+        Promise.resolve({
+          ok: false,
+          status: 500,
+          statusText: "Internal Server Error",
+          json: () => Promise.resolve({}),
+          headers: new Headers({})
+        })
+      );
+
+      await expect(retrying.createQuery("prod", "dataset", { calculations: [{ op: "COUNT" }] }))
+        .rejects.toThrow(/Internal Server Error/);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops retrying once the retry budget is spent", async () => {
+      const retrying = new HoneycombAPI({
+        ...testConfig,
+        retry: { ...retryPolicy, initialDelayMs: 1, budgetMax: 1, budgetRatio: 0.1 },
+      });
+      fetchMock.mockImplementation(() =>
+        Promise.resolve({
+          ok: false,
+          status: 503,
+          statusText: "Service Unavailable",
+          json: () => Promise.resolve({}),
+          headers: new Headers({})
+        })
+      );
+
+      await expect(retrying.listDatasets("prod")).rejects.toThrow(/Service Unavailable/);
+      // The first attempt plus the single retry the budget allows
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("shares the retry budget between an environment and its aliases", async () => {
+      const retrying = new HoneycombAPI({
+        ...testConfig,
+        environments: [{ name: "prod", apiKey: "prod-key", aliases: ["production"] }],
+        retry: { ...retryPolicy, initialDelayMs: 1, budgetMax: 1, budgetRatio: 0.1 },
+      });
+      fetchMock.mockImplementation(() =>
+        Promise.resolve({
+          ok: false,
+          status: 503,
+          statusText: "Service Unavailable",
+          json: () => Promise.resolve({}),
+          headers: new Headers({})
+        })
+      );
+
+      await expect(retrying.listDatasets("production")).rejects.toThrow(/Service Unavailable/);
+      await expect(retrying.listDatasets("prod")).rejects.toThrow(/Service Unavailable/);
+      // The alias spent the only retry, so the second call gets none
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
     it("retries on rate limit errors", async () => {
       // First call fails with rate limit
       fetchMock
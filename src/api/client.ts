@@ -1,37 +1,297 @@
 import { z } from "zod";
 import {
   QueryResult,
+  QueryResultValue,
   AnalysisQuery,
   QueryCalculation,
 } from "../types/query.js";
 import { QueryToolSchema, ColumnAnalysisSchema } from "../types/schema.js";
-import { HoneycombError } from "../utils/errors.js";
+import { HoneycombError, ResponseValidationError } from "../utils/errors.js";
 import { Column } from "../types/column.js";
 import { Dataset, AuthResponse } from "../types/api.js";
 import { SLO, SLODetailedResponse } from "../types/slo.js";
 import { TriggerResponse } from "../types/trigger.js";
-import { QueryOptions } from "../types/api.js";
-import { Board, BoardsResponse } from "../types/board.js";
-import { Marker, MarkersResponse } from "../types/marker.js";
-import { Recipient, RecipientsResponse } from "../types/recipient.js";
-import { Config, Environment } from "../config.js";
-import { QueryError } from "../utils/errors.js";
+import { QueryOptions, CallOptions } from "../types/api.js";
+import { Board } from "../types/board.js";
+import { Marker } from "../types/marker.js";
+import { Recipient } from "../types/recipient.js";
+import {
+  AuthSchema,
+  BoardSchema,
+  ColumnSchema,
+  DatasetSchema,
+  MarkerSchema,
+  QueryResultDetailsSchema,
+  QueryResultDetails,
+  QueryResultSchema,
+  QuerySchema,
+  RecipientSchema,
+  SLODetailedResponseSchema,
+  SLOSchema,
+  TriggerResponseSchema,
+} from "../types/generated/honeycomb-api.js";
+import {
+  Config,
+  Environment,
+  HONEYCOMB_REGIONS,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_QUERY_TIMEOUT_MS,
+  deriveUiEndpoint,
+  permissionsFromAuth,
+} from "../config.js";
+import { QueryError, PermissionError } from "../utils/errors.js";
 import { getCache, ResourceType } from "../cache/index.js";
+import { createDeadline, sleep } from "../utils/abort.js";
+import { backoffDelay, BackoffOptions } from "../utils/backoff.js";
+import {
+  RetryConfigSchema,
+  RetryPolicy,
+  RetryBudget,
+  isIdempotentMethod,
+  parseRetryAfter,
+  planRetry,
+  recordRetry,
+} from "./retry.js";
+import { RateLimiter, RateLimitConfigSchema } from "./rate-limit.js";
+import { createDispatcher, defaultFetch, FetchLike } from "./transport.js";
+import { Dispatcher } from "undici";
+import { normalizeTimeParameters } from "../query/time.js";
+import { buildQueryBody } from "../query/request.js";
+
+// Polls start fast for quick queries and slow down for long-running ones
+const QUERY_POLL_BACKOFF: BackoffOptions = { initialDelayMs: 250, maxDelayMs: 5_000 };
+
+// A created query or query result is no use without the id the API assigns it
+const CreatedQuerySchema = QuerySchema.extend({ id: z.string() });
+const CreatedQueryResultSchema = QueryResultSchema.extend({ id: z.string() });
+
+/**
+ * Flatten a query result row from the API's { data: {...} } wrapping
+ *
+ * Series rows keep their time next to the values. Rows that are already
+ * flat are returned unchanged.
+ */
+function flattenResultRow(row: Record<string, unknown>): QueryResultValue {
+  const { data, ...rest } = row;
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    return { ...rest, ...data } as QueryResultValue;
+  }
+  return row as QueryResultValue;
+}
+
+/**
+ * Environments affected by a configuration reload
+ */
+export interface ConfigReloadSummary {
+  added: string[];
+  removed: string[];
+  updated: string[];
+}
+
+/**
+ * Result of a live health check against one environment
+ */
+export interface EnvironmentHealth {
+  name: string;
+  ok: boolean;
+  apiEndpoint: string;
+  uiEndpoint: string;
+  teamSlug?: string;
+  teamName?: string;
+  environmentSlug?: string;
+  permissions?: Record<string, boolean>;
+  latencyMs?: number;
+  // Why this check failed
+  error?: string;
+  // Why authentication failed when the configuration was loaded
+  startupError?: string;
+  // The most recent failed request to this environment
+  lastError?: { message: string; at: string };
+}
 
 export class HoneycombAPI {
   private environments: Map<string, Environment>;
-  private defaultApiEndpoint = "https://api.honeycomb.io";
+  // Maps environment aliases to their configured names
+  private aliases: Map<string, string>;
+  private defaultApiEndpoint = HONEYCOMB_REGIONS.us.apiEndpoint;
   private userAgent = "@honeycombio/honeycomb-mcp/0.0.1";
+  // Default time limit for a single HTTP request
+  private requestTimeoutMs: number;
+  // Default time limit for a query to finish, across all polls
+  private queryTimeoutMs: number;
+  private retryPolicy: RetryPolicy;
+  // Retry budget per environment, so an outage in one does not starve the others
+  private retryBudgets = new Map<string, RetryBudget>();
+  // Queues requests that would exceed the configured rate limits
+  private rateLimiter: RateLimiter;
+  // Proxy and TLS settings per environment, created on first use; undefined uses Node's defaults
+  private dispatchers = new Map<string, Dispatcher | undefined>();
+  // Environments this client may access; null means every configured environment
+  private allowedEnvironments: Set<string> | null = null;
+  // Most recent failed request per environment, reported by health checks
+  private lastErrors = new Map<string, { message: string; at: string }>();
+  // Called after each configuration reload; shared with scoped views
+  private reloadListeners = new Set<() => void>();
+  // Sends HTTP requests; defaults to the global fetch
+  private fetch: FetchLike;
   // Using the centralized cache system instead of a local Map
 
-  constructor(config: Config) {
-    this.environments = new Map(
-      config.environments.map(env => [env.name, env])
+  /**
+   * @param config - The auth-enhanced configuration
+   * @param options - Pass fetch to send requests somewhere other than the network, e.g. a FakeHoneycomb
+   */
+  constructor(config: Config, options: { fetch?: FetchLike } = {}) {
+    this.environments = HoneycombAPI.indexEnvironments(config);
+    this.aliases = HoneycombAPI.indexAliases(config);
+    this.requestTimeoutMs = config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.queryTimeoutMs = config.queryTimeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+    this.retryPolicy = RetryConfigSchema.parse(config.retry ?? {});
+    this.rateLimiter = new RateLimiter(RateLimitConfigSchema.parse(config.rateLimit ?? {}));
+    this.fetch = options.fetch ?? defaultFetch;
+  }
+
+  private static indexEnvironments(config: Config): Map<string, Environment> {
+    return new Map(config.environments.map(env => [env.name, env]));
+  }
+
+  private static indexAliases(config: Config): Map<string, string> {
+    return new Map(
+      config.environments.flatMap(env => (env.aliases || []).map(alias => [alias, env.name] as [string, string]))
     );
   }
 
+  /**
+   * Replace the configured environments with a freshly loaded configuration
+   *
+   * Cached data for environments that were removed or whose settings changed
+   * is invalidated. Scoped views created with withEnvironmentScope share this
+   * client's state, so they see the new environments immediately.
+   *
+   * @param config - The new, auth-enhanced configuration
+   * @returns The names of added, removed, and updated environments
+   */
+  reloadConfig(config: Config): ConfigReloadSummary {
+    const previous = this.environments;
+    const next = HoneycombAPI.indexEnvironments(config);
+    const summary: ConfigReloadSummary = { added: [], removed: [], updated: [] };
+
+    for (const [name, env] of next) {
+      const old = previous.get(name);
+      if (!old) {
+        summary.added.push(name);
+      } else if (JSON.stringify(old) !== JSON.stringify(env)) {
+        summary.updated.push(name);
+      }
+    }
+    for (const name of previous.keys()) {
+      if (!next.has(name)) {
+        summary.removed.push(name);
+      }
+    }
+
+    this.environments = next;
+    this.aliases = HoneycombAPI.indexAliases(config);
+    this.requestTimeoutMs = config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.queryTimeoutMs = config.queryTimeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+    this.retryPolicy = RetryConfigSchema.parse(config.retry ?? {});
+    // The limiter keeps its buckets, so a reload doesn't reset what was already sent
+    this.rateLimiter.configure(RateLimitConfigSchema.parse(config.rateLimit ?? {}));
+    // Budgets follow the new policy
+    this.retryBudgets.clear();
+    // Connections are reopened with the new proxy and TLS settings; open requests finish first
+    for (const dispatcher of this.dispatchers.values()) {
+      dispatcher?.close().catch(() => {});
+    }
+    this.dispatchers.clear();
+
+    const cache = getCache();
+    for (const name of [...summary.removed, ...summary.updated]) {
+      cache.clearEnvironment(name);
+      this.lastErrors.delete(name);
+    }
+
+    for (const listener of this.reloadListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error("Configuration reload listener failed:", error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Call a listener after every configuration reload, e.g. to recheck
+   * environments and permissions
+   *
+   * @returns A function that removes the listener
+   */
+  onReload(listener: () => void): () => void {
+    this.reloadListeners.add(listener);
+    return () => {
+      this.reloadListeners.delete(listener);
+    };
+  }
+
   getEnvironments(): string[] {
-    return Array.from(this.environments.keys());
+    return Array.from(this.environments.keys()).filter(name => this.isEnvironmentAllowed(name));
+  }
+
+  /**
+   * Create a view of this client restricted to a subset of environments
+   *
+   * The scoped client shares environments, cache, and all other state with
+   * this client; it only hides environments outside the allow-list. Calls
+   * for a hidden environment fail exactly like calls for an unknown one.
+   *
+   * @param allowedEnvironments - Environment names the view may access ("*" for all)
+   * @returns A scoped client
+   */
+  withEnvironmentScope(allowedEnvironments: string[]): HoneycombAPI {
+    if (allowedEnvironments.includes("*")) {
+      return this;
+    }
+    const scoped: HoneycombAPI = Object.create(this);
+    scoped.allowedEnvironments = new Set(allowedEnvironments.map(name => this.aliases.get(name) ?? name));
+    return scoped;
+  }
+
+  /**
+   * Whether this client is restricted to a subset of environments
+   */
+  isScoped(): boolean {
+    return this.allowedEnvironments !== null;
+  }
+
+  /**
+   * Whether an environment, by name or alias, is configured and within this client's scope
+   */
+  hasEnvironment(environment: string): boolean {
+    const name = this.aliases.get(environment) ?? environment;
+    return this.environments.has(name) && this.isEnvironmentAllowed(name);
+  }
+
+  private isEnvironmentAllowed(environment: string): boolean {
+    return this.allowedEnvironments === null || this.allowedEnvironments.has(environment);
+  }
+
+  /**
+   * Look up a configured environment, by name or alias, that this client is allowed to access
+   *
+   * @throws Error if the environment is unknown or outside this client's scope
+   */
+  private getEnvironment(environment: string): Environment {
+    const name = this.aliases.get(environment) ?? environment;
+    const env = this.isEnvironmentAllowed(name)
+      ? this.environments.get(name)
+      : undefined;
+    if (!env) {
+      throw new Error(
+        `Unknown environment: "${environment}". Available environments: ${this.getEnvironments().join(", ")}`
+      );
+    }
+    return env;
   }
   
   /**
@@ -42,21 +302,74 @@ export class HoneycombAPI {
    * @returns True if the environment has the permission, false otherwise
    */
   hasPermission(environment: string, permission: string): boolean {
-    const env = this.environments.get(environment);
+    const name = this.aliases.get(environment) ?? environment;
+    const env = this.isEnvironmentAllowed(name)
+      ? this.environments.get(name)
+      : undefined;
     if (!env) {
       return false;
     }
     return env.permissions?.[permission] === true;
   }
 
+  /**
+   * Check whether an environment's API key is known to lack a permission
+   *
+   * Unlike hasPermission, this returns false when the key's permissions are
+   * unknown (for example because authentication failed at startup), so that
+   * the API rather than this client decides in that case.
+   *
+   * @param environment - The environment name or alias
+   * @param permission - The api_key_access permission to check
+   * @returns True only if the key's permissions are known and exclude this one
+   */
+  isPermissionDenied(environment: string, permission: string): boolean {
+    const env = this.getEnvironment(environment);
+    return env.permissions !== undefined && env.permissions[permission] !== true;
+  }
+
+  /**
+   * Ensure an environment's API key may use a permission before making a request
+   *
+   * @throws PermissionError if the key is known to lack the permission
+   */
+  requirePermission(environment: string, permission: string): void {
+    if (this.isPermissionDenied(environment, permission)) {
+      throw new PermissionError(this.getEnvironment(environment).name, permission);
+    }
+  }
+
+  /**
+   * Get the configured default dataset for an environment
+   * 
+   * Tools fall back to this when the caller does not name a dataset.
+   * 
+   * @param environment - The environment name or alias
+   * @returns The environment's default dataset
+   * @throws Error if the environment has no default dataset
+   */
+  getDefaultDataset(environment: string): string {
+    const env = this.getEnvironment(environment);
+    if (!env.defaultDataset) {
+      throw new Error(
+        `Missing required parameter: dataset (no default dataset is configured for environment "${env.name}")`
+      );
+    }
+    return env.defaultDataset;
+  }
+
   /**
    * Get authentication information for an environment
    * 
    * @param environment - The environment name
+   * @param options - Cancellation signal and timeout for the request
    * @returns Auth response with team and environment details
    */
-  async getAuthInfo(environment: string): Promise<AuthResponse> {
-    // Get cache instance
+  async getAuthInfo(environment: string, options: CallOptions = {}): Promise<AuthResponse> {
+    // Resolve the environment (and any alias) before touching the shared cache so
+    // cached data is never served outside this client's scope and aliases share
+    // cache entries with their environment (same in the methods below)
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     
     // Check cache first
@@ -66,7 +379,7 @@ export class HoneycombAPI {
     }
     
     try {
-      const authInfo = await this.requestWithRetry<AuthResponse>(environment, "/1/auth");
+      const authInfo = await this.requestWithRetry(environment, "/1/auth", { ...options, schema: AuthSchema });
       
       // Cache the result
       cache.set<AuthResponse>(environment, 'auth', authInfo);
@@ -77,7 +390,7 @@ export class HoneycombAPI {
         env.teamSlug = authInfo.team?.slug;
         env.teamName = authInfo.team?.name;
         env.environmentSlug = authInfo.environment?.slug;
-        env.permissions = authInfo.api_key_access;
+        env.permissions = permissionsFromAuth(authInfo);
         this.environments.set(environment, env);
       }
       
@@ -91,17 +404,18 @@ export class HoneycombAPI {
    * Get the team slug for an environment
    * 
    * @param environment - The environment name
+   * @param options - Cancellation signal and timeout for the request
    * @returns The team slug
    */
-  async getTeamSlug(environment: string): Promise<string> {
+  async getTeamSlug(environment: string, options: CallOptions = {}): Promise<string> {
     // First check if we already have the team slug in the environment
-    const env = this.environments.get(environment);
-    if (env?.teamSlug) {
+    const env = this.getEnvironment(environment);
+    if (env.teamSlug) {
       return env.teamSlug;
     }
     
     // Fall back to auth info
-    const authInfo = await this.getAuthInfo(environment);
+    const authInfo = await this.getAuthInfo(environment, options);
     
     if (!authInfo.team?.slug) {
       throw new Error(`No team slug found for environment: ${environment}`);
@@ -110,37 +424,145 @@ export class HoneycombAPI {
     return authInfo.team.slug;
   }
 
-  private getApiKey(environment: string): string {
-    const env = this.environments.get(environment);
-    if (!env) {
-      throw new Error(
-        `Unknown environment: "${environment}". Available environments: ${Array.from(this.environments.keys()).join(", ")}`
+  /**
+   * Check that an environment is reachable and its API key is valid
+   *
+   * Always calls /1/auth, bypassing the cache, and refreshes the
+   * environment's team and permission details on success.
+   *
+   * @param environment - The environment name or alias
+   * @param options - Cancellation signal and timeout for the request
+   * @returns The health of the environment; failures are reported, not thrown
+   */
+  async checkEnvironment(environment: string, options: CallOptions = {}): Promise<EnvironmentHealth> {
+    const env = this.getEnvironment(environment);
+    const health: EnvironmentHealth = {
+      name: env.name,
+      ok: false,
+      apiEndpoint: this.getApiEndpoint(env.name),
+      uiEndpoint: this.getUiEndpoint(env.name),
+      startupError: env.authError,
+    };
+
+    const started = performance.now();
+    try {
+      const authInfo = this.validateResponse(
+        env.name, "GET", "/1/auth", AuthSchema, await this.request<unknown>(env.name, "/1/auth", options)
       );
+      health.latencyMs = Math.round(performance.now() - started);
+      getCache().set<AuthResponse>(env.name, 'auth', authInfo);
+
+      env.teamSlug = authInfo.team?.slug;
+      env.teamName = authInfo.team?.name;
+      env.environmentSlug = authInfo.environment?.slug;
+      env.permissions = permissionsFromAuth(authInfo);
+      env.authError = undefined;
+
+      health.ok = true;
+    } catch (error) {
+      health.latencyMs = Math.round(performance.now() - started);
+      health.error = error instanceof Error ? error.message : String(error);
+      this.recordError(env.name, error);
     }
-    return env.apiKey;
+
+    return {
+      ...health,
+      teamSlug: env.teamSlug,
+      teamName: env.teamName,
+      environmentSlug: env.environmentSlug,
+      permissions: env.permissions,
+      lastError: this.lastErrors.get(env.name),
+    };
+  }
+
+  /**
+   * Remember a failed request so health checks can report it
+   */
+  private recordError(environment: string, error: unknown): void {
+    const name = this.aliases.get(environment) ?? environment;
+    if (this.environments.has(name) && this.isEnvironmentAllowed(name)) {
+      this.lastErrors.set(name, {
+        message: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  private getApiKey(environment: string): string {
+    return this.getEnvironment(environment).apiKey;
   }
 
   private getApiEndpoint(environment: string): string {
-    const env = this.environments.get(environment);
-    if (!env) {
-      throw new Error(
-        `Unknown environment: "${environment}". Available environments: ${Array.from(this.environments.keys()).join(", ")}`
-      );
+    return this.getEnvironment(environment).apiEndpoint || this.defaultApiEndpoint;
+  }
+
+  /**
+   * Get the base URL of the Honeycomb UI for an environment's region
+   */
+  getUiEndpoint(environment: string): string {
+    const env = this.getEnvironment(environment);
+    return env.uiEndpoint || deriveUiEndpoint(env.apiEndpoint || this.defaultApiEndpoint);
+  }
+
+  /**
+   * Build a Honeycomb UI link that opens a query without running it first
+   *
+   * Uses Honeycomb's query template links, which carry the query itself in
+   * the URL. Looks up the team slug, from the cache when it can.
+   */
+  async getQueryTemplateUrl(
+    environment: string,
+    datasetSlug: string,
+    query: AnalysisQuery,
+    options: CallOptions = {},
+  ): Promise<string> {
+    const teamSlug = await this.getTeamSlug(environment, options);
+    const env = this.getEnvironment(environment);
+    const path = `${teamSlug}/environments/${env.environmentSlug || env.name}/datasets/${datasetSlug}`;
+    return `${this.getUiEndpoint(environment)}/${path}?query=${encodeURIComponent(JSON.stringify(query))}`;
+  }
+
+  /**
+   * Point a Honeycomb UI link at the environment's UI host
+   *
+   * Links on a known Honeycomb UI host are moved to the environment's UI
+   * endpoint; any other URL is returned unchanged.
+   */
+  private rewriteUiUrl(environment: string, link: string | undefined): string | undefined {
+    if (!link) {
+      return link;
+    }
+    try {
+      const url = new URL(link);
+      const knownUiHosts = Object.values(HONEYCOMB_REGIONS).map(region => new URL(region.uiEndpoint).host);
+      if (!knownUiHosts.includes(url.host)) {
+        return link;
+      }
+      const uiEndpoint = new URL(this.getUiEndpoint(environment));
+      url.protocol = uiEndpoint.protocol;
+      url.host = uiEndpoint.host;
+      return url.toString();
+    } catch {
+      return link;
     }
-    return env.apiEndpoint || this.defaultApiEndpoint;
   }
 
   /**
    * Makes a raw request to the Honeycomb API
+   *
+   * The request first waits for the environment's rate limiter. Once sent,
+   * it is aborted when the caller's signal fires or the timeout elapses,
+   * including while the response body is being read. Time spent waiting for
+   * the rate limiter does not count towards the timeout.
    */
   private async request<T>(
     environment: string,
     path: string,
-    options: RequestInit & { params?: Record<string, any> } = {},
+    options: RequestInit & { params?: Record<string, any>; timeoutMs?: number } = {},
   ): Promise<T> {
     const apiKey = this.getApiKey(environment);
     const apiEndpoint = this.getApiEndpoint(environment);
-    const { params, ...requestOptions } = options;
+    const { params, timeoutMs = this.requestTimeoutMs, signal, ...requestOptions } = options;
 
     let url = `${apiEndpoint}${path}`;
     if (params) {
@@ -153,15 +575,49 @@ export class HoneycombAPI {
       url += `?${searchParams.toString()}`;
     }
 
-    const response = await fetch(url, {
-      ...requestOptions,
-      headers: {
-        "X-Honeycomb-Team": apiKey,
-        "Content-Type": "application/json",
-        "User-Agent": this.userAgent,
-        ...options.headers,
-      },
-    });
+    await this.rateLimiter.acquire(this.getEnvironment(environment).name, path, signal ?? undefined);
+
+    const deadline = createDeadline(timeoutMs, signal ?? undefined);
+    try {
+      return await this.send<T>(url, {
+        ...requestOptions,
+        signal: deadline.signal,
+        dispatcher: this.getDispatcher(environment),
+        headers: {
+          "X-Honeycomb-Team": apiKey,
+          "Content-Type": "application/json",
+          "User-Agent": this.userAgent,
+          ...options.headers,
+        },
+      });
+    } catch (error) {
+      if (deadline.timedOut()) {
+        throw new HoneycombError(408, `Request to ${path} timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      deadline.clear();
+    }
+  }
+
+  /**
+   * Get the proxy and TLS settings for an environment's requests
+   *
+   * @throws Error if a configured certificate or key file cannot be read
+   */
+  private getDispatcher(environment: string): Dispatcher | undefined {
+    const env = this.getEnvironment(environment);
+    if (!this.dispatchers.has(env.name)) {
+      this.dispatchers.set(env.name, createDispatcher(env));
+    }
+    return this.dispatchers.get(env.name);
+  }
+
+  /**
+   * Send a request and turn error responses into HoneycombErrors
+   */
+  private async send<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await this.fetch(url, init);
 
     // Parse rate limit headers if present
     const rateLimit = response.headers.get('RateLimit');
@@ -176,7 +632,9 @@ export class HoneycombAPI {
       if (rateLimit) {
         errorMessage += `. ${rateLimit}`;
       }
-      throw new HoneycombError(429, errorMessage);
+      const error = new HoneycombError(429, errorMessage);
+      error.retryAfterMs = parseRetryAfter(retryAfter);
+      throw error;
     }
 
     if (!response.ok) {
@@ -198,10 +656,13 @@ export class HoneycombAPI {
         errorMessage += ` (Rate limit: ${rateLimit})`;
       }
 
-      throw new HoneycombError(
+      const error = new HoneycombError(
         response.status,
         `Honeycomb API error: ${errorMessage}`,
       );
+      // 503 responses may also say when to come back
+      error.retryAfterMs = parseRetryAfter(retryAfter);
+      throw error;
     }
 
     // Parse the response as JSON and validate it before returning
@@ -210,44 +671,100 @@ export class HoneycombAPI {
   }
 
   /**
-   * Makes a request to the Honeycomb API with automatic retries for rate limits
+   * Makes a request to the Honeycomb API, retrying transient failures
+   *
+   * Follows the retry policy: rate limits are always retried, honouring
+   * Retry-After; server errors and network errors only for idempotent
+   * requests. Each retry is spent from the environment's retry budget and
+   * recorded for the calling tool's result metadata.
+   *
+   * With a schema, the response is validated once it arrives; responses
+   * that do not match are not retried.
+   *
+   * @throws ResponseValidationError if the response does not match the schema
    */
   private async requestWithRetry<T>(
     environment: string,
     path: string,
     options: RequestInit & { 
       params?: Record<string, any>;
-      maxRetries?: number;
+      timeoutMs?: number;
+      // Whether the request may be repeated safely; defaults to true for GET, PUT and DELETE
+      idempotent?: boolean;
+      // Shape the response must have, from api.yaml
+      schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
     } = {},
   ): Promise<T> {
-    const maxRetries = options.maxRetries ?? 3;
-    let lastError: Error | null = null;
+    const { idempotent = isIdempotentMethod(options.method), schema, ...requestOptions } = options;
+    // Aliases share their environment's retry budget
+    environment = this.getEnvironment(environment).name;
+    const budget = this.getRetryBudget(environment);
+    budget.recordRequest();
 
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
+    for (let attempt = 0; ; attempt++) {
+      let data: unknown;
       try {
-        return await this.request<T>(environment, path, options);
+        data = await this.request<unknown>(environment, path, requestOptions);
       } catch (error) {
-        lastError = error as Error;
-        
-        // Only retry on rate limit errors
-        if (error instanceof HoneycombError && error.statusCode === 429) {
-          const retryDelay = Math.pow(2, attempt) * 1000; // Exponential backoff
-          console.warn(`Rate limited, retrying in ${retryDelay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
-          continue;
+        const retry = options.signal?.aborted
+          ? undefined
+          : planRetry(error, attempt, this.retryPolicy, idempotent);
+        if (!retry || !budget.tryWithdraw()) {
+          if (retry) {
+            console.error(`Retry budget for environment ${environment} is used up, not retrying ${path}`);
+          }
+          this.recordError(environment, error);
+          throw error;
         }
-        
-        // For other errors, throw immediately
-        throw error;
+
+        console.error(`Request to ${path} failed: ${retry.reason}, retrying in ${retry.delayMs}ms...`);
+        recordRetry({ environment, path, attempt: attempt + 1, ...retry });
+        await sleep(retry.delayMs, options.signal ?? undefined);
+        continue;
       }
+      return schema ? this.validateResponse(environment, options.method ?? "GET", path, schema, data) : data as T;
     }
+  }
 
-    // If we get here, we've exhausted our retries
-    throw lastError || new Error('Maximum retries exceeded');
+  /**
+   * Check a response against its schema from api.yaml
+   *
+   * Properties the schema does not know about are kept, so responses with
+   * fields added after the spec was written still pass.
+   *
+   * @throws ResponseValidationError listing where the response differs
+   */
+  private validateResponse<T>(
+    environment: string,
+    method: string,
+    path: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    data: unknown,
+  ): T {
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return result.data;
+    }
+    const error = new ResponseValidationError(method.toUpperCase(), path.split("?")[0]!, result.error.issues);
+    this.recordError(environment, error);
+    throw error;
+  }
+
+  /**
+   * Get the retry budget of an environment, creating it on first use
+   */
+  private getRetryBudget(environment: string): RetryBudget {
+    let budget = this.retryBudgets.get(environment);
+    if (!budget) {
+      budget = new RetryBudget(this.retryPolicy.budgetRatio, this.retryPolicy.budgetMax);
+      this.retryBudgets.set(environment, budget);
+    }
+    return budget;
   }
 
   // Dataset methods
-  async getDataset(environment: string, datasetSlug: string): Promise<Dataset> {
+  async getDataset(environment: string, datasetSlug: string, options: CallOptions = {}): Promise<Dataset> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     
     // Check cache first
@@ -259,7 +776,8 @@ export class HoneycombAPI {
     // Fetch from API if not in cache
     const dataset = await this.requestWithRetry<Dataset>(
       environment, 
-      `/1/datasets/${datasetSlug}`
+      `/1/datasets/${datasetSlug}`,
+      { ...options, schema: DatasetSchema }
     );
     
     // Cache the result
@@ -268,7 +786,8 @@ export class HoneycombAPI {
     return dataset;
   }
 
-  async listDatasets(environment: string): Promise<Dataset[]> {
+  async listDatasets(environment: string, options: CallOptions = {}): Promise<Dataset[]> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     
     // Check cache first
@@ -280,7 +799,8 @@ export class HoneycombAPI {
     // Fetch from API if not in cache
     const datasets = await this.requestWithRetry<Dataset[]>(
       environment, 
-      "/1/datasets"
+      "/1/datasets",
+      { ...options, schema: z.array(DatasetSchema) }
     );
     
     // Cache the result
@@ -294,11 +814,14 @@ export class HoneycombAPI {
     environment: string,
     datasetSlug: string,
     query: AnalysisQuery,
+    options: CallOptions = {},
   ): Promise<{ id: string }> {
-    return this.requestWithRetry<{ id: string }>(
+    return this.requestWithRetry(
       environment,
       `/1/queries/${datasetSlug}`,
       {
+        ...options,
+        schema: CreatedQuerySchema,
         method: "POST",
         body: JSON.stringify(query),
       },
@@ -309,11 +832,14 @@ export class HoneycombAPI {
     environment: string,
     datasetSlug: string,
     queryId: string,
+    options: CallOptions = {},
   ): Promise<{ id: string }> {
-    return this.requestWithRetry<{ id: string }>(
+    return this.requestWithRetry(
       environment,
       `/1/query_results/${datasetSlug}`,
       {
+        ...options,
+        schema: CreatedQueryResultSchema,
         method: "POST",
         body: JSON.stringify({ query_id: queryId }),
       },
@@ -325,33 +851,55 @@ export class HoneycombAPI {
     datasetSlug: string,
     queryResultId: string,
     includeSeries: boolean = false,
+    options: CallOptions = {},
   ): Promise<QueryResult> {
-    const response = await this.requestWithRetry<QueryResult>(
+    const response: QueryResultDetails = await this.requestWithRetry(
       environment,
       `/1/query_results/${datasetSlug}/${queryResultId}`,
       {
+        ...options,
+        schema: QueryResultDetailsSchema,
         params: {
           include_series: includeSeries,
         },
       },
     );
 
-    if (!includeSeries && response.data) {
-      const { series, ...rest } = response.data;
-      response.data = rest;
+    const result: QueryResult = {
+      id: response.id ?? queryResultId,
+      complete: response.complete ?? false,
+    };
+    if (response.data) {
+      result.data = { results: response.data.results?.map(flattenResultRow) };
+      if (includeSeries) {
+        result.data.series = response.data.series?.map(flattenResultRow);
+      }
+    }
+    if (response.links) {
+      result.links = { ...response.links, query_url: this.rewriteUiUrl(environment, response.links.query_url) };
     }
 
-    return response;
+    return result;
   }
 
+  /**
+   * Run a query and poll until its results are complete
+   *
+   * Polls back off exponentially with jitter. The query fails with a 408
+   * error if it has not finished within the query timeout.
+   *
+   * @throws HoneycombError with status 408 if the query timeout elapses
+   */
   async queryAndWaitForResults(
     environment: string,
     datasetSlug: string,
     query: AnalysisQuery,
-    maxAttempts = 10,
     options: QueryOptions = {},
   ): Promise<QueryResult> {
     const defaultLimit = 100;
+    const callOptions: CallOptions = { signal: options.signal, timeoutMs: options.timeoutMs };
+    const queryTimeoutMs = options.queryTimeoutMs ?? this.queryTimeoutMs;
+    const startedAt = Date.now();
     const queryWithLimit = {
       ...query,
       limit: query.limit || options.limit || defaultLimit,
@@ -360,6 +908,7 @@ export class HoneycombAPI {
       environment,
       datasetSlug,
       queryWithLimit,
+      callOptions,
     );
     const queryId = queryResponse.id;
 
@@ -367,31 +916,48 @@ export class HoneycombAPI {
       environment,
       datasetSlug,
       queryId,
+      callOptions,
     );
     const queryResultId = queryResult.id;
 
-    let attempts = 0;
-    while (attempts < maxAttempts) {
+    for (let polls = 1; ; polls++) {
       const results = await this.getQueryResults(
         environment,
         datasetSlug,
         queryResultId,
         options.includeSeries,
+        callOptions,
       );
       if (results.complete) {
         return results;
       }
-      attempts++;
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const elapsedMs = Date.now() - startedAt;
+      const remainingMs = queryTimeoutMs - elapsedMs;
+      if (remainingMs <= 0) {
+        throw new HoneycombError(
+          408,
+          `Query timed out waiting for results after ${Math.round(elapsedMs / 1000)}s`,
+          [
+            "Narrow the time range or add filters to make the query cheaper",
+            "Raise HONEYCOMB_QUERY_TIMEOUT_MS (or queryTimeoutMs in the config file) for slow datasets",
+          ],
+        );
+      }
+      options.onProgress?.({ polls, elapsedMs, timeoutMs: queryTimeoutMs });
+
+      // Always poll once more at the deadline rather than giving up early
+      await sleep(Math.min(backoffDelay(polls - 1, QUERY_POLL_BACKOFF), remainingMs), options.signal);
     }
-    throw new Error("Query timed out waiting for results");
   }
 
   // Column methods
   async getColumns(
     environment: string,
     datasetSlug: string,
+    options: CallOptions = {},
   ): Promise<Column[]> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     const cacheKey = `${datasetSlug}:all`;
     
@@ -404,7 +970,8 @@ export class HoneycombAPI {
     // Fetch from API if not in cache
     const columns = await this.requestWithRetry<Column[]>(
       environment, 
-      `/1/columns/${datasetSlug}`
+      `/1/columns/${datasetSlug}`,
+      { ...options, schema: z.array(ColumnSchema) }
     );
     
     // Cache the result
@@ -417,7 +984,9 @@ export class HoneycombAPI {
     environment: string,
     datasetSlug: string,
     keyName: string,
+    options: CallOptions = {},
   ): Promise<Column> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     const cacheKey = `${datasetSlug}:${keyName}`;
     
@@ -431,6 +1000,7 @@ export class HoneycombAPI {
     const column = await this.requestWithRetry<Column>(
       environment,
       `/1/columns/${datasetSlug}?key_name=${encodeURIComponent(keyName)}`,
+      { ...options, schema: ColumnSchema },
     );
     
     // Cache the result
@@ -442,8 +1012,9 @@ export class HoneycombAPI {
   async getVisibleColumns(
     environment: string,
     datasetSlug: string,
+    options: CallOptions = {},
   ): Promise<Column[]> {
-    const columns = await this.getColumns(environment, datasetSlug);
+    const columns = await this.getColumns(environment, datasetSlug, options);
     return columns.filter((column) => !column.hidden);
   }
 
@@ -451,30 +1022,14 @@ export class HoneycombAPI {
     environment: string,
     datasetSlug: string,
     params: z.infer<typeof QueryToolSchema>,
+    options: QueryOptions = {},
   ) {
     try {
-      const defaultLimit = 100;
-      
-      // Remove both environment and dataset fields from query params
-      const { environment: _, dataset: __, ...queryParams } = params;
-      
-      const queryWithLimit = {
-        ...queryParams,
-        limit: queryParams.limit || defaultLimit,
-      };
-
-      // Cleanup: Remove undefined parameters to avoid API validation errors
-      Object.keys(queryWithLimit).forEach(key => {
-        const typedKey = key as keyof typeof queryWithLimit;
-        if (queryWithLimit[typedKey] === undefined) {
-          delete queryWithLimit[typedKey];
-        }
-      });
-
       const results = await this.queryAndWaitForResults(
         environment,
         datasetSlug,
-        queryWithLimit,
+        buildQueryBody(params),
+        options,
       );
       
       return {
@@ -514,18 +1069,25 @@ export class HoneycombAPI {
     environment: string,
     datasetSlug: string,
     params: z.infer<typeof ColumnAnalysisSchema>,
+    options: QueryOptions = {},
   ) {
     // Get column information for each requested column
     const columnPromises = params.columns.map(columnName => 
-      this.getColumnByName(environment, datasetSlug, columnName)
+      this.getColumnByName(environment, datasetSlug, columnName, options)
     );
     
     const columns = await Promise.all(columnPromises);
     
+    const time = normalizeTimeParameters({
+      time_range: params.timeRange,
+      start_time: params.startTime,
+      end_time: params.endTime,
+    });
     const query: AnalysisQuery = {
       calculations: [{ op: "COUNT" }],
       breakdowns: [...params.columns],
-      time_range: params.timeRange || 3600,
+      // The last hour unless the caller picked a window
+      ...(Object.keys(time).length > 0 ? time : { time_range: 3600 }),
       limit: 10,
     };
     
@@ -563,6 +1125,7 @@ export class HoneycombAPI {
         environment,
         datasetSlug,
         query,
+        options,
       );
       return {
         data: {
@@ -578,7 +1141,8 @@ export class HoneycombAPI {
     }
   }
 
-  async getSLOs(environment: string, datasetSlug: string): Promise<SLO[]> {
+  async getSLOs(environment: string, datasetSlug: string, options: CallOptions = {}): Promise<SLO[]> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     const cacheKey = datasetSlug;
     
@@ -591,7 +1155,8 @@ export class HoneycombAPI {
     // Fetch from API if not in cache
     const slos = await this.requestWithRetry<SLO[]>(
       environment, 
-      `/1/slos/${datasetSlug}`
+      `/1/slos/${datasetSlug}`,
+      { ...options, schema: z.array(SLOSchema) }
     );
     
     // Cache the result
@@ -604,7 +1169,9 @@ export class HoneycombAPI {
     environment: string,
     datasetSlug: string,
     sloId: string,
+    options: CallOptions = {},
   ): Promise<SLODetailedResponse> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     const cacheKey = `${datasetSlug}:${sloId}`;
     
@@ -618,7 +1185,7 @@ export class HoneycombAPI {
     const slo = await this.requestWithRetry<SLODetailedResponse>(
       environment,
       `/1/slos/${datasetSlug}/${sloId}`,
-      { params: { detailed: true } },
+      { ...options, schema: SLODetailedResponseSchema, params: { detailed: true } },
     );
     
     // Cache the result
@@ -630,7 +1197,9 @@ export class HoneycombAPI {
   async getTriggers(
     environment: string,
     datasetSlug: string,
+    options: CallOptions = {},
   ): Promise<TriggerResponse[]> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     const cacheKey = datasetSlug;
     
@@ -644,6 +1213,7 @@ export class HoneycombAPI {
     const triggers = await this.requestWithRetry<TriggerResponse[]>(
       environment,
       `/1/triggers/${datasetSlug}`,
+      { ...options, schema: z.array(TriggerResponseSchema) },
     );
     
     // Cache the result
@@ -656,7 +1226,9 @@ export class HoneycombAPI {
     environment: string,
     datasetSlug: string,
     triggerId: string,
+    options: CallOptions = {},
   ): Promise<TriggerResponse> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     const cacheKey = `${datasetSlug}:${triggerId}`;
     
@@ -670,6 +1242,7 @@ export class HoneycombAPI {
     const trigger = await this.requestWithRetry<TriggerResponse>(
       environment,
       `/1/triggers/${datasetSlug}/${triggerId}`,
+      { ...options, schema: TriggerResponseSchema },
     );
     
     // Cache the result
@@ -679,7 +1252,8 @@ export class HoneycombAPI {
   }
 
   // Board methods
-  async getBoards(environment: string): Promise<Board[]> {
+  async getBoards(environment: string, options: CallOptions = {}): Promise<Board[]> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     
     // Check cache first
@@ -688,33 +1262,21 @@ export class HoneycombAPI {
       return cachedBoards;
     }
     
-    try {
-      // Make the request to the boards endpoint
-      const response = await this.requestWithRetry<any>(environment, "/1/boards");
-      
-      // Process the response based on its format
-      let boards: Board[] = [];
-      
-      // Check if response is already an array (API might return array directly)
-      if (Array.isArray(response)) {
-        boards = response;
-      }
-      // Check if response has a boards property (expected structure)
-      else if (response && response.boards && Array.isArray(response.boards)) {
-        boards = response.boards;
-      }
-      
-      // Cache the result
-      cache.set<Board[]>(environment, 'board', boards);
-      
-      return boards;
-    } catch (error) {
-      // Return empty array instead of throwing to prevent breaking the application
-      return [];
-    }
+    // Fetch from API if not in cache
+    const boards = await this.requestWithRetry(
+      environment,
+      "/1/boards",
+      { ...options, schema: z.array(BoardSchema) }
+    );
+    
+    // Cache the result
+    cache.set<Board[]>(environment, 'board', boards);
+    
+    return boards;
   }
 
-  async getBoard(environment: string, boardId: string): Promise<Board> {
+  async getBoard(environment: string, boardId: string, options: CallOptions = {}): Promise<Board> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     
     // Check cache first
@@ -726,7 +1288,8 @@ export class HoneycombAPI {
     // Fetch from API if not in cache
     const board = await this.requestWithRetry<Board>(
       environment, 
-      `/1/boards/${boardId}`
+      `/1/boards/${boardId}`,
+      { ...options, schema: BoardSchema }
     );
     
     // Cache the result
@@ -736,7 +1299,8 @@ export class HoneycombAPI {
   }
 
   // Marker methods
-  async getMarkers(environment: string): Promise<Marker[]> {
+  async getMarkers(environment: string, options: CallOptions = {}): Promise<Marker[]> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     
     // Check cache first
@@ -745,19 +1309,48 @@ export class HoneycombAPI {
       return cachedMarkers;
     }
     
+    // Fetch from API if not in cache; __all__ lists environment-wide markers
+    const markers = await this.requestWithRetry(
+      environment, 
+      "/1/markers/__all__",
+      { ...options, schema: z.array(MarkerSchema) }
+    );
+    
+    // Cache the result
+    cache.set<Marker[]>(environment, 'marker', markers);
+    
+    return markers;
+  }
+
+  /**
+   * List the markers of one dataset, which the environment-wide list leaves out
+   */
+  async getDatasetMarkers(environment: string, datasetSlug: string, options: CallOptions = {}): Promise<Marker[]> {
+    environment = this.getEnvironment(environment).name;
+    const cache = getCache();
+    const cacheKey = `${datasetSlug}:all`;
+    
+    // Check cache first
+    const cachedMarkers = cache.get<Marker[]>(environment, 'marker', cacheKey);
+    if (cachedMarkers) {
+      return cachedMarkers;
+    }
+    
     // Fetch from API if not in cache
-    const response = await this.requestWithRetry<MarkersResponse>(
+    const markers = await this.requestWithRetry(
       environment, 
-      "/1/markers"
+      `/1/markers/${datasetSlug}`,
+      { ...options, schema: z.array(MarkerSchema) }
     );
     
     // Cache the result
-    cache.set<Marker[]>(environment, 'marker', response.markers);
+    cache.set<Marker[]>(environment, 'marker', markers, cacheKey);
     
-    return response.markers;
+    return markers;
   }
 
-  async getMarker(environment: string, markerId: string): Promise<Marker> {
+  async getMarker(environment: string, markerId: string, options: CallOptions = {}): Promise<Marker> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     
     // Check cache first
@@ -769,7 +1362,8 @@ export class HoneycombAPI {
     // Fetch from API if not in cache
     const marker = await this.requestWithRetry<Marker>(
       environment, 
-      `/1/markers/${markerId}`
+      `/1/markers/${markerId}`,
+      { ...options, schema: MarkerSchema }
     );
     
     // Cache the result
@@ -779,7 +1373,8 @@ export class HoneycombAPI {
   }
 
   // Recipient methods
-  async getRecipients(environment: string): Promise<Recipient[]> {
+  async getRecipients(environment: string, options: CallOptions = {}): Promise<Recipient[]> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     
     // Check cache first
@@ -789,18 +1384,20 @@ export class HoneycombAPI {
     }
     
     // Fetch from API if not in cache
-    const response = await this.requestWithRetry<RecipientsResponse>(
+    const recipients = await this.requestWithRetry(
       environment, 
-      "/1/recipients"
+      "/1/recipients",
+      { ...options, schema: z.array(RecipientSchema) }
     );
     
     // Cache the result
-    cache.set<Recipient[]>(environment, 'recipient', response.recipients);
+    cache.set<Recipient[]>(environment, 'recipient', recipients);
     
-    return response.recipients;
+    return recipients;
   }
 
-  async getRecipient(environment: string, recipientId: string): Promise<Recipient> {
+  async getRecipient(environment: string, recipientId: string, options: CallOptions = {}): Promise<Recipient> {
+    environment = this.getEnvironment(environment).name;
     const cache = getCache();
     
     // Check cache first
@@ -812,7 +1409,8 @@ export class HoneycombAPI {
     // Fetch from API if not in cache
     const recipient = await this.requestWithRetry<Recipient>(
       environment, 
-      `/1/recipients/${recipientId}`
+      `/1/recipients/${recipientId}`,
+      { ...options, schema: RecipientSchema }
     );
     
     // Cache the result
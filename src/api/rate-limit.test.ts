@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TokenBucket, RateLimiter, RateLimitConfigSchema, endpointClass } from "./rate-limit.js";
+
+describe("rate limiting", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("classifies query endpoints separately from metadata endpoints", () => {
+    expect(endpointClass("/1/queries/dataset")).toBe("queries");
+    expect(endpointClass("/1/query_results/dataset/abc")).toBe("queries");
+    expect(endpointClass("/1/datasets")).toBe("metadata");
+    expect(endpointClass("/1/columns/dataset")).toBe("metadata");
+  });
+
+  describe("TokenBucket", () => {
+    it("allows a burst, then queues callers until tokens refill", async () => {
+      // One request per second, bursts of two
+      const bucket = new TokenBucket(60, 2);
+      const served: number[] = [];
+
+      for (const caller of [1, 2, 3, 4]) {
+        bucket.acquire().then(() => served.push(caller));
+      }
+      await vi.advanceTimersByTimeAsync(0);
+      expect(served).toEqual([1, 2]);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(served).toEqual([1, 2, 3]);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(served).toEqual([1, 2, 3, 4]);
+    });
+
+    it("lets cancelled callers leave the line", async () => {
+      const bucket = new TokenBucket(60, 1);
+      const controller = new AbortController();
+      await bucket.acquire();
+
+      const cancelled = bucket.acquire(controller.signal);
+      const next = vi.fn();
+      bucket.acquire().then(next);
+      controller.abort(new Error("cancelled"));
+
+      await expect(cancelled).rejects.toThrow("cancelled");
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe("RateLimiter", () => {
+    it("keeps separate buckets per environment and endpoint class", async () => {
+      const limiter = new RateLimiter(RateLimitConfigSchema.parse({
+        queries: { requestsPerMinute: 60, burst: 1 },
+        metadata: { requestsPerMinute: 60, burst: 1 },
+      }));
+      const served: string[] = [];
+
+      for (const [environment, path] of [
+        ["prod", "/1/queries/dataset"],
+        ["prod", "/1/datasets"],
+        ["dev", "/1/queries/dataset"],
+        ["prod", "/1/query_results/dataset/abc"],
+      ] as const) {
+        limiter.acquire(environment, path).then(() => served.push(`${environment} ${path}`));
+      }
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(served).toEqual(["prod /1/queries/dataset", "prod /1/datasets", "dev /1/queries/dataset"]);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(served).toHaveLength(4);
+    });
+
+    it("keeps spent tokens when reconfigured", async () => {
+      const config = RateLimitConfigSchema.parse({ metadata: { requestsPerMinute: 60, burst: 2 } });
+      const limiter = new RateLimiter(config);
+      await limiter.acquire("prod", "/1/datasets");
+      await limiter.acquire("prod", "/1/datasets");
+
+      limiter.configure(RateLimitConfigSchema.parse({ metadata: { requestsPerMinute: 30, burst: 5 } }));
+      let served = false;
+      limiter.acquire("prod", "/1/datasets").then(() => { served = true; });
+
+      // The bucket is still empty and now refills at the new, slower rate
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(served).toBe(false);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(served).toBe(true);
+    });
+
+    it("does not wait when disabled", async () => {
+      const limiter = new RateLimiter(RateLimitConfigSchema.parse({
+        enabled: false,
+        metadata: { requestsPerMinute: 1, burst: 1 },
+      }));
+
+      await limiter.acquire("prod", "/1/datasets");
+      await expect(limiter.acquire("prod", "/1/datasets")).resolves.toBeUndefined();
+    });
+  });
+});
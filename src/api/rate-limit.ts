@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { sleep } from "../utils/abort.js";
+
+const BucketConfigSchema = z.object({
+  // Sustained request rate
+  requestsPerMinute: z.number().positive(),
+  // Requests that can be sent back to back after a quiet period
+  burst: z.number().int().positive(),
+}).strict();
+
+/**
+ * Client-side request rate limits, applied per environment and endpoint class
+ */
+export const RateLimitConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Creating queries and polling for their results
+  queries: BucketConfigSchema.default({ requestsPerMinute: 120, burst: 20 }),
+  // Every other endpoint: datasets, columns, boards, SLOs, ...
+  metadata: BucketConfigSchema.default({ requestsPerMinute: 600, burst: 50 }),
+}).strict();
+
+export type RateLimitConfig = z.infer<typeof RateLimitConfigSchema>;
+
+/**
+ * Group of endpoints that share a rate limit
+ */
+export type EndpointClass = "queries" | "metadata";
+
+/**
+ * Classify an API path by the rate limit it falls under
+ */
+export function endpointClass(path: string): EndpointClass {
+  return /^\/1\/(queries|query_results)\//.test(path) ? "queries" : "metadata";
+}
+
+/**
+ * A token bucket whose callers wait in line for a token
+ *
+ * Tokens refill continuously at the configured rate up to the burst size.
+ * Callers are served in the order they arrived.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  // Settles when the previous caller has its token
+  private line: Promise<void> = Promise.resolve();
+
+  constructor(
+    private requestsPerMinute: number,
+    private burst: number,
+    private now: () => number = Date.now
+  ) {
+    this.tokens = burst;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Wait for a token
+   *
+   * @param signal - Aborts the wait, e.g. when the tool call is cancelled
+   * @throws The signal's abort reason if it aborts before a token is free
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    const turn = this.line.then(() => this.take(signal));
+    // A cancelled caller must not hold up the ones behind it
+    this.line = turn.catch(() => {});
+    return turn;
+  }
+
+  private async take(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.refill();
+    while (this.tokens < 1) {
+      const waitMs = Math.ceil(((1 - this.tokens) * 60_000) / this.requestsPerMinute);
+      await sleep(waitMs, signal);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  /**
+   * Change the rate and burst size, keeping the tokens already spent
+   */
+  reconfigure(requestsPerMinute: number, burst: number): void {
+    this.refill();
+    this.requestsPerMinute = requestsPerMinute;
+    this.burst = burst;
+    this.tokens = Math.min(this.tokens, burst);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.updatedAt) * this.requestsPerMinute) / 60_000);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Keeps requests to each environment within its rate limits
+ *
+ * Each environment has one bucket per endpoint class, so a burst of queries
+ * does not delay metadata lookups and a busy environment does not slow down
+ * the others.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(private config: RateLimitConfig = RateLimitConfigSchema.parse({})) {}
+
+  /**
+   * Apply new limits, e.g. after a configuration reload
+   *
+   * Buckets keep their state, so requests already sent still count and a
+   * reload can't be used to exceed the limits.
+   */
+  configure(config: RateLimitConfig): void {
+    this.config = config;
+    for (const [key, bucket] of this.buckets) {
+      const { requestsPerMinute, burst } = config[key.slice(key.lastIndexOf(":") + 1) as EndpointClass];
+      bucket.reconfigure(requestsPerMinute, burst);
+    }
+  }
+
+  /**
+   * Wait until a request to the path may be sent
+   *
+   * @param environment - The environment the request goes to
+   * @param path - The API path, used to pick the endpoint class
+   * @param signal - Aborts the wait
+   */
+  async acquire(environment: string, path: string, signal?: AbortSignal): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+    const kind = endpointClass(path);
+    const key = `${environment}:${kind}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const { requestsPerMinute, burst } = this.config[kind];
+      bucket = new TokenBucket(requestsPerMinute, burst);
+      this.buckets.set(key, bucket);
+    }
+    await bucket.acquire(signal);
+  }
+}
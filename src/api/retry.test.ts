@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  RetryConfigSchema,
+  RetryBudget,
+  RetryRecord,
+  collectRetries,
+  isIdempotentMethod,
+  parseRetryAfter,
+  planRetry,
+  recordRetry,
+  retryReason,
+} from "./retry.js";
+import { HoneycombError } from "../utils/errors.js";
+
+function networkError(code: string) {
+  // Node's fetch reports connection failures as a TypeError with the system error as its cause
+  return new TypeError("fetch failed", { cause: Object.assign(new Error(code), { code }) });
+}
+
+describe("retry policy", () => {
+  const policy = RetryConfigSchema.parse({});
+
+  it("treats GET, PUT and DELETE as idempotent", () => {
+    expect(isIdempotentMethod()).toBe(true);
+    expect(isIdempotentMethod("get")).toBe(true);
+    expect(isIdempotentMethod("DELETE")).toBe(true);
+    expect(isIdempotentMethod("POST")).toBe(false);
+  });
+
+  describe("parseRetryAfter", () => {
+    it("parses delays in seconds and HTTP dates", () => {
+      const now = Date.parse("2025-01-01T00:00:00Z");
+
+      expect(parseRetryAfter("3")).toBe(3000);
+      expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5000);
+      expect(parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT", now)).toBe(0);
+    });
+
+    it("ignores missing or malformed headers", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
+  describe("retryReason", () => {
+    it("retries rate limits for any request", () => {
+      expect(retryReason(new HoneycombError(429, "Rate limit exceeded"), false)).toBe("rate limited (429)");
+    });
+
+    it("retries server and network errors only for idempotent requests", () => {
+      expect(retryReason(new HoneycombError(502, "Bad Gateway"), true)).toBe("server error (502)");
+      expect(retryReason(new HoneycombError(502, "Bad Gateway"), false)).toBeUndefined();
+      expect(retryReason(networkError("ECONNRESET"), true)).toBe("network error (ECONNRESET)");
+      expect(retryReason(networkError("ETIMEDOUT"), false)).toBeUndefined();
+    });
+
+    it("does not retry client errors or unknown failures", () => {
+      expect(retryReason(new HoneycombError(404, "Not Found"), true)).toBeUndefined();
+      expect(retryReason(new HoneycombError(408, "Request timed out"), true)).toBeUndefined();
+      expect(retryReason(new Error("socket hang up"), true)).toBeUndefined();
+    });
+  });
+
+  describe("planRetry", () => {
+    it("waits as long as Retry-After asks", () => {
+      const error = new HoneycombError(429, "Rate limit exceeded");
+      error.retryAfterMs = 2000;
+
+      expect(planRetry(error, 0, policy, true)).toEqual({ reason: "rate limited (429)", delayMs: 2000 });
+    });
+
+    it("gives up when Retry-After is longer than the maximum delay", () => {
+      const error = new HoneycombError(429, "Rate limit exceeded");
+      error.retryAfterMs = 60_000;
+
+      expect(planRetry(error, 0, policy, true)).toBeUndefined();
+    });
+
+    it("backs off without Retry-After and stops after the last retry", () => {
+      const error = new HoneycombError(500, "Internal Server Error");
+
+      const first = planRetry(error, 0, policy, true);
+      expect(first?.delayMs).toBeGreaterThanOrEqual(250);
+      expect(first?.delayMs).toBeLessThanOrEqual(500);
+      expect(planRetry(error, policy.maxRetries, policy, true)).toBeUndefined();
+    });
+  });
+
+  describe("RetryBudget", () => {
+    it("allows retries up to the saved budget and earns more with each request", () => {
+      const budget = new RetryBudget(0.5, 2);
+
+      expect(budget.tryWithdraw()).toBe(true);
+      expect(budget.tryWithdraw()).toBe(true);
+      expect(budget.tryWithdraw()).toBe(false);
+
+      budget.recordRequest();
+      budget.recordRequest();
+      expect(budget.tryWithdraw()).toBe(true);
+      expect(budget.tryWithdraw()).toBe(false);
+    });
+  });
+
+  describe("collectRetries", () => {
+    it("collects the retries recorded while the function runs", async () => {
+      const records: RetryRecord[] = [];
+      const retry = { environment: "prod", path: "/1/datasets", attempt: 1, reason: "rate limited (429)", delayMs: 10 };
+
+      await collectRetries(records, async () => {
+        await Promise.resolve();
+        recordRetry(retry);
+      });
+      recordRetry({ ...retry, attempt: 2 });
+
+      expect(records).toEqual([retry]);
+    });
+  });
+});
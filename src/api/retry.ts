@@ -0,0 +1,194 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { z } from "zod";
+import { HoneycombError } from "../utils/errors.js";
+import { backoffDelay } from "../utils/backoff.js";
+
+/**
+ * When and how often failed Honeycomb API requests are retried
+ */
+export const RetryConfigSchema = z.object({
+  // Retries after the first attempt; 0 disables retries
+  maxRetries: z.number().int().nonnegative().default(3),
+  // Backoff before the first retry, doubled for each further retry
+  initialDelayMs: z.number().int().positive().default(500),
+  // Longest wait before a retry; a longer Retry-After fails the request instead
+  maxDelayMs: z.number().int().positive().default(10_000),
+  // Retries earned per request; once spent, failures are returned without retrying
+  budgetRatio: z.number().positive().max(1).default(0.2),
+  // Retries that can be saved up, available in full at startup
+  budgetMax: z.number().int().positive().default(10),
+}).strict();
+
+export type RetryPolicy = z.infer<typeof RetryConfigSchema>;
+
+/**
+ * A retried request, as reported in tool result metadata
+ */
+export interface RetryRecord {
+  environment: string;
+  path: string;
+  // Retry number, starting at 1
+  attempt: number;
+  reason: string;
+  delayMs: number;
+}
+
+// HTTP methods that can be repeated without changing the outcome
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+// Connection failures worth another attempt, as reported by Node's fetch
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ECONNREFUSED",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Whether a request with this method may be sent again after an unclear failure
+ */
+export function isIdempotentMethod(method: string = "GET"): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Parse a Retry-After header into milliseconds
+ *
+ * @param value - Delay in seconds, or an HTTP date
+ * @param now - Current time, replaceable in tests
+ * @returns The delay, or undefined if the header is missing or malformed
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Find the system error code of a failed fetch, which undici wraps in `cause`
+ */
+function networkErrorCode(error: unknown): string | undefined {
+  for (let current = error, depth = 0; current && depth < 5; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === "string") {
+      return code;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+/**
+ * Explain why a failed request may be retried
+ *
+ * Rate-limited requests were never processed, so they are retried whatever
+ * their method. Server errors and dropped connections may have happened
+ * after the request took effect, so those are only retried for idempotent
+ * requests.
+ *
+ * @returns The reason, or undefined if the request must not be retried
+ */
+export function retryReason(error: unknown, idempotent: boolean): string | undefined {
+  if (error instanceof HoneycombError) {
+    if (error.statusCode === 429) {
+      return "rate limited (429)";
+    }
+    if (error.statusCode >= 500 && idempotent) {
+      return `server error (${error.statusCode})`;
+    }
+    return undefined;
+  }
+  const code = networkErrorCode(error);
+  if (code && RETRYABLE_NETWORK_CODES.has(code) && idempotent) {
+    return `network error (${code})`;
+  }
+  return undefined;
+}
+
+/**
+ * Decide whether and when to retry a failed request
+ *
+ * @param error - The failure of the latest attempt
+ * @param attempt - Zero-based number of that attempt
+ * @param policy - The retry policy
+ * @param idempotent - Whether the request may be repeated safely
+ * @returns The reason and delay, or undefined to give up
+ */
+export function planRetry(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy,
+  idempotent: boolean
+): { reason: string; delayMs: number } | undefined {
+  if (attempt >= policy.maxRetries) {
+    return undefined;
+  }
+  const reason = retryReason(error, idempotent);
+  if (!reason) {
+    return undefined;
+  }
+
+  const retryAfterMs = error instanceof HoneycombError ? error.retryAfterMs : undefined;
+  if (retryAfterMs !== undefined) {
+    // Waiting longer than the policy allows would stall the tool call
+    return retryAfterMs <= policy.maxDelayMs ? { reason, delayMs: retryAfterMs } : undefined;
+  }
+  return { reason, delayMs: backoffDelay(attempt, policy) };
+}
+
+/**
+ * Limits retries to a fraction of requests, so an outage is not met with a retry storm
+ *
+ * Each request earns budgetRatio of a retry, up to budgetMax saved retries.
+ */
+export class RetryBudget {
+  private balance: number;
+
+  constructor(private ratio: number, private max: number) {
+    this.balance = max;
+  }
+
+  recordRequest(): void {
+    this.balance = Math.min(this.max, this.balance + this.ratio);
+  }
+
+  /**
+   * Spend one retry
+   *
+   * @returns False if the budget is used up
+   */
+  tryWithdraw(): boolean {
+    if (this.balance < 1) {
+      return false;
+    }
+    this.balance -= 1;
+    return true;
+  }
+}
+
+const retryLog = new AsyncLocalStorage<RetryRecord[]>();
+
+/**
+ * Run a function and collect the retries of every request it makes
+ *
+ * @param records - Receives a record for each retry
+ * @param fn - The work to track, e.g. a tool handler
+ */
+export function collectRetries<T>(records: RetryRecord[], fn: () => Promise<T>): Promise<T> {
+  return retryLog.run(records, fn);
+}
+
+/**
+ * Add a retry to the records of the surrounding collectRetries call, if any
+ */
+export function recordRetry(record: RetryRecord): void {
+  retryLog.getStore()?.push(record);
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createServer, Server } from "node:http";
+import { AddressInfo, connect } from "node:net";
+import { Agent, ProxyAgent } from "undici";
+import { createDispatcher, defaultFetch, isProxyBypassed, proxyFromEnv } from "./transport.js";
+
+function listen(server: Server): Promise<string> {
+  return new Promise(resolve => {
+    server.listen(0, "127.0.0.1", () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+describe("transport", () => {
+  describe("isProxyBypassed", () => {
+    const url = new URL("https://api.honeycomb.io/1/auth");
+
+    it("matches hosts, their subdomains, and wildcards", () => {
+      expect(isProxyBypassed(url, "api.honeycomb.io")).toBe(true);
+      expect(isProxyBypassed(url, "localhost, honeycomb.io")).toBe(true);
+      expect(isProxyBypassed(url, ".honeycomb.io")).toBe(true);
+      expect(isProxyBypassed(url, "*.honeycomb.io")).toBe(true);
+      expect(isProxyBypassed(url, "*")).toBe(true);
+    });
+
+    it("does not match other hosts or ports", () => {
+      expect(isProxyBypassed(url, "")).toBe(false);
+      expect(isProxyBypassed(url, "example.com,ycomb.io")).toBe(false);
+      expect(isProxyBypassed(url, "api.honeycomb.io:8443")).toBe(false);
+      expect(isProxyBypassed(url, "api.honeycomb.io:443")).toBe(true);
+    });
+  });
+
+  describe("proxyFromEnv", () => {
+    it("uses the proxy for the URL's protocol", () => {
+      const env = { HTTPS_PROXY: "http://secure-proxy:3128", HTTP_PROXY: "http://plain-proxy:3128" };
+
+      expect(proxyFromEnv("https://api.honeycomb.io", env)).toBe("http://secure-proxy:3128");
+      expect(proxyFromEnv("http://localhost:8080", env)).toBe("http://plain-proxy:3128");
+    });
+
+    it("prefers lowercase variables and honors NO_PROXY", () => {
+      const env = { https_proxy: "http://lower:3128", HTTPS_PROXY: "http://upper:3128", NO_PROXY: "eu1.honeycomb.io" };
+
+      expect(proxyFromEnv("https://api.honeycomb.io", env)).toBe("http://lower:3128");
+      expect(proxyFromEnv("https://api.eu1.honeycomb.io", env)).toBeUndefined();
+    });
+  });
+
+  describe("createDispatcher", () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-transport-"));
+      await writeFile(join(dir, "ca.pem"), "-----BEGIN CERTIFICATE-----\n-----END CERTIFICATE-----\n");
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const environment = { name: "prod", apiKey: "key", apiEndpoint: "https://api.honeycomb.io" };
+
+    it("uses Node's defaults when nothing is configured", () => {
+      expect(createDispatcher(environment, {})).toBeUndefined();
+    });
+
+    it("routes requests through the proxy from the environment variables", async () => {
+      const dispatcher = createDispatcher(environment, { HTTPS_PROXY: "http://proxy:3128" });
+
+      expect(dispatcher).toBeInstanceOf(ProxyAgent);
+      await dispatcher?.close();
+    });
+
+    it("lets an environment's proxy override NO_PROXY", async () => {
+      const dispatcher = createDispatcher(
+        { ...environment, proxy: "http://proxy:3128" },
+        { NO_PROXY: "*" }
+      );
+
+      expect(dispatcher).toBeInstanceOf(ProxyAgent);
+      await dispatcher?.close();
+    });
+
+    it("trusts extra CAs without a proxy", async () => {
+      const dispatcher = createDispatcher({ ...environment, tls: { caFiles: [join(dir, "ca.pem")] } }, {});
+
+      expect(dispatcher).toBeInstanceOf(Agent);
+      await dispatcher?.close();
+    });
+
+    it("names the file it could not read", () => {
+      expect(() => createDispatcher(
+        { ...environment, tls: { certFile: join(dir, "missing.pem"), keyFile: join(dir, "key.pem") } },
+        {}
+      )).toThrow(`Failed to read client certificate "${join(dir, "missing.pem")}" for environment prod: ENOENT`);
+    });
+  });
+
+  describe("defaultFetch", () => {
+    let api: Server;
+    let proxy: Server;
+    let apiUrl: string;
+    let proxyUrl: string;
+    const tunnels: string[] = [];
+
+    beforeAll(async () => {
+      api = createServer((_request, response) => {
+        response.setHeader("Content-Type", "application/json");
+        response.end(JSON.stringify({ ok: true }));
+      });
+      // A proxy that only tunnels, as HTTPS proxies do
+      proxy = createServer((_request, response) => {
+        response.statusCode = 405;
+        response.end();
+      });
+      proxy.on("connect", (request, socket, head) => {
+        tunnels.push(request.url ?? "");
+        const [host, port] = (request.url ?? "").split(":");
+        const upstream = connect(Number(port), host, () => {
+          socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+          upstream.write(head);
+          upstream.pipe(socket);
+          socket.pipe(upstream);
+        });
+        upstream.on("error", () => socket.destroy());
+        socket.on("error", () => upstream.destroy());
+      });
+      apiUrl = await listen(api);
+      proxyUrl = await listen(proxy);
+    });
+
+    afterAll(async () => {
+      api.closeAllConnections();
+      proxy.closeAllConnections();
+      await Promise.all([api, proxy].map(server => new Promise(resolve => server.close(resolve))));
+    });
+
+    it("sends requests through a configured proxy", async () => {
+      const dispatcher = createDispatcher({ name: "prod", apiKey: "key", apiEndpoint: apiUrl, proxy: proxyUrl });
+
+      const response = await defaultFetch(`${apiUrl}/1/auth`, { dispatcher } as RequestInit);
+
+      expect(await response.json()).toEqual({ ok: true });
+      expect(tunnels).toEqual([new URL(apiUrl).host]);
+      await dispatcher?.close();
+    });
+
+    it("connects directly without a dispatcher", async () => {
+      const response = await defaultFetch(`${apiUrl}/1/auth`);
+
+      expect(await response.json()).toEqual({ ok: true });
+    });
+  });
+});
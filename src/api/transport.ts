@@ -0,0 +1,134 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { rootCertificates } from "node:tls";
+import { Agent, ProxyAgent, Dispatcher, fetch as undiciFetch, RequestInit as UndiciRequestInit } from "undici";
+import type { Environment } from "../config.js";
+
+/**
+ * The subset of fetch the client needs, so tests and local stand-ins can
+ * answer requests without the network
+ */
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Send a request with Node's fetch, or with undici's when it has a dispatcher
+ *
+ * The global fetch bundles its own copy of undici, which on Node 18 is a
+ * major version behind the undici package that builds our dispatchers, so
+ * requests that need one go through the matching fetch. The global is looked
+ * up at call time so it can still be replaced after construction.
+ */
+export const defaultFetch: FetchLike = (url, init) => {
+  if ((init as { dispatcher?: Dispatcher } | undefined)?.dispatcher) {
+    return undiciFetch(url, init as UndiciRequestInit) as unknown as Promise<Response>;
+  }
+  return fetch(url, init);
+};
+
+/**
+ * Read a PEM file named in the configuration
+ *
+ * @throws Error naming the setting and the file, without its contents
+ */
+function readPem(path: string, setting: string, environment: string): string {
+  const resolved = path.replace(/^~(?=$|\/)/, homedir());
+  try {
+    return readFileSync(resolved, "utf8");
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code ?? (error instanceof Error ? error.message : String(error));
+    throw new Error(`Failed to read ${setting} "${path}" for environment ${environment}: ${reason}`);
+  }
+}
+
+/**
+ * Whether NO_PROXY exempts a URL from the proxy
+ *
+ * Entries are separated by commas or spaces. "*" matches every host; other
+ * entries match the host itself and its subdomains, with an optional port
+ * and an optional leading "." or "*.".
+ */
+export function isProxyBypassed(url: URL, noProxy: string | undefined): boolean {
+  if (!noProxy) {
+    return false;
+  }
+  const host = url.hostname.toLowerCase();
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+
+  return noProxy.split(/[\s,]+/).filter(Boolean).some(entry => {
+    if (entry === "*") {
+      return true;
+    }
+    const [entryHost = "", entryPort] = entry.toLowerCase().split(":");
+    if (entryPort && entryPort !== port) {
+      return false;
+    }
+    const domain = entryHost.replace(/^\*?\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Find the proxy that HTTPS_PROXY, HTTP_PROXY and NO_PROXY assign to a URL
+ *
+ * Lowercase variables take precedence, as in curl.
+ *
+ * @returns The proxy URL, or undefined to connect directly
+ */
+export function proxyFromEnv(url: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const target = new URL(url);
+  if (isProxyBypassed(target, env.no_proxy ?? env.NO_PROXY)) {
+    return undefined;
+  }
+  const proxy = target.protocol === "https:"
+    ? env.https_proxy ?? env.HTTPS_PROXY
+    : env.http_proxy ?? env.HTTP_PROXY;
+  return proxy || undefined;
+}
+
+/**
+ * Build the connection settings for an environment's requests
+ *
+ * A proxy set on the environment wins over the proxy environment variables.
+ * Extra CA files are trusted in addition to Node's bundled CAs and
+ * NODE_EXTRA_CA_CERTS, both for the API and for an HTTPS proxy.
+ *
+ * @returns A dispatcher to pass to fetch, or undefined for Node's defaults
+ * @throws Error if a certificate or key file cannot be read
+ */
+export function createDispatcher(
+  environment: Environment,
+  env: NodeJS.ProcessEnv = process.env
+): Dispatcher | undefined {
+  const apiEndpoint = environment.apiEndpoint ?? "https://api.honeycomb.io";
+  const proxy = environment.proxy ?? proxyFromEnv(apiEndpoint, env);
+  const { caFiles = [], certFile, keyFile } = environment.tls ?? {};
+
+  const tlsOptions: { ca?: string[]; cert?: string; key?: string } = {};
+  if (caFiles.length > 0) {
+    // Passing any CA replaces Node's default list, so keep the defaults in it
+    const extraCa = env.NODE_EXTRA_CA_CERTS
+      ? [readPem(env.NODE_EXTRA_CA_CERTS, "NODE_EXTRA_CA_CERTS", environment.name)]
+      : [];
+    tlsOptions.ca = [
+      ...rootCertificates,
+      ...extraCa,
+      ...caFiles.map(file => readPem(file, "CA file", environment.name)),
+    ];
+  }
+  if (certFile && keyFile) {
+    tlsOptions.cert = readPem(certFile, "client certificate", environment.name);
+    tlsOptions.key = readPem(keyFile, "client key", environment.name);
+  }
+
+  if (proxy) {
+    return new ProxyAgent({
+      uri: proxy,
+      requestTls: tlsOptions,
+      proxyTls: tlsOptions.ca ? { ca: tlsOptions.ca } : undefined,
+    });
+  }
+  if (Object.keys(tlsOptions).length > 0) {
+    return new Agent({ connect: tlsOptions });
+  }
+  return undefined;
+}
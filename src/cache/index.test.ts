@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { CacheManager, initializeCache, getCache, ResourceType, resetCacheManager } from './index.js';
+import { CacheManager, initializeCache, getCache, ResourceType, resetCacheManager, applyCacheEnvOverrides } from './index.js';
 import type { Config } from '../config.js';
 
 // Mock Config object
@@ -90,6 +90,18 @@ describe('CacheManager', () => {
     expect(cacheManager.get('prod', 'board', 'board-id')).toBeDefined();
   });
   
+  it('should clear all caches for an environment', () => {
+    cacheManager.set('prod', 'dataset', { name: 'test-dataset' }, 'test-id');
+    cacheManager.set('prod', 'auth', { team: 'test' });
+    cacheManager.set('production', 'dataset', { name: 'other' }, 'test-id');
+    
+    cacheManager.clearEnvironment('prod');
+    
+    expect(cacheManager.get('prod', 'dataset', 'test-id')).toBeUndefined();
+    expect(cacheManager.get('prod', 'auth')).toBeUndefined();
+    expect(cacheManager.get('production', 'dataset', 'test-id')).toBeDefined();
+  });
+  
   it('should clear all caches', () => {
     cacheManager.set('prod', 'dataset', { name: 'test-dataset' }, 'test-id');
     cacheManager.set('prod', 'board', { name: 'test-board' }, 'board-id');
@@ -338,4 +350,23 @@ describe('getCache', () => {
     const cacheManager = initializeCache(mockConfig);
     expect(getCache()).toBe(cacheManager);
   });
-});
\ No newline at end of file
+});
+
+describe('applyCacheEnvOverrides', () => {
+  it('only overrides settings whose variables are set', () => {
+    const config = applyCacheEnvOverrides(mockConfig.cache, {
+      HONEYCOMB_CACHE_SLO_TTL: '60',
+      HONEYCOMB_CACHE_ENABLED: 'false',
+    });
+
+    expect(config.ttl.slo).toBe(60);
+    expect(config.ttl.dataset).toBe(900);
+    expect(config.defaultTTL).toBe(300);
+    expect(config.enabled).toBe(false);
+  });
+
+  it('rejects values that are not positive integers', () => {
+    expect(() => applyCacheEnvOverrides(mockConfig.cache, { HONEYCOMB_CACHE_MAX_SIZE: '-1' }))
+      .toThrow(/HONEYCOMB_CACHE_MAX_SIZE/);
+  });
+});
@@ -106,6 +106,15 @@ export interface CacheAccessOptions {
   };
 }
 
+/**
+ * Settings and hit/miss counters for every resource type cache
+ */
+export interface CacheStats {
+  enabled: boolean;
+  maxSize: number;
+  resources: Record<string, { ttl: number; keys: number; hits: number; misses: number }>;
+}
+
 export class CacheManager {
   private caches: Map<ResourceType, Cache>;
   private config: CacheConfig;
@@ -228,6 +237,19 @@ export class CacheManager {
     if (cache) cache.flushAll();
   }
   
+  /**
+   * Clear all items cached for an environment, across every resource type
+   * 
+   * @param environment - The environment name
+   */
+  public clearEnvironment(environment: string): void {
+    const prefix = `${environment}:`;
+    for (const cache of this.caches.values()) {
+      const keys = cache.keys().filter((key: string) => key.startsWith(prefix));
+      if (keys.length > 0) cache.del(keys);
+    }
+  }
+  
   /**
    * Clear all caches
    */
@@ -237,6 +259,29 @@ export class CacheManager {
     }
   }
   
+  /**
+   * Get the cache settings and statistics for each resource type
+   * 
+   * @returns Whether caching is enabled, its size limit, and per-type counters
+   */
+  public getStats(): CacheStats {
+    const resources: CacheStats['resources'] = {};
+    for (const [resourceType, cache] of this.caches) {
+      const { keys, hits, misses } = cache.getStats();
+      resources[resourceType] = {
+        ttl: this.config.ttl[resourceType] || this.config.defaultTTL,
+        keys,
+        hits,
+        misses,
+      };
+    }
+    return {
+      enabled: this.config.enabled,
+      maxSize: this.config.maxSize,
+      resources,
+    };
+  }
+  
   /**
    * Access cached collection with paging, filtering, and sorting
    * 
@@ -355,6 +400,58 @@ export const resetCacheManager = () => {
   cacheManager = null;
 };
 
+/**
+ * Environment variables that override individual cache settings
+ */
+const CACHE_TTL_ENV_VARS: Record<keyof CacheConfig['ttl'], string> = {
+  dataset: 'HONEYCOMB_CACHE_DATASET_TTL',
+  column: 'HONEYCOMB_CACHE_COLUMN_TTL',
+  board: 'HONEYCOMB_CACHE_BOARD_TTL',
+  slo: 'HONEYCOMB_CACHE_SLO_TTL',
+  trigger: 'HONEYCOMB_CACHE_TRIGGER_TTL',
+  marker: 'HONEYCOMB_CACHE_MARKER_TTL',
+  recipient: 'HONEYCOMB_CACHE_RECIPIENT_TTL',
+  auth: 'HONEYCOMB_CACHE_AUTH_TTL',
+};
+
+const CacheSecondsEnvSchema = z.coerce.number().int().positive();
+
+/**
+ * Apply HONEYCOMB_CACHE_* environment variables on top of a cache configuration
+ * 
+ * Only variables that are set override the base configuration.
+ * 
+ * @param base - The cache configuration to overlay (e.g. from a config file)
+ * @param env - Environment variables
+ * @returns The merged cache configuration
+ * @throws ZodError if a variable is not a positive integer
+ */
+export function applyCacheEnvOverrides(
+  base: CacheConfig = defaultCacheConfig,
+  env: NodeJS.ProcessEnv = process.env
+): CacheConfig {
+  const readSeconds = (name: string, fallback: number): number => {
+    const value = env[name];
+    if (value === undefined || value === '') return fallback;
+    return CacheSecondsEnvSchema.parse(value, { path: [name] });
+  };
+
+  const ttl = { ...base.ttl };
+  for (const [resourceType, name] of Object.entries(CACHE_TTL_ENV_VARS)) {
+    const key = resourceType as keyof CacheConfig['ttl'];
+    ttl[key] = readSeconds(name, base.ttl[key]);
+  }
+
+  return {
+    enabled: env.HONEYCOMB_CACHE_ENABLED !== undefined
+      ? env.HONEYCOMB_CACHE_ENABLED !== 'false'
+      : base.enabled,
+    defaultTTL: readSeconds('HONEYCOMB_CACHE_DEFAULT_TTL', base.defaultTTL),
+    ttl,
+    maxSize: readSeconds('HONEYCOMB_CACHE_MAX_SIZE', base.maxSize),
+  };
+}
+
 /**
  * Initialize the cache manager with the provided configuration
  * 
@@ -362,22 +459,8 @@ export const resetCacheManager = () => {
  * @returns The initialized cache manager
  */
 export function initializeCache(appConfig: Config): CacheManager {
-  // Extract cache config from environment variables or use defaults
-  const cacheConfig: CacheConfig = {
-    enabled: process.env.HONEYCOMB_CACHE_ENABLED !== 'false',
-    defaultTTL: parseInt(process.env.HONEYCOMB_CACHE_DEFAULT_TTL || '300', 10),
-    ttl: {
-      dataset: parseInt(process.env.HONEYCOMB_CACHE_DATASET_TTL || '900', 10),
-      column: parseInt(process.env.HONEYCOMB_CACHE_COLUMN_TTL || '900', 10),
-      board: parseInt(process.env.HONEYCOMB_CACHE_BOARD_TTL || '900', 10),
-      slo: parseInt(process.env.HONEYCOMB_CACHE_SLO_TTL || '900', 10),
-      trigger: parseInt(process.env.HONEYCOMB_CACHE_TRIGGER_TTL || '900', 10),
-      marker: parseInt(process.env.HONEYCOMB_CACHE_MARKER_TTL || '900', 10),
-      recipient: parseInt(process.env.HONEYCOMB_CACHE_RECIPIENT_TTL || '900', 10),
-      auth: parseInt(process.env.HONEYCOMB_CACHE_AUTH_TTL || '3600', 10),
-    },
-    maxSize: parseInt(process.env.HONEYCOMB_CACHE_MAX_SIZE || '1000', 10),
-  };
+  // Environment variables take precedence over the loaded configuration
+  const cacheConfig = applyCacheEnvOverrides(appConfig.cache ?? defaultCacheConfig);
   
   cacheManager = new CacheManager(cacheConfig);
   return cacheManager;
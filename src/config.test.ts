@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
-import { loadConfig } from "./config.js";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig, findConfigFile, deriveUiEndpoint } from "./config.js";
 import { AuthResponse } from "./types/api.js";
 
 // Mock fetch globally
@@ -18,7 +21,7 @@ describe("Config", () => {
       ok: true,
       json: () => Promise.resolve({
         id: "test-id",
-        type: "test",
+        type: "configuration",
         api_key_access: { query: true },
         team: { name: "Test Team", slug: "test-team" },
         environment: { name: "Test Env", slug: "test-env" }
@@ -63,7 +66,7 @@ describe("Config", () => {
           ok: true,
           json: () => Promise.resolve({
             id: "prod-id",
-            type: "test",
+            type: "configuration",
             api_key_access: { query: true },
             team: { name: "Prod Team", slug: "prod-team" },
             environment: { name: "Production", slug: "prod" }
@@ -73,7 +76,7 @@ describe("Config", () => {
           ok: true,
           json: () => Promise.resolve({
             id: "staging-id",
-            type: "test",
+            type: "configuration",
             api_key_access: { query: true },
             team: { name: "Staging Team", slug: "staging-team" },
             environment: { name: "Staging", slug: "staging" }
@@ -100,6 +103,30 @@ describe("Config", () => {
       );
     });
 
+    it("uses per-environment API endpoints and matching UI endpoints", async () => {
+      process.env.HONEYCOMB_ENV_PROD_API_KEY = "prod-key";
+      process.env.HONEYCOMB_ENV_EU_API_KEY = "eu-key";
+      process.env.HONEYCOMB_ENV_EU_API_ENDPOINT = "https://api.eu1.honeycomb.io/";
+
+      const config = await loadConfig();
+
+      expect(config.environments.find(e => e.name === "eu")).toMatchObject({
+        apiEndpoint: "https://api.eu1.honeycomb.io",
+        uiEndpoint: "https://ui.eu1.honeycomb.io",
+      });
+      expect(config.environments.find(e => e.name === "prod")).toMatchObject({
+        apiEndpoint: "https://api.honeycomb.io",
+        uiEndpoint: "https://ui.honeycomb.io",
+      });
+      expect(mockFetch).toHaveBeenCalledWith("https://api.eu1.honeycomb.io/1/auth", expect.any(Object));
+    });
+
+    it("derives UI endpoints from API endpoints", () => {
+      expect(deriveUiEndpoint("https://api.eu1.honeycomb.io")).toBe("https://ui.eu1.honeycomb.io");
+      expect(deriveUiEndpoint("https://api.honeycomb.example.com/")).toBe("https://ui.honeycomb.example.com");
+      expect(deriveUiEndpoint("https://custom.honeycomb.io")).toBe("https://ui.honeycomb.io");
+    });
+
     it("handles auth failure gracefully", async () => {
       process.env.HONEYCOMB_API_KEY = "invalid-key";
       
@@ -118,6 +145,7 @@ describe("Config", () => {
         expect(env.apiKey).toEqual("invalid-key");
         expect(env.name).toEqual("default"); // Didn't get updated
         expect(env.teamSlug).toBeUndefined(); // Didn't get populated
+        expect(env.authError).toEqual("Auth failed for environment default: Unauthorized");
       }
     });
 
@@ -132,4 +160,256 @@ describe("Config", () => {
       await expect(loadConfig()).rejects.toThrow(/No Honeycomb configuration found/);
     });
   });
-}); 
\ No newline at end of file
+
+  describe("config file", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-config-"));
+      Object.keys(process.env).forEach(key => {
+        if (key.startsWith("HONEYCOMB_")) {
+          delete process.env[key];
+        }
+      });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("finds a config file in the working directory", async () => {
+      await writeFile(join(dir, "honeycomb-mcp.config.json"), "{}");
+
+      expect(await findConfigFile(dir, {})).toEqual(join(dir, "honeycomb-mcp.config.json"));
+      expect(await findConfigFile(tmpdir(), { HONEYCOMB_MCP_CONFIG: join(dir, "honeycomb-mcp.config.json") }))
+        .toEqual(join(dir, "honeycomb-mcp.config.json"));
+    });
+
+    it("throws when HONEYCOMB_MCP_CONFIG points at a missing file", async () => {
+      await expect(findConfigFile(dir, { HONEYCOMB_MCP_CONFIG: "missing.yaml" })).rejects.toThrow(/Config file not found/);
+    });
+
+    it("loads environments, aliases, default datasets and cache settings from YAML", async () => {
+      const path = join(dir, "honeycomb-mcp.config.yaml");
+      await writeFile(path, [
+        "environments:",
+        "  - name: prod",
+        "    apiKey: prod-key",
+        "    apiEndpoint: https://api.eu1.honeycomb.io",
+        "    aliases: [production]",
+        "    defaultDataset: api-requests",
+        "cache:",
+        "  defaultTTL: 120",
+        "  maxSize: 50",
+      ].join("\n"));
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+
+      const config = await loadConfig();
+
+      expect(config.environments).toHaveLength(1);
+      expect(config.environments[0]).toMatchObject({
+        name: "prod",
+        apiKey: "prod-key",
+        apiEndpoint: "https://api.eu1.honeycomb.io",
+        aliases: ["production"],
+        defaultDataset: "api-requests",
+      });
+      expect(config.cache.defaultTTL).toBe(120);
+      expect(config.cache.maxSize).toBe(50);
+      expect(config.cache.ttl.dataset).toBe(900);
+      expect(mockFetch).toHaveBeenCalledWith("https://api.eu1.honeycomb.io/1/auth", expect.any(Object));
+    });
+
+    it("lets environment variables override the file", async () => {
+      const path = join(dir, "honeycomb-mcp.config.json");
+      await writeFile(path, JSON.stringify({
+        apiEndpoint: "https://file.honeycomb.io",
+        environments: [
+          { name: "prod" },
+          { name: "dev", apiKey: "file-dev-key" },
+        ],
+        cache: { defaultTTL: 120 },
+      }));
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+      process.env.HONEYCOMB_ENV_PROD_API_KEY = "env-prod-key";
+      process.env.HONEYCOMB_ENV_DEV_API_KEY = "env-dev-key";
+      process.env.HONEYCOMB_API_ENDPOINT = "https://env.honeycomb.io";
+      process.env.HONEYCOMB_CACHE_DEFAULT_TTL = "60";
+
+      const config = await loadConfig();
+
+      expect(config.environments.find(e => e.name === "prod")?.apiKey).toBe("env-prod-key");
+      expect(config.environments.find(e => e.name === "dev")?.apiKey).toBe("env-dev-key");
+      expect(config.environments.every(e => e.apiEndpoint === "https://env.honeycomb.io")).toBe(true);
+      expect(config.cache.defaultTTL).toBe(60);
+    });
+
+    it("expands the region shorthand in the file", async () => {
+      const path = join(dir, "honeycomb-mcp.config.yaml");
+      await writeFile(path, [
+        "environments:",
+        "  - name: eu-prod",
+        "    apiKey: eu-key",
+        "    region: eu",
+        "  - name: us-prod",
+        "    apiKey: us-key",
+        "    region: us",
+        "    uiEndpoint: https://honeycomb.internal.example.com",
+      ].join("\n"));
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+
+      const config = await loadConfig();
+
+      expect(config.environments.find(e => e.name === "eu-prod")).toMatchObject({
+        apiEndpoint: "https://api.eu1.honeycomb.io",
+        uiEndpoint: "https://ui.eu1.honeycomb.io",
+      });
+      expect(config.environments.find(e => e.name === "us-prod")).toMatchObject({
+        apiEndpoint: "https://api.honeycomb.io",
+        uiEndpoint: "https://honeycomb.internal.example.com",
+      });
+    });
+
+    it("resolves API key references before authenticating", async () => {
+      const keyPath = join(dir, "prod.key");
+      await writeFile(keyPath, "file-prod-key\n");
+      const path = join(dir, "honeycomb-mcp.config.json");
+      await writeFile(path, JSON.stringify({
+        environments: [
+          { name: "prod", apiKey: `file:${keyPath}` },
+          { name: "dev", apiKey: "env:DEV_SECRET" },
+          { name: "test", apiKey: "cmd:echo command-test-key" },
+        ],
+      }));
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+      process.env.DEV_SECRET = "indirect-dev-key";
+
+      const config = await loadConfig();
+
+      expect(config.environments.map(e => e.apiKey)).toEqual(["file-prod-key", "indirect-dev-key", "command-test-key"]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.honeycomb.io/1/auth",
+        expect.objectContaining({ headers: expect.objectContaining({ "X-Honeycomb-Team": "file-prod-key" }) })
+      );
+    });
+
+    it("names the environment whose key reference cannot be resolved", async () => {
+      process.env.HONEYCOMB_ENV_PROD_API_KEY = "env:MISSING_SECRET";
+
+      await expect(loadConfig()).rejects.toThrow(
+        "Failed to resolve API key for environment prod: Secret environment variable MISSING_SECRET is not set"
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("reports missing API keys with the offending path", async () => {
+      const path = join(dir, "honeycomb-mcp.config.yaml");
+      await writeFile(path, "environments:\n  - name: prod\n");
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+
+      await expect(loadConfig()).rejects.toThrow(/environments\.0\.apiKey: Required/);
+    });
+
+    it("reports unknown keys and invalid values in the file", async () => {
+      const path = join(dir, "honeycomb-mcp.config.yaml");
+      await writeFile(path, [
+        "environments:",
+        "  - name: prod",
+        "    apiKey: prod-key",
+        "    apiEndpont: https://typo.example.com",
+        "cache:",
+        "  defaultTTL: -5",
+      ].join("\n"));
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+
+      const promise = loadConfig();
+      await expect(promise).rejects.toThrow(`Configuration error in ${path}`);
+      await expect(promise).rejects.toThrow(/environments\.0: Unrecognized key\(s\) in object: 'apiEndpont'/);
+      await expect(promise).rejects.toThrow(/cache\.defaultTTL/);
+    });
+
+    it("rejects aliases that collide with other environments", async () => {
+      const path = join(dir, "honeycomb-mcp.config.json");
+      await writeFile(path, JSON.stringify({
+        environments: [
+          { name: "prod", apiKey: "prod-key" },
+          { name: "staging", apiKey: "staging-key", aliases: ["prod"] },
+        ],
+      }));
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+
+      await expect(loadConfig()).rejects.toThrow(/environments\.1\.aliases\.0: "prod" is already used by environment "prod"/);
+    });
+
+    it("reads the retry policy from the file and the environment", async () => {
+      const path = join(dir, "honeycomb-mcp.config.json");
+      await writeFile(path, JSON.stringify({
+        environments: [{ name: "prod", apiKey: "prod-key" }],
+        retry: { maxDelayMs: 2000, budgetMax: 5 },
+      }));
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+      process.env.HONEYCOMB_RETRY_MAX_RETRIES = "1";
+
+      const config = await loadConfig();
+
+      expect(config.retry).toEqual({
+        maxRetries: 1,
+        initialDelayMs: 500,
+        maxDelayMs: 2000,
+        budgetRatio: 0.2,
+        budgetMax: 5,
+      });
+    });
+
+    it("reads the saved queries file from the file and the environment", async () => {
+      const path = join(dir, "honeycomb-mcp.config.json");
+      await writeFile(path, JSON.stringify({
+        environments: [{ name: "prod", apiKey: "prod-key" }],
+        savedQueriesFile: "team.queries.yaml",
+      }));
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+
+      expect((await loadConfig()).savedQueriesFile).toBe("team.queries.yaml");
+
+      process.env.HONEYCOMB_SAVED_QUERIES_FILE = "mine.queries.json";
+      expect((await loadConfig()).savedQueriesFile).toBe("mine.queries.json");
+    });
+
+    it("requires a client certificate and key together", async () => {
+      const path = join(dir, "honeycomb-mcp.config.json");
+      await writeFile(path, JSON.stringify({
+        environments: [{ name: "prod", apiKey: "prod-key", tls: { certFile: "client.pem" } }],
+      }));
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+
+      await expect(loadConfig()).rejects.toThrow(/environments\.0\.tls: certFile and keyFile must be set together/);
+    });
+
+    it("reports YAML syntax errors", async () => {
+      const path = join(dir, "honeycomb-mcp.config.yaml");
+      await writeFile(path, "environments: [\n");
+      process.env.HONEYCOMB_MCP_CONFIG = path;
+
+      await expect(loadConfig()).rejects.toThrow(/Failed to parse config file/);
+    });
+
+    it("reads the request and query timeouts from the environment", async () => {
+      process.env.HONEYCOMB_API_KEY = "test-key";
+      process.env.HONEYCOMB_REQUEST_TIMEOUT_MS = "5000";
+      process.env.HONEYCOMB_QUERY_TIMEOUT_MS = "300000";
+
+      const config = await loadConfig();
+
+      expect(config.requestTimeoutMs).toBe(5000);
+      expect(config.queryTimeoutMs).toBe(300000);
+    });
+
+    it("rejects invalid cache environment variables", async () => {
+      process.env.HONEYCOMB_API_KEY = "test-key";
+      process.env.HONEYCOMB_CACHE_DATASET_TTL = "fifteen minutes";
+
+      await expect(loadConfig()).rejects.toThrow(/HONEYCOMB_CACHE_DATASET_TTL/);
+    });
+  });
+});
@@ -1,110 +1,375 @@
 import { z } from "zod";
+import { access, readFile } from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
 import { AuthResponse } from "./types/api.js";
-import { CacheConfigSchema } from "./cache/index.js";
+import { AuthSchema } from "./types/generated/honeycomb-api.js";
+import { ResponseValidationError } from "./utils/errors.js";
+import { CacheConfigSchema, applyCacheEnvOverrides } from "./cache/index.js";
+import { RetryConfigSchema, RetryPolicy } from "./api/retry.js";
+import { RateLimitConfigSchema, RateLimitConfig } from "./api/rate-limit.js";
+import { createDispatcher, FetchLike } from "./api/transport.js";
+import { resolveSecret, registerSecret } from "./utils/secrets.js";
+
+/**
+ * API and UI base URLs for each Honeycomb region
+ */
+export const HONEYCOMB_REGIONS = {
+  us: { apiEndpoint: "https://api.honeycomb.io", uiEndpoint: "https://ui.honeycomb.io" },
+  eu: { apiEndpoint: "https://api.eu1.honeycomb.io", uiEndpoint: "https://ui.eu1.honeycomb.io" },
+} as const;
+
+const DEFAULT_API_ENDPOINT = HONEYCOMB_REGIONS.us.apiEndpoint;
+
+/**
+ * Time limit for a single Honeycomb API request unless configured otherwise
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/**
+ * Time limit for a query to finish, including polling for its results
+ */
+export const DEFAULT_QUERY_TIMEOUT_MS = 120_000;
+
+/**
+ * Config file names searched for in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = [
+  "honeycomb-mcp.config.yaml",
+  "honeycomb-mcp.config.yml",
+  "honeycomb-mcp.config.json",
+];
 
 // Enhanced environment schema with authentication information
 export const EnvironmentSchema = z.object({
-  name: z.string(),
-  apiKey: z.string(),
-  apiEndpoint: z.string().optional(),
+  name: z.string().min(1),
+  // A literal key, or a file:<path>, cmd:<command>, or env:<NAME> reference resolved at load time
+  apiKey: z.string().min(1),
+  apiEndpoint: z.string().url().optional(),
+  // Base URL of the Honeycomb UI used for links; derived from apiEndpoint when omitted
+  uiEndpoint: z.string().url().optional(),
+  // Alternative names that tools may use to refer to this environment
+  aliases: z.array(z.string().min(1)).optional(),
+  // Dataset used by tools when no dataset is given
+  defaultDataset: z.string().min(1).optional(),
+  // Proxy for this environment's requests; takes precedence over HTTPS_PROXY and NO_PROXY
+  proxy: z.string().url().optional(),
+  tls: z.object({
+    // PEM files with CA certificates to trust in addition to the bundled ones
+    caFiles: z.array(z.string().min(1)).optional(),
+    // PEM client certificate and key for mutual TLS
+    certFile: z.string().min(1).optional(),
+    keyFile: z.string().min(1).optional(),
+  }).strict().refine(
+    tls => Boolean(tls.certFile) === Boolean(tls.keyFile),
+    "certFile and keyFile must be set together"
+  ).optional(),
   // Fields that will be populated from the auth endpoint
   teamSlug: z.string().optional(),
   teamName: z.string().optional(),
   environmentSlug: z.string().optional(),
   permissions: z.record(z.boolean()).optional(),
+  // Why authentication failed at load time, if it did
+  authError: z.string().optional(),
 });
 
 export const ConfigSchema = z.object({
   environments: z.array(EnvironmentSchema).min(1, "At least one environment must be configured"),
   cache: CacheConfigSchema,
+  // Time limit for a single Honeycomb API request, in milliseconds
+  requestTimeoutMs: z.number().int().positive().optional(),
+  // Time limit for a query to finish, across all polls for its results, in milliseconds
+  queryTimeoutMs: z.number().int().positive().optional(),
+  // How failed requests are retried; defaults apply to omitted settings
+  retry: RetryConfigSchema.optional(),
+  // Client-side rate limits per environment; defaults apply to omitted settings
+  rateLimit: RateLimitConfigSchema.optional(),
+  // YAML or JSON file holding the saved query library
+  savedQueriesFile: z.string().min(1).optional(),
+}).superRefine((config, ctx) => {
+  // Environment names and aliases share one namespace and must be unique
+  const seen = new Map<string, string>();
+  config.environments.forEach((env, index) => {
+    const names = [env.name, ...(env.aliases || [])];
+    names.forEach((name, nameIndex) => {
+      const owner = seen.get(name);
+      if (owner !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `"${name}" is already used by environment "${owner}"`,
+          path: nameIndex === 0
+            ? ["environments", index, "name"]
+            : ["environments", index, "aliases", nameIndex - 1],
+        });
+      }
+      seen.set(name, env.name);
+    });
+  });
 });
 
+/**
+ * Schema for the honeycomb-mcp.config.{yaml,json} file
+ *
+ * API keys may be left out of the file and supplied through
+ * HONEYCOMB_ENV_<NAME>_API_KEY instead; the merged result is validated
+ * against ConfigSchema.
+ */
+export const ConfigFileSchema = z.object({
+  // Default API endpoint for environments that do not set their own
+  apiEndpoint: z.string().url().optional(),
+  environments: z.array(EnvironmentSchema.extend({
+    apiKey: z.string().min(1).optional(),
+    // Shorthand for the region's API and UI endpoints
+    region: z.enum(["us", "eu"]).optional(),
+  }).strict()).optional(),
+  cache: CacheConfigSchema.optional(),
+  requestTimeoutMs: z.number().int().positive().optional(),
+  queryTimeoutMs: z.number().int().positive().optional(),
+  retry: RetryConfigSchema.partial().optional(),
+  rateLimit: RateLimitConfigSchema.optional(),
+  savedQueriesFile: z.string().min(1).optional(),
+}).strict();
+
 export type Environment = z.infer<typeof EnvironmentSchema>;
 export type Config = z.infer<typeof ConfigSchema>;
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+// An environment whose API key may still be missing before validation
+type PendingEnvironment = Omit<Environment, "apiKey"> & { apiKey?: string };
+
+/**
+ * Remove trailing slashes so paths can be appended to an endpoint
+ */
+function trimTrailingSlashes(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * Derive the Honeycomb UI base URL that matches an API endpoint
+ * 
+ * Known regions map to their UI hosts; other endpoints follow the
+ * api.<domain> -> ui.<domain> convention.
+ * 
+ * @param apiEndpoint - The environment's API endpoint
+ * @returns The UI base URL, without a trailing slash
+ */
+export function deriveUiEndpoint(apiEndpoint: string = DEFAULT_API_ENDPOINT): string {
+  const normalized = trimTrailingSlashes(apiEndpoint);
+  const region = Object.values(HONEYCOMB_REGIONS).find(r => r.apiEndpoint === normalized);
+  if (region) {
+    return region.uiEndpoint;
+  }
+  try {
+    const url = new URL(normalized);
+    if (url.hostname.startsWith("api.")) {
+      url.hostname = `ui.${url.hostname.slice("api.".length)}`;
+      return trimTrailingSlashes(url.toString());
+    }
+  } catch {
+    // Fall through to the default UI for unparseable endpoints
+  }
+  return HONEYCOMB_REGIONS.us.uiEndpoint;
+}
+
+/**
+ * Locate the configuration file
+ * 
+ * HONEYCOMB_MCP_CONFIG points at an explicit file; otherwise the working
+ * directory is searched for one of CONFIG_FILE_NAMES.
+ * 
+ * @returns The path of the config file, or undefined if there is none
+ * @throws Error if HONEYCOMB_MCP_CONFIG points at a missing file
+ */
+export async function findConfigFile(
+  cwd: string = process.cwd(),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<string | undefined> {
+  if (env.HONEYCOMB_MCP_CONFIG) {
+    const path = resolve(cwd, env.HONEYCOMB_MCP_CONFIG);
+    try {
+      await access(path);
+    } catch {
+      throw new Error(`Config file not found: ${path} (from HONEYCOMB_MCP_CONFIG)`);
+    }
+    return path;
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const path = join(cwd, name);
+    try {
+      await access(path);
+      return path;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
 
 /**
- * Load configuration from environment variables
+ * Read and validate a YAML or JSON configuration file
+ * 
+ * @param path - Path to the config file
+ * @returns The validated file contents
+ * @throws Error if the file cannot be parsed, or ZodError if it is invalid
+ */
+export async function loadConfigFile(path: string): Promise<ConfigFile> {
+  const text = await readFile(path, "utf8");
+  let raw: unknown;
+  try {
+    raw = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Failed to parse config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return ConfigFileSchema.parse(raw ?? {});
+}
+
+/**
+ * Build configuration from the config file (if any) overlaid with environment variables
+ * 
  * Supports both HONEYCOMB_ENV_*_API_KEY for multiple environments
- * and HONEYCOMB_API_KEY for a single environment
+ * and HONEYCOMB_API_KEY for a single environment. An environment variable
+ * whose name matches a file environment overrides that environment's key;
+ * otherwise it adds a new environment. HONEYCOMB_ENV_<NAME>_API_ENDPOINT
+ * sets the API endpoint of a single environment.
+ * 
+ * @returns Unvalidated configuration, to be checked against ConfigSchema
  */
-async function loadFromEnvVars(): Promise<Config> {
-  const environments: Environment[] = [];
+function loadFromEnvVars(
+  fileConfig: ConfigFile = {}
+): { environments: PendingEnvironment[]; cache: Config["cache"]; requestTimeoutMs?: number; queryTimeoutMs?: number; retry?: Partial<RetryPolicy>; rateLimit?: Partial<RateLimitConfig>; savedQueriesFile?: string } {
   const envVars = process.env;
-  const defaultApiEndpoint = "https://api.honeycomb.io";
-  const globalApiEndpoint = envVars.HONEYCOMB_API_ENDPOINT;
+  // HONEYCOMB_API_ENDPOINT overrides the file-level default; per-environment endpoints still win
+  const globalApiEndpoint = envVars.HONEYCOMB_API_ENDPOINT || fileConfig.apiEndpoint || DEFAULT_API_ENDPOINT;
+
+  const environments: PendingEnvironment[] = (fileConfig.environments || []).map(({ region, ...env }) => ({
+    ...env,
+    // The region's UI endpoint is derived from the final API endpoint below
+    apiEndpoint: env.apiEndpoint || (region && HONEYCOMB_REGIONS[region].apiEndpoint),
+  }));
+
+  const upsertEnvironment = (name: string, apiKey: string) => {
+    const existing = environments.find(env => env.name.toLowerCase() === name);
+    if (existing) {
+      existing.apiKey = apiKey;
+    } else {
+      environments.push({ name, apiKey });
+    }
+  };
 
   // Check for multi-environment pattern: HONEYCOMB_ENV_*_API_KEY
   const envVarRegex = /^HONEYCOMB_ENV_(.+)_API_KEY$/;
   for (const [key, value] of Object.entries(envVars)) {
     const match = key.match(envVarRegex);
     if (match && match[1] && value) {
-      const envName = match[1].toLowerCase();
-      environments.push({
-        name: envName,
-        apiKey: value,
-        apiEndpoint: globalApiEndpoint || defaultApiEndpoint,
-      });
+      upsertEnvironment(match[1].toLowerCase(), value);
     }
   }
 
   // Check for single environment: HONEYCOMB_API_KEY
   if (envVars.HONEYCOMB_API_KEY) {
-    environments.push({
-      name: "default", // This will be updated with actual name from auth response
-      apiKey: envVars.HONEYCOMB_API_KEY,
-      apiEndpoint: globalApiEndpoint || defaultApiEndpoint,
-    });
+    // "default" will be updated with actual name from auth response
+    upsertEnvironment("default", envVars.HONEYCOMB_API_KEY);
   }
 
   if (environments.length === 0) {
     throw new Error(
       "No Honeycomb configuration found. Please set HONEYCOMB_API_KEY for a single environment " +
-      "or HONEYCOMB_ENV_<NAME>_API_KEY for multiple environments."
+      "or HONEYCOMB_ENV_<NAME>_API_KEY for multiple environments, " +
+      `or create one of: ${CONFIG_FILE_NAMES.join(", ")}.`
     );
   }
 
-  // Default cache configuration
-  return { 
-    environments,
-    cache: {
-      defaultTTL: 300,
-      ttl: {
-        dataset: 900,
-        column: 900,
-        board: 900,
-        slo: 900,
-        trigger: 900,
-        marker: 900,
-        recipient: 900,
-        auth: 3600
-      },
-      enabled: true,
-      maxSize: 1000
-    }
+  return {
+    environments: environments.map(env => {
+      const apiEndpoint = trimTrailingSlashes(
+        envVars[`HONEYCOMB_ENV_${env.name.toUpperCase()}_API_ENDPOINT`] || env.apiEndpoint || globalApiEndpoint
+      );
+      return {
+        ...env,
+        apiEndpoint,
+        uiEndpoint: trimTrailingSlashes(env.uiEndpoint || deriveUiEndpoint(apiEndpoint)),
+      };
+    }),
+    cache: applyCacheEnvOverrides(CacheConfigSchema.parse(fileConfig.cache)),
+    requestTimeoutMs: envVars.HONEYCOMB_REQUEST_TIMEOUT_MS !== undefined
+      ? Number(envVars.HONEYCOMB_REQUEST_TIMEOUT_MS)
+      : fileConfig.requestTimeoutMs,
+    queryTimeoutMs: envVars.HONEYCOMB_QUERY_TIMEOUT_MS !== undefined
+      ? Number(envVars.HONEYCOMB_QUERY_TIMEOUT_MS)
+      : fileConfig.queryTimeoutMs,
+    retry: envVars.HONEYCOMB_RETRY_MAX_RETRIES !== undefined
+      ? { ...fileConfig.retry, maxRetries: Number(envVars.HONEYCOMB_RETRY_MAX_RETRIES) }
+      : fileConfig.retry,
+    rateLimit: envVars.HONEYCOMB_RATE_LIMIT_ENABLED !== undefined
+      ? { ...fileConfig.rateLimit, enabled: envVars.HONEYCOMB_RATE_LIMIT_ENABLED !== "false" }
+      : fileConfig.rateLimit,
+    savedQueriesFile: envVars.HONEYCOMB_SAVED_QUERIES_FILE || fileConfig.savedQueriesFile,
   };
 }
 
+/**
+ * Resolve API key references and register every key for log redaction
+ * 
+ * @throws Error naming the environment whose key could not be resolved
+ */
+async function resolveApiKeys(config: Config): Promise<Config> {
+  const environments: Environment[] = [];
+  for (const env of config.environments) {
+    let apiKey: string;
+    try {
+      apiKey = await resolveSecret(env.apiKey);
+    } catch (error) {
+      throw new Error(
+        `Failed to resolve API key for environment ${env.name}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    registerSecret(apiKey);
+    environments.push({ ...env, apiKey });
+  }
+  return { ...config, environments };
+}
+
+/**
+ * The permissions granted to an API key, as reported by the auth endpoint
+ */
+export function permissionsFromAuth(authInfo: AuthResponse): Record<string, boolean> {
+  return Object.fromEntries(
+    Object.entries(authInfo.api_key_access).filter((entry): entry is [string, boolean] => typeof entry[1] === "boolean")
+  );
+}
+
 /**
  * Enhance configuration with data from the Honeycomb API auth endpoint
  */
-async function enhanceConfigWithAuth(config: Config): Promise<Config> {
+async function enhanceConfigWithAuth(config: Config, fetch: FetchLike): Promise<Config> {
   const enhancedEnvironments: Environment[] = [];
 
   // Process each environment sequentially to avoid rate limiting
   for (const env of config.environments) {
+    let dispatcher: ReturnType<typeof createDispatcher>;
     try {
       const headers = {
         "X-Honeycomb-Team": env.apiKey,
         "Content-Type": "application/json",
       };
 
-      const response = await fetch(`${env.apiEndpoint}/1/auth`, { headers });
+      dispatcher = createDispatcher(env);
+      const response = await fetch(`${env.apiEndpoint}/1/auth`, {
+        headers,
+        signal: AbortSignal.timeout(config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS),
+        dispatcher,
+      });
       
       if (!response.ok) {
         throw new Error(`Auth failed for environment ${env.name}: ${response.statusText}`);
       }
 
-      const authInfo = await response.json() as AuthResponse;
+      const parsed = AuthSchema.safeParse(await response.json());
+      if (!parsed.success) {
+        throw new ResponseValidationError("GET", "/1/auth", parsed.error.issues);
+      }
+      const authInfo = parsed.data;
       
       enhancedEnvironments.push({
         ...env,
@@ -114,63 +379,68 @@ async function enhanceConfigWithAuth(config: Config): Promise<Config> {
         // If this is the default environment from HONEYCOMB_API_KEY, update the name
         name: env.name === "default" && authInfo.environment?.name ? 
           authInfo.environment.name : env.name,
-        permissions: authInfo.api_key_access,
+        permissions: permissionsFromAuth(authInfo),
       });
 
       console.error(`Authenticated environment: ${env.name}`);
     } catch (error) {
       console.error(`Failed to authenticate environment ${env.name}: ${error instanceof Error ? error.message : String(error)}`);
       // Still include this environment but without enhancement
-      enhancedEnvironments.push(env);
+      enhancedEnvironments.push({
+        ...env,
+        authError: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      dispatcher?.close().catch(() => {});
     }
   }
 
   return { 
+    ...config,
     environments: enhancedEnvironments,
-    cache: config.cache
   };
 }
 
 /**
- * Load and validate configuration from environment variables
+ * Load and validate configuration from the config file and environment variables
  * and enhance with authentication information
+ *
+ * @param options - Pass fetch to authenticate against something other than the network
  */
-export async function loadConfig(): Promise<Config> {
+export async function loadConfig(options: { fetch?: FetchLike } = {}): Promise<Config> {
+  let source = "environment variables";
   try {
-    // Load initial config from environment variables
-    const config = await loadFromEnvVars();
+    const configPath = await findConfigFile();
+    let fileConfig: ConfigFile | undefined;
+    if (configPath) {
+      source = configPath;
+      console.error(`Loading configuration file: ${configPath}`);
+      fileConfig = await loadConfigFile(configPath);
+      source = `${configPath} and environment variables`;
+    }
+
+    // Load initial config from the file overlaid with environment variables
+    const config = ConfigSchema.parse(loadFromEnvVars(fileConfig));
     
+    // Resolve key references only for environments that made it into the config
+    const resolved = await resolveApiKeys(config);
+
     // Enhance with auth information
-    const enhancedConfig = await enhanceConfigWithAuth(config);
-    
-    // Add cache configuration (default values will be used if not specified)
-    return {
-      ...enhancedConfig,
-      cache: {
-        enabled: process.env.HONEYCOMB_CACHE_ENABLED !== 'false',
-        defaultTTL: parseInt(process.env.HONEYCOMB_CACHE_DEFAULT_TTL || '300', 10),
-        ttl: {
-          dataset: parseInt(process.env.HONEYCOMB_CACHE_DATASET_TTL || '900', 10),
-          column: parseInt(process.env.HONEYCOMB_CACHE_COLUMN_TTL || '900', 10),
-          board: parseInt(process.env.HONEYCOMB_CACHE_BOARD_TTL || '900', 10),
-          slo: parseInt(process.env.HONEYCOMB_CACHE_SLO_TTL || '900', 10),
-          trigger: parseInt(process.env.HONEYCOMB_CACHE_TRIGGER_TTL || '900', 10),
-          marker: parseInt(process.env.HONEYCOMB_CACHE_MARKER_TTL || '900', 10),
-          recipient: parseInt(process.env.HONEYCOMB_CACHE_RECIPIENT_TTL || '900', 10),
-          auth: parseInt(process.env.HONEYCOMB_CACHE_AUTH_TTL || '3600', 10),
-        },
-        maxSize: parseInt(process.env.HONEYCOMB_CACHE_MAX_SIZE || '1000', 10),
-      }
-    };
+    return await enhanceConfigWithAuth(resolved, options.fetch ?? ((url, init) => fetch(url, init)));
   } catch (error) {
     if (error instanceof z.ZodError) {
       const issues = error.issues.map(i => `  - ${i.path.join('.')}: ${i.message}`).join('\n');
       throw new Error(
-        `Configuration error:\n${issues}\n\nPlease set environment variables:\n` +
+        `Configuration error in ${source}:\n${issues}\n\nPlease set environment variables:\n` +
         `- HONEYCOMB_API_KEY=your_api_key (for single environment)\n` +
         `- HONEYCOMB_ENV_PROD_API_KEY=your_prod_api_key (for multiple environments)\n` +
         `- HONEYCOMB_ENV_STAGING_API_KEY=your_staging_api_key\n` +
         `- HONEYCOMB_API_ENDPOINT=https://api.honeycomb.io (optional, to override default)\n` +
+        `- HONEYCOMB_REQUEST_TIMEOUT_MS=30000 (optional, time limit for each API request)\n` +
+        `- HONEYCOMB_QUERY_TIMEOUT_MS=120000 (optional, time limit for a query to finish)\n` +
+        `- HONEYCOMB_RETRY_MAX_RETRIES=3 (optional, retries for failed requests, 0 to disable)\n` +
+        `- HONEYCOMB_RATE_LIMIT_ENABLED=true (optional, set to 'false' to disable client-side rate limiting)\n` +
+        `\nOr provide a config file (${CONFIG_FILE_NAMES.join(", ")}, or HONEYCOMB_MCP_CONFIG=path)\n` +
         `\nOptional cache configuration:\n` +
         `- HONEYCOMB_CACHE_ENABLED=true (set to 'false' to disable caching)\n` +
         `- HONEYCOMB_CACHE_DEFAULT_TTL=300 (default TTL in seconds)\n` +
@@ -1,12 +1,20 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { loadConfig } from "./config.js";
+import { loadConfig, findConfigFile } from "./config.js";
 import { HoneycombAPI } from "./api/client.js";
 import process from "node:process";
-import { registerResources } from "./resources/index.js";
-import { registerTools } from "./tools/index.js";
-import { registerPrompts } from "./prompts/index.js";
 import { initializeCache } from "./cache/index.js";
+import { createMcpServer } from "./server/index.js";
+import { startHttpServer, MCP_PATH, SSE_PATH } from "./server/http.js";
+import { parseServerOptions, ServerOptions } from "./server/options.js";
+import { createTokenAuthenticator, loadAuthConfig, Authenticator } from "./server/auth.js";
+import { startConfigReloader } from "./server/reload.js";
+import { installLogRedaction } from "./utils/secrets.js";
+import { runDiagnostics, formatDiagnosticsReport } from "./utils/diagnostics.js";
+import { FakeHoneycomb } from "./testing/fake-honeycomb.js";
+import { CassettePlayer, CassetteRecorder } from "./testing/cassette.js";
+import { FetchLike } from "./api/transport.js";
+import { DEFAULT_SAVED_QUERIES_FILE, SavedQueryStore } from "./query/saved-queries.js";
+import { resolve } from "node:path";
 
 function checkNodeVersion() {
   const requiredMajorVersion = 18;
@@ -36,15 +44,140 @@ function checkNodeVersion() {
   }
 }
 
+/**
+ * Serve a single client over stdio
+ */
+async function runStdioServer(api: HoneycombAPI, savedQueries: SavedQueryStore) {
+  const server = createMcpServer(api, savedQueries);
+
+  // Add a small delay to ensure the server is fully initialized before connecting
+  console.error("Initializing MCP server...");
+  await new Promise(resolve => setTimeout(resolve, 500));
+  console.error("All resources, tools, and prompts registered");
+
+  // Create transport and start server
+  const transport = new StdioServerTransport();
+  
+  // Add reconnect logic to handle connection issues
+  let connected = false;
+  const maxRetries = 3;
+  let retries = 0;
+  
+  while (!connected && retries < maxRetries) {
+    try {
+      await server.connect(transport);
+      connected = true;
+      console.error("Honeycomb MCP Server running on stdio");
+    } catch (error) {
+      retries++;
+      console.error(`Connection attempt ${retries} failed: ${error instanceof Error ? error.message : String(error)}`);
+      
+      if (retries < maxRetries) {
+        console.error(`Retrying in 1 second...`);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      } else {
+        console.error(`Max retries (${maxRetries}) reached. Server may be unstable.`);
+        // Continue anyway, but warn about potential issues
+        console.error("Honeycomb MCP Server running with potential connection issues");
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Serve many clients over the Streamable HTTP and legacy SSE transports
+ */
+async function runHttpServer(api: HoneycombAPI, options: ServerOptions, savedQueries: SavedQueryStore) {
+  let authenticate: Authenticator | undefined;
+  if (options.authFile) {
+    const authConfig = await loadAuthConfig(options.authFile);
+    const configured = new Set(api.getEnvironments());
+    for (const client of authConfig.clients) {
+      const unknown = client.environments.filter(name => name !== "*" && !configured.has(name));
+      if (unknown.length > 0) {
+        console.error(`Warning: auth client "${client.name}" references unknown environment(s): ${unknown.join(', ')}`);
+      }
+    }
+    authenticate = createTokenAuthenticator(authConfig);
+    console.error(`Loaded ${authConfig.clients.length} auth client(s) from ${options.authFile}`);
+  } else {
+    console.error("Warning: HTTP transport is running without authentication; every client can access all environments");
+  }
+
+  // Each session only sees the environments its client is entitled to
+  const handle = await startHttpServer(
+    (client) => createMcpServer(client ? api.withEnvironmentScope(client.environments) : api, savedQueries),
+    { ...options, authenticate }
+  );
+  console.error(
+    `Honeycomb MCP Server listening on http://${options.host}:${handle.port} ` +
+    `(streamable HTTP: ${MCP_PATH}, SSE: ${SSE_PATH})`
+  );
+
+  // Close open sessions before exiting so clients see a clean disconnect
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.error(`Received ${signal}, closing ${handle.sessionCount()} session(s)...`);
+    try {
+      await handle.close();
+      process.exit(0);
+    } catch (error) {
+      console.error("Error during shutdown:", error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  };
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+/**
+ * Print a health report for every environment and exit non-zero if any check failed
+ */
+async function runDoctor(api: HoneycombAPI) {
+  const report = await runDiagnostics(api);
+  console.log(formatDiagnosticsReport(report));
+  process.exit(report.ok ? 0 : 1);
+}
+
+/**
+ * Pick where API requests go: a fake Honeycomb, a cassette, or the network
+ *
+ * @returns The fetch to use, or undefined for the global fetch
+ */
+async function createFetch(options: ServerOptions): Promise<FetchLike | undefined> {
+  let fetch: FetchLike | undefined;
+  if (options.fakeHoneycomb) {
+    fetch = (await FakeHoneycomb.fromFile(options.fakeHoneycomb)).fetch;
+    console.error(`Serving Honeycomb API requests from the fake in ${options.fakeHoneycomb}`);
+  }
+  if (options.replay) {
+    fetch = (await CassettePlayer.fromFile(options.replay)).fetch;
+    console.error(`Replaying Honeycomb API responses from ${options.replay}`);
+  }
+  if (options.record) {
+    fetch = new CassetteRecorder(options.record, fetch).fetch;
+    console.error(`Recording Honeycomb API traffic to ${options.record}`);
+  }
+  return fetch;
+}
+
 /**
  * Main function to run the Honeycomb MCP server
  */
 async function main() {
   try {
     checkNodeVersion();
+    installLogRedaction();
+    const options = parseServerOptions();
+
+    const fetch = await createFetch(options);
+
     // Load config asynchronously and create API client
-    console.error("Loading configuration from environment variables...");
-    const config = await loadConfig();
+    console.error("Loading configuration...");
+    const config = await loadConfig({ fetch });
     console.error(`Loaded ${config.environments.length} environment(s): ${config.environments.map(e => e.name).join(', ')}`);
     
     // Initialize the cache
@@ -52,58 +185,23 @@ async function main() {
     const cacheManager = initializeCache(config);
     console.error(`Cache initialized (enabled: ${config.cache.enabled})`);
     
-    const api = new HoneycombAPI(config);
-
-    // Create server with proper initialization options and capabilities
-    const server = new McpServer({
-      name: "honeycomb",
-      version: "1.0.0",
-      capabilities: {
-        prompts: {} // Register prompts capability
-      }
-    });
-
-    // Add a small delay to ensure the server is fully initialized before registering tools
-    console.error("Initializing MCP server...");
-    await new Promise(resolve => setTimeout(resolve, 500));
+    const api = new HoneycombAPI(config, { fetch });
+    const savedQueries = new SavedQueryStore(resolve(config.savedQueriesFile ?? DEFAULT_SAVED_QUERIES_FILE));
 
-    // Register resources, tools, and prompts
-    console.error("Registering resources, tools, and prompts...");
-    registerResources(server, api);
-    registerTools(server, api);
-    registerPrompts(server);
+    if (options.doctor) {
+      await runDoctor(api);
+      return;
+    }
 
-    // Wait for registration to complete
-    await new Promise(resolve => setTimeout(resolve, 500));
-    console.error("All resources, tools, and prompts registered");
+    // Pick up rotated keys and new environments without a restart
+    const configPath = await findConfigFile();
+    startConfigReloader(api, { configPath, load: () => loadConfig({ fetch }) });
+    console.error(`Configuration reloads on SIGHUP${configPath ? ` and when ${configPath} changes` : ""}`);
 
-    // Create transport and start server
-    const transport = new StdioServerTransport();
-    
-    // Add reconnect logic to handle connection issues
-    let connected = false;
-    const maxRetries = 3;
-    let retries = 0;
-    
-    while (!connected && retries < maxRetries) {
-      try {
-        await server.connect(transport);
-        connected = true;
-        console.error("Honeycomb MCP Server running on stdio");
-      } catch (error) {
-        retries++;
-        console.error(`Connection attempt ${retries} failed: ${error instanceof Error ? error.message : String(error)}`);
-        
-        if (retries < maxRetries) {
-          console.error(`Retrying in 1 second...`);
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } else {
-          console.error(`Max retries (${maxRetries}) reached. Server may be unstable.`);
-          // Continue anyway, but warn about potential issues
-          console.error("Honeycomb MCP Server running with potential connection issues");
-          break;
-        }
-      }
+    if (options.transport === "http") {
+      await runHttpServer(api, options, savedQueries);
+    } else {
+      await runStdioServer(api, savedQueries);
     }
   } catch (error) {
     console.error("Failed to start MCP server:", error instanceof Error ? error.message : String(error));
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { chooseDimensions, rankDimensions } from "./bubble-up.js";
+
+describe("bubble up", () => {
+  it("chooses recent low-cardinality columns, skipping IDs and excluded columns", () => {
+    const columns = chooseDimensions(
+      [
+        { key_name: "service.name", type: "string", last_written: "2025-01-02T00:00:00Z" },
+        { key_name: "duration_ms", type: "float", last_written: "2025-01-03T00:00:00Z" },
+        { key_name: "trace.trace_id", type: "string", last_written: "2025-01-03T00:00:00Z" },
+        { key_name: "http.status_code", type: "integer", last_written: "2025-01-03T00:00:00Z" },
+        { key_name: "error", type: "boolean", last_written: "2025-01-01T00:00:00Z" },
+        { key_name: "region", type: "string", last_written: "2025-01-04T00:00:00Z" },
+      ],
+      ["region"],
+      2,
+    );
+
+    expect(columns).toEqual(["http.status_code", "service.name"]);
+  });
+
+  it("ranks columns by how differently the selection is distributed", () => {
+    const ranked = rankDimensions(
+      [
+        {
+          column: "region",
+          // Selection is spread like everything else
+          selection: [{ region: "us", COUNT: 5 }, { region: "eu", COUNT: 5 }],
+          all: [{ region: "us", COUNT: 50 }, { region: "eu", COUNT: 50 }],
+        },
+        {
+          column: "endpoint",
+          selection: [{ endpoint: "/checkout", COUNT: 9 }, { endpoint: "/home", COUNT: 1 }],
+          all: [{ endpoint: "/checkout", COUNT: 18 }, { endpoint: "/home", COUNT: 72 }, { endpoint: null, COUNT: 10 }],
+        },
+      ],
+      { selection: 10, all: 100 },
+      3,
+    );
+
+    expect(ranked).toEqual([
+      {
+        column: "endpoint",
+        score: 80,
+        values: [{ value: "/checkout", selection_pct: 90, baseline_pct: 10 }],
+      },
+    ]);
+  });
+
+  it("has nothing to rank without both a selection and a baseline", () => {
+    const dimension = { column: "a", selection: [{ a: 1, COUNT: 1 }], all: [{ a: 1, COUNT: 1 }] };
+
+    expect(rankDimensions([dimension], { selection: 0, all: 1 }, 3)).toEqual([]);
+    expect(rankDimensions([dimension], { selection: 1, all: 1 }, 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { Column } from "../types/column.js";
+import { QueryResultValue } from "../types/query.js";
+
+// Column types whose values make useful dimensions; floats are rarely repeated
+const DIMENSION_TYPES = new Set(["string", "integer", "boolean"]);
+
+// Identifiers such as trace.trace_id or request-id
+const ID_COLUMN = /(^|[._-])id$/i;
+
+type DimensionValue = string | number | boolean | null;
+
+/**
+ * Event counts per value of one column, for the selection and for all events
+ */
+export interface DimensionCounts {
+  column: string;
+  selection: QueryResultValue[];
+  all: QueryResultValue[];
+}
+
+/**
+ * How common one value is in the selection compared with the baseline
+ */
+export interface BubbleUpValue {
+  value: DimensionValue;
+  // Share of events with the value, in percent
+  selection_pct: number;
+  baseline_pct: number;
+}
+
+/**
+ * A column whose values are distributed differently in the selection
+ */
+export interface BubbleUpDimension {
+  column: string;
+  // Percentage points of the selection that would have to change value to
+  // match the baseline: 0 for identical distributions, 100 for disjoint ones
+  score: number;
+  // Values over-represented in the selection, most over-represented first
+  values: BubbleUpValue[];
+}
+
+/**
+ * Whether a column's name marks it as an identifier, unique per event or trace
+ */
+export function isIdentifierColumn(name: string): boolean {
+  return ID_COLUMN.test(name);
+}
+
+/**
+ * Pick the columns worth comparing
+ *
+ * Hidden columns should already be removed. Floats, identifiers and excluded
+ * columns are skipped, and the most recently written columns are preferred.
+ */
+export function chooseDimensions(columns: Column[], exclude: string[], maxColumns: number): string[] {
+  const excluded = new Set(exclude);
+  return columns
+    .filter(column => DIMENSION_TYPES.has(column.type ?? "string"))
+    // Identifiers never bubble up
+    .filter(column => !isIdentifierColumn(column.key_name) && !excluded.has(column.key_name))
+    .sort((a, b) => (b.last_written ?? "").localeCompare(a.last_written ?? ""))
+    .slice(0, maxColumns)
+    .map(column => column.key_name);
+}
+
+function countsByValue(rows: QueryResultValue[], column: string): Map<string, { value: DimensionValue; count: number }> {
+  const counts = new Map<string, { value: DimensionValue; count: number }>();
+  for (const row of rows) {
+    const value = row[column] ?? null;
+    const count = typeof row.COUNT === "number" ? row.COUNT : 0;
+    counts.set(JSON.stringify(value), { value, count });
+  }
+  return counts;
+}
+
+// One decimal place is enough for percentages in a ranked report
+const roundPct = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Rank columns by how differently their values are distributed in the
+ * selection and in the baseline
+ *
+ * The baseline is every event outside the selection: a value's baseline
+ * count is its count across all events minus its count in the selection.
+ *
+ * @param dimensions - Counts by value of each column
+ * @param totals - Events in the selection and across all events
+ * @param maxValues - Most values reported for each column
+ */
+export function rankDimensions(
+  dimensions: DimensionCounts[],
+  totals: { selection: number; all: number },
+  maxValues: number,
+): BubbleUpDimension[] {
+  const baselineTotal = totals.all - totals.selection;
+  if (totals.selection <= 0 || baselineTotal <= 0) {
+    return [];
+  }
+
+  return dimensions
+    .map(({ column, selection, all }) => {
+      const selected = countsByValue(selection, column);
+      const everywhere = countsByValue(all, column);
+      const keys = new Set([...selected.keys(), ...everywhere.keys()]);
+
+      let distance = 0;
+      const values: (BubbleUpValue & { difference: number })[] = [];
+      for (const key of keys) {
+        const inSelection = selected.get(key)?.count ?? 0;
+        const inBaseline = Math.max((everywhere.get(key)?.count ?? 0) - inSelection, 0);
+        const selectionPct = (inSelection / totals.selection) * 100;
+        const baselinePct = (inBaseline / baselineTotal) * 100;
+        distance += Math.abs(selectionPct - baselinePct);
+        values.push({
+          value: (selected.get(key) ?? everywhere.get(key))!.value,
+          selection_pct: roundPct(selectionPct),
+          baseline_pct: roundPct(baselinePct),
+          difference: selectionPct - baselinePct,
+        });
+      }
+
+      return {
+        column,
+        score: roundPct(distance / 2),
+        values: values
+          .filter(value => value.difference > 0)
+          .sort((a, b) => b.difference - a.difference)
+          .slice(0, maxValues)
+          .map(({ difference: _, ...value }) => value),
+      };
+    })
+    .filter(dimension => dimension.values.length > 0)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { estimateCardinality } from "./cardinality.js";
+
+const NOW = Date.parse("2025-01-02T00:00:00Z") / 1000;
+
+const columns = [
+  { key_name: "error", type: "boolean" as const, last_written: "2025-01-01T23:59:00Z" },
+  { key_name: "region", type: "string" as const, last_written: "2024-12-01T00:00:00Z" },
+  { key_name: "service.name", type: "string" as const, last_written: "2025-01-01T23:59:00Z" },
+  { key_name: "trace.trace_id", type: "string" as const, last_written: "2025-01-01T23:59:00Z" },
+];
+
+describe("estimateCardinality", () => {
+  it("returns one row without breakdowns", () => {
+    expect(estimateCardinality({ time_range: 3600 }, columns, NOW)).toEqual({ max_rows: 1, may_hit_limit: false, breakdowns: [] });
+  });
+
+  it("bounds breakdowns on booleans and on columns not written in the window", () => {
+    const estimate = estimateCardinality({ breakdowns: ["error", "region"], time_range: 3600, limit: 100 }, columns, NOW);
+
+    expect(estimate.max_rows).toBe(3);
+    expect(estimate.may_hit_limit).toBe(false);
+    expect(estimate.breakdowns[1]).toMatchObject({ column: "region", max_groups: 1 });
+    expect(estimate.breakdowns[1]!.note).toContain("before the time window");
+  });
+
+  it("falls back to the limit for unbounded columns", () => {
+    const estimate = estimateCardinality({ breakdowns: ["error", "trace.trace_id", "derived"], limit: 50 }, columns, NOW);
+
+    expect(estimate).toMatchObject({ max_rows: 50, may_hit_limit: true });
+    expect(estimate.breakdowns[1]!.note).toMatch(/identifier/);
+    expect(estimate.breakdowns[2]!.note).toMatch(/Not among the dataset's columns/);
+  });
+
+  it("leaves every breakdown unbounded without column metadata", () => {
+    const estimate = estimateCardinality({ breakdowns: ["error"], limit: 50 }, undefined, NOW);
+
+    expect(estimate).toMatchObject({ max_rows: 50, may_hit_limit: true });
+    expect(estimate.breakdowns[0]!.note).toMatch(/isn't available for this query/);
+  });
+});
@@ -0,0 +1,95 @@
+import { Column } from "../types/column.js";
+import { AnalysisQuery } from "../types/query.js";
+import { isIdentifierColumn } from "./bubble-up.js";
+import { DEFAULT_QUERY_LIMIT } from "./request.js";
+import { resolveTimeWindow } from "./time.js";
+
+/**
+ * What a column's metadata reveals about the groups a breakdown on it makes
+ */
+export interface BreakdownEstimate {
+  column: string;
+  type?: string;
+  // Most groups the breakdown can make, when the metadata bounds it
+  max_groups?: number;
+  note?: string;
+}
+
+/**
+ * How many rows a query can return, estimated without running it
+ */
+export interface CardinalityEstimate {
+  max_rows: number;
+  // True unless the breakdowns are known to make fewer groups than the limit
+  may_hit_limit: boolean;
+  breakdowns: BreakdownEstimate[];
+}
+
+function estimateBreakdown(name: string, columns: Map<string, Column> | undefined, windowStart: number): BreakdownEstimate {
+  if (!columns) {
+    return { column: name, note: "Column metadata isn't available for this query, so nothing is known about its values" };
+  }
+  const column = columns.get(name);
+  if (!column) {
+    return { column: name, note: "Not among the dataset's columns, so nothing is known about its values" };
+  }
+
+  const type = column.type ?? "string";
+  const lastWritten = column.last_written ? Date.parse(column.last_written) / 1000 : NaN;
+  if (lastWritten < windowStart) {
+    return {
+      column: name,
+      type,
+      max_groups: 1,
+      note: `Last written at ${column.last_written}, before the time window, so every event falls in the group with no value`,
+    };
+  }
+  if (type === "boolean") {
+    return { column: name, type, max_groups: 3, note: "true, false, or no value" };
+  }
+  if (isIdentifierColumn(name)) {
+    return {
+      column: name,
+      type,
+      note: "Looks like an identifier: expect about one group per event, so the limit decides how many rows come back",
+    };
+  }
+  return { column: name, type };
+}
+
+/**
+ * Estimate how many result rows a query returns from the dataset's columns
+ *
+ * Only column metadata is used: types, names and when each column was last
+ * written. A breakdown on a boolean makes at most three groups and one on a
+ * column not written during the window makes one; other columns are
+ * unbounded, leaving the limit as the only bound on the rows.
+ *
+ * @param query - The query body, with times in seconds
+ * @param columns - The dataset's columns, or undefined when they can't be
+ *   fetched, as for __all__ or keys without the columns permission,
+ *   leaving every breakdown unbounded
+ * @param now - The current time in Unix seconds
+ */
+export function estimateCardinality(
+  query: AnalysisQuery,
+  columns: Column[] | undefined,
+  now: number = Math.floor(Date.now() / 1000),
+): CardinalityEstimate {
+  const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+  const window = resolveTimeWindow(query, now);
+  const byName = columns && new Map(columns.map(column => [column.key_name, column]));
+  const breakdowns = (query.breakdowns ?? []).map(name => estimateBreakdown(name, byName, window.start));
+
+  // Groups multiply across breakdowns; one unbounded breakdown leaves them unbounded
+  let groups: number | undefined = 1;
+  for (const breakdown of breakdowns) {
+    groups = groups !== undefined && breakdown.max_groups !== undefined ? groups * breakdown.max_groups : undefined;
+  }
+
+  return {
+    max_rows: groups === undefined ? limit : Math.min(groups, limit),
+    may_hit_limit: groups === undefined || groups > limit,
+    breakdowns,
+  };
+}
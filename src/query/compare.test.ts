@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { compareResults, parseCompareOffset, shiftWindow } from "./compare.js";
+
+describe("query comparison", () => {
+  it("accepts offsets into the past only", () => {
+    expect(parseCompareOffset("-1d")).toBe(-86400);
+    expect(() => parseCompareOffset("1d")).toThrow(/must reach into the past/);
+  });
+
+  it("shifts windows by the offset", () => {
+    expect(shiftWindow({ start: 100_000, end: 103_600 }, -86400)).toEqual({ start: 13_600, end: 17_200 });
+  });
+
+  it("matches groups across windows and reports absolute and percent change", () => {
+    const groups = compareResults(
+      [
+        { service: "api", COUNT: 150, "P99(duration_ms)": 800 },
+        { service: "web", COUNT: 40, "P99(duration_ms)": 90 },
+      ],
+      [
+        { service: "web", COUNT: 0, "P99(duration_ms)": 100 },
+        { service: "api", COUNT: 100, "P99(duration_ms)": 400 },
+        { service: "db", COUNT: 7, "P99(duration_ms)": 3 },
+      ],
+      { calculations: [{ op: "COUNT" }, { op: "P99", column: "duration_ms" }], breakdowns: ["service"] },
+    );
+
+    expect(groups).toEqual([
+      {
+        group: { service: "api" },
+        changes: {
+          COUNT: { current: 150, previous: 100, change: 50, percent_change: 50 },
+          "P99(duration_ms)": { current: 800, previous: 400, change: 400, percent_change: 100 },
+        },
+      },
+      {
+        group: { service: "web" },
+        changes: {
+          COUNT: { current: 40, previous: 0, change: 40, percent_change: null },
+          "P99(duration_ms)": { current: 90, previous: 100, change: -10, percent_change: -10 },
+        },
+      },
+      {
+        group: { service: "db" },
+        changes: {
+          COUNT: { current: null, previous: 7, change: null, percent_change: null },
+          "P99(duration_ms)": { current: null, previous: 3, change: null, percent_change: null },
+        },
+      },
+    ]);
+  });
+
+  it("keeps the direction of the change for negative values", () => {
+    const [comparison] = compareResults([{ "SUM(balance)": -5 }], [{ "SUM(balance)": -10 }], {
+      calculations: [{ op: "SUM", column: "balance" }],
+    });
+
+    expect(comparison!.changes["SUM(balance)"]).toEqual({ current: -5, previous: -10, change: 5, percent_change: 50 });
+  });
+
+  it("compares a single group without breakdowns", () => {
+    expect(compareResults([{ COUNT: 3 }], [{ COUNT: 9 }], {})).toEqual([
+      { group: {}, changes: { COUNT: { current: 3, previous: 9, change: -6, percent_change: -66.67 } } },
+    ]);
+  });
+});
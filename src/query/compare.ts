@@ -0,0 +1,98 @@
+import { QueryCalculation, QueryResultValue } from "../types/query.js";
+import { QueryError } from "../utils/errors.js";
+import { calculationName } from "./timeseries.js";
+import { parseDuration, TimeWindow } from "./time.js";
+
+/**
+ * How one calculation changed for a group between two windows
+ */
+export interface CalculationChange {
+  current: number | null;
+  previous: number | null;
+  // null when the group is missing from either window
+  change: number | null;
+  // null when the group is missing from either window or was 0 before
+  percent_change: number | null;
+}
+
+/**
+ * The change in every calculation for one breakdown group
+ */
+export interface GroupComparison {
+  group: Record<string, string | number | boolean | null>;
+  changes: Record<string, CalculationChange>;
+}
+
+/**
+ * Parse a compare_to offset such as "-1d" into seconds
+ *
+ * @throws QueryError if the offset is not a duration into the past
+ */
+export function parseCompareOffset(compareTo: string): number {
+  const offset = parseDuration(compareTo);
+  if (offset >= 0) {
+    throw new QueryError(`compare_to must reach into the past, got '${compareTo}'`, [
+      "Use a negative offset such as \"-1d\" for yesterday or \"-7d\" for last week",
+    ]);
+  }
+  return offset;
+}
+
+/**
+ * Shift a window by an offset in seconds
+ */
+export function shiftWindow(window: TimeWindow, offset: number): TimeWindow {
+  return { start: window.start + offset, end: window.end + offset };
+}
+
+const numeric = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+// Two decimal places are plenty for a percentage in a tool response
+const roundPercent = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Match the result rows of two windows by breakdown group and work out how
+ * each calculation changed
+ *
+ * Groups appear in the order of the current results, followed by any that
+ * only appear in the previous window. HEATMAP calculations are left out.
+ */
+export function compareResults(
+  current: QueryResultValue[],
+  previous: QueryResultValue[],
+  query: { calculations?: QueryCalculation[]; breakdowns?: string[] },
+): GroupComparison[] {
+  const breakdowns = query.breakdowns ?? [];
+  const calculations = (query.calculations?.length ? query.calculations : [{ op: "COUNT" }])
+    .filter(calculation => calculation.op !== "HEATMAP")
+    .map(calculationName);
+
+  const groupKey = (row: QueryResultValue) => JSON.stringify(breakdowns.map(breakdown => row[breakdown] ?? null));
+  const rows = new Map<string, { current?: QueryResultValue; previous?: QueryResultValue }>();
+  current.forEach(row => rows.set(groupKey(row), { ...rows.get(groupKey(row)), current: row }));
+  previous.forEach(row => rows.set(groupKey(row), { ...rows.get(groupKey(row)), previous: row }));
+
+  return [...rows.values()].map(({ current: now, previous: before }) => {
+    const row = (now ?? before)!;
+    const group: GroupComparison["group"] = {};
+    breakdowns.forEach(breakdown => {
+      group[breakdown] = row[breakdown] ?? null;
+    });
+
+    const changes: GroupComparison["changes"] = {};
+    for (const calculation of calculations) {
+      const currentValue = numeric(now?.[calculation]);
+      const previousValue = numeric(before?.[calculation]);
+      const change = currentValue !== null && previousValue !== null ? currentValue - previousValue : null;
+      changes[calculation] = {
+        current: currentValue,
+        previous: previousValue,
+        change,
+        // Relative to the size of the previous value, so a rise from -10 to -5 is +50%
+        percent_change: change !== null && previousValue ? roundPercent((change / Math.abs(previousValue)) * 100) : null,
+      };
+    }
+    return { group, changes };
+  });
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { buildQueryBody, DEFAULT_QUERY_LIMIT } from "./request.js";
+
+describe("buildQueryBody", () => {
+  it("fills in Honeycomb's defaults and drops what the API doesn't take", () => {
+    expect(buildQueryBody({
+      environment: "prod",
+      dataset: "api",
+      breakdowns: ["service"],
+      orders: [{ column: "service" }],
+      filters: undefined,
+    })).toEqual({
+      calculations: [{ op: "COUNT" }],
+      breakdowns: ["service"],
+      orders: [{ column: "service", order: "ascending" }],
+      limit: DEFAULT_QUERY_LIMIT,
+    });
+  });
+
+  it("resolves time expressions to seconds", () => {
+    expect(buildQueryBody({
+      environment: "prod",
+      dataset: "api",
+      calculations: [{ op: "P99", column: "duration_ms" }],
+      time_range: "1h",
+      end_time: "2025-01-01T00:00:00Z",
+      limit: 5,
+    })).toEqual({
+      calculations: [{ op: "P99", column: "duration_ms" }],
+      time_range: 3600,
+      end_time: 1735689600,
+      limit: 5,
+    });
+  });
+});
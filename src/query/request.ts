@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { QueryToolSchema } from "../types/schema.js";
+import { AnalysisQuery } from "../types/query.js";
+import { normalizeTimeParameters } from "./time.js";
+
+// Result rows returned when the caller doesn't set a limit
+export const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * Build the body sent to Honeycomb's /1/queries/{dataset} endpoint
+ *
+ * Fills in what Honeycomb would otherwise assume: COUNT when there are no
+ * calculations, the default limit, and an ascending direction for orders
+ * without one. Time expressions are resolved to seconds, and the
+ * environment, dataset and any unset fields are left out.
+ */
+export function buildQueryBody(params: z.infer<typeof QueryToolSchema>): AnalysisQuery {
+  const { environment: _, dataset: __, time_range, start_time, end_time, ...query } = params;
+
+  const body: AnalysisQuery = {
+    ...query,
+    calculations: query.calculations?.length ? query.calculations : [{ op: "COUNT" }],
+    orders: query.orders?.map(order => ({ ...order, order: order.order ?? "ascending" })),
+    // Honeycomb only understands seconds, not expressions such as "now-3h"
+    ...normalizeTimeParameters({ time_range, start_time, end_time }),
+    limit: query.limit || DEFAULT_QUERY_LIMIT,
+  };
+
+  // Remove undefined parameters to avoid API validation errors
+  for (const key of Object.keys(body) as (keyof AnalysisQuery)[]) {
+    if (body[key] === undefined) {
+      delete body[key];
+    }
+  }
+  return body;
+}
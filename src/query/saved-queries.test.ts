@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  fillPlaceholders,
+  instantiateSavedQuery,
+  placeholdersOf,
+  SavedQuery,
+  SavedQueryStore,
+  summarizeSavedQuery,
+} from "./saved-queries.js";
+
+const slowEndpoints: SavedQuery = {
+  description: "Slowest endpoints of a service",
+  query: {
+    environment: "prod",
+    dataset: "api",
+    calculations: [{ op: "P99", column: "duration_ms" }],
+    breakdowns: ["http.route"],
+    where: "service.name = \"{service}\"",
+    time_range: "{window}",
+    limit: "{limit}",
+  },
+  defaults: { window: "1h", limit: 10 },
+};
+
+describe("saved query templates", () => {
+  it("finds placeholders in the order they first appear", () => {
+    expect(placeholdersOf(slowEndpoints.query)).toEqual(["service", "window", "limit"]);
+    expect(placeholdersOf({ a: "{x} and {x}", b: ["{y}"] })).toEqual(["x", "y"]);
+  });
+
+  it("keeps the argument's type for a string that is only a placeholder", () => {
+    expect(fillPlaceholders({ limit: "{limit}", where: "n > {limit}" }, { limit: 5 })).toEqual({ limit: 5, where: "n > 5" });
+  });
+
+  it("fills placeholders from arguments, then defaults", () => {
+    const query = instantiateSavedQuery("slow-endpoints", slowEndpoints, { service: "checkout", window: "3h" });
+
+    expect(query).toMatchObject({ where: "service.name = \"checkout\"", time_range: "3h", limit: 10 });
+  });
+
+  it("rejects missing and unknown arguments", () => {
+    expect(() => instantiateSavedQuery("slow-endpoints", slowEndpoints)).toThrow(/needs a value for \{service\}/);
+    expect(() => instantiateSavedQuery("slow-endpoints", slowEndpoints, { service: "a", servce: "b" })).toThrow(
+      expect.objectContaining({
+        message: expect.stringMatching(/has no placeholder \{servce\}/),
+        suggestions: expect.arrayContaining(["Did you mean 'service' instead of 'servce'?"]),
+      })
+    );
+  });
+
+  it("summarizes the placeholders with their defaults", () => {
+    expect(summarizeSavedQuery("slow-endpoints", slowEndpoints).placeholders).toEqual([
+      { name: "service" },
+      { name: "window", default: "1h" },
+      { name: "limit", default: 10 },
+    ]);
+  });
+});
+
+describe("SavedQueryStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-queries-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("holds no queries until the file exists", async () => {
+    expect(await new SavedQueryStore(join(dir, "queries.yaml")).list()).toEqual({});
+  });
+
+  it("saves, reads and deletes queries in a YAML file", async () => {
+    const path = join(dir, "queries.yaml");
+    const store = new SavedQueryStore(path);
+
+    await store.save("slow-endpoints", slowEndpoints);
+    expect(await readFile(path, "utf8")).toContain("slow-endpoints:");
+    expect(await store.get("slow-endpoints")).toEqual(slowEndpoints);
+
+    await store.delete("slow-endpoints");
+    expect(await store.list()).toEqual({});
+  });
+
+  it("writes JSON when the file name ends in .json", async () => {
+    const path = join(dir, "queries.json");
+    await new SavedQueryStore(path).save("slow-endpoints", slowEndpoints);
+
+    expect(JSON.parse(await readFile(path, "utf8"))).toEqual({ queries: { "slow-endpoints": slowEndpoints } });
+  });
+
+  it("picks up edits made to the file by hand", async () => {
+    const path = join(dir, "queries.yaml");
+    const store = new SavedQueryStore(path);
+    await writeFile(path, "queries:\n  errors:\n    query:\n      environment: prod\n");
+
+    expect(Object.keys(await store.list())).toEqual(["errors"]);
+  });
+
+  it("keeps every query when saves overlap", async () => {
+    const store = new SavedQueryStore(join(dir, "queries.yaml"));
+
+    await Promise.all(["a", "b", "c"].map(name => store.save(name, { query: { environment: name } })));
+
+    expect(Object.keys(await store.list()).sort()).toEqual(["a", "b", "c"]);
+  });
+
+  it("refuses to replace a query unless asked to", async () => {
+    const store = new SavedQueryStore(join(dir, "queries.yaml"));
+    await store.save("errors", { query: { environment: "prod" } });
+
+    await expect(store.save("errors", { query: { environment: "dev" } })).rejects.toThrow(/already saved/);
+    await store.save("errors", { query: { environment: "dev" } }, true);
+    expect((await store.get("errors")).query).toEqual({ environment: "dev" });
+  });
+
+  it("rejects names that can't be used in a resource URI", async () => {
+    await expect(new SavedQueryStore(join(dir, "queries.yaml")).save("slow endpoints", slowEndpoints))
+      .rejects.toThrow(/Invalid saved query name/);
+  });
+
+  it("suggests similar names for a query that isn't saved", async () => {
+    const store = new SavedQueryStore(join(dir, "queries.yaml"));
+    await store.save("slow-endpoints", slowEndpoints);
+
+    await expect(store.get("slow-endpoint")).rejects.toThrow(
+      expect.objectContaining({ suggestions: expect.arrayContaining(["Did you mean 'slow-endpoints'?"]) })
+    );
+    await expect(store.delete("missing")).rejects.toThrow(/No saved query named 'missing'/);
+  });
+
+  it("reports an invalid file with the offending path", async () => {
+    const path = join(dir, "queries.yaml");
+    await writeFile(path, "queries:\n  errors:\n    qurey: {}\n");
+
+    await expect(new SavedQueryStore(path).list()).rejects.toThrow(/Invalid saved queries file .*queries\.errors/);
+  });
+});
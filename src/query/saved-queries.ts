@@ -0,0 +1,321 @@
+import { z } from "zod";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { HoneycombError, QueryError } from "../utils/errors.js";
+import { closestMatches } from "../utils/fuzzy.js";
+import { HoneycombAPI } from "../api/client.js";
+
+/**
+ * Saved queries file used when none is configured, in the working directory
+ */
+export const DEFAULT_SAVED_QUERIES_FILE = "honeycomb-mcp.queries.yaml";
+
+// Names double as resource URIs, so they stick to URL-safe characters
+export const SAVED_QUERY_NAME = /^[A-Za-z0-9][\w.-]*$/;
+
+// "{service}" or "{time-window}"
+const PLACEHOLDER = /\{([A-Za-z_][\w-]*)\}/g;
+
+// A string that is nothing but one placeholder takes the argument's type
+const WHOLE_PLACEHOLDER = /^\{([A-Za-z_][\w-]*)\}$/;
+
+export const PlaceholderValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export type PlaceholderValue = z.infer<typeof PlaceholderValueSchema>;
+
+/**
+ * A named query template, as stored in the saved queries file
+ */
+export const SavedQuerySchema = z.object({
+  description: z.string().optional(),
+  // run_query parameters; any string in them may hold {placeholders}
+  query: z.record(z.unknown()),
+  // Values for placeholders that callers may leave out
+  defaults: z.record(PlaceholderValueSchema).optional(),
+}).strict();
+
+export type SavedQuery = z.infer<typeof SavedQuerySchema>;
+
+/**
+ * Schema for the saved queries file, YAML or JSON by its extension
+ */
+export const SavedQueriesFileSchema = z.object({
+  queries: z.record(SavedQuerySchema).default({}),
+}).strict();
+
+/**
+ * The placeholders a template uses, in the order they first appear
+ */
+export function placeholdersOf(template: unknown): string[] {
+  const names = new Set<string>();
+  const visit = (value: unknown): void => {
+    if (typeof value === "string") {
+      for (const [, name] of value.matchAll(PLACEHOLDER)) {
+        names.add(name!);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(template);
+  return [...names];
+}
+
+/**
+ * Replace the placeholders in a template with argument values
+ *
+ * A string that is a single placeholder, such as "{limit}", becomes the
+ * argument itself, so numbers and booleans keep their type. Placeholders
+ * inside longer strings are replaced by the argument as text.
+ */
+export function fillPlaceholders(template: unknown, args: Record<string, PlaceholderValue>): unknown {
+  if (typeof template === "string") {
+    const whole = WHOLE_PLACEHOLDER.exec(template);
+    if (whole && whole[1]! in args) {
+      return args[whole[1]!];
+    }
+    return template.replace(PLACEHOLDER, (text, name: string) => (name in args ? String(args[name]) : text));
+  }
+  if (Array.isArray(template)) {
+    return template.map(value => fillPlaceholders(value, args));
+  }
+  if (template && typeof template === "object") {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, fillPlaceholders(value, args)]));
+  }
+  return template;
+}
+
+/**
+ * A saved query as shown to callers, with the arguments it takes
+ */
+export interface SavedQuerySummary {
+  name: string;
+  description?: string;
+  placeholders: { name: string; default?: PlaceholderValue }[];
+  query: Record<string, unknown>;
+}
+
+/**
+ * Describe a saved query along with its placeholders and their defaults
+ */
+export function summarizeSavedQuery(name: string, saved: SavedQuery): SavedQuerySummary {
+  return {
+    name,
+    description: saved.description,
+    placeholders: placeholdersOf(saved.query).map(placeholder =>
+      saved.defaults && placeholder in saved.defaults
+        ? { name: placeholder, default: saved.defaults[placeholder] }
+        : { name: placeholder }
+    ),
+    query: saved.query,
+  };
+}
+
+/**
+ * Turn a saved query into run_query parameters
+ *
+ * @param args - Placeholder values; the saved query's defaults fill the rest
+ * @throws QueryError if an argument is missing or matches no placeholder
+ */
+export function instantiateSavedQuery(
+  name: string,
+  saved: SavedQuery,
+  args: Record<string, PlaceholderValue> = {},
+): Record<string, unknown> {
+  const placeholders = placeholdersOf(saved.query);
+
+  const unknown = Object.keys(args).filter(arg => !placeholders.includes(arg));
+  if (unknown.length > 0) {
+    throw new QueryError(
+      `Saved query '${name}' has no placeholder ${unknown.map(arg => `{${arg}}`).join(", ")}`,
+      [
+        ...unknown.flatMap(arg => closestMatches(arg, placeholders).slice(0, 1).map(match => `Did you mean '${match}' instead of '${arg}'?`)),
+        placeholders.length > 0 ? `Its placeholders are ${placeholders.map(p => `{${p}}`).join(", ")}` : "It takes no arguments",
+      ]
+    );
+  }
+
+  const values = { ...saved.defaults, ...args };
+  const missing = placeholders.filter(placeholder => !(placeholder in values));
+  if (missing.length > 0) {
+    throw new QueryError(
+      `Saved query '${name}' needs a value for ${missing.map(placeholder => `{${placeholder}}`).join(", ")}`,
+      [`Pass arguments such as {${missing.map(placeholder => `"${placeholder}": "..."`).join(", ")}}`]
+    );
+  }
+
+  return fillPlaceholders(saved.query, values) as Record<string, unknown>;
+}
+
+/**
+ * Decides which saved queries a caller may see and change
+ */
+export type SavedQueryFilter = (saved: SavedQuery) => boolean;
+
+const everyQuery: SavedQueryFilter = () => true;
+
+/**
+ * The saved queries a client may use: those of the environments in its scope
+ *
+ * One file serves every client, so a client limited to some environments
+ * sees only the queries saved for them. Queries whose environment is a
+ * placeholder could run anywhere, so only unrestricted clients see them.
+ */
+export function savedQueryScope(api: Pick<HoneycombAPI, "isScoped" | "hasEnvironment">): SavedQueryFilter {
+  if (!api.isScoped()) {
+    return everyQuery;
+  }
+  return saved => {
+    const environment = saved.query.environment;
+    return typeof environment === "string" && placeholdersOf(environment).length === 0 && api.hasEnvironment(environment);
+  };
+}
+
+const isMissingFile = (error: unknown) =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT";
+
+/**
+ * Named query templates kept in a local YAML or JSON file
+ *
+ * The file is read on every access, so edits made by hand are picked up
+ * straight away, and a missing file holds no queries. Saving rewrites the
+ * whole file, dropping any comments in it.
+ *
+ * Every method takes a filter that hides the queries a caller may not see,
+ * as made by savedQueryScope; hidden queries can't be read, replaced or
+ * deleted.
+ */
+export class SavedQueryStore {
+  // Changes wait for each other so that concurrent saves don't lose entries
+  private changes: Promise<unknown> = Promise.resolve();
+
+  constructor(public readonly path: string) {}
+
+  /**
+   * Every saved query the caller may see, by name
+   *
+   * @throws Error if the file cannot be parsed or is not a saved queries file
+   */
+  async list(visible: SavedQueryFilter = everyQuery): Promise<Record<string, SavedQuery>> {
+    const queries = await this.read();
+    return Object.fromEntries(Object.entries(queries).filter(([, saved]) => visible(saved)));
+  }
+
+  /**
+   * Look up one saved query
+   *
+   * @throws HoneycombError (404) if there is no query by that name the caller may see
+   */
+  async get(name: string, visible: SavedQueryFilter = everyQuery): Promise<SavedQuery> {
+    const queries = await this.list(visible);
+    const saved = queries[name];
+    if (!saved) {
+      throw this.notFound(name, Object.keys(queries));
+    }
+    return saved;
+  }
+
+  /**
+   * Save a query under a name
+   *
+   * @param overwrite - Replace a query already saved under the name
+   * @param visible - The queries the caller may see; the new query must be one of them
+   * @throws QueryError if the name is invalid or taken and overwrite is not set,
+   *   or the query is for an environment the caller may not use
+   */
+  async save(name: string, saved: SavedQuery, overwrite: boolean = false, visible: SavedQueryFilter = everyQuery): Promise<void> {
+    if (!SAVED_QUERY_NAME.test(name)) {
+      throw new QueryError(`Invalid saved query name '${name}'`, [
+        "Use letters, digits, '.', '_' and '-', starting with a letter or digit, e.g. \"slow-endpoints\"",
+      ]);
+    }
+    if (!visible(saved)) {
+      throw new QueryError(`Saved query '${name}' must be for an environment you can use`, [
+        "Set the query's environment to one of your environments, not a placeholder",
+      ]);
+    }
+    await this.change(queries => {
+      const existing = queries[name];
+      if (existing && !visible(existing)) {
+        throw new QueryError(`A query named '${name}' is already saved for another environment`, [
+          "Pick another name",
+        ]);
+      }
+      if (existing && !overwrite) {
+        throw new QueryError(`A query named '${name}' is already saved`, [
+          "Set overwrite to true to replace it",
+          "Or pick another name",
+        ]);
+      }
+      queries[name] = SavedQuerySchema.parse(saved);
+    });
+  }
+
+  /**
+   * Delete a saved query
+   *
+   * @throws HoneycombError (404) if there is no query by that name the caller may see
+   */
+  async delete(name: string, visible: SavedQueryFilter = everyQuery): Promise<void> {
+    await this.change(queries => {
+      if (!queries[name] || !visible(queries[name])) {
+        throw this.notFound(name, Object.keys(queries).filter(other => visible(queries[other]!)));
+      }
+      delete queries[name];
+    });
+  }
+
+  // Every saved query in the file, whoever may see it
+  private async read(): Promise<Record<string, SavedQuery>> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return {};
+      }
+      throw error;
+    }
+
+    let raw: unknown;
+    try {
+      raw = extname(this.path) === ".json" ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      throw new Error(`Failed to parse saved queries file ${this.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const parsed = SavedQueriesFileSchema.safeParse(raw ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "(file)"}: ${issue.message}`);
+      throw new Error(`Invalid saved queries file ${this.path}: ${issues.join("; ")}`);
+    }
+    return parsed.data.queries;
+  }
+
+  // Apply an edit to the saved queries and write them back atomically
+  private change(edit: (queries: Record<string, SavedQuery>) => void): Promise<void> {
+    const next = this.changes.then(async () => {
+      const queries = await this.read();
+      edit(queries);
+      const text = extname(this.path) === ".json"
+        ? `${JSON.stringify({ queries }, null, 2)}\n`
+        : stringifyYaml({ queries });
+      const temporary = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temporary, text, "utf8");
+      await rename(temporary, this.path);
+    });
+    // A failed change must not block the ones after it
+    this.changes = next.catch(() => {});
+    return next;
+  }
+
+  private notFound(name: string, names: string[]): HoneycombError {
+    const similar = closestMatches(name, names);
+    return new HoneycombError(404, `No saved query named '${name}'`, [
+      ...(similar.length > 0 ? [`Did you mean ${similar.map(match => `'${match}'`).join(" or ")}?`] : []),
+      "Use list_saved_queries to see the saved queries",
+    ]);
+  }
+}
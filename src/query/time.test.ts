@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  markerFinder,
+  normalizeTimeParameters,
+  parseDuration,
+  parseTimePoint,
+  parseTimeRange,
+  resolveTimeParameters,
+  resolveTimeWindow,
+} from "./time.js";
+import { QueryError } from "../utils/errors.js";
+
+describe("query time", () => {
+  describe("parseDuration", () => {
+    it("parses single and mixed units", () => {
+      expect(parseDuration("90m")).toBe(5400);
+      expect(parseDuration("1h30m")).toBe(5400);
+      expect(parseDuration("2w")).toBe(1209600);
+      expect(parseDuration("-7d")).toBe(-604800);
+    });
+
+    it("rejects text that is not a duration", () => {
+      expect(() => parseDuration("yesterday")).toThrow(QueryError);
+      expect(() => parseDuration("5")).toThrow(/Invalid duration '5'/);
+    });
+  });
+
+  describe("resolveTimeWindow", () => {
+    const now = 1_700_000_000;
+
+    it("ends relative ranges now", () => {
+      expect(resolveTimeWindow({ time_range: 3600 }, now)).toEqual({ start: now - 3600, end: now });
+    });
+
+    it("defaults to the last two hours", () => {
+      expect(resolveTimeWindow({}, now)).toEqual({ start: now - 7200, end: now });
+    });
+
+    it("extends a range from whichever edge is given", () => {
+      expect(resolveTimeWindow({ time_range: 60, start_time: 1000 }, now)).toEqual({ start: 1000, end: 1060 });
+      expect(resolveTimeWindow({ time_range: 60, end_time: 1000 }, now)).toEqual({ start: 940, end: 1000 });
+      expect(resolveTimeWindow({ start_time: 10, end_time: 20 }, now)).toEqual({ start: 10, end: 20 });
+    });
+  });
+
+  describe("parseTimePoint", () => {
+    // 2025-01-02T10:30:00Z
+    const now = 1735813800;
+
+    it("passes Unix seconds through", () => {
+      expect(parseTimePoint(1735689600, now)).toBe(1735689600);
+      expect(parseTimePoint("1735689600", now)).toBe(1735689600);
+    });
+
+    it("reads ISO 8601 timestamps as UTC unless they carry an offset", () => {
+      expect(parseTimePoint("2025-01-01T00:00:00Z", now)).toBe(1735689600);
+      expect(parseTimePoint("2025-01-01 00:00", now)).toBe(1735689600);
+      expect(parseTimePoint("2025-01-01T02:00:00+02:00", now)).toBe(1735689600);
+      expect(parseTimePoint("2025-01-01", now)).toBe(1735689600);
+    });
+
+    it("resolves times relative to now", () => {
+      expect(parseTimePoint("now", now)).toBe(now);
+      expect(parseTimePoint("now-3h", now)).toBe(now - 10800);
+      expect(parseTimePoint("now - 90m", now)).toBe(now - 5400);
+      expect(parseTimePoint("2h ago", now)).toBe(now - 7200);
+      expect(parseTimePoint("since now-1d", now)).toBe(now - 86400);
+    });
+
+    it("resolves calendar days with an optional time and offset", () => {
+      expect(parseTimePoint("today", now)).toBe(1735776000);
+      expect(parseTimePoint("yesterday 14:00 UTC", now)).toBe(1735740000);
+      expect(parseTimePoint("yesterday 14:00 +02:00", now)).toBe(1735732800);
+    });
+
+    it("looks up marker references", () => {
+      expect(parseTimePoint("since marker abc", now, { abc: 1735700000 })).toBe(1735700000);
+      expect(() => parseTimePoint("marker nope", now)).toThrow(/Unknown marker 'nope'/);
+    });
+
+    it("rejects text that is not a time", () => {
+      expect(() => parseTimePoint("last tuesday", now)).toThrow(QueryError);
+      expect(() => parseTimePoint("2025-13-45T00:00:00Z", now)).toThrow(/Invalid time/);
+    });
+  });
+
+  it("reads time ranges as seconds or durations", () => {
+    expect(parseTimeRange(3600)).toBe(3600);
+    expect(parseTimeRange("3600")).toBe(3600);
+    expect(parseTimeRange("1h30m")).toBe(5400);
+    expect(() => parseTimeRange("-1h")).toThrow(/must be positive/);
+  });
+
+  describe("normalizeTimeParameters", () => {
+    const now = 1_700_000_000;
+
+    it("resolves every parameter", () => {
+      expect(normalizeTimeParameters({ time_range: "1h", end_time: "now-1d" }, now)).toEqual({
+        time_range: 3600,
+        end_time: now - 86400,
+      });
+    });
+
+    it("turns 'since' forms into windows that run until now", () => {
+      expect(normalizeTimeParameters({ time_range: "since now-90m" }, now)).toEqual({ start_time: now - 5400, end_time: now });
+      expect(normalizeTimeParameters({ start_time: "since now-1h", time_range: 600 }, now)).toEqual({ start_time: now - 3600, time_range: 600 });
+      expect(() => normalizeTimeParameters({ time_range: "since now-1h", start_time: 1 }, now)).toThrow(/cannot be combined/);
+    });
+  });
+
+  it("looks up each referenced marker once", async () => {
+    const lookups: string[] = [];
+    const resolved = await resolveTimeParameters(
+      { start_time: "since marker deploy-1", end_time: "now" },
+      async id => { lookups.push(id); return id === "deploy-1" ? 1_699_990_000 : undefined; },
+      1_700_000_000,
+    );
+
+    expect(resolved).toEqual({ start_time: 1_699_990_000, end_time: 1_700_000_000 });
+    expect(lookups).toEqual(["deploy-1"]);
+  });
+
+  describe("markerFinder", () => {
+    const api = {
+      getMarkers: vi.fn(async () => [{ id: "env-deploy", start_time: 100 }]),
+      getDatasetMarkers: vi.fn(async () => [{ id: "dataset-deploy", start_time: 200 }]),
+    };
+
+    it("falls back to the dataset's own markers", async () => {
+      const find = markerFinder(api, "prod", "api");
+
+      expect(await find("env-deploy")).toBe(100);
+      expect(api.getDatasetMarkers).not.toHaveBeenCalled();
+      expect(await find("dataset-deploy")).toBe(200);
+      expect(api.getDatasetMarkers).toHaveBeenCalledWith("prod", "api", {});
+      expect(await find("missing")).toBeUndefined();
+    });
+
+    it("only searches environment-wide markers for __all__", async () => {
+      api.getDatasetMarkers.mockClear();
+
+      expect(await markerFinder(api, "prod", "__all__")("dataset-deploy")).toBeUndefined();
+      expect(api.getDatasetMarkers).not.toHaveBeenCalled();
+    });
+  });
+});
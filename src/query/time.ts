@@ -0,0 +1,326 @@
+import { QueryError } from "../utils/errors.js";
+import type { HoneycombAPI } from "../api/client.js";
+import type { CallOptions } from "../types/api.js";
+
+// Honeycomb's default query window when no time parameters are given
+export const DEFAULT_TIME_RANGE = 7200;
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+};
+
+// Unix seconds as text, e.g. "1735689600"
+const UNIX_SECONDS = /^\d+$/;
+
+// ISO 8601 dates and times, with an optional UTC offset
+const ISO_8601 = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+// "now", "now-3h", "now + 30m"
+const RELATIVE_TO_NOW = /^now\s*(?:([+-])\s*(\S+))?$/i;
+
+// "3h ago"
+const AGO = /^(\S+)\s+ago$/i;
+
+// "today", "yesterday 14:00 UTC", "today 09:30 +02:00"
+const CALENDAR_DAY = /^(today|yesterday)(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?(?:\s*(UTC|GMT|Z|[+-]\d{2}:?\d{2}))?$/i;
+
+// "marker abc123", optionally with "since" in front
+const MARKER_REFERENCE = /^(?:since\s+)?marker\s+(\S+)$/i;
+
+/**
+ * A time given as Unix seconds or as an expression such as "now-3h"
+ */
+export type TimeExpression = number | string;
+
+/**
+ * An absolute query window, in Unix seconds
+ */
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * A window as ISO 8601 timestamps, for echoing back in tool responses
+ */
+export function formatTimeWindow(window: TimeWindow): { start: string; end: string } {
+  return {
+    start: new Date(window.start * 1000).toISOString(),
+    end: new Date(window.end * 1000).toISOString(),
+  };
+}
+
+/**
+ * Parse a duration such as "90m", "1h30m" or "-7d" into seconds
+ *
+ * Units are s, m, h, d and w. A leading "-" makes the duration negative.
+ *
+ * @throws QueryError if the text is not a duration
+ */
+export function parseDuration(text: string): number {
+  const match = /^\s*([+-]?)((?:\d+[smhdw])+)\s*$/.exec(text);
+  if (!match) {
+    throw new QueryError(`Invalid duration '${text}'`, [
+      "Use a number followed by a unit: s, m, h, d or w, e.g. \"90m\" or \"7d\"",
+      "Combine units for mixed durations, e.g. \"1h30m\"",
+    ]);
+  }
+
+  let seconds = 0;
+  for (const [, amount, unit] of match[2]!.matchAll(/(\d+)([smhdw])/g)) {
+    seconds += Number(amount) * UNIT_SECONDS[unit!]!;
+  }
+  return match[1] === "-" ? -seconds : seconds;
+}
+
+/**
+ * Work out the absolute window a query's time parameters cover
+ *
+ * A time_range on its own ends now; combined with start_time or end_time it
+ * extends from that edge. Without any time parameters the window is the last
+ * two hours, Honeycomb's default.
+ *
+ * @param now - The current time in Unix seconds
+ */
+export function resolveTimeWindow(
+  params: { time_range?: number; start_time?: number; end_time?: number },
+  now: number = Math.floor(Date.now() / 1000),
+): TimeWindow {
+  const { time_range, start_time, end_time } = params;
+  if (start_time !== undefined && end_time !== undefined) {
+    return { start: start_time, end: end_time };
+  }
+  const range = time_range ?? DEFAULT_TIME_RANGE;
+  if (start_time !== undefined) {
+    return { start: start_time, end: start_time + range };
+  }
+  const end = end_time ?? now;
+  return { start: end - range, end };
+}
+
+const invalidTime = (text: string) => new QueryError(`Invalid time '${text}'`, [
+  "Use Unix seconds, or an ISO 8601 timestamp such as \"2025-01-01T14:00:00Z\"",
+  "Or a relative time such as \"now-3h\", \"3h ago\" or \"yesterday 14:00 UTC\"",
+  "Or \"since marker <id>\" to start at a marker",
+]);
+
+// Minutes east of UTC for "Z", "UTC", "+02:00" or "-0530"
+function offsetMinutes(zone: string | undefined): number {
+  const match = /^([+-])(\d{2}):?(\d{2})$/.exec(zone ?? "");
+  if (!match) {
+    return 0;
+  }
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+/**
+ * The marker id a time expression refers to, if it refers to one
+ */
+export function markerReference(text: string): string | undefined {
+  return MARKER_REFERENCE.exec(text.trim())?.[1];
+}
+
+/**
+ * Resolve a point in time to Unix seconds
+ *
+ * Accepts Unix seconds, ISO 8601 timestamps (UTC unless they carry an
+ * offset), "now" with an optional offset such as "now-3h", "3h ago", and
+ * "today" or "yesterday" with an optional time of day and UTC offset, e.g.
+ * "yesterday 14:00 UTC". A leading "since" is ignored. Marker references
+ * such as "marker abc123" are looked up in the markers given.
+ *
+ * @param now - The current time in Unix seconds
+ * @param markers - Start times of the markers the expression may refer to, by id
+ * @throws QueryError if the expression is not a time or names an unknown marker
+ */
+export function parseTimePoint(
+  value: TimeExpression,
+  now: number = Math.floor(Date.now() / 1000),
+  markers: Record<string, number> = {},
+): number {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  const text = value.trim().replace(/^since\s+/i, "");
+  const marker = markerReference(text);
+  if (marker !== undefined) {
+    const time = markers[marker];
+    if (time === undefined) {
+      throw new QueryError(`Unknown marker '${marker}'`, ["Use list_markers to find the id of the marker"]);
+    }
+    return time;
+  }
+
+  if (UNIX_SECONDS.test(text)) {
+    return Number(text);
+  }
+
+  const iso = ISO_8601.exec(text);
+  if (iso) {
+    const [, date, time, zone] = iso;
+    const ms = Date.parse(time ? `${date}T${time}${zone ?? "Z"}` : `${date}T00:00:00Z`);
+    if (Number.isNaN(ms)) {
+      throw invalidTime(value);
+    }
+    return Math.floor(ms / 1000);
+  }
+
+  const relative = RELATIVE_TO_NOW.exec(text);
+  if (relative) {
+    const [, sign, duration] = relative;
+    if (!duration) {
+      return now;
+    }
+    const seconds = Math.abs(parseDuration(duration));
+    return sign === "-" ? now - seconds : now + seconds;
+  }
+
+  const ago = AGO.exec(text);
+  if (ago) {
+    return now - Math.abs(parseDuration(ago[1]!));
+  }
+
+  const day = CALENDAR_DAY.exec(text);
+  if (day) {
+    const [, name, hours, minutes, seconds, zone] = day;
+    const offset = offsetMinutes(zone) * 60;
+    const midnight = Math.floor((now + offset) / 86400) * 86400 - offset;
+    const start = name!.toLowerCase() === "yesterday" ? midnight - 86400 : midnight;
+    return start + Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0);
+  }
+
+  throw invalidTime(value);
+}
+
+/**
+ * Resolve a time_range to seconds
+ *
+ * Accepts seconds, or a duration such as "90m" or "1h30m".
+ *
+ * @throws QueryError if the value is not a positive duration
+ */
+export function parseTimeRange(value: TimeExpression): number {
+  const seconds = typeof value === "number" || UNIX_SECONDS.test(value.trim()) ? Number(value) : parseDuration(value);
+  if (seconds <= 0) {
+    throw new QueryError(`time_range must be positive, got '${value}'`, ["Use a duration such as \"2h\" or \"90m\""]);
+  }
+  return seconds;
+}
+
+/**
+ * Query time parameters, each possibly given as an expression
+ */
+export interface TimeParameters {
+  time_range?: TimeExpression;
+  start_time?: TimeExpression;
+  end_time?: TimeExpression;
+}
+
+/**
+ * Query time parameters resolved to seconds
+ */
+export interface ResolvedTimeParameters {
+  time_range?: number;
+  start_time?: number;
+  end_time?: number;
+}
+
+/**
+ * Resolve time parameters given as expressions to the seconds Honeycomb expects
+ *
+ * A time_range of the form "since <time>" becomes a start_time. A start time
+ * with a leading "since", and nothing else to bound the window, runs until
+ * now rather than for the default range.
+ *
+ * @param now - The current time in Unix seconds
+ * @param markers - Start times of the markers the parameters may refer to, by id
+ * @throws QueryError if a parameter is not a valid time or duration
+ */
+export function normalizeTimeParameters(
+  params: TimeParameters,
+  now: number = Math.floor(Date.now() / 1000),
+  markers: Record<string, number> = {},
+): ResolvedTimeParameters {
+  let { time_range, start_time } = params;
+  if (typeof time_range === "string" && /^since\s/i.test(time_range.trim())) {
+    if (start_time !== undefined) {
+      throw new QueryError("time_range of the form 'since <time>' cannot be combined with start_time", [
+        "Drop start_time, or give time_range as a duration such as \"2h\"",
+      ]);
+    }
+    start_time = time_range;
+    time_range = undefined;
+  }
+
+  const resolved: ResolvedTimeParameters = {};
+  if (time_range !== undefined) {
+    resolved.time_range = parseTimeRange(time_range);
+  }
+  if (start_time !== undefined) {
+    resolved.start_time = parseTimePoint(start_time, now, markers);
+  }
+  if (params.end_time !== undefined) {
+    resolved.end_time = parseTimePoint(params.end_time, now, markers);
+  }
+
+  const since = typeof start_time === "string" && /^since\s/i.test(start_time.trim());
+  if (since && resolved.time_range === undefined && resolved.end_time === undefined) {
+    resolved.end_time = now;
+  }
+  return resolved;
+}
+
+/**
+ * Resolve time parameters, looking up the markers they refer to
+ *
+ * @param findMarker - Looks up the start time of a marker, in Unix seconds,
+ *   or undefined if there is no such marker
+ * @throws QueryError if a parameter is not a valid time or names an unknown marker
+ */
+export async function resolveTimeParameters(
+  params: TimeParameters,
+  findMarker: (id: string) => Promise<number | undefined>,
+  now: number = Math.floor(Date.now() / 1000),
+): Promise<ResolvedTimeParameters> {
+  const markers: Record<string, number> = {};
+  for (const value of Object.values(params)) {
+    const id = typeof value === "string" ? markerReference(value) : undefined;
+    if (id !== undefined && !(id in markers)) {
+      const time = await findMarker(id);
+      if (time !== undefined) {
+        markers[id] = time;
+      }
+    }
+  }
+  return normalizeTimeParameters(params, now, markers);
+}
+
+/**
+ * Look up marker start times through the API, for resolveTimeParameters
+ *
+ * Environment-wide markers are searched first, then the dataset's own
+ * markers, which the environment-wide list leaves out. Each list is fetched
+ * once and served from the cache after.
+ *
+ * @param dataset - The dataset being queried; __all__ has no markers of its own
+ */
+export function markerFinder(
+  api: Pick<HoneycombAPI, "getMarkers" | "getDatasetMarkers">,
+  environment: string,
+  dataset: string | undefined,
+  options: CallOptions = {},
+): (id: string) => Promise<number | undefined> {
+  return async id => {
+    const marker = (await api.getMarkers(environment, options)).find(marker => marker.id === id);
+    if (marker || !dataset || dataset === "__all__") {
+      return marker?.start_time;
+    }
+    return (await api.getDatasetMarkers(environment, dataset, options)).find(marker => marker.id === id)?.start_time;
+  };
+}
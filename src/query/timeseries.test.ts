@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import {
+  aggregationFor,
+  alignSeries,
+  buildTimeSeries,
+  compactTimeSeries,
+  diffSeries,
+  downsampleTimeSeries,
+  findLevelShift,
+  resampleSeries,
+} from "./timeseries.js";
+import { TimeSeries } from "../types/query.js";
+
+const T0 = Date.parse("2025-01-01T00:00:00Z") / 1000;
+const iso = (offset: number) => new Date((T0 + offset) * 1000).toISOString();
+
+function series(calculation: string, values: (number | null)[], start = T0, granularity = 60): TimeSeries {
+  return {
+    calculation,
+    group: {},
+    points: values.map((value, i) => ({ time: start + i * granularity, value })),
+  };
+}
+
+describe("time series", () => {
+  describe("buildTimeSeries", () => {
+    it("splits rows into a series per group and calculation on a shared grid", () => {
+      const set = buildTimeSeries(
+        [
+          { time: iso(0), service: "api", COUNT: 4, "P99(duration_ms)": 120 },
+          { time: iso(120), service: "api", COUNT: 6, "P99(duration_ms)": 900 },
+          { time: iso(60), service: "web", COUNT: 1, "P99(duration_ms)": 30 },
+        ],
+        {
+          calculations: [{ op: "COUNT" }, { op: "P99", column: "duration_ms" }, { op: "HEATMAP", column: "duration_ms" }],
+          breakdowns: ["service"],
+        },
+      );
+
+      expect(set.granularity).toBe(60);
+      expect(set.start).toBe(T0);
+      expect(set.end).toBe(T0 + 120);
+      expect(set.series.map(s => [s.calculation, s.group.service, s.points.map(p => p.value)])).toEqual([
+        ["COUNT", "api", [4, null, 6]],
+        ["P99(duration_ms)", "api", [120, null, 900]],
+        ["COUNT", "web", [null, 1, null]],
+        ["P99(duration_ms)", "web", [null, 30, null]],
+      ]);
+    });
+
+    it("falls back to the query's granularity for a single bucket", () => {
+      const set = buildTimeSeries([{ time: iso(0), COUNT: 3 }], { granularity: 300 });
+
+      expect(set.granularity).toBe(300);
+      expect(set.series).toEqual([{ calculation: "COUNT", group: {}, points: [{ time: T0, value: 3 }] }]);
+    });
+
+    it("returns no series for no rows", () => {
+      expect(buildTimeSeries([], {}).series).toEqual([]);
+    });
+  });
+
+  describe("resampleSeries", () => {
+    it("combines buckets with the aggregation suited to the calculation", () => {
+      const counts = resampleSeries(series("COUNT", [1, 2, 3, null, 5]), 120);
+      const p99 = resampleSeries(series("P99(duration_ms)", [10, 50, 20, null, 5]), 120);
+
+      expect(counts.points).toEqual([
+        { time: T0, value: 3 },
+        { time: T0 + 120, value: 3 },
+        { time: T0 + 240, value: 5 },
+      ]);
+      expect(p99.points.map(p => p.value)).toEqual([50, 20, 5]);
+    });
+
+    it("leaves buckets with no values null", () => {
+      expect(resampleSeries(series("AVG(x)", [null, null]), 120).points).toEqual([{ time: T0, value: null }]);
+    });
+
+    it("rejects granularities that are not positive", () => {
+      expect(() => resampleSeries(series("COUNT", [1]), 0)).toThrow(/must be positive/);
+    });
+  });
+
+  it("picks aggregations by operation", () => {
+    expect(aggregationFor("COUNT")).toBe("sum");
+    expect(aggregationFor("SUM(bytes)")).toBe("sum");
+    expect(aggregationFor("AVG(duration_ms)")).toBe("avg");
+    expect(aggregationFor("MIN(duration_ms)")).toBe("min");
+    expect(aggregationFor("P95(duration_ms)")).toBe("max");
+  });
+
+  it("aligns series onto the same buckets", () => {
+    const [a, b] = alignSeries([series("COUNT", [1, 2]), series("COUNT", [7], T0 + 120)], 60);
+
+    expect(a!.points).toEqual([
+      { time: T0, value: 1 },
+      { time: T0 + 60, value: 2 },
+      { time: T0 + 120, value: null },
+    ]);
+    expect(b!.points.map(p => p.value)).toEqual([null, null, 7]);
+  });
+
+  it("diffs a series against a shifted baseline", () => {
+    const current = series("COUNT", [10, 30, 5], T0 + 86400);
+    const baseline = series("COUNT", [10, 20, 0]);
+
+    expect(diffSeries(current, baseline, 86400).points).toEqual([
+      { time: T0 + 86400, current: 10, baseline: 10, delta: 0, percentChange: 0 },
+      { time: T0 + 86460, current: 30, baseline: 20, delta: 10, percentChange: 50 },
+      { time: T0 + 86520, current: 5, baseline: 0, delta: 5, percentChange: null },
+    ]);
+    expect(diffSeries(current, baseline).points.every(p => p.baseline === null && p.delta === null)).toBe(true);
+  });
+
+  it("compacts a set to value arrays with implied bucket times", () => {
+    const compact = compactTimeSeries({ granularity: 60, start: T0, end: T0 + 60, series: [series("COUNT", [1, null])] });
+
+    expect(compact).toEqual({
+      granularity: 60,
+      start: "2025-01-01T00:00:00.000Z",
+      end: "2025-01-01T00:01:00.000Z",
+      series: [{ calculation: "COUNT", values: [1, null], peak: { time: "2025-01-01T00:00:00.000Z", value: 1 } }],
+    });
+  });
+
+  describe("downsampleTimeSeries", () => {
+    const set = {
+      granularity: 60,
+      start: T0,
+      end: T0 + 600,
+      series: [series("COUNT", [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1]), series("MAX(duration_ms)", [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11])],
+    };
+
+    it("merges whole buckets until every series fits the budget", () => {
+      const downsampled = downsampleTimeSeries(set, 4);
+
+      expect(downsampled.granularity).toBe(180);
+      expect(downsampled.start).toBe(T0);
+      expect(downsampled.end).toBe(T0 + 540);
+      expect(downsampled.series.map(s => s.points.map(p => p.value))).toEqual([
+        [3, 3, 3, 2],
+        [3, 6, 9, 11],
+      ]);
+    });
+
+    it("leaves sets that already fit alone", () => {
+      expect(downsampleTimeSeries(set, 11)).toBe(set);
+    });
+  });
+
+  describe("findLevelShift", () => {
+    it("finds where a series moved to a new level", () => {
+      const shift = findLevelShift(series("P99(duration_ms)", [100, 104, 98, 101, null, 400, 410, 395, 405]));
+
+      expect(shift).toEqual({ time: T0 + 300, before: 100.75, after: 402.5 });
+    });
+
+    it("ignores noise around a steady level", () => {
+      expect(findLevelShift(series("COUNT", [10, 12, 9, 11, 10, 12, 9, 11]))).toBeUndefined();
+      expect(findLevelShift(series("COUNT", [5, 5, 5, 5]))).toBeUndefined();
+      expect(findLevelShift(series("COUNT", [1, 9]))).toBeUndefined();
+    });
+
+    it("scans long series in one pass", () => {
+      const values = Array.from({ length: 100_000 }, (_, i) => (i < 60_000 ? 100 : 200) + (i % 7));
+
+      expect(findLevelShift(series("COUNT", values))).toEqual({
+        time: T0 + 60_000 * 60,
+        before: expect.closeTo(103, 1),
+        after: expect.closeTo(203, 1),
+      });
+    });
+  });
+});
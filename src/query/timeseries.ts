@@ -0,0 +1,379 @@
+import {
+  QueryCalculation,
+  QuerySeriesValue,
+  TimeSeries,
+  TimeSeriesDiff,
+  TimeSeriesPoint,
+  TimeSeriesSet,
+} from "../types/query.js";
+
+// Bucket width used when neither the series nor the query reveal one
+const DEFAULT_GRANULARITY = 60;
+
+// Points needed on each side of a level shift before it is reported
+const MIN_SHIFT_POINTS = 2;
+
+// How many standard errors apart the levels before and after a shift must be
+const MIN_SHIFT_SCORE = 3;
+
+/**
+ * How the values of buckets merged by resampling are combined
+ */
+export type SeriesAggregation = "sum" | "avg" | "min" | "max";
+
+type GroupValues = TimeSeries["group"];
+
+/**
+ * The result column a calculation's values appear under, e.g. "P99(duration_ms)"
+ */
+export function calculationName(calculation: QueryCalculation): string {
+  return calculation.column ? `${calculation.op}(${calculation.column})` : calculation.op;
+}
+
+/**
+ * Pick how buckets of a calculation combine when a series is resampled
+ *
+ * Counts and sums add up. Percentiles and distinct counts cannot be combined
+ * exactly, so the largest value is kept, which preserves spikes.
+ */
+export function aggregationFor(calculation: string): SeriesAggregation {
+  const op = calculation.split("(")[0];
+  switch (op) {
+    case "COUNT":
+    case "SUM":
+      return "sum";
+    case "MIN":
+      return "min";
+    case "AVG":
+    case "RATE_AVG":
+    case "RATE_SUM":
+    case "RATE_MAX":
+      return "avg";
+    default:
+      return "max";
+  }
+}
+
+function aggregate(values: number[], aggregation: SeriesAggregation): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  switch (aggregation) {
+    case "sum": return values.reduce((a, b) => a + b, 0);
+    case "avg": return values.reduce((a, b) => a + b, 0) / values.length;
+    case "min": return Math.min(...values);
+    case "max": return Math.max(...values);
+  }
+}
+
+function parseTime(time: unknown): number | undefined {
+  if (typeof time === "number") {
+    return time;
+  }
+  if (typeof time === "string") {
+    const ms = Date.parse(time);
+    return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+  }
+  return undefined;
+}
+
+function smallestGap(times: number[]): number | undefined {
+  let gap: number | undefined;
+  for (let i = 1; i < times.length; i++) {
+    const diff = times[i]! - times[i - 1]!;
+    if (diff > 0 && (gap === undefined || diff < gap)) {
+      gap = diff;
+    }
+  }
+  return gap;
+}
+
+function bucketTimes(start: number, end: number, granularity: number): number[] {
+  const times: number[] = [];
+  for (let time = start; time <= end; time += granularity) {
+    times.push(time);
+  }
+  return times;
+}
+
+/**
+ * Turn the rows of a query's series into one time series per calculation and
+ * breakdown group
+ *
+ * The bucket width is taken from the spacing of the rows, falling back to the
+ * query's granularity. Every series covers the same buckets; a bucket with no
+ * row for a group has a null value. HEATMAP calculations are left out, since
+ * their values are histograms rather than numbers.
+ *
+ * @param rows - Flattened series rows, each with a `time` and the values of one group
+ * @param query - The query that produced the rows
+ */
+export function buildTimeSeries(
+  rows: QuerySeriesValue[],
+  query: { calculations?: QueryCalculation[]; breakdowns?: string[]; granularity?: number },
+): TimeSeriesSet {
+  const calculations = (query.calculations?.length ? query.calculations : [{ op: "COUNT" }])
+    .filter(calculation => calculation.op !== "HEATMAP")
+    .map(calculationName);
+  const breakdowns = query.breakdowns ?? [];
+
+  const groups = new Map<string, { group: GroupValues; values: Map<number, QuerySeriesValue> }>();
+  const times = new Set<number>();
+  for (const row of rows) {
+    const time = parseTime(row.time);
+    if (time === undefined) {
+      continue;
+    }
+    times.add(time);
+
+    const group: GroupValues = {};
+    breakdowns.forEach(breakdown => {
+      group[breakdown] = row[breakdown] ?? null;
+    });
+    const key = JSON.stringify(breakdowns.map(breakdown => group[breakdown]));
+    const entry = groups.get(key) ?? { group, values: new Map() };
+    entry.values.set(time, row);
+    groups.set(key, entry);
+  }
+
+  const sorted = [...times].sort((a, b) => a - b);
+  const granularity = smallestGap(sorted) || query.granularity || DEFAULT_GRANULARITY;
+  const start = sorted[0] ?? 0;
+  const end = sorted[sorted.length - 1] ?? start;
+  const grid = sorted.length > 0 ? bucketTimes(start, end, granularity) : [];
+
+  const series: TimeSeries[] = [];
+  for (const { group, values } of groups.values()) {
+    for (const calculation of calculations) {
+      series.push({
+        calculation,
+        group,
+        points: grid.map(time => {
+          const value = values.get(time)?.[calculation];
+          return { time, value: typeof value === "number" && Number.isFinite(value) ? value : null };
+        }),
+      });
+    }
+  }
+
+  return { granularity, start, end, series };
+}
+
+/**
+ * Re-bucket a series into buckets of a different width
+ *
+ * Buckets start at multiples of the granularity, counted from the origin.
+ * Values falling in the same bucket are combined with the aggregation, which
+ * defaults to the one suited to the series' calculation. Missing values are
+ * ignored; a bucket with none is null.
+ */
+export function resampleSeries(
+  series: TimeSeries,
+  granularity: number,
+  aggregation: SeriesAggregation = aggregationFor(series.calculation),
+  origin: number = 0,
+): TimeSeries {
+  if (granularity <= 0) {
+    throw new Error(`Granularity must be positive, got ${granularity}`);
+  }
+
+  const buckets = new Map<number, number[]>();
+  for (const point of series.points) {
+    const bucket = origin + Math.floor((point.time - origin) / granularity) * granularity;
+    const values = buckets.get(bucket) ?? [];
+    if (point.value !== null) {
+      values.push(point.value);
+    }
+    buckets.set(bucket, values);
+  }
+
+  const points: TimeSeriesPoint[] = [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, values]) => ({ time, value: aggregate(values, aggregation) }));
+  return { ...series, points };
+}
+
+/**
+ * Put series on a common set of buckets so they can be compared point by point
+ *
+ * Each series is resampled to the granularity, then padded with nulls so all
+ * of them span the same buckets, from the earliest point of any series to the
+ * latest.
+ */
+export function alignSeries(series: TimeSeries[], granularity: number): TimeSeries[] {
+  const resampled = series.map(s => resampleSeries(s, granularity));
+  const times = resampled.flatMap(s => s.points.map(point => point.time));
+  if (times.length === 0) {
+    return resampled;
+  }
+
+  const grid = bucketTimes(Math.min(...times), Math.max(...times), granularity);
+  return resampled.map(s => {
+    const values = new Map(s.points.map(point => [point.time, point.value]));
+    return { ...s, points: grid.map(time => ({ time, value: values.get(time) ?? null })) };
+  });
+}
+
+/**
+ * Compare a series against a baseline bucket by bucket
+ *
+ * The baseline is shifted by the offset before matching buckets, so a series
+ * can be compared against the same hours a day earlier with an offset of
+ * 86400. Every bucket of the current series appears in the diff.
+ *
+ * @param current - The series being examined
+ * @param baseline - The series it is compared against
+ * @param offset - Seconds added to the baseline's bucket times
+ */
+export function diffSeries(current: TimeSeries, baseline: TimeSeries, offset: number = 0): TimeSeriesDiff {
+  const baselineValues = new Map(baseline.points.map(point => [point.time + offset, point.value]));
+  return {
+    calculation: current.calculation,
+    group: current.group,
+    points: current.points.map(point => {
+      const base = baselineValues.get(point.time) ?? null;
+      const delta = point.value !== null && base !== null ? point.value - base : null;
+      return {
+        time: point.time,
+        current: point.value,
+        baseline: base,
+        delta,
+        percentChange: delta !== null && base !== 0 ? (delta / base!) * 100 : null,
+      };
+    }),
+  };
+}
+
+/**
+ * Merge buckets so that no series in the set has more than maxPoints points
+ *
+ * The new bucket width is a whole multiple of the old one, counted from the
+ * start of the set, so merged buckets never split an original bucket.
+ */
+export function downsampleTimeSeries(set: TimeSeriesSet, maxPoints: number): TimeSeriesSet {
+  if (maxPoints < 1) {
+    throw new Error(`A series needs room for at least one point, got ${maxPoints}`);
+  }
+
+  const buckets = Math.floor((set.end - set.start) / set.granularity) + 1;
+  if (buckets <= maxPoints) {
+    return set;
+  }
+
+  const granularity = set.granularity * Math.ceil(buckets / maxPoints);
+  return {
+    granularity,
+    start: set.start,
+    end: set.start + Math.floor((set.end - set.start) / granularity) * granularity,
+    series: set.series.map(series => resampleSeries(series, granularity, undefined, set.start)),
+  };
+}
+
+/**
+ * A lasting change in the level of a series
+ */
+export interface LevelShift {
+  // Start of the first bucket at the new level, in Unix seconds
+  time: number;
+  // Mean values before and after the shift
+  before: number;
+  after: number;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function variance(values: number[], average: number): number {
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / Math.max(values.length - 1, 1);
+}
+
+/**
+ * Find the point where a series moved to a different level, if it did
+ *
+ * The split that best separates the series into a before and an after is
+ * chosen, and reported only when the two levels are clearly apart given the
+ * noise on either side. Missing values are skipped.
+ */
+export function findLevelShift(series: TimeSeries): LevelShift | undefined {
+  const points = series.points.filter((point): point is { time: number; value: number } => point.value !== null);
+  const n = points.length;
+
+  // sums[k] is the sum of the first k values, so every split is scored in one pass
+  const sums = [0];
+  for (const point of points) {
+    sums.push(sums[sums.length - 1]! + point.value);
+  }
+
+  let best: { index: number; score: number } | undefined;
+  for (let k = MIN_SHIFT_POINTS; k <= n - MIN_SHIFT_POINTS; k++) {
+    const before = sums[k]! / k;
+    const after = (sums[n]! - sums[k]!) / (n - k);
+    const score = Math.abs(after - before) * Math.sqrt((k * (n - k)) / n);
+    if (!best || score > best.score) {
+      best = { index: k, score };
+    }
+  }
+  if (!best) {
+    return undefined;
+  }
+
+  const before = points.slice(0, best.index).map(point => point.value);
+  const after = points.slice(best.index).map(point => point.value);
+  const beforeMean = mean(before);
+  const afterMean = mean(after);
+  const standardError = Math.sqrt(
+    variance(before, beforeMean) / before.length + variance(after, afterMean) / after.length,
+  );
+  const difference = Math.abs(afterMean - beforeMean);
+  if (difference === 0 || (standardError > 0 && difference / standardError < MIN_SHIFT_SCORE)) {
+    return undefined;
+  }
+
+  return { time: points[best.index]!.time, before: beforeMean, after: afterMean };
+}
+
+function peakOf(series: TimeSeries): TimeSeriesPoint | undefined {
+  let peak: TimeSeriesPoint | undefined;
+  for (const point of series.points) {
+    if (point.value !== null && (peak?.value == null || point.value > peak.value)) {
+      peak = point;
+    }
+  }
+  return peak;
+}
+
+// Keep reported statistics short without losing their magnitude
+function round(value: number): number {
+  return Number(value.toPrecision(4));
+}
+
+const isoTime = (time: number) => new Date(time * 1000).toISOString();
+
+/**
+ * A time series set in a form that is cheap to put in a tool response
+ *
+ * Series are downsampled to at most maxPoints values. Bucket times are
+ * implied: the i-th value belongs to the bucket starting at
+ * `start + i * granularity`. Each series also reports its peak and any level
+ * shift, both found at the full resolution of the set.
+ */
+export function compactTimeSeries(set: TimeSeriesSet, maxPoints: number = Infinity) {
+  const downsampled = downsampleTimeSeries(set, maxPoints);
+  return {
+    granularity: downsampled.granularity,
+    start: isoTime(downsampled.start),
+    end: isoTime(downsampled.end),
+    series: downsampled.series.map((series, i) => {
+      const peak = peakOf(set.series[i]!);
+      const shift = findLevelShift(set.series[i]!);
+      return {
+        calculation: series.calculation,
+        ...(Object.keys(series.group).length > 0 ? { group: series.group } : {}),
+        values: series.points.map(point => point.value),
+        ...(peak ? { peak: { time: isoTime(peak.time), value: peak.value } } : {}),
+        ...(shift ? { shift: { time: isoTime(shift.time), before: round(shift.before), after: round(shift.after) } } : {}),
+      };
+    }),
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { validateQuery } from "./validation.js";
+import { validateQuery, validateQueryColumns } from "./validation.js";
+import { QueryError } from "../utils/errors.js";
 import { QueryCalculationSchema, OrderDirectionSchema, HavingSchema } from "../types/schema.js";
 import { z } from "zod";
 
@@ -70,6 +71,30 @@ describe("Query validation", () => {
 
       expect(() => validateQuery(params)).toThrow();
     });
+
+    it("accepts time expressions", () => {
+      const params = {
+        environment: "prod",
+        dataset: "test",
+        calculations: [{ op: "COUNT" as CalculationOp }],
+        time_range: "90m",
+        end_time: "2023-01-02T00:00:00Z"
+      };
+
+      expect(() => validateQuery(params)).not.toThrow();
+    });
+
+    it("rejects an end_time before start_time", () => {
+      const params = {
+        environment: "prod",
+        dataset: "test",
+        calculations: [{ op: "COUNT" as CalculationOp }],
+        start_time: "2023-01-02T00:00:00Z",
+        end_time: "2023-01-01T00:00:00Z"
+      };
+
+      expect(() => validateQuery(params)).toThrow(/end_time must be after start_time/);
+    });
   });
 
   describe("Orders validation", () => {
@@ -152,5 +177,96 @@ describe("Query validation", () => {
 
       expect(() => validateQuery(params)).toThrow();
     });
+
+    it("suggests the calculation a having probably meant", () => {
+      const params = {
+        environment: "prod",
+        dataset: "test",
+        calculations: [{ op: "P99" as CalculationOp, column: "duration_ms" }],
+        havings: [
+          { calculate_op: "P95" as HavingCalculateOp, column: "duration_ms", op: ">" as HavingOp, value: 100 }
+        ]
+      };
+
+      expect(() => validateQuery(params)).toThrow(
+        expect.objectContaining({ suggestions: expect.arrayContaining(["Did you mean 'P99(duration_ms)'?"]) })
+      );
+    });
+  });
+
+  describe("Column validation", () => {
+    const columns = [
+      { key_name: "duration_ms", type: "float" as const },
+      { key_name: "service.name", type: "string" as const },
+      { key_name: "error", type: "boolean" as const },
+      { key_name: "http.status_code", type: "integer" as const }
+    ];
+
+    const problemsIn = (params: Parameters<typeof validateQueryColumns>[0]): QueryError => {
+      try {
+        validateQueryColumns(params, columns);
+      } catch (error) {
+        return error as QueryError;
+      }
+      throw new Error("expected the query to be rejected");
+    };
+
+    it("accepts queries that use the dataset's columns correctly", () => {
+      const params = {
+        environment: "prod",
+        dataset: "test",
+        calculations: [{ op: "P99" as CalculationOp, column: "duration_ms" }, { op: "COUNT_DISTINCT" as CalculationOp, column: "service.name" }],
+        breakdowns: ["http.status_code"],
+        filters: [{ column: "error", op: "=" as const, value: true }, { column: "service.name", op: "starts-with" as const, value: "api" }]
+      };
+
+      expect(() => validateQueryColumns(params, columns)).not.toThrow();
+    });
+
+    it("reports every unknown column once, with suggestions", () => {
+      const error = problemsIn({
+        environment: "prod",
+        dataset: "test",
+        calculations: [{ op: "AVG" as CalculationOp, column: "duraton_ms" }],
+        breakdowns: ["service_name"],
+        havings: [{ calculate_op: "AVG" as HavingCalculateOp, column: "duraton_ms", op: ">" as HavingOp, value: 1 }]
+      });
+
+      expect(error).toBeInstanceOf(QueryError);
+      expect(error.message).toBe(
+        "Query does not match the dataset's columns:\n" +
+        "  - calculations[0].column: Unknown column 'duraton_ms'\n" +
+        "  - breakdowns[0]: Unknown column 'service_name'"
+      );
+      expect(error.suggestions).toContain("calculations[0].column: Did you mean 'duration_ms'?");
+      expect(error.suggestions).toContain("breakdowns[0]: Did you mean 'service.name'?");
+    });
+
+    it("rejects numeric calculations on non-numeric columns", () => {
+      const error = problemsIn({
+        environment: "prod",
+        dataset: "test",
+        calculations: [{ op: "P99" as CalculationOp, column: "service.name" }]
+      });
+
+      expect(error.message).toContain("P99 needs a numeric column, but 'service.name' is a string column");
+      expect(error.suggestions).toContain("calculations[0]: Use COUNT_DISTINCT to count the distinct values of 'service.name'");
+    });
+
+    it("rejects filters that don't suit the column's type", () => {
+      const error = problemsIn({
+        environment: "prod",
+        dataset: "test",
+        filters: [
+          { column: "error", op: ">" as const, value: 0 },
+          { column: "duration_ms", op: "contains" as const, value: "5" },
+          { column: "service.name", op: "<" as const, value: 400 }
+        ]
+      });
+
+      expect(error.message).toContain("filters[0]: Filter op '>' doesn't apply to 'error', a boolean column");
+      expect(error.message).toContain("filters[1]: Filter op 'contains' matches text, but 'duration_ms' is a float column");
+      expect(error.message).toContain("filters[2]: Filter op '<' compares 'service.name' with a number, but it is a string column");
+    });
   });
-});
\ No newline at end of file
+});
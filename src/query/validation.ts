@@ -1,6 +1,35 @@
 import { z } from "zod";
 import { QueryToolSchema } from "../types/schema.js";
 import { QueryError } from "../utils/errors.js";
+import { closestMatches } from "../utils/fuzzy.js";
+import { Column } from "../types/column.js";
+import { normalizeTimeParameters } from "./time.js";
+import { calculationName } from "./timeseries.js";
+
+// Calculations that only work on numbers
+const NUMERIC_OPS = new Set([
+  "SUM", "AVG", "MAX", "MIN", "HEATMAP", "RATE_AVG", "RATE_SUM", "RATE_MAX",
+  "P001", "P01", "P05", "P10", "P20", "P25", "P50", "P75", "P80", "P90", "P95", "P99", "P999",
+]);
+
+// Filter operators that compare values by size
+const COMPARISON_FILTER_OPS = new Set([">", ">=", "<", "<="]);
+
+// Filter operators that match part of a string
+const TEXT_FILTER_OPS = new Set([
+  "starts-with", "does-not-start-with", "ends-with", "does-not-end-with", "contains", "does-not-contain",
+]);
+
+const isNumericType = (type: string | undefined) => type === "integer" || type === "float";
+
+/**
+ * A "did you mean" suggestion for a name that may be misspelled, if any
+ * candidate is close to it
+ */
+function didYouMean(name: string, candidates: Iterable<string>): string[] {
+  const matches = closestMatches(name, candidates);
+  return matches.length > 0 ? [`Did you mean ${matches.map(match => `'${match}'`).join(" or ")}?`] : [];
+}
 
 function validateTimeParameters(params: z.infer<typeof QueryToolSchema>): void {
   // Most basic validation is now handled by the Zod schema refinements
@@ -19,8 +48,12 @@ function validateTimeParameters(params: z.infer<typeof QueryToolSchema>): void {
   // A granularity may be specified, but it is not required.
   // If it's 0, it will default to "auto", same as unspecified.
   // A non-0 valid granularity is, for the time span T, between T/10 and T/1000.
+  //
+  // Times may be given as expressions ("now-3h", "90m"); they are checked
+  // by the same parser that resolves them.
   
-  const { time_range, start_time, end_time, granularity } = params;
+  const { granularity } = params;
+  const { time_range, start_time, end_time } = normalizeTimeParameters(params);
   let explicitTimeSpan: number | undefined;
   const hasTimeRange = time_range !== undefined;
   const hasStartTime = start_time !== undefined;
@@ -39,16 +72,18 @@ function validateTimeParameters(params: z.infer<typeof QueryToolSchema>): void {
   }
   
   if (hasTimeRange) {
+    // With start_time or end_time, the range extends from that edge
     explicitTimeSpan = time_range;
-    if (hasStartTime) {
-      explicitTimeSpan = start_time + time_range;
-    } else if (hasEndTime) {
-      explicitTimeSpan = end_time - time_range;
-    }  
   } else if (hasStartTime && hasEndTime) {
     // Both start_time and end_time exist
     explicitTimeSpan = end_time - start_time;
-    // The negative time range check is now handled by Zod schema refinements
+    // Zod can only catch this for numeric times, not expressions
+    if (explicitTimeSpan <= 0) {
+      throw new QueryError(
+        "end_time must be after start_time",
+        ["Swap start_time and end_time", "Or use time_range for a window ending now"]
+      );
+    }
   }
   
   // Validate granularity if specified
@@ -84,11 +119,16 @@ export function validateQuery(params: z.infer<typeof QueryToolSchema>): boolean
   if (params.orders) {
     for (const order of params.orders) {
       // Check if column exists in breakdowns or calculations
-      if (order.column && params.breakdowns && !params.breakdowns.includes(order.column) && 
+      if (order.column && !params.breakdowns?.includes(order.column) && 
           !params.calculations.some((calc: { op: string; column?: string }) => calc.column === order.column)) {
+        const orderable = [
+          ...(params.breakdowns ?? []),
+          ...params.calculations.flatMap((calc: { column?: string }) => (calc.column ? [calc.column] : [])),
+        ];
         throw new QueryError(
           `Order column '${order.column}' must be in breakdowns or calculations.`,
           [
+            ...didYouMean(order.column, orderable),
             `Add '${order.column}' to your breakdowns list`,
             `Or add a calculation that uses '${order.column}'`
           ]
@@ -132,6 +172,10 @@ export function validateQuery(params: z.infer<typeof QueryToolSchema>): boolean
         throw new QueryError(
           `HAVINGS clause with calculate_op '${having.calculate_op}' ${having.column ? `and column '${having.column}'` : ''} must refer to one of the calculations.`,
           [
+            ...didYouMean(
+              calculationName({ op: having.calculate_op, column: having.column }),
+              params.calculations.map(calculationName)
+            ),
             "Ensure your HAVINGS clause references a calculation defined in your query",
             "Add the missing calculation to your query"
           ]
@@ -195,6 +239,7 @@ export function validateQuery(params: z.infer<typeof QueryToolSchema>): boolean
           throw new QueryError(
             `Order references non-existent calculation: ${order.op} on ${order.column}`,
             [
+              ...didYouMean(calculationName({ op: order.op, column: order.column }), (params.calculations ?? []).map(calculationName)),
               `Add a calculation with operation ${order.op} on column ${order.column}`,
               "Or update your order to reference an existing calculation"
             ]
@@ -205,4 +250,102 @@ export function validateQuery(params: z.infer<typeof QueryToolSchema>): boolean
   }
 
   return true;
-}
\ No newline at end of file
+}
+
+/**
+ * A problem with how a query uses one of the dataset's columns
+ */
+interface ColumnProblem {
+  // Where in the query the column is used, e.g. "filters[0].column"
+  path: string;
+  message: string;
+  suggestions: string[];
+}
+
+/**
+ * Checks a query against the columns of the dataset it runs on
+ *
+ * Catches what validateQuery cannot without the schema: columns that don't
+ * exist, numeric calculations on string or boolean columns, and filters whose
+ * operator doesn't suit the column's type. Every problem is reported at once,
+ * with "did you mean" suggestions for column names that look misspelled.
+ *
+ * @param columns - The dataset's columns, hidden ones included
+ * @throws QueryError listing every problem found
+ */
+export function validateQueryColumns(params: z.infer<typeof QueryToolSchema>, columns: Column[]): void {
+  const types = new Map(columns.map(column => [column.key_name, column.type ?? "string"]));
+  const numericColumns = columns.filter(column => isNumericType(column.type)).map(column => column.key_name);
+  const problems: ColumnProblem[] = [];
+  const unknown = new Set<string>();
+
+  // The column's type, or undefined after reporting it once if it doesn't exist
+  const typeOf = (column: string, path: string): string | undefined => {
+    const type = types.get(column);
+    if (type === undefined && !unknown.has(column)) {
+      unknown.add(column);
+      problems.push({ path, message: `Unknown column '${column}'`, suggestions: didYouMean(column, types.keys()) });
+    }
+    return type;
+  };
+
+  params.calculations?.forEach((calc, i) => {
+    const type = calc.column ? typeOf(calc.column, `calculations[${i}].column`) : undefined;
+    if (type !== undefined && NUMERIC_OPS.has(calc.op) && !isNumericType(type)) {
+      const similar = didYouMean(calc.column!, numericColumns);
+      problems.push({
+        path: `calculations[${i}]`,
+        message: `${calc.op} needs a numeric column, but '${calc.column}' is a ${type} column`,
+        suggestions: similar.length > 0 ? similar : [
+          `Use COUNT_DISTINCT to count the distinct values of '${calc.column}'`,
+          `Or break down by '${calc.column}' and COUNT`,
+        ],
+      });
+    }
+  });
+
+  params.breakdowns?.forEach((breakdown, i) => typeOf(breakdown, `breakdowns[${i}]`));
+
+  params.filters?.forEach((filter, i) => {
+    const type = typeOf(filter.column, `filters[${i}].column`);
+    if (type === "boolean" && (COMPARISON_FILTER_OPS.has(filter.op) || TEXT_FILTER_OPS.has(filter.op))) {
+      problems.push({
+        path: `filters[${i}]`,
+        message: `Filter op '${filter.op}' doesn't apply to '${filter.column}', a boolean column`,
+        suggestions: [`Use "=" or "!=" with true or false`],
+      });
+    } else if (type === "string" && COMPARISON_FILTER_OPS.has(filter.op) && typeof filter.value === "number") {
+      problems.push({
+        path: `filters[${i}]`,
+        message: `Filter op '${filter.op}' compares '${filter.column}' with a number, but it is a string column`,
+        suggestions: didYouMean(filter.column, numericColumns),
+      });
+    } else if (type !== undefined && type !== "string" && TEXT_FILTER_OPS.has(filter.op)) {
+      problems.push({
+        path: `filters[${i}]`,
+        message: `Filter op '${filter.op}' matches text, but '${filter.column}' is a ${type} column`,
+        suggestions: [`Use "=", "!=" or a comparison such as ">" instead`],
+      });
+    }
+  });
+
+  params.orders?.forEach((order, i) => typeOf(order.column, `orders[${i}].column`));
+  params.havings?.forEach((having, i) => {
+    if (having.column) {
+      typeOf(having.column, `havings[${i}].column`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new QueryError(
+      `Query does not match the dataset's columns:\n${problems.map(problem => `  - ${problem.path}: ${problem.message}`).join("\n")}`,
+      [
+        ...problems.flatMap(problem => problem.suggestions.map(suggestion => `${problem.path}: ${suggestion}`)),
+        ...(unknown.size > 0 ? [
+          "Use list_columns to see the dataset's columns",
+          "Derived columns are not listed; set validate_columns to false to query one",
+        ] : []),
+      ]
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { parseWhere } from "./where.js";
+import { QueryError } from "../utils/errors.js";
+
+function errorFor(where: string): QueryError {
+  try {
+    parseWhere(where);
+  } catch (error) {
+    return error as QueryError;
+  }
+  throw new Error(`expected '${where}' to be rejected`);
+}
+
+describe("parseWhere", () => {
+  it("parses conditions joined by AND", () => {
+    expect(parseWhere('service.name = "api" AND duration_ms > 500 and http.route starts-with "/v1"')).toEqual({
+      filters: [
+        { column: "service.name", op: "=", value: "api" },
+        { column: "duration_ms", op: ">", value: 500 },
+        { column: "http.route", op: "starts-with", value: "/v1" },
+      ],
+      filter_combination: "AND",
+    });
+  });
+
+  it("parses every kind of value", () => {
+    expect(parseWhere("error = true OR `http status` >= -1.5e2 OR db.statement exists OR note != 'it\\'s'")).toEqual({
+      filters: [
+        { column: "error", op: "=", value: true },
+        { column: "http status", op: ">=", value: -150 },
+        { column: "db.statement", op: "exists" },
+        { column: "note", op: "!=", value: "it's" },
+      ],
+      filter_combination: "OR",
+    });
+  });
+
+  it("reads lists for in and not-in, and a single value as a list of one", () => {
+    expect(parseWhere('region in ("us", "eu") AND status NOT-IN [500, 503] AND env in "prod"').filters).toEqual([
+      { column: "region", op: "in", value: ["us", "eu"] },
+      { column: "status", op: "not-in", value: [500, 503] },
+      { column: "env", op: "in", value: ["prod"] },
+    ]);
+  });
+
+  it("leaves filter_combination out for a single condition", () => {
+    expect(parseWhere("duration_ms>500")).toEqual({ filters: [{ column: "duration_ms", op: ">", value: 500 }] });
+  });
+
+  it("reports where the expression goes wrong", () => {
+    const error = errorFor("duration_ms > 500 AND service = api");
+
+    expect(error).toBeInstanceOf(QueryError);
+    expect(error.message).toBe(
+      "Invalid where at character 33: expected a value: a quoted string, a number, true or false, found 'api'\n" +
+      "  duration_ms > 500 AND service = api\n" +
+      "                                  ^"
+    );
+    expect(error.suggestions).toContain("Quote string values, e.g. service.name = \"api\"");
+  });
+
+  it("rejects mixed AND and OR, unknown operators, unclosed strings and mixed lists", () => {
+    expect(errorFor("a = 1 AND b = 2 OR c = 3").message).toMatch(/^Invalid where at character 17: expected AND, since Honeycomb can't mix/);
+    expect(errorFor("a like 1").message).toMatch(/^Invalid where at character 3: expected an operator/);
+    expect(errorFor('a = "open').message).toMatch(/^Invalid where at character 10: expected a closing " for the string that starts at character 5, found the end/);
+    expect(errorFor('a in ("x", 1)').message).toMatch(/^Invalid where at character 12: expected list values that are all strings or all numbers/);
+    expect(errorFor("a = 1 AND").message).toMatch(/expected a column name, found the end/);
+    expect(() => parseWhere("  ")).toThrow(/where is empty/);
+  });
+});
@@ -0,0 +1,261 @@
+import { FilterOperator, QueryFilter } from "../types/query.js";
+import { QueryError } from "../utils/errors.js";
+
+/**
+ * Filters parsed from a where expression, ready for a query
+ */
+export interface ParsedWhere {
+  filters: QueryFilter[];
+  // Only set when the expression joins several conditions
+  filter_combination?: "AND" | "OR";
+}
+
+type Scalar = string | number | boolean;
+
+// Operators written with symbols, longest first so ">=" wins over ">"
+const SYMBOL_OPS: [string, FilterOperator][] = [
+  ["!=", "!="],
+  [">=", ">="],
+  ["<=", "<="],
+  ["=", "="],
+  [">", ">"],
+  ["<", "<"],
+];
+
+// Operators written as words, matched without regard to case
+const WORD_OPS = new Set<FilterOperator>([
+  "starts-with",
+  "does-not-start-with",
+  "ends-with",
+  "does-not-end-with",
+  "contains",
+  "does-not-contain",
+  "exists",
+  "does-not-exist",
+  "in",
+  "not-in",
+]);
+
+// Operators that test for the column and take no value
+const VALUELESS_OPS = new Set<FilterOperator>(["exists", "does-not-exist"]);
+
+// Operators that take a list of values
+const LIST_OPS = new Set<FilterOperator>(["in", "not-in"]);
+
+// Column names: letters, digits and the punctuation common in attribute names
+const BARE_NAME = /[A-Za-z0-9_@$][\w.\-@$/:]*/y;
+
+const NUMBER = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?(?![\w.])/y;
+
+const WORD = /[A-Za-z][\w-]*/y;
+
+/**
+ * Reads a where expression from left to right, failing with the position
+ * of the first thing it cannot make sense of
+ */
+class WhereParser {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): ParsedWhere {
+    const filters = [this.condition()];
+    let combination: "AND" | "OR" | undefined;
+
+    this.skipSpace();
+    while (!this.atEnd()) {
+      const start = this.position;
+      const word = this.match(WORD)?.toUpperCase();
+      if (word !== "AND" && word !== "OR") {
+        throw this.error("AND, OR or the end of the expression", start);
+      }
+      if (combination && word !== combination) {
+        throw this.error(`${combination}, since Honeycomb can't mix AND and OR in one query`, start, [
+          "Use only AND or only OR between conditions",
+          "Run separate queries for each part of the expression",
+        ]);
+      }
+      combination = word;
+      filters.push(this.condition());
+      this.skipSpace();
+    }
+
+    return combination ? { filters, filter_combination: combination } : { filters };
+  }
+
+  private condition(): QueryFilter {
+    const column = this.column();
+    const op = this.operator();
+    if (VALUELESS_OPS.has(op)) {
+      return { column, op };
+    }
+    if (LIST_OPS.has(op)) {
+      return { column, op, value: this.list() };
+    }
+    return { column, op, value: this.scalar() };
+  }
+
+  private column(): string {
+    this.skipSpace();
+    const start = this.position;
+    if (this.peek() === "`") {
+      const end = this.text.indexOf("`", start + 1);
+      if (end < 0) {
+        throw this.error("a closing ` for the column name", this.text.length);
+      }
+      this.position = end + 1;
+      if (end === start + 1) {
+        throw this.error("a column name", start);
+      }
+      return this.text.slice(start + 1, end);
+    }
+    const name = this.match(BARE_NAME);
+    if (name === undefined) {
+      throw this.error("a column name", start, ["Quote column names with spaces or unusual characters in backticks, e.g. `my column`"]);
+    }
+    return name;
+  }
+
+  private operator(): FilterOperator {
+    this.skipSpace();
+    const start = this.position;
+    for (const [symbol, op] of SYMBOL_OPS) {
+      if (this.text.startsWith(symbol, start)) {
+        this.position += symbol.length;
+        return op;
+      }
+    }
+    const word = this.match(WORD)?.toLowerCase();
+    if (word !== undefined && WORD_OPS.has(word as FilterOperator)) {
+      return word as FilterOperator;
+    }
+    throw this.error("an operator", start, [
+      "Use =, !=, >, >=, <, <=, starts-with, does-not-start-with, ends-with, does-not-end-with, contains, does-not-contain, exists, does-not-exist, in or not-in",
+    ]);
+  }
+
+  private scalar(): Scalar {
+    this.skipSpace();
+    const start = this.position;
+    const quote = this.peek();
+    if (quote === "\"" || quote === "'") {
+      return this.quoted(quote);
+    }
+    const number = this.match(NUMBER);
+    if (number !== undefined) {
+      return Number(number);
+    }
+    const word = this.match(WORD);
+    if (word?.toLowerCase() === "true" || word?.toLowerCase() === "false") {
+      return word.toLowerCase() === "true";
+    }
+    throw this.error("a value: a quoted string, a number, true or false", start, [
+      "Quote string values, e.g. service.name = \"api\"",
+    ]);
+  }
+
+  private quoted(quote: string): string {
+    const start = this.position;
+    let value = "";
+    for (let i = start + 1; i < this.text.length; i++) {
+      const char = this.text[i]!;
+      if (char === "\\" && i + 1 < this.text.length) {
+        value += this.text[++i];
+      } else if (char === quote) {
+        this.position = i + 1;
+        return value;
+      } else {
+        value += char;
+      }
+    }
+    throw this.error(`a closing ${quote} for the string that starts at character ${start + 1}`, this.text.length);
+  }
+
+  // A parenthesized or bracketed list; a single value is taken as a list of one
+  private list(): string[] | number[] {
+    this.skipSpace();
+    const open = this.peek();
+    const close = open === "(" ? ")" : open === "[" ? "]" : undefined;
+    if (close === undefined) {
+      const position = this.position;
+      return this.homogeneous([{ position, value: this.scalar() }]);
+    }
+
+    this.position++;
+    const values: { value: Scalar; position: number }[] = [];
+    for (;;) {
+      this.skipSpace();
+      values.push({ position: this.position, value: this.scalar() });
+      this.skipSpace();
+      if (this.peek() === close) {
+        this.position++;
+        return this.homogeneous(values);
+      }
+      if (this.peek() !== ",") {
+        throw this.error(`a comma or ${close}`, this.position);
+      }
+      this.position++;
+    }
+  }
+
+  private homogeneous(values: { value: Scalar; position: number }[]): string[] | number[] {
+    const type = typeof values[0]!.value;
+    const mismatch = values.find(({ value }) => typeof value !== type || typeof value === "boolean");
+    if (mismatch) {
+      throw this.error("list values that are all strings or all numbers", mismatch.position);
+    }
+    return values.map(({ value }) => value) as string[] | number[];
+  }
+
+  private match(pattern: RegExp): string | undefined {
+    pattern.lastIndex = this.position;
+    const match = pattern.exec(this.text);
+    if (!match) {
+      return undefined;
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private skipSpace(): void {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position]!)) {
+      this.position++;
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.text[this.position];
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.text.length;
+  }
+
+  private error(expected: string, position: number, suggestions: string[] = []): QueryError {
+    const found = position < this.text.length ? `'${this.text.slice(position, position + 10)}'` : "the end";
+    return new QueryError(
+      `Invalid where at character ${position + 1}: expected ${expected}, found ${found}\n  ${this.text}\n  ${" ".repeat(position)}^`,
+      [
+        ...suggestions,
+        "Write conditions as <column> <operator> <value> joined by AND or OR, e.g. service.name = \"api\" AND duration_ms > 500",
+      ]
+    );
+  }
+}
+
+/**
+ * Parse a where expression into query filters
+ *
+ * Conditions are written `<column> <operator> <value>` and joined by AND or
+ * OR, but not both, e.g. `service.name = "api" AND duration_ms > 500`.
+ * Strings are quoted, and in and not-in take a list such as `("a", "b")`.
+ * Column names with spaces or unusual characters go in backticks.
+ *
+ * @throws QueryError giving the character position of the first problem
+ */
+export function parseWhere(where: string): ParsedWhere {
+  if (where.trim() === "") {
+    throw new QueryError("where is empty", ["Give at least one condition, e.g. duration_ms > 500"]);
+  }
+  return new WhereParser(where).parse();
+}
@@ -1,6 +1,6 @@
 import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { HoneycombAPI } from "../api/client.js";
-import { Dataset } from "../types/api.js";
+import { Dataset, CallOptions } from "../types/api.js";
 import { Column } from "../types/column.js";
 
 /**
@@ -26,7 +26,7 @@ export function createDatasetsResource(api: HoneycombAPI) {
      * 
      * @returns A list of dataset resources across all environments
      */
-    list: async () => {
+    list: async (extra) => {
       // Get all available environments
       const environments = api.getEnvironments();
       const resources: ResourceItem[] = [];
@@ -34,7 +34,7 @@ export function createDatasetsResource(api: HoneycombAPI) {
       // Fetch datasets from each environment
       for (const env of environments) {
         try {
-          const datasets = await api.listDatasets(env);
+          const datasets = await api.listDatasets(env, { signal: extra.signal });
           
           // Add each dataset as a resource
           datasets.forEach((dataset: Dataset) => {
@@ -79,12 +79,14 @@ interface DatasetWithColumns {
  * @param api - The Honeycomb API client
  * @param uri - The resource URI
  * @param variables - The parsed variables from the URI template
+ * @param options - Cancellation signal for the API requests
  * @returns Dataset resource contents
  * @throws Error if the dataset cannot be retrieved
  */
 export async function handleDatasetResource(
   api: HoneycombAPI,
-  variables: Record<string, string | string[]>
+  variables: Record<string, string | string[]>,
+  options: CallOptions = {}
 ) {
   // Extract environment and dataset from variables, handling potential array values
   const environment = Array.isArray(variables.environment) 
@@ -102,7 +104,7 @@ export async function handleDatasetResource(
   if (!datasetSlug) {
     // Return all datasets for this environment
     try {
-      const datasets = await api.listDatasets(environment);
+      const datasets = await api.listDatasets(environment, options);
       
       return {
         contents: datasets.map(dataset => ({
@@ -123,8 +125,8 @@ export async function handleDatasetResource(
   } else {
     // Return specific dataset with columns
     try {
-      const dataset = await api.getDataset(environment, datasetSlug);
-      const columns = await api.getVisibleColumns(environment, datasetSlug);
+      const dataset = await api.getDataset(environment, datasetSlug, options);
+      const columns = await api.getVisibleColumns(environment, datasetSlug, options);
       
       // Filter out hidden columns
       const visibleColumns = columns.filter((column: Column) => !column.hidden);
@@ -132,10 +134,11 @@ export async function handleDatasetResource(
       const datasetWithColumns: DatasetWithColumns = {
         name: dataset.name,
         description: dataset.description || '',
-        slug: dataset.slug,
+        slug: dataset.slug ?? datasetSlug,
         columns: visibleColumns.map((column: Column) => ({
           name: column.key_name,
-          type: column.type,
+          // Columns are strings unless the API says otherwise
+          type: column.type ?? 'string',
           description: column.description || '',
         })),
         created_at: dataset.created_at,
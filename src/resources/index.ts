@@ -1,5 +1,7 @@
 import { HoneycombAPI } from "../api/client.js";
 import { createDatasetsResource, handleDatasetResource } from "./datasets.js";
+import { createSavedQueriesResource, handleSavedQueryResource } from "./saved-queries.js";
+import { SavedQueryStore } from "../query/saved-queries.js";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 /**
@@ -7,13 +9,24 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
  * 
  * @param server - The MCP server instance
  * @param api - The Honeycomb API client
+ * @param savedQueries - The saved query store; saved queries aren't listed without one
  */
-export function registerResources(server: McpServer, api: HoneycombAPI) {
+export function registerResources(server: McpServer, api: HoneycombAPI, savedQueries?: SavedQueryStore) {
   // Register datasets resource
   server.resource(
     "datasets",
     createDatasetsResource(api),
-    (_uri: URL, variables: Record<string, string | string[]>) => 
-      handleDatasetResource(api, variables as Record<string, string>)
+    (_uri: URL, variables: Record<string, string | string[]>, extra) => 
+      handleDatasetResource(api, variables as Record<string, string>, { signal: extra.signal })
   );
+
+  // Register saved queries resource
+  if (savedQueries) {
+    server.resource(
+      "saved-queries",
+      createSavedQueriesResource(api, savedQueries),
+      (_uri: URL, variables: Record<string, string | string[]>) =>
+        handleSavedQueryResource(api, savedQueries, variables)
+    );
+  }
 }
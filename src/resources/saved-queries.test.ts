@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createSavedQueriesResource, handleSavedQueryResource } from "./saved-queries.js";
+import { SavedQueryStore } from "../query/saved-queries.js";
+
+// An unrestricted client, and one limited to the prod environment
+const everyEnvironment = { isScoped: () => false, hasEnvironment: () => true } as any;
+const prodOnly = { isScoped: () => true, hasEnvironment: (environment: string) => environment === "prod" } as any;
+
+describe("saved queries resource", () => {
+  let dir: string;
+  let store: SavedQueryStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-queries-"));
+    store = new SavedQueryStore(join(dir, "queries.yaml"));
+    await store.save("latency", {
+      description: "P99 latency of a service",
+      query: { environment: "prod", calculations: [{ op: "P99", column: "duration_ms" }], where: "service.name = \"{service}\"" },
+    });
+    await store.save("errors", { query: { environment: "prod" } });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("lists every saved query by name", async () => {
+    const template = createSavedQueriesResource(everyEnvironment, store);
+    const listed = await template.listCallback!({} as any);
+
+    expect(listed.resources).toEqual([
+      { uri: "saved-query://errors", name: "errors", description: "", mimeType: "application/json" },
+      { uri: "saved-query://latency", name: "latency", description: "P99 latency of a service", mimeType: "application/json" },
+    ]);
+  });
+
+  it("reads a saved query with its placeholders", async () => {
+    const result = await handleSavedQueryResource(everyEnvironment, store, { name: "latency" });
+
+    expect(result.contents[0]!.uri).toBe("saved-query://latency");
+    expect(JSON.parse(result.contents[0]!.text)).toMatchObject({
+      name: "latency",
+      placeholders: [{ name: "service" }],
+      query: { environment: "prod" },
+    });
+  });
+
+  it("hides queries outside a scoped client's environments", async () => {
+    await store.save("dev-errors", { query: { environment: "dev" } });
+
+    const listed = await createSavedQueriesResource(prodOnly, store).listCallback!({} as any);
+
+    expect(listed.resources.map(resource => resource.name)).toEqual(["errors", "latency"]);
+    await expect(handleSavedQueryResource(prodOnly, store, { name: "dev-errors" })).rejects.toThrow(/No saved query named 'dev-errors'/);
+  });
+
+  it("fails for a query that isn't saved", async () => {
+    await expect(handleSavedQueryResource(everyEnvironment, store, { name: "latncy" })).rejects.toThrow(/Failed to read saved query: No saved query named 'latncy'/);
+  });
+});
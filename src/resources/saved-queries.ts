@@ -0,0 +1,65 @@
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { HoneycombAPI } from "../api/client.js";
+import { savedQueryScope, SavedQueryStore, summarizeSavedQuery } from "../query/saved-queries.js";
+
+/**
+ * Creates the saved queries resource template. This resource template lets clients browse the saved queries for their environments and read each one with its placeholders and run_query parameters.
+ *
+ * @param api - The Honeycomb API client, whose environment scope decides the queries listed
+ * @param savedQueries - The saved query store
+ * @returns A ResourceTemplate for saved queries
+ */
+export function createSavedQueriesResource(api: HoneycombAPI, savedQueries: SavedQueryStore) {
+  return new ResourceTemplate("saved-query://{name}", {
+    /**
+     * Lists every saved query
+     *
+     * @returns A list of saved query resources, sorted by name
+     */
+    list: async () => {
+      const queries = await savedQueries.list(savedQueryScope(api));
+      return {
+        resources: Object.keys(queries).sort().map(name => ({
+          uri: `saved-query://${name}`,
+          name,
+          description: queries[name]!.description || '',
+          mimeType: "application/json",
+        })),
+      };
+    }
+  });
+}
+
+/**
+ * Handles requests for saved query resources
+ *
+ * @param api - The Honeycomb API client, whose environment scope decides the queries readable
+ * @param savedQueries - The saved query store
+ * @param variables - The parsed variables from the URI template
+ * @returns The saved query with its placeholders, as JSON
+ * @throws Error if there is no saved query by that name
+ */
+export async function handleSavedQueryResource(
+  api: HoneycombAPI,
+  savedQueries: SavedQueryStore,
+  variables: Record<string, string | string[]>
+) {
+  const name = Array.isArray(variables.name) ? variables.name[0] : variables.name;
+
+  if (!name) {
+    throw new Error("Missing name parameter");
+  }
+
+  try {
+    const saved = await savedQueries.get(name, savedQueryScope(api));
+    return {
+      contents: [{
+        uri: `saved-query://${name}`,
+        text: JSON.stringify(summarizeSavedQuery(name, saved), null, 2),
+        mimeType: "application/json"
+      }]
+    };
+  } catch (error) {
+    throw new Error(`Failed to read saved query: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
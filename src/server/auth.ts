@@ -0,0 +1,119 @@
+import { readFile } from "node:fs/promises";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { IncomingMessage } from "node:http";
+import { z } from "zod";
+
+/**
+ * Schema for a single client entry in the auth file
+ */
+export const AuthClientSchema = z.object({
+  name: z.string().min(1).describe("Human-readable client name used in logs"),
+  token: z.string().min(16, "Tokens must be at least 16 characters long"),
+  environments: z.array(z.string().min(1)).min(1, "At least one environment must be allowed")
+    .describe("Environment names this client may access. Use \"*\" for all environments."),
+});
+
+/**
+ * Schema for the bearer-token auth file used by the HTTP transport
+ */
+export const AuthConfigSchema = z.object({
+  clients: z.array(AuthClientSchema).min(1, "At least one client must be configured"),
+}).superRefine((config, ctx) => {
+  const seen = new Set<string>();
+  config.clients.forEach((client, index) => {
+    if (seen.has(client.token)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate token for client "${client.name}"`,
+        path: ["clients", index, "token"],
+      });
+    }
+    seen.add(client.token);
+  });
+});
+
+export type AuthClient = z.infer<typeof AuthClientSchema>;
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
+/**
+ * The identity of a client that presented a valid bearer token
+ */
+export interface AuthenticatedClient {
+  name: string;
+  token: string;
+  environments: string[];
+}
+
+/**
+ * Resolves the client for an incoming HTTP request, or null if unauthenticated
+ */
+export type Authenticator = (req: IncomingMessage) => AuthenticatedClient | null;
+
+/**
+ * Load and validate the bearer-token auth file
+ *
+ * @param path - Path to a JSON auth file
+ * @returns The validated auth configuration
+ * @throws Error with a readable list of issues if the file is invalid
+ */
+export async function loadAuthConfig(path: string): Promise<AuthConfig> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Failed to read auth file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = AuthConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `  - ${i.path.join('.')}: ${i.message}`).join('\n');
+    throw new Error(`Invalid auth file ${path}:\n${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (!header) {
+    return undefined;
+  }
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim();
+}
+
+/**
+ * Hash a token so comparisons run in constant time regardless of token length
+ */
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Create an authenticator that maps bearer tokens to configured clients
+ *
+ * @param config - The validated auth configuration
+ * @returns A function resolving the client for a request
+ */
+export function createTokenAuthenticator(config: AuthConfig): Authenticator {
+  const clients = config.clients.map(client => ({ client, digest: digest(client.token) }));
+
+  return (req) => {
+    const token = getBearerToken(req);
+    if (!token) {
+      return null;
+    }
+    const tokenDigest = digest(token);
+    const match = clients.find(entry => timingSafeEqual(entry.digest, tokenDigest));
+    if (!match) {
+      return null;
+    }
+    return {
+      name: match.client.name,
+      token,
+      environments: match.client.environments,
+    };
+  };
+}
@@ -0,0 +1,376 @@
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { AuthenticatedClient, Authenticator } from "./auth.js";
+
+/**
+ * Paths served by the HTTP transport
+ */
+export const MCP_PATH = "/mcp";
+export const SSE_PATH = "/sse";
+export const SSE_MESSAGES_PATH = "/messages";
+
+// Largest request body accepted, as in the MCP SDK's own transports
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Time a streamable session may go without requests before it is closed
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Options for the HTTP transport server
+ */
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** When set, every request must carry a bearer token accepted by this authenticator */
+  authenticate?: Authenticator;
+  /** Largest request body in bytes; larger ones are refused with 413 (default 4 MiB) */
+  maxBodyBytes?: number;
+  /**
+   * Close streamable HTTP sessions that have had no open request for this
+   * long, for clients that go away without a DELETE (default 30 minutes)
+   */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * Creates the MCP server for a new session, given the authenticated client (if auth is enabled)
+ */
+export type McpServerFactory = (client: AuthenticatedClient | null) => McpServer;
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+/**
+ * Handle returned by startHttpServer for inspecting and shutting down the server
+ */
+export interface HttpServerHandle {
+  /** The port the server is actually listening on (useful when binding to port 0) */
+  port: number;
+  /** Number of currently active MCP sessions across both transports */
+  sessionCount(): number;
+  /** Close all sessions and stop accepting connections */
+  close(): Promise<void>;
+}
+
+/**
+ * An active client session: one transport connected to its own MCP server
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  client: AuthenticatedClient | null;
+  /** Requests of the session still being answered, including open streams */
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Thrown when a request body is larger than the server accepts
+ */
+class PayloadTooLargeError extends Error {
+  constructor(public readonly limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+/**
+ * Write a JSON-RPC error response
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  }));
+}
+
+/**
+ * Check that a request comes from the client that created the session
+ */
+function isSessionOwner(session: Session, client: AuthenticatedClient | null): boolean {
+  return session.client?.token === client?.token;
+}
+
+/**
+ * Describe a client for log lines
+ */
+function describeClient(client: AuthenticatedClient | null): string {
+  return client ? `, client: ${client.name}` : "";
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * @param maxBytes - Largest body accepted
+ * @returns The parsed body, or undefined when the body is empty
+ * @throws PayloadTooLargeError if the body is larger than maxBytes
+ * @throws SyntaxError if the body is not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > maxBytes) {
+    throw new PayloadTooLargeError(maxBytes);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk as Buffer;
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw new PayloadTooLargeError(maxBytes);
+    }
+    chunks.push(buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Answer a request whose body could not be read
+ */
+function sendBodyError(res: ServerResponse, error: unknown): void {
+  if (error instanceof PayloadTooLargeError) {
+    // The rest of the body is not read, so the connection can't be reused
+    res.setHeader("Connection", "close");
+    sendJsonRpcError(res, 413, -32000, `Payload too large: ${error.message}`);
+    return;
+  }
+  sendJsonRpcError(res, 400, -32700, "Parse error: request body must be valid JSON");
+}
+
+/**
+ * Start an HTTP server exposing the MCP Streamable HTTP transport on /mcp and
+ * the legacy HTTP+SSE transport on /sse and /messages
+ *
+ * Every client session gets its own McpServer from the factory so that
+ * per-session protocol state never leaks between clients. When an
+ * authenticator is configured, sessions are bound to the client that
+ * created them and cannot be used with another client's token.
+ *
+ * @param createServer - Factory producing a fully registered MCP server
+ * @param options - Host, port, and optional authenticator
+ * @returns A handle for shutting the server down
+ */
+export async function startHttpServer(
+  createServer: McpServerFactory,
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  /**
+   * Count a request against a streamable session, closing the session once
+   * it has had no open request for the idle timeout
+   */
+  function trackRequest(id: string, session: Session, res: ServerResponse): void {
+    session.openRequests++;
+    clearTimeout(session.idleTimer);
+    res.once("close", () => {
+      session.openRequests--;
+      if (session.openRequests > 0 || sessions.get(id) !== session) {
+        return;
+      }
+      session.idleTimer = setTimeout(() => {
+        console.error(`MCP session expired after ${Math.round(idleTimeoutMs / 1000)}s idle: ${id}`);
+        session.server.close().catch(() => {});
+      }, idleTimeoutMs);
+      // An idle session must not keep the process alive
+      session.idleTimer.unref();
+    });
+  }
+
+  /**
+   * Handle requests for the Streamable HTTP transport
+   */
+  async function handleStreamableRequest(
+    req: AuthenticatedRequest,
+    res: ServerResponse,
+    client: AuthenticatedClient | null
+  ): Promise<void> {
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req, maxBodyBytes);
+      } catch (error) {
+        sendBodyError(res, error);
+        return;
+      }
+    }
+
+    const sessionIdHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      if (!isSessionOwner(session, client)) {
+        sendJsonRpcError(res, 403, -32002, "Forbidden: session belongs to another client");
+        return;
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: session uses the SSE transport");
+        return;
+      }
+      trackRequest(sessionId, session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: no valid session ID provided");
+      return;
+    }
+
+    const server = createServer(client);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const session: Session = { transport, server, client, openRequests: 0 };
+        sessions.set(id, session);
+        trackRequest(id, session, res);
+        console.error(`MCP session initialized: ${id} (streamable HTTP${describeClient(client)})`);
+      },
+    });
+    // The protocol layer takes over transport.onclose when connecting, so
+    // listen for the close on the server side instead, keeping the server's own handler
+    const onServerClose = server.server.onclose;
+    server.server.onclose = () => {
+      onServerClose?.();
+      if (transport.sessionId) {
+        clearTimeout(sessions.get(transport.sessionId)?.idleTimer);
+        sessions.delete(transport.sessionId);
+        console.error(`MCP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Open a legacy SSE stream for a new session
+   */
+  async function handleSseStream(res: ServerResponse, client: AuthenticatedClient | null): Promise<void> {
+    const server = createServer(client);
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+
+    // SSE sessions end with their stream, so they never sit idle
+    sessions.set(sessionId, { transport, server, client, openRequests: 1 });
+    console.error(`MCP session initialized: ${sessionId} (SSE${describeClient(client)})`);
+
+    res.on("close", () => {
+      sessions.delete(sessionId);
+      console.error(`MCP session closed: ${sessionId}`);
+    });
+
+    await server.connect(transport);
+  }
+
+  /**
+   * Route a message posted by a legacy SSE client to its session
+   */
+  async function handleSseMessage(
+    req: AuthenticatedRequest,
+    res: ServerResponse,
+    url: URL,
+    client: AuthenticatedClient | null
+  ): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    if (!isSessionOwner(session, client)) {
+      sendJsonRpcError(res, 403, -32002, "Forbidden: session belongs to another client");
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req, maxBodyBytes);
+    } catch (error) {
+      sendBodyError(res, error);
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  const httpServer = http.createServer(async (req: AuthenticatedRequest, res) => {
+    try {
+      const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+      let client: AuthenticatedClient | null = null;
+      if (options.authenticate) {
+        client = options.authenticate(req);
+        if (!client) {
+          res.setHeader("WWW-Authenticate", 'Bearer realm="honeycomb-mcp"');
+          sendJsonRpcError(res, 401, -32001, "Unauthorized: a valid bearer token is required");
+          return;
+        }
+        // Expose the client to tool handlers through the SDK's authInfo
+        req.auth = {
+          token: client.token,
+          clientId: client.name,
+          scopes: client.environments,
+        };
+      }
+
+      if (url.pathname === MCP_PATH) {
+        await handleStreamableRequest(req, res, client);
+      } else if (url.pathname === SSE_PATH && req.method === "GET") {
+        await handleSseStream(res, client);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+        await handleSseMessage(req, res, url, client);
+      } else {
+        res.writeHead(404, { "Content-Type": "text/plain" }).end("Not Found");
+      }
+    } catch (error) {
+      console.error("Error handling MCP HTTP request:", error instanceof Error ? error.message : String(error));
+      sendJsonRpcError(res, 500, -32603, "Internal server error");
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    port,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      // Close every session first so clients receive a clean end of stream
+      const active = Array.from(sessions.values());
+      sessions.clear();
+      active.forEach(session => clearTimeout(session.idleTimer));
+      await Promise.allSettled(active.map(session => session.server.close()));
+
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(error => (error ? reject(error) : resolve()));
+        // Long-lived SSE connections would otherwise keep the server open
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
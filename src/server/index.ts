@@ -0,0 +1,37 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { HoneycombAPI } from "../api/client.js";
+import { registerResources } from "../resources/index.js";
+import { registerTools } from "../tools/index.js";
+import { registerPrompts } from "../prompts/index.js";
+import { SavedQueryStore } from "../query/saved-queries.js";
+
+/**
+ * Create a fully wired MCP server instance
+ *
+ * An McpServer can only be connected to a single transport, so the HTTP
+ * transport calls this once per client session while sharing the same
+ * Honeycomb API client (and therefore the same cache) across sessions.
+ *
+ * @param api - The Honeycomb API client
+ * @param savedQueries - The saved query library, shared by every session
+ * @returns An MCP server with all resources, tools, and prompts registered
+ */
+export function createMcpServer(api: HoneycombAPI, savedQueries?: SavedQueryStore): McpServer {
+  // Create server with proper initialization options and capabilities
+  const server = new McpServer({
+    name: "honeycomb",
+    version: "1.0.0",
+    capabilities: {
+      prompts: {} // Register prompts capability
+    }
+  });
+
+  registerResources(server, api, savedQueries);
+  const stopFollowingReloads = registerTools(server, api, savedQueries);
+  registerPrompts(server);
+
+  // Sessions come and go over HTTP; a closed one no longer needs tool updates
+  server.server.onclose = stopFollowingReloads;
+
+  return server;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { parseServerOptions } from "./options.js";
+
+describe("parseServerOptions", () => {
+  it("defaults to the stdio transport", () => {
+    const options = parseServerOptions([], {});
+    expect(options).toEqual({ transport: "stdio", port: 3000, host: "127.0.0.1", authFile: undefined, doctor: false });
+  });
+
+  it("reads options from environment variables", () => {
+    const options = parseServerOptions([], {
+      HONEYCOMB_MCP_TRANSPORT: "HTTP",
+      HONEYCOMB_MCP_PORT: "8080",
+      HONEYCOMB_MCP_HOST: "0.0.0.0",
+    });
+    expect(options).toEqual({ transport: "http", port: 8080, host: "0.0.0.0", authFile: undefined, doctor: false });
+  });
+
+  it("prefers CLI flags over environment variables", () => {
+    const options = parseServerOptions(
+      ["--transport", "http", "--port=9090"],
+      { HONEYCOMB_MCP_TRANSPORT: "stdio", HONEYCOMB_MCP_PORT: "8080" }
+    );
+    expect(options.transport).toBe("http");
+    expect(options.port).toBe(9090);
+  });
+
+  it("enables doctor mode with --doctor", () => {
+    expect(parseServerOptions(["--doctor"], {}).doctor).toBe(true);
+  });
+
+  it("reads the fake Honeycomb fixture from a flag or environment variable", () => {
+    expect(parseServerOptions(["--fake-honeycomb", "demo.json"], {}).fakeHoneycomb).toBe("demo.json");
+    expect(parseServerOptions([], { HONEYCOMB_MCP_FAKE_HONEYCOMB: "env.json" }).fakeHoneycomb).toBe("env.json");
+  });
+
+  it("reads cassette files for recording and replay", () => {
+    expect(parseServerOptions(["--record=session.json"], {}).record).toBe("session.json");
+    expect(parseServerOptions([], { HONEYCOMB_MCP_REPLAY: "session.json" }).replay).toBe("session.json");
+    expect(() => parseServerOptions(["--replay", "a.json"], { HONEYCOMB_MCP_RECORD: "b.json" })).toThrow(/replay cannot be combined/);
+  });
+
+  it("rejects unknown transports and invalid ports", () => {
+    expect(() => parseServerOptions(["--transport", "websocket"], {})).toThrow(/Invalid server options/);
+    expect(() => parseServerOptions(["--port", "not-a-port"], {})).toThrow(/port/);
+  });
+});
@@ -0,0 +1,88 @@
+import { z } from "zod";
+
+/**
+ * Schema for the server process options (transport selection and HTTP binding)
+ */
+export const ServerOptionsSchema = z.object({
+  transport: z.enum(["stdio", "http"]).default("stdio"),
+  port: z.number().int().nonnegative().max(65535).default(3000),
+  host: z.string().min(1).default("127.0.0.1"),
+  authFile: z.string().min(1).optional(),
+  // Print an environment health report and exit instead of serving
+  doctor: z.boolean().default(false),
+  // Serve API requests from a fake Honeycomb loaded from this fixture file instead of the network
+  fakeHoneycomb: z.string().min(1).optional(),
+  // Record API traffic to this cassette file
+  record: z.string().min(1).optional(),
+  // Serve API responses from this cassette file instead of the network
+  replay: z.string().min(1).optional(),
+}).refine(options => !options.replay || (!options.record && !options.fakeHoneycomb), {
+  message: "replay cannot be combined with record or fakeHoneycomb",
+  path: ["replay"],
+});
+
+export type ServerOptions = z.infer<typeof ServerOptionsSchema>;
+
+/**
+ * Read the value of a CLI flag, supporting both `--flag value` and `--flag=value`
+ */
+function getFlagValue(argv: string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag) {
+      return argv[i + 1];
+    }
+    if (arg?.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse server options from CLI arguments and environment variables
+ *
+ * CLI flags take precedence over environment variables:
+ * - --transport / HONEYCOMB_MCP_TRANSPORT: "stdio" (default) or "http"
+ * - --port / HONEYCOMB_MCP_PORT: port for the HTTP transport (default 3000)
+ * - --host / HONEYCOMB_MCP_HOST: interface for the HTTP transport (default 127.0.0.1)
+ * - --auth-file / HONEYCOMB_MCP_AUTH_FILE: bearer-token auth file for the HTTP transport
+ * - --doctor: check every environment, print a report, and exit
+ * - --fake-honeycomb / HONEYCOMB_MCP_FAKE_HONEYCOMB: fixture file for an in-memory fake Honeycomb
+ * - --record / HONEYCOMB_MCP_RECORD: cassette file to record API traffic to
+ * - --replay / HONEYCOMB_MCP_REPLAY: cassette file to replay API responses from
+ *
+ * @param argv - CLI arguments (without the node binary and script path)
+ * @param env - Environment variables
+ * @returns Validated server options
+ */
+export function parseServerOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerOptions {
+  const transport = getFlagValue(argv, "--transport") ?? env.HONEYCOMB_MCP_TRANSPORT;
+  const port = getFlagValue(argv, "--port") ?? env.HONEYCOMB_MCP_PORT;
+  const host = getFlagValue(argv, "--host") ?? env.HONEYCOMB_MCP_HOST;
+  const authFile = getFlagValue(argv, "--auth-file") ?? env.HONEYCOMB_MCP_AUTH_FILE;
+  const fakeHoneycomb = getFlagValue(argv, "--fake-honeycomb") ?? env.HONEYCOMB_MCP_FAKE_HONEYCOMB;
+  const record = getFlagValue(argv, "--record") ?? env.HONEYCOMB_MCP_RECORD;
+  const replay = getFlagValue(argv, "--replay") ?? env.HONEYCOMB_MCP_REPLAY;
+
+  const result = ServerOptionsSchema.safeParse({
+    transport: transport?.toLowerCase(),
+    port: port !== undefined ? Number(port) : undefined,
+    host,
+    authFile,
+    doctor: argv.includes("--doctor"),
+    fakeHoneycomb,
+    record,
+    replay,
+  });
+
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `  - ${i.path.join('.')}: ${i.message}`).join('\n');
+    throw new Error(`Invalid server options:\n${issues}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HoneycombAPI } from "../api/client.js";
+import { Config } from "../config.js";
+import { initializeCache } from "../cache/index.js";
+import { startConfigReloader, ConfigReloader } from "./reload.js";
+
+function makeConfig(environments: Config["environments"]): Config {
+  return {
+    environments,
+    cache: {
+      defaultTTL: 300,
+      ttl: {
+        dataset: 900,
+        column: 900,
+        board: 900,
+        slo: 900,
+        trigger: 900,
+        marker: 900,
+        recipient: 900,
+        auth: 3600
+      },
+      enabled: true,
+      maxSize: 1000
+    }
+  };
+}
+
+describe("startConfigReloader", () => {
+  let api: HoneycombAPI;
+  let reloader: ConfigReloader | undefined;
+
+  beforeEach(() => {
+    const config = makeConfig([{ name: "prod", apiKey: "prod-key" }]);
+    initializeCache(config);
+    api = new HoneycombAPI(config);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    reloader?.close();
+    reloader = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it("replaces the API client's environments", async () => {
+    const load = vi.fn().mockResolvedValue(makeConfig([
+      { name: "prod", apiKey: "rotated-key" },
+      { name: "staging", apiKey: "staging-key" },
+    ]));
+    reloader = startConfigReloader(api, { load, handleSignal: false });
+
+    const summary = await reloader.reload();
+
+    expect(summary).toEqual({ added: ["staging"], removed: [], updated: ["prod"] });
+    expect(api.getEnvironments()).toEqual(["prod", "staging"]);
+  });
+
+  it("keeps the current configuration when the new one is invalid", async () => {
+    const load = vi.fn().mockRejectedValue(new Error("Configuration error"));
+    reloader = startConfigReloader(api, { load, handleSignal: false });
+
+    expect(await reloader.reload()).toBeNull();
+    expect(api.getEnvironments()).toEqual(["prod"]);
+    expect(console.error).toHaveBeenCalledWith(
+      "Configuration reload failed, keeping the current configuration:",
+      "Configuration error"
+    );
+  });
+
+  it("does not run overlapping reloads", async () => {
+    let resolveLoad: (config: Config) => void = () => {};
+    const load = vi.fn().mockImplementation(() => new Promise<Config>(resolve => { resolveLoad = resolve; }));
+    reloader = startConfigReloader(api, { load, handleSignal: false });
+
+    const first = reloader.reload();
+    const second = reloader.reload();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    resolveLoad(makeConfig([{ name: "dev", apiKey: "dev-key" }]));
+    await first;
+    await second;
+    // The queued reload starts once the first one finishes
+    await vi.waitFor(() => expect(load).toHaveBeenCalledTimes(2));
+    resolveLoad(makeConfig([{ name: "dev", apiKey: "dev-key" }]));
+  });
+
+  it("reloads on SIGHUP", async () => {
+    const load = vi.fn().mockResolvedValue(makeConfig([{ name: "dev", apiKey: "dev-key" }]));
+    reloader = startConfigReloader(api, { load });
+
+    process.emit("SIGHUP", "SIGHUP");
+
+    await vi.waitFor(() => expect(api.getEnvironments()).toEqual(["dev"]));
+  });
+
+  describe("config file watching", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-reload-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("reloads when the config file changes", async () => {
+      const configPath = join(dir, "honeycomb-mcp.config.yaml");
+      await writeFile(configPath, "environments: []\n");
+      const load = vi.fn().mockResolvedValue(makeConfig([{ name: "dev", apiKey: "dev-key" }]));
+      reloader = startConfigReloader(api, { configPath, load, debounceMs: 10, handleSignal: false });
+
+      await writeFile(join(dir, "unrelated.txt"), "ignored");
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(load).not.toHaveBeenCalled();
+
+      await writeFile(configPath, "environments:\n  - name: dev\n");
+
+      await vi.waitFor(() => expect(api.getEnvironments()).toEqual(["dev"]));
+    });
+  });
+});
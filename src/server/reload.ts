@@ -0,0 +1,133 @@
+import { watch, FSWatcher } from "node:fs";
+import { basename, dirname } from "node:path";
+import process from "node:process";
+import { Config, loadConfig } from "../config.js";
+import { HoneycombAPI, ConfigReloadSummary } from "../api/client.js";
+
+/**
+ * Options for the config reloader
+ */
+export interface ConfigReloaderOptions {
+  /** Config file to watch for changes; SIGHUP still triggers reloads without one */
+  configPath?: string;
+  /** Loads and auth-enhances the configuration (defaults to loadConfig) */
+  load?: () => Promise<Config>;
+  /** Quiet period after a file change before reloading, in milliseconds */
+  debounceMs?: number;
+  /** Whether to reload on SIGHUP (defaults to true) */
+  handleSignal?: boolean;
+}
+
+/**
+ * Handle for triggering reloads and stopping the reloader
+ */
+export interface ConfigReloader {
+  /**
+   * Reload the configuration now
+   *
+   * @returns The reload summary, or null if the new configuration was rejected
+   */
+  reload(): Promise<ConfigReloadSummary | null>;
+  /** Stop watching the config file and listening for SIGHUP */
+  close(): void;
+}
+
+/**
+ * Describe a reload summary for log lines
+ */
+function describeSummary(summary: ConfigReloadSummary): string {
+  const parts = [
+    summary.added.length > 0 ? `added: ${summary.added.join(", ")}` : "",
+    summary.removed.length > 0 ? `removed: ${summary.removed.join(", ")}` : "",
+    summary.updated.length > 0 ? `updated: ${summary.updated.join(", ")}` : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join("; ") : "no changes";
+}
+
+/**
+ * Reload the API client's environments on SIGHUP and when the config file changes
+ *
+ * Each reload re-reads the config file, applies the environment variable
+ * overrides, and re-authenticates every environment. If the new configuration is invalid,
+ * the error is logged and the current environments stay in place. Reloads
+ * never overlap: a change arriving during a reload queues one more reload.
+ *
+ * @param api - The root API client (not a scoped view)
+ * @param options - Config file path and reload behaviour
+ * @returns A handle for triggering reloads and shutting the reloader down
+ */
+export function startConfigReloader(api: HoneycombAPI, options: ConfigReloaderOptions = {}): ConfigReloader {
+  const load = options.load ?? loadConfig;
+  const debounceMs = options.debounceMs ?? 250;
+
+  let running: Promise<ConfigReloadSummary | null> | null = null;
+  let pending = false;
+  let debounceTimer: NodeJS.Timeout | undefined;
+
+  async function runReload(): Promise<ConfigReloadSummary | null> {
+    try {
+      const config = await load();
+      const summary = api.reloadConfig(config);
+      console.error(`Configuration reloaded (${describeSummary(summary)})`);
+      return summary;
+    } catch (error) {
+      console.error(
+        "Configuration reload failed, keeping the current configuration:",
+        error instanceof Error ? error.message : String(error)
+      );
+      return null;
+    }
+  }
+
+  function reload(): Promise<ConfigReloadSummary | null> {
+    if (running) {
+      pending = true;
+      return running;
+    }
+    running = runReload().finally(() => {
+      running = null;
+      if (pending) {
+        pending = false;
+        void reload();
+      }
+    });
+    return running;
+  }
+
+  const onSignal = () => {
+    console.error("Received SIGHUP, reloading configuration...");
+    void reload();
+  };
+  if (options.handleSignal !== false) {
+    process.on("SIGHUP", onSignal);
+  }
+
+  // Watch the directory rather than the file: editors often replace the
+  // file on save, which would end a watch on the original inode
+  let watcher: FSWatcher | undefined;
+  if (options.configPath) {
+    const fileName = basename(options.configPath);
+    watcher = watch(dirname(options.configPath), (_event, changed) => {
+      if (changed && changed.toString() !== fileName) {
+        return;
+      }
+      clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        console.error(`Config file ${options.configPath} changed, reloading configuration...`);
+        void reload();
+      }, debounceMs);
+    });
+    watcher.on("error", error => {
+      console.error(`Stopped watching ${options.configPath}: ${error.message}`);
+    });
+  }
+
+  return {
+    reload,
+    close: () => {
+      clearTimeout(debounceTimer);
+      watcher?.close();
+      process.off("SIGHUP", onSignal);
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CassettePlayer, CassetteRecorder } from "./cassette.js";
+import { FakeHoneycomb } from "./fake-honeycomb.js";
+import { HoneycombAPI } from "../api/client.js";
+import { Config } from "../config.js";
+import { initializeCache } from "../cache/index.js";
+import { registerSecret } from "../utils/secrets.js";
+
+const API_KEY = "cassette-secret-key";
+
+function createConfig(apiKey: string): Config {
+  return {
+    environments: [{ name: "demo", apiKey }],
+    cache: {
+      defaultTTL: 300,
+      ttl: { dataset: 900, column: 900, board: 900, slo: 900, trigger: 900, marker: 900, recipient: 900, auth: 3600 },
+      enabled: false,
+      maxSize: 1000,
+    },
+  };
+}
+
+const fake = () => new FakeHoneycomb({
+  environments: [{
+    name: "demo",
+    apiKey: API_KEY,
+    datasets: [{ slug: "web", events: [{ service: "api", duration_ms: 5 }, { service: "api", duration_ms: 15 }] }],
+  }],
+}, { pollsUntilComplete: 1 });
+
+describe("cassettes", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    initializeCache(createConfig(API_KEY));
+    dir = await mkdtemp(join(tmpdir(), "cassette-"));
+    path = join(dir, "session.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function recordSession() {
+    registerSecret(API_KEY);
+    const recorder = new CassetteRecorder(path, fake().fetch);
+    const api = new HoneycombAPI(createConfig(API_KEY), { fetch: recorder.fetch });
+    await api.listDatasets("demo");
+    return api.runAnalysisQuery("demo", "web", {
+      environment: "demo",
+      dataset: "web",
+      calculations: [{ op: "AVG", column: "duration_ms" }],
+    });
+  }
+
+  it("records every request and response with API keys redacted", async () => {
+    await recordSession();
+
+    const text = await readFile(path, "utf8");
+    expect(text).not.toContain(API_KEY);
+
+    const cassette = JSON.parse(text);
+    expect(cassette.interactions.map((i: any) => `${i.request.method} ${new URL(i.request.url).pathname}`)).toEqual([
+      "GET /1/datasets",
+      "POST /1/queries/web",
+      "POST /1/query_results/web",
+      "GET /1/query_results/web/r2",
+      "GET /1/query_results/web/r2",
+    ]);
+    expect(cassette.interactions[0].request.headers["x-honeycomb-team"]).toBe("[REDACTED]");
+    expect(cassette.interactions[1].request.body).toMatchObject({ calculations: [{ op: "AVG", column: "duration_ms" }] });
+  });
+
+  it("replays a recorded session without the network or the original key", async () => {
+    const recorded = await recordSession();
+
+    const player = await CassettePlayer.fromFile(path);
+    const api = new HoneycombAPI(createConfig("some-other-key"), { fetch: player.fetch });
+    const datasets = await api.listDatasets("demo");
+    const replayed = await api.runAnalysisQuery("demo", "web", {
+      environment: "demo",
+      dataset: "web",
+      calculations: [{ op: "AVG", column: "duration_ms" }],
+    });
+
+    expect(datasets.map(d => d.slug)).toEqual(["web"]);
+    expect(replayed).toEqual(recorded);
+    expect(replayed.data?.results).toEqual([{ "AVG(duration_ms)": 10 }]);
+  });
+
+  it("fails requests the cassette has no response for", async () => {
+    const player = new CassettePlayer({ version: 1, recordedAt: "2025-01-01T00:00:00Z", interactions: [] });
+
+    await expect(player.fetch("https://api.honeycomb.io/1/boards")).rejects.toThrow(
+      "No recorded response for GET /1/boards in the cassette"
+    );
+  });
+
+  it("rejects files that are not cassettes", async () => {
+    await writeFile(path, JSON.stringify({ interactions: "nope" }));
+
+    await expect(CassettePlayer.fromFile(path)).rejects.toThrow(/Invalid cassette/);
+  });
+});
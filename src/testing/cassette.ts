@@ -0,0 +1,193 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { FetchLike } from "../api/transport.js";
+import { redactSecrets } from "../utils/secrets.js";
+
+/**
+ * One recorded request and the response Honeycomb sent for it
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+/**
+ * A file of recorded Honeycomb API traffic
+ */
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+// Request headers that carry credentials; their values are never written to disk
+const CREDENTIAL_HEADERS = new Set(["x-honeycomb-team", "authorization"]);
+
+/**
+ * Identify a request by what it asks for, ignoring the endpoint host and credentials
+ */
+function requestKey(method: string, url: string, body: unknown): string {
+  const { pathname, search } = new URL(url);
+  return `${method} ${pathname}${search} ${JSON.stringify(body ?? null)}`;
+}
+
+function requestLine(method: string, url: string): string {
+  const { pathname, search } = new URL(url);
+  return `${method} ${pathname}${search}`;
+}
+
+function parseBody(body: RequestInit["body"]): unknown {
+  if (typeof body !== "string") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Records every request and response that passes through its fetch to a cassette file
+ *
+ * The file is rewritten after each response, so a session that is killed
+ * still leaves a usable cassette. API keys are redacted from request headers,
+ * and any registered secret is masked wherever it appears.
+ */
+export class CassetteRecorder {
+  private cassette: Cassette = { version: 1, recordedAt: new Date().toISOString(), interactions: [] };
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - The cassette file to write
+   * @param send - Where requests actually go, usually the global fetch
+   */
+  constructor(
+    private path: string,
+    private send: FetchLike = (url, init) => fetch(url, init)
+  ) {}
+
+  get interactions(): readonly CassetteInteraction[] {
+    return this.cassette.interactions;
+  }
+
+  /**
+   * Send a request and record it along with its response
+   */
+  readonly fetch: FetchLike = async (url, init = {}) => {
+    const response = await this.send(url, init);
+    const body = await response.text();
+
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, name) => {
+      headers[name] = CREDENTIAL_HEADERS.has(name) ? "[REDACTED]" : value;
+    });
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (name !== "set-cookie") {
+        responseHeaders[name] = value;
+      }
+    });
+
+    this.cassette.interactions.push({
+      request: { method: (init.method ?? "GET").toUpperCase(), url, headers, body: parseBody(init.body) },
+      response: { status: response.status, statusText: response.statusText, headers: responseHeaders, body },
+    });
+    await this.save();
+
+    return new Response(nullBodyStatus(response.status) ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  /**
+   * Write the cassette, waiting for any earlier write to finish first
+   */
+  save(): Promise<void> {
+    const text = redactSecrets(JSON.stringify(this.cassette, null, 2)) + "\n";
+    this.saving = this.saving.then(() => writeFile(this.path, text, "utf8"));
+    return this.saving;
+  }
+}
+
+/**
+ * Serves recorded responses from a cassette instead of the network
+ *
+ * Each request is answered by the first unused interaction with the same
+ * method, path, query string, and body, so repeated polls replay in the order
+ * they were recorded. When the body differs, e.g. because a query's absolute
+ * time range moved, the first unused interaction with the same method and
+ * path is used instead. Once all matching interactions are used, the last
+ * one is served again.
+ */
+export class CassettePlayer {
+  private used = new Set<number>();
+
+  constructor(private cassette: Cassette) {}
+
+  /**
+   * Load a cassette file
+   *
+   * @throws Error if the file cannot be read or is not a cassette
+   */
+  static async fromFile(path: string): Promise<CassettePlayer> {
+    const cassette = JSON.parse(await readFile(path, "utf8")) as Cassette;
+    if (cassette?.version !== 1 || !Array.isArray(cassette.interactions)) {
+      throw new Error(`Invalid cassette ${path}: expected version 1 with a list of interactions`);
+    }
+    return new CassettePlayer(cassette);
+  }
+
+  /**
+   * Answer a request with its recorded response
+   *
+   * @throws Error if the cassette has no response for the request
+   */
+  readonly fetch: FetchLike = async (url, init = {}) => {
+    const method = (init.method ?? "GET").toUpperCase();
+    const key = requestKey(method, url, parseBody(init.body));
+    const line = requestLine(method, url);
+
+    const index =
+      this.findUnused(i => requestKey(i.request.method, i.request.url, i.request.body) === key) ??
+      this.findUnused(i => requestLine(i.request.method, i.request.url) === line) ??
+      this.findLast(i => requestLine(i.request.method, i.request.url) === line);
+    if (index === undefined) {
+      throw new Error(`No recorded response for ${line} in the cassette`);
+    }
+    this.used.add(index);
+
+    const { status, statusText, headers, body } = this.cassette.interactions[index]!.response;
+    return new Response(nullBodyStatus(status) ? null : body, { status, statusText, headers });
+  };
+
+  private findUnused(matches: (interaction: CassetteInteraction) => boolean): number | undefined {
+    const index = this.cassette.interactions.findIndex((interaction, i) => !this.used.has(i) && matches(interaction));
+    return index === -1 ? undefined : index;
+  }
+
+  private findLast(matches: (interaction: CassetteInteraction) => boolean): number | undefined {
+    for (let i = this.cassette.interactions.length - 1; i >= 0; i--) {
+      if (matches(this.cassette.interactions[i]!)) {
+        return i;
+      }
+    }
+    return undefined;
+  }
+}
+
+// Responses with these statuses cannot carry a body
+function nullBodyStatus(status: number): boolean {
+  return status === 101 || status === 204 || status === 205 || status === 304;
+}
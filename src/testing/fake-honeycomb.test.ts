@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { FakeHoneycomb, FakeHoneycombFixture } from "./fake-honeycomb.js";
+import { HoneycombAPI } from "../api/client.js";
+import { Config } from "../config.js";
+import { initializeCache } from "../cache/index.js";
+import { createRunQueryTool } from "../tools/run-query.js";
+import { createListColumnsTool } from "../tools/list-columns.js";
+import { createListMarkersTool } from "../tools/list-markers.js";
+
+const fixture: FakeHoneycombFixture = {
+  environments: [
+    {
+      name: "demo",
+      apiKey: "demo-key",
+      team: { name: "Demo", slug: "demo-team" },
+      datasets: [
+        {
+          slug: "frontend",
+          events: [
+            { service: "api", duration_ms: 100, status: 200 },
+            { service: "api", duration_ms: 300, status: 500 },
+            { service: "web", duration_ms: 50, status: 200 },
+            { service: "web", duration_ms: 70.5, status: 200 },
+            { service: "web", duration_ms: 90, status: 404 },
+          ],
+          markers: [{ id: "m2", message: "frontend deploy", type: "deploy" } as any],
+        },
+      ],
+      markers: [{ id: "m1", message: "deploy", type: "deploy" } as any],
+    },
+  ],
+};
+
+const config: Config = {
+  environments: [{ name: "demo", apiKey: "demo-key", teamSlug: "demo-team", environmentSlug: "demo" }],
+  cache: {
+    defaultTTL: 300,
+    ttl: { dataset: 900, column: 900, board: 900, slo: 900, trigger: 900, marker: 900, recipient: 900, auth: 3600 },
+    enabled: false,
+    maxSize: 1000,
+  },
+  retry: { maxRetries: 1, initialDelayMs: 1, maxDelayMs: 10, budgetRatio: 0.2, budgetMax: 10 },
+  rateLimit: { enabled: false, queries: { requestsPerMinute: 120, burst: 20 }, metadata: { requestsPerMinute: 600, burst: 50 } },
+};
+
+function parse(result: { content: { text?: string }[] }) {
+  return JSON.parse(result.content[0]!.text!);
+}
+
+describe("FakeHoneycomb", () => {
+  let fake: FakeHoneycomb;
+  let api: HoneycombAPI;
+
+  beforeEach(() => {
+    initializeCache(config);
+    fake = new FakeHoneycomb(fixture, { pollsUntilComplete: 1 });
+    api = new HoneycombAPI(config, { fetch: fake.fetch });
+  });
+
+  it("authenticates known keys and rejects others", async () => {
+    const ok = await fake.fetch("https://api.honeycomb.io/1/auth", { headers: { "X-Honeycomb-Team": "demo-key" } });
+    expect(await ok.json()).toMatchObject({
+      environment: { name: "demo", slug: "demo" },
+      team: { slug: "demo-team" },
+      api_key_access: { queries: true },
+    });
+
+    const denied = await fake.fetch("https://api.honeycomb.io/1/auth", { headers: { "X-Honeycomb-Team": "nope" } });
+    expect(denied.status).toBe(401);
+  });
+
+  it("infers columns from the fixture events", async () => {
+    const tool = createListColumnsTool(api);
+    const columns = parse(await tool.handler({ environment: "demo", dataset: "frontend" }));
+
+    expect(columns.map((c: { name: string; type: string }) => [c.name, c.type])).toEqual([
+      ["service", "string"],
+      ["duration_ms", "float"],
+      ["status", "integer"],
+    ]);
+  });
+
+  it("runs queries end to end through the run_query tool", async () => {
+    const tool = createRunQueryTool(api);
+    const result = parse(await tool.handler({
+      environment: "demo",
+      dataset: "frontend",
+      calculations: [{ op: "COUNT" }, { op: "MAX", column: "duration_ms" }],
+      breakdowns: ["service"],
+      filters: [{ column: "status", op: "<", value: 500 }],
+    }));
+
+    expect(result.results).toEqual([
+      { service: "web", COUNT: 3, "MAX(duration_ms)": 90 },
+      { service: "api", COUNT: 1, "MAX(duration_ms)": 100 },
+    ]);
+    expect(result.query_url).toMatch(/\/demo-team\/environments\/demo\/datasets\/frontend\/result\//);
+    // Checked the columns, created the query, then polled once while it was still running
+    expect(fake.requests.map(r => `${r.method} ${r.path.replace(/\/r\d+$/, "/:id")}`)).toEqual([
+      "GET /1/columns/frontend",
+      "POST /1/queries/frontend",
+      "POST /1/query_results/frontend",
+      "GET /1/query_results/frontend/:id",
+      "GET /1/query_results/frontend/:id",
+    ]);
+  });
+
+  it("applies havings, orders, limits and percentiles", async () => {
+    const response = await api.runAnalysisQuery("demo", "frontend", {
+      environment: "demo",
+      dataset: "frontend",
+      calculations: [{ op: "P50", column: "duration_ms" }],
+      breakdowns: ["service"],
+      havings: [{ calculate_op: "P50", column: "duration_ms", op: ">", value: 60 }],
+      orders: [{ column: "service", order: "ascending" }],
+      limit: 1,
+    });
+
+    expect(response.data?.results).toEqual([{ service: "api", "P50(duration_ms)": 100 }]);
+  });
+
+  it("serves environment-wide markers", async () => {
+    const tool = createListMarkersTool(api);
+    const result = parse(await tool.handler({ environment: "demo" }));
+
+    expect(result).toEqual([expect.objectContaining({ id: "m1", message: "deploy" })]);
+  });
+
+  it("serves each dataset's own markers apart from the environment's", async () => {
+    expect((await api.getDatasetMarkers("demo", "frontend")).map(marker => marker.id)).toEqual(["m2"]);
+    expect((await api.getMarkers("demo")).map(marker => marker.id)).toEqual(["m1"]);
+  });
+
+  it("answers unknown datasets with 404", async () => {
+    await expect(api.getColumns("demo", "missing")).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it("injects failures so retries can be exercised", async () => {
+    fake.failNext(503);
+
+    const datasets = await api.listDatasets("demo");
+
+    expect(datasets.map(d => d.slug)).toEqual(["frontend"]);
+    expect(fake.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,492 @@
+import { readFile } from "node:fs/promises";
+import { FetchLike } from "../api/transport.js";
+import { AuthResponse, Dataset } from "../types/api.js";
+import { Column } from "../types/column.js";
+import { AnalysisQuery, QueryFilter, QueryResultValue } from "../types/query.js";
+import { Board } from "../types/board.js";
+import { Marker } from "../types/marker.js";
+import { Recipient } from "../types/recipient.js";
+import { SLODetailedResponse } from "../types/slo.js";
+import { TriggerResponse } from "../types/trigger.js";
+
+type EventValue = string | number | boolean | null;
+
+/**
+ * A dataset served by the fake, with the events its queries run over
+ */
+export interface FakeDataset {
+  slug: string;
+  name?: string;
+  description?: string;
+  // Inferred from the events when omitted
+  columns?: (Partial<Column> & { key_name: string })[];
+  events?: Record<string, EventValue>[];
+  slos?: SLODetailedResponse[];
+  triggers?: TriggerResponse[];
+  // Markers of this dataset only, listed at /1/markers/{dataset}
+  markers?: Marker[];
+}
+
+/**
+ * A Honeycomb environment, reached with its API key
+ */
+export interface FakeEnvironment {
+  apiKey: string;
+  name: string;
+  slug?: string;
+  team?: { name: string; slug: string };
+  // The key's api_key_access; every permission is granted when omitted
+  permissions?: Record<string, boolean>;
+  datasets?: FakeDataset[];
+  boards?: Board[];
+  markers?: Marker[];
+  recipients?: Recipient[];
+}
+
+/**
+ * Everything the fake serves, usually loaded from a JSON file
+ */
+export interface FakeHoneycombFixture {
+  environments: FakeEnvironment[];
+}
+
+export interface FakeHoneycombOptions {
+  // Polls that find a query result still running before it completes
+  pollsUntilComplete?: number;
+  // Base URL of the UI used in query result links
+  uiEndpoint?: string;
+}
+
+/**
+ * A request the fake received
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  apiKey: string | null;
+  body?: unknown;
+}
+
+interface StoredQuery extends AnalysisQuery {
+  id: string;
+  dataset: string;
+}
+
+interface StoredQueryResult {
+  id: string;
+  query: StoredQuery;
+  polls: number;
+}
+
+class FakeResponseError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  400: "Bad Request",
+  401: "Unauthorized",
+  404: "Not Found",
+  422: "Unprocessable Entity",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  503: "Service Unavailable",
+};
+
+const PERCENTILES: Record<string, number> = {
+  P001: 0.001, P01: 0.01, P05: 0.05, P10: 0.1, P20: 0.2, P25: 0.25, P50: 0.5,
+  P75: 0.75, P80: 0.8, P90: 0.9, P95: 0.95, P99: 0.99, P999: 0.999,
+};
+
+// The api_key_access permission each route family needs
+const ROUTE_PERMISSIONS: Record<string, string> = {
+  columns: "columns",
+  queries: "queries",
+  query_results: "queries",
+  boards: "boards",
+  markers: "markers",
+  recipients: "recipients",
+  slos: "slos",
+  triggers: "triggers",
+};
+
+/**
+ * An in-memory stand-in for the Honeycomb API
+ *
+ * Serves the routes HoneycombAPI uses from api.yaml: auth, datasets, columns,
+ * queries, query results, boards, SLOs, triggers, markers and recipients.
+ * Queries run over each dataset's fixture events; time ranges and
+ * granularity are ignored. Pass `fake.fetch` to HoneycombAPI (or to
+ * loadConfig) to use it instead of the network.
+ */
+export class FakeHoneycomb {
+  // Every request received, oldest first
+  readonly requests: FakeRequest[] = [];
+  private queries = new Map<string, StoredQuery>();
+  private queryResults = new Map<string, StoredQueryResult>();
+  private failures: { status: number; error: string; headers: Record<string, string> }[] = [];
+  private nextId = 1;
+
+  constructor(
+    private fixture: FakeHoneycombFixture,
+    private options: FakeHoneycombOptions = {}
+  ) {}
+
+  /**
+   * Load a fixture from a JSON file
+   *
+   * @throws Error if the file cannot be read or is not a fixture
+   */
+  static async fromFile(path: string, options: FakeHoneycombOptions = {}): Promise<FakeHoneycomb> {
+    const fixture = JSON.parse(await readFile(path, "utf8")) as FakeHoneycombFixture;
+    const valid = Array.isArray(fixture?.environments) && fixture.environments.every(
+      env => typeof env?.apiKey === "string" && typeof env?.name === "string"
+    );
+    if (!valid) {
+      throw new Error(`Invalid fake Honeycomb fixture ${path}: expected environments with a name and apiKey`);
+    }
+    return new FakeHoneycomb(fixture, options);
+  }
+
+  /**
+   * Fail the next request with an error response, e.g. to exercise retries
+   */
+  failNext(status: number, options: { error?: string; headers?: Record<string, string> } = {}): void {
+    this.failures.push({
+      status,
+      error: options.error ?? STATUS_TEXT[status] ?? "Error",
+      headers: options.headers ?? {},
+    });
+  }
+
+  /**
+   * Handle a request like the Honeycomb API would
+   */
+  readonly fetch: FetchLike = async (url, init = {}) => {
+    const { pathname, searchParams } = new URL(url);
+    const method = (init.method ?? "GET").toUpperCase();
+    const headers = new Headers(init.headers);
+    const apiKey = headers.get("X-Honeycomb-Team");
+    const body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+    this.requests.push({ method, path: pathname, apiKey, body });
+
+    const failure = this.failures.shift();
+    if (failure) {
+      return jsonResponse(failure.status, { error: failure.error }, failure.headers);
+    }
+
+    try {
+      const env = this.fixture.environments.find(e => e.apiKey === apiKey);
+      if (!env) {
+        throw new FakeResponseError(401, "unknown API key - check your credentials");
+      }
+      const [status, result] = this.route(env, method, pathname.split("/").filter(Boolean), searchParams, body);
+      return jsonResponse(status, result);
+    } catch (error) {
+      if (error instanceof FakeResponseError) {
+        return jsonResponse(error.status, { error: error.message });
+      }
+      return jsonResponse(500, { error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  private route(
+    env: FakeEnvironment,
+    method: string,
+    segments: string[],
+    params: URLSearchParams,
+    body: any
+  ): [number, unknown] {
+    const [version, resource, first, second] = segments;
+    if (version !== "1" || !resource) {
+      throw new FakeResponseError(404, "Not Found");
+    }
+    const permission = ROUTE_PERMISSIONS[resource];
+    if (permission && env.permissions?.[permission] === false) {
+      throw new FakeResponseError(401, `This API key does not have the "${permission}" permission`);
+    }
+
+    const is = (verb: string, length: number) => method === verb && segments.length === length;
+
+    switch (resource) {
+      case "auth":
+        if (is("GET", 2)) return [200, this.auth(env)];
+        break;
+      case "datasets":
+        if (is("GET", 2)) return [200, (env.datasets ?? []).map(toDataset)];
+        if (is("GET", 3)) return [200, toDataset(this.dataset(env, first!))];
+        break;
+      case "columns":
+        if (is("GET", 3)) {
+          const columns = columnsOf(this.dataset(env, first!));
+          const keyName = params.get("key_name");
+          if (keyName === null) return [200, columns];
+          return [200, found(columns.find(c => c.key_name === keyName), `column ${keyName}`)];
+        }
+        break;
+      case "queries":
+        if (is("POST", 3)) return [200, this.createQuery(env, first!, body)];
+        if (is("GET", 4)) return [200, found(this.queries.get(second!), `query ${second}`)];
+        break;
+      case "query_results":
+        if (is("POST", 3)) return [201, this.createQueryResult(env, first!, body)];
+        if (is("GET", 4)) return [200, this.pollQueryResult(env, first!, second!)];
+        break;
+      case "boards":
+        if (is("GET", 2)) return [200, env.boards ?? []];
+        if (is("GET", 3)) return [200, found(env.boards?.find(b => b.id === first), `board ${first}`)];
+        break;
+      case "markers":
+        if (is("GET", 3)) return [200, (first === "__all__" ? env.markers : this.dataset(env, first!).markers) ?? []];
+        break;
+      case "recipients":
+        if (is("GET", 2)) return [200, env.recipients ?? []];
+        if (is("GET", 3)) return [200, found(env.recipients?.find(r => r.id === first), `recipient ${first}`)];
+        break;
+      case "slos": {
+        const slos = this.dataset(env, first!).slos ?? [];
+        if (is("GET", 3)) return [200, slos];
+        if (is("GET", 4)) return [200, found(slos.find(s => s.id === second), `SLO ${second}`)];
+        break;
+      }
+      case "triggers": {
+        const triggers = this.dataset(env, first!).triggers ?? [];
+        if (is("GET", 3)) return [200, triggers];
+        if (is("GET", 4)) return [200, found(triggers.find(t => t.id === second), `trigger ${second}`)];
+        break;
+      }
+    }
+    throw new FakeResponseError(404, "Not Found");
+  }
+
+  private auth(env: FakeEnvironment): AuthResponse {
+    return {
+      id: `fake-key-${env.name}`,
+      type: "configuration",
+      api_key_access: env.permissions ?? Object.fromEntries(
+        [...new Set(Object.values(ROUTE_PERMISSIONS))].map(permission => [permission, true])
+      ),
+      environment: { name: env.name, slug: env.slug ?? env.name },
+      team: env.team ?? { name: "Fake Team", slug: "fake-team" },
+    };
+  }
+
+  private dataset(env: FakeEnvironment, slug: string): FakeDataset {
+    if (slug === "__all__") {
+      // Environment-wide queries see the events of every dataset
+      return {
+        slug,
+        events: (env.datasets ?? []).flatMap(d => d.events ?? []),
+        columns: (env.datasets ?? []).flatMap(columnsOf),
+      };
+    }
+    return found(env.datasets?.find(d => d.slug === slug), `dataset ${slug}`);
+  }
+
+  private createQuery(env: FakeEnvironment, dataset: string, spec: AnalysisQuery): StoredQuery {
+    this.dataset(env, dataset);
+    const query = { ...spec, id: `q${this.nextId++}`, dataset };
+    this.queries.set(query.id, query);
+    return query;
+  }
+
+  private createQueryResult(env: FakeEnvironment, dataset: string, body: { query_id?: string }) {
+    this.dataset(env, dataset);
+    const query = this.queries.get(body?.query_id ?? "");
+    if (!query) {
+      throw new FakeResponseError(422, "query_id does not refer to a query");
+    }
+    const result = { id: `r${this.nextId++}`, query, polls: 0 };
+    this.queryResults.set(result.id, result);
+    return { id: result.id, complete: false };
+  }
+
+  private pollQueryResult(env: FakeEnvironment, dataset: string, id: string) {
+    const result = found(this.queryResults.get(id), `query result ${id}`);
+    result.polls++;
+    if (result.polls <= (this.options.pollsUntilComplete ?? 0)) {
+      return { id, complete: false };
+    }
+
+    const uiEndpoint = this.options.uiEndpoint ?? "https://ui.honeycomb.io";
+    const team = env.team?.slug ?? "fake-team";
+    return {
+      id,
+      complete: true,
+      data: {
+        results: runQuery(this.dataset(env, dataset).events ?? [], result.query).map(row => ({ data: row })),
+        series: [],
+      },
+      links: {
+        query_url: `${uiEndpoint}/${team}/environments/${env.slug ?? env.name}/datasets/${dataset}/result/${id}`,
+      },
+    };
+  }
+}
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: STATUS_TEXT[status] ?? "",
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function found<T>(value: T | undefined, what: string): T {
+  if (value === undefined) {
+    throw new FakeResponseError(404, `${what} not found`);
+  }
+  return value;
+}
+
+function toDataset(dataset: FakeDataset): Dataset {
+  return {
+    name: dataset.name ?? dataset.slug,
+    slug: dataset.slug,
+    description: dataset.description ?? "",
+    regular_columns_count: columnsOf(dataset).length,
+    last_written_at: null,
+    created_at: "2024-01-01T00:00:00Z",
+  };
+}
+
+/**
+ * The dataset's columns, inferred from its events unless listed in the fixture
+ */
+function columnsOf(dataset: FakeDataset): Column[] {
+  const listed = dataset.columns ?? inferColumns(dataset.events ?? []);
+  return listed.map((column, index) => ({
+    id: column.id ?? `${dataset.slug}-${index}`,
+    key_name: column.key_name,
+    type: column.type ?? "string",
+    description: column.description ?? "",
+    hidden: column.hidden ?? false,
+    ...(column.last_written ? { last_written: column.last_written } : {}),
+    created_at: column.created_at ?? "2024-01-01T00:00:00Z",
+    updated_at: column.updated_at ?? "2024-01-01T00:00:00Z",
+  }));
+}
+
+function inferColumns(events: Record<string, EventValue>[]): (Partial<Column> & { key_name: string })[] {
+  const types = new Map<string, Column["type"]>();
+  for (const event of events) {
+    for (const [key, value] of Object.entries(event)) {
+      if (value === null || value === undefined) continue;
+      const type: Column["type"] = typeof value === "number"
+        ? (Number.isInteger(value) && types.get(key) !== "float" ? "integer" : "float")
+        : typeof value === "boolean" ? "boolean" : "string";
+      types.set(key, type);
+    }
+  }
+  return [...types].map(([key_name, type]) => ({ key_name, type }));
+}
+
+function matchesFilter(event: Record<string, EventValue>, filter: QueryFilter): boolean {
+  const value = event[filter.column];
+  const target = filter.value;
+  const text = String(value ?? "");
+  switch (filter.op) {
+    case "exists": return value !== undefined && value !== null;
+    case "does-not-exist": return value === undefined || value === null;
+    case "=": return value === target;
+    case "!=": return value !== target;
+    case ">": return typeof value === "number" && value > Number(target);
+    case ">=": return typeof value === "number" && value >= Number(target);
+    case "<": return typeof value === "number" && value < Number(target);
+    case "<=": return typeof value === "number" && value <= Number(target);
+    case "starts-with": return value != null && text.startsWith(String(target));
+    case "does-not-start-with": return !text.startsWith(String(target));
+    case "ends-with": return value != null && text.endsWith(String(target));
+    case "does-not-end-with": return !text.endsWith(String(target));
+    case "contains": return value != null && text.includes(String(target));
+    case "does-not-contain": return !text.includes(String(target));
+    case "in": return Array.isArray(target) && (target as EventValue[]).includes(value ?? null);
+    case "not-in": return Array.isArray(target) && !(target as EventValue[]).includes(value ?? null);
+  }
+}
+
+function calculate(op: string, column: string | undefined, events: Record<string, EventValue>[]): number | null {
+  if (op === "COUNT" || op === "CONCURRENCY") {
+    return events.length;
+  }
+  const values = events.map(e => e[column ?? ""]).filter((v): v is EventValue => v !== undefined && v !== null);
+  if (op === "COUNT_DISTINCT") {
+    return new Set(values).size;
+  }
+  const numbers = values.filter((v): v is number => typeof v === "number").sort((a, b) => a - b);
+  if (numbers.length === 0) {
+    return null;
+  }
+  const sum = numbers.reduce((total, n) => total + n, 0);
+  switch (op) {
+    case "SUM": return sum;
+    case "AVG": return sum / numbers.length;
+    case "MIN": return numbers[0]!;
+    case "MAX": return numbers[numbers.length - 1]!;
+  }
+  const percentile = PERCENTILES[op];
+  if (percentile !== undefined) {
+    // Nearest-rank percentile
+    return numbers[Math.max(0, Math.ceil(percentile * numbers.length) - 1)]!;
+  }
+  // HEATMAP and RATE_* need time buckets, which the fake does not model
+  return null;
+}
+
+function calculationKey(op: string, column?: string): string {
+  return column ? `${op}(${column})` : op;
+}
+
+/**
+ * Run a query over events the way Honeycomb would for a single time bucket
+ */
+function runQuery(events: Record<string, EventValue>[], query: AnalysisQuery): QueryResultValue[] {
+  const filters = query.filters ?? [];
+  const matching = events.filter(event => filters.length === 0 || (query.filter_combination === "OR"
+    ? filters.some(filter => matchesFilter(event, filter))
+    : filters.every(filter => matchesFilter(event, filter))));
+
+  const breakdowns = query.breakdowns ?? [];
+  const groups = new Map<string, Record<string, EventValue>[]>();
+  for (const event of matching) {
+    const key = JSON.stringify(breakdowns.map(column => event[column] ?? null));
+    groups.set(key, [...(groups.get(key) ?? []), event]);
+  }
+
+  const calculations = query.calculations?.length ? query.calculations : [{ op: "COUNT" }];
+  let rows: QueryResultValue[] = [...groups].map(([key, groupEvents]) => {
+    const row: QueryResultValue = {};
+    (JSON.parse(key) as EventValue[]).forEach((value, index) => {
+      row[breakdowns[index]!] = value;
+    });
+    for (const { op, column } of calculations) {
+      row[calculationKey(op, column)] = calculate(op, column, groupEvents);
+    }
+    return row;
+  });
+
+  for (const having of query.havings ?? []) {
+    const key = calculationKey(having.calculate_op, having.column);
+    rows = rows.filter(row => matchesFilter(row, { column: key, op: having.op as QueryFilter["op"], value: having.value }));
+  }
+
+  const orders = query.orders?.length
+    ? query.orders
+    : [{ column: calculationKey(calculations[0]!.op, calculations[0]!.column), order: "descending" as const }];
+  rows.sort((a, b) => {
+    for (const order of orders) {
+      const key = order.op ? calculationKey(order.op, order.column) : order.column;
+      const left = a[key] ?? null;
+      const right = b[key] ?? null;
+      if (left === right) continue;
+      const ascending = left === null ? -1 : right === null ? 1 : left < right ? -1 : 1;
+      return order.order === "descending" ? -ascending : ascending;
+    }
+    return 0;
+  });
+
+  return rows.slice(0, query.limit ?? 1000);
+}
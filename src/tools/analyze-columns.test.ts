@@ -59,7 +59,8 @@ describe('analyze-columns tool', () => {
     expect(mockApi.analyzeColumns).toHaveBeenCalledWith(
       testParams.environment,
       testParams.dataset,
-      testParams
+      testParams,
+      { signal: undefined }
     );
 
     // Check response structure
@@ -9,6 +9,9 @@ import {
   NumericStatsWithInterpretation 
 } from "../types/analysis.js";
 import { QueryResultValue } from "../types/query.js";
+import { ToolExtra } from "../types/tool.js";
+import { createQueryProgressReporter } from "../utils/progress.js";
+import { formatTimeWindow, markerFinder, resolveTimeParameters, resolveTimeWindow } from "../query/time.js";
 
 const description = `Analyzes specific columns in a dataset by running statistical queries and returning computed metrics.
 This tool allows users to get statistical information about a specific column, including value distribution, top values, and numeric statistics (for numeric columns).
@@ -36,17 +39,16 @@ export function createAnalyzeColumnsTool(api: HoneycombAPI) {
      * Handles the analyze_column tool request
      * 
      * @param params - The parameters for the column analysis
+     * @param extra - MCP request context; cancels API calls and receives query progress
      * @returns A formatted response with column analysis data
      */
-    handler: async (params: z.infer<typeof ColumnAnalysisSchema>) => {
+    handler: async (params: z.infer<typeof ColumnAnalysisSchema>, extra?: ToolExtra) => {
       try {
         // Validate required parameters
         if (!params.environment) {
           throw new Error("Missing required parameter: environment");
         }
-        if (!params.dataset) {
-          throw new Error("Missing required parameter: dataset");
-        }
+        const dataset = params.dataset || api.getDefaultDataset(params.environment);
         if (!params.columns || params.columns.length === 0) {
           throw new Error("Missing required parameter: columns");
         }
@@ -54,14 +56,30 @@ export function createAnalyzeColumnsTool(api: HoneycombAPI) {
           throw new Error("Too many columns requested. Maximum is 10.");
         }
         
+        // Resolve time expressions such as "6h" or "since marker abc" to seconds
+        const time = await resolveTimeParameters(
+          { time_range: params.timeRange, start_time: params.startTime, end_time: params.endTime },
+          markerFinder(api, params.environment, dataset, { signal: extra?.signal })
+        );
+
         // Execute the analysis via the API
-        const result = await api.analyzeColumns(params.environment, params.dataset, params);
+        const result = await api.analyzeColumns(params.environment, dataset, {
+          ...params,
+          timeRange: time.time_range,
+          startTime: time.start_time,
+          endTime: time.end_time,
+        }, {
+          signal: extra?.signal,
+          onProgress: createQueryProgressReporter(extra),
+        });
         
         // Initialize the response
         const simplifiedResponse: SimplifiedColumnAnalysis = {
           columns: params.columns,
           count: result.data?.results?.length || 0,
           totalEvents: 0,  // Will be populated below if available
+          // The analysis covers the last hour unless a window was given
+          timeWindow: formatTimeWindow(resolveTimeWindow(Object.keys(time).length > 0 ? time : { time_range: 3600 })),
         };
         
         // Add top values if we have results
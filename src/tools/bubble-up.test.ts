@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createBubbleUpTool } from "./bubble-up.js";
+import { FakeHoneycomb } from "../testing/fake-honeycomb.js";
+import { HoneycombAPI } from "../api/client.js";
+import { Config } from "../config.js";
+import { initializeCache } from "../cache/index.js";
+
+const config: Config = {
+  environments: [{ name: "demo", apiKey: "demo-key" }],
+  cache: {
+    defaultTTL: 300,
+    ttl: { dataset: 900, column: 900, board: 900, slo: 900, trigger: 900, marker: 900, recipient: 900, auth: 3600 },
+    enabled: false,
+    maxSize: 1000,
+  },
+  rateLimit: { enabled: false, queries: { requestsPerMinute: 120, burst: 20 }, metadata: { requestsPerMinute: 600, burst: 50 } },
+};
+
+// Slow requests come from one region and endpoint; the status code is spread evenly
+const events = [
+  ...Array.from({ length: 8 }, (_, i) => ({ region: "eu", endpoint: "/checkout", status: i % 2 ? 200 : 500, duration_ms: 2000, "trace.trace_id": `t${i}` })),
+  ...Array.from({ length: 40 }, (_, i) => ({ region: i % 4 ? "us" : "eu", endpoint: i % 2 ? "/home" : "/search", status: i % 2 ? 200 : 500, duration_ms: 50, "trace.trace_id": `u${i}` })),
+];
+
+function parse(result: { content: { text?: string }[] }) {
+  return JSON.parse(result.content[0]!.text!);
+}
+
+describe("bubble_up tool", () => {
+  let fake: FakeHoneycomb;
+  let tool: ReturnType<typeof createBubbleUpTool>;
+
+  beforeEach(() => {
+    initializeCache(config);
+    fake = new FakeHoneycomb({ environments: [{ name: "demo", apiKey: "demo-key", datasets: [{ slug: "web", events }] }] });
+    tool = createBubbleUpTool(new HoneycombAPI(config, { fetch: fake.fetch }));
+  });
+
+  it("ranks the columns that set a filtered selection apart", async () => {
+    const report = parse(await tool.handler({
+      environment: "demo",
+      dataset: "web",
+      filters: [{ column: "duration_ms", op: ">", value: 1000 }],
+    }));
+
+    expect(report.selection.events).toBe(8);
+    expect(report.baseline.events).toBe(40);
+    expect(report.dimensions.map((d: { column: string }) => d.column)).toEqual(["endpoint", "region"]);
+    expect(report.dimensions[0]).toEqual({
+      column: "endpoint",
+      score: 100,
+      values: [{ value: "/checkout", selection_pct: 100, baseline_pct: 0 }],
+    });
+    // IDs and the selection's own column are not compared
+    expect(report.metadata.columnsCompared).toBe(3);
+  });
+
+  it("selects the groups that pass a having", async () => {
+    const report = parse(await tool.handler({
+      environment: "demo",
+      dataset: "web",
+      having: { calculate_op: "MAX", column: "duration_ms", op: ">", value: 1000 },
+      having_breakdown: "endpoint",
+      columns: ["region"],
+    }));
+
+    expect(report.selection.filters).toEqual([{ column: "endpoint", op: "in", value: ["/checkout"] }]);
+    expect(report.dimensions[0]).toMatchObject({ column: "region", values: [{ value: "eu", selection_pct: 100 }] });
+  });
+
+  it("runs every query over the same absolute window", async () => {
+    await tool.handler({
+      environment: "demo",
+      dataset: "web",
+      filters: [{ column: "duration_ms", op: ">", value: 1000 }],
+      time_range: 3600,
+    });
+
+    const bodies = fake.requests
+      .filter(request => request.method === "POST" && request.path === "/1/queries/web")
+      .map(request => request.body as Record<string, unknown>);
+    expect(bodies.length).toBeGreaterThan(2);
+    for (const body of bodies) {
+      expect(body).not.toHaveProperty("time_range");
+      expect([body.start_time, body.end_time]).toEqual([bodies[0]!.start_time, bodies[0]!.end_time]);
+    }
+    expect((bodies[0]!.end_time as number) - (bodies[0]!.start_time as number)).toBe(3600);
+  });
+
+  it("refuses a having together with filters joined by OR", async () => {
+    const result = await tool.handler({
+      environment: "demo",
+      dataset: "web",
+      filters: [{ column: "region", op: "=", value: "eu" }],
+      filter_combination: "OR",
+      having: { calculate_op: "MAX", column: "duration_ms", op: ">", value: 1000 },
+      having_breakdown: "endpoint",
+    });
+
+    expect(result.content[0]!.text).toContain("can't be combined with filters joined by OR");
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it("requires a selection", async () => {
+    const result = await tool.handler({ environment: "demo", dataset: "web" });
+
+    expect(result.content[0]!.text).toContain("needs a selection");
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it("compares the given columns across every dataset for __all__", async () => {
+    const report = parse(await tool.handler({
+      environment: "demo",
+      dataset: "__all__",
+      filters: [{ column: "duration_ms", op: ">", value: 1000 }],
+      columns: ["endpoint"],
+    }));
+
+    expect(report.dimensions[0]).toMatchObject({ column: "endpoint" });
+    expect(fake.requests.some(request => request.path.startsWith("/1/columns"))).toBe(false);
+
+    const result = await tool.handler({ environment: "demo", dataset: "__all__", filters: [{ column: "duration_ms", op: ">", value: 1000 }] });
+    expect(result.content[0]!.text).toContain("can't choose columns for an environment-wide selection");
+  });
+
+  it("compares a few columns at a time", async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const api = new HoneycombAPI(config, {
+      fetch: async (url, init) => {
+        mostInFlight = Math.max(mostInFlight, ++inFlight);
+        try {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          return await fake.fetch(url, init);
+        } finally {
+          inFlight--;
+        }
+      },
+    });
+
+    const report = parse(await createBubbleUpTool(api).handler({
+      environment: "demo",
+      dataset: "web",
+      filters: [{ column: "duration_ms", op: ">", value: 1000 }],
+      columns: ["region", "endpoint", "status", "trace.trace_id", "region", "endpoint", "status", "trace.trace_id"],
+    }));
+
+    expect(report.metadata.columnsCompared).toBe(8);
+    // Three columns at once, with a selection and a baseline query each
+    expect(mostInFlight).toBeLessThanOrEqual(6);
+  });
+
+  it("explains a selection that matches nothing", async () => {
+    const result = await tool.handler({
+      environment: "demo",
+      dataset: "web",
+      filters: [{ column: "region", op: "=", value: "ap" }],
+      columns: ["endpoint"],
+    });
+
+    expect(result.content[0]!.text).toContain("matches no events");
+  });
+});
@@ -0,0 +1,242 @@
+import { z } from "zod";
+import { HoneycombAPI } from "../api/client.js";
+import { handleToolError } from "../utils/tool-error.js";
+import { BubbleUpSchema } from "../types/schema.js";
+import { QueryFilter, QueryResultValue } from "../types/query.js";
+import { ToolExtra } from "../types/tool.js";
+import { QueryOptions } from "../types/api.js";
+import { QueryError } from "../utils/errors.js";
+import { validateQuery } from "../query/validation.js";
+import { calculationName } from "../query/timeseries.js";
+import { chooseDimensions, DimensionCounts, rankDimensions } from "../query/bubble-up.js";
+import {
+  formatTimeWindow,
+  markerFinder,
+  ResolvedTimeParameters,
+  resolveTimeParameters,
+  resolveTimeWindow,
+} from "../query/time.js";
+
+// Columns compared when the caller doesn't pick them or a budget
+const DEFAULT_MAX_COLUMNS = 20;
+
+// Values reported per column
+const MAX_VALUES = 3;
+
+// Enough groups per column that counts are rarely cut off
+const BREAKDOWN_LIMIT = 1000;
+
+// Columns compared at once, two queries each. The rest wait here rather than
+// in the rate limiter, where the wait would count against the query timeout.
+const MAX_CONCURRENT_COLUMNS = 3;
+
+/**
+ * Map items through an async function with at most `limit` calls in flight,
+ * keeping the results in the order of the items
+ */
+async function mapConcurrently<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+const description = `Finds what sets a selection of events apart, like Honeycomb's BubbleUp.
+Select events with filters (e.g. duration_ms > 1000, or error = true) or with a having over a breakdown (e.g. services whose P99(duration_ms) is over 1000). Every candidate column is then compared between the selection and all other events in the time range, and the columns whose values differ most are returned first, each with the values most over-represented in the selection.
+Each compared column costs two queries, so keep columns or max_columns small on busy environments.
+`
+
+type BubbleUpParams = z.infer<typeof BubbleUpSchema>;
+
+/**
+ * Turn a having into filters that select the events of the groups passing it
+ *
+ * @throws QueryError if no group passes the having
+ */
+async function selectByHaving(
+  api: HoneycombAPI,
+  params: BubbleUpParams & { dataset: string },
+  time: ResolvedTimeParameters,
+  options: QueryOptions
+): Promise<QueryFilter[]> {
+  const having = params.having!;
+  const breakdown = params.having_breakdown!;
+  const result = await api.runAnalysisQuery(params.environment, params.dataset, {
+    environment: params.environment,
+    dataset: params.dataset,
+    calculations: [{ op: having.calculate_op, column: having.column }],
+    breakdowns: [breakdown],
+    havings: [having],
+    limit: BREAKDOWN_LIMIT,
+    ...time,
+  }, options);
+
+  const values = (result.data?.results || [])
+    .map(row => row[breakdown])
+    .filter((value): value is string | number => typeof value === "string" || typeof value === "number");
+  if (values.length === 0) {
+    throw new QueryError(
+      `No ${breakdown} group has ${calculationName({ op: having.calculate_op, column: having.column })} ${having.op} ${having.value}`,
+      ["Loosen the having threshold", "Widen the time range"]
+    );
+  }
+  return [{ column: breakdown, op: "in", value: values as string[] | number[] }];
+}
+
+/**
+ * Creates a tool that compares a selection of events against the rest
+ * across columns, ranking the columns that best explain the selection
+ *
+ * @param api - The Honeycomb API client
+ * @returns A configured tool object with name, schema, and handler
+ */
+export function createBubbleUpTool(api: HoneycombAPI) {
+  return {
+    name: "bubble_up",
+    description,
+    schema: BubbleUpSchema.shape,
+    /**
+     * Handles the bubble_up tool request
+     *
+     * @param params - The selection, time range and columns to compare
+     * @param extra - MCP request context; its signal cancels in-flight API calls
+     * @returns A ranked report of the columns and values that set the selection apart
+     */
+    handler: async (params: BubbleUpParams, extra?: ToolExtra) => {
+      try {
+        if (!params.filters?.length && !params.having) {
+          throw new QueryError("bubble_up needs a selection: filters or a having", [
+            "Add filters such as [{\"column\": \"duration_ms\", \"op\": \">\", \"value\": 1000}]",
+            "Or add a having together with having_breakdown",
+          ]);
+        }
+        if (params.having && !params.having_breakdown) {
+          throw new QueryError("A having selection needs having_breakdown", [
+            "Set having_breakdown to the column whose groups the having is checked against, e.g. \"service.name\"",
+          ]);
+        }
+        // A having's groups are ANDed with the filters, which would change what OR meant
+        if (params.having && params.filters?.length && params.filter_combination === "OR") {
+          throw new QueryError("A having selection can't be combined with filters joined by OR", [
+            "Join the filters with AND",
+            "Or select with either the filters or the having",
+          ]);
+        }
+
+        const dataset = params.dataset || api.getDefaultDataset(params.environment);
+        // The columns API doesn't accept __all__, so there are no columns to choose from
+        if (dataset === "__all__" && !params.columns) {
+          throw new QueryError("bubble_up can't choose columns for an environment-wide selection", [
+            "List the columns to compare, e.g. \"columns\": [\"service.name\", \"http.route\"]",
+            "Or pick a dataset instead of __all__",
+          ]);
+        }
+        const options: QueryOptions = { signal: extra?.signal };
+        const resolved = await resolveTimeParameters(
+          { time_range: params.time_range, start_time: params.start_time, end_time: params.end_time },
+          markerFinder(api, params.environment, dataset, options)
+        );
+        validateQuery({ environment: params.environment, dataset, calculations: [{ op: "COUNT" }], ...resolved });
+        // Every query covers the same absolute window, or the baseline would mix data from different moments
+        const window = resolveTimeWindow(resolved);
+        const time: ResolvedTimeParameters = { start_time: window.start, end_time: window.end };
+
+        const filters = [
+          ...(params.filters ?? []),
+          ...(params.having ? await selectByHaving(api, { ...params, dataset }, time, options) : []),
+        ];
+        // A having's groups are ANDed with any filters
+        const filterCombination = params.having ? "AND" : params.filter_combination;
+
+        const columns = params.columns ?? chooseDimensions(
+          await api.getVisibleColumns(params.environment, dataset, options),
+          filters.map(filter => filter.column),
+          params.max_columns ?? DEFAULT_MAX_COLUMNS
+        );
+
+        const count = async (breakdowns: string[], selected: boolean): Promise<QueryResultValue[]> => {
+          const result = await api.runAnalysisQuery(params.environment, dataset, {
+            environment: params.environment,
+            dataset,
+            calculations: [{ op: "COUNT" }],
+            breakdowns: breakdowns.length > 0 ? breakdowns : undefined,
+            filters: selected ? filters : undefined,
+            filter_combination: selected ? filterCombination : undefined,
+            limit: BREAKDOWN_LIMIT,
+            ...time,
+          }, options);
+          return result.data?.results || [];
+        };
+        const total = (rows: QueryResultValue[]) => (typeof rows[0]?.COUNT === "number" ? rows[0].COUNT : 0);
+
+        // Transient API failures are already retried by the client's retry policy
+        const [selectionTotal, allTotal] = await Promise.all([count([], true).then(total), count([], false).then(total)]);
+
+        if (selectionTotal === 0) {
+          throw new QueryError("The selection matches no events in the time range", [
+            "Check the filter values against the column's actual values",
+            "Widen the time range",
+          ]);
+        }
+        if (selectionTotal >= allTotal) {
+          throw new QueryError("The selection matches every event, so there is nothing to compare it against", [
+            "Narrow the selection filters",
+          ]);
+        }
+
+        const dimensions = await mapConcurrently(
+          columns,
+          MAX_CONCURRENT_COLUMNS,
+          async (column): Promise<DimensionCounts | { column: string; error: string }> => {
+            try {
+              const [selection, all] = await Promise.all([count([column], true), count([column], false)]);
+              return { column, selection, all };
+            } catch (error) {
+              return { column, error: error instanceof Error ? error.message : String(error) };
+            }
+          }
+        );
+
+        const compared = dimensions.filter((d): d is DimensionCounts => !("error" in d));
+        const skipped = dimensions.filter((d): d is { column: string; error: string } => "error" in d);
+        const response = {
+          selection: {
+            filters,
+            ...(filterCombination ? { filter_combination: filterCombination } : {}),
+            events: selectionTotal,
+          },
+          baseline: { events: allTotal - selectionTotal },
+          dimensions: rankDimensions(compared, { selection: selectionTotal, all: allTotal }, MAX_VALUES),
+          ...(skipped.length > 0 ? { skipped_columns: skipped } : {}),
+          metadata: {
+            environment: params.environment,
+            dataset,
+            executedAt: new Date().toISOString(),
+            columnsCompared: compared.length,
+            timeWindow: formatTimeWindow(window),
+          },
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(response, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error, "bubble_up", {
+          environment: params.environment,
+          dataset: params.dataset,
+        });
+      }
+    },
+  };
+}
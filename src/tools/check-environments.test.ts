@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createCheckEnvironmentsTool } from "./check-environments.js";
+import { HoneycombAPI } from "../api/client.js";
+import { Config } from "../config.js";
+import { initializeCache } from "../cache/index.js";
+
+// Mock fetch globally
+const fetchMock = vi.fn();
+global.fetch = fetchMock as unknown as typeof fetch;
+
+describe("check_environments tool", () => {
+  const config: Config = {
+    environments: [
+      { name: "prod", apiKey: "prod-key", apiEndpoint: "https://api.honeycomb.io" },
+      {
+        name: "dev",
+        apiKey: "dev-key",
+        apiEndpoint: "https://api.eu1.honeycomb.io",
+        authError: "Auth failed for environment dev: Unauthorized",
+      },
+    ],
+    cache: {
+      defaultTTL: 300,
+      ttl: {
+        dataset: 900,
+        column: 900,
+        board: 900,
+        slo: 900,
+        trigger: 900,
+        marker: 900,
+        recipient: 900,
+        auth: 3600
+      },
+      enabled: true,
+      maxSize: 1000
+    }
+  };
+
+  let api: HoneycombAPI;
+
+  beforeEach(() => {
+    initializeCache(config);
+    api = new HoneycombAPI(structuredClone(config));
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: string) => {
+      if (url.startsWith("https://api.eu1.honeycomb.io")) {
+        return Promise.resolve({
+          ok: false,
+          status: 401,
+          statusText: "Unauthorized",
+          json: () => Promise.resolve({ error: "unknown API key" }),
+          headers: new Headers({})
+        });
+      }
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        json: () => Promise.resolve({
+          id: "key-id",
+          type: "configuration",
+          api_key_access: { queries: true, boards: false },
+          environment: { name: "Production", slug: "production" },
+          team: { name: "Team", slug: "team" },
+        }),
+        headers: new Headers({})
+      });
+    });
+  });
+
+  it("reports auth results, team details, permissions, and the cache", async () => {
+    const tool = createCheckEnvironmentsTool(api);
+    const result = await tool.handler({});
+    const report = JSON.parse(result.content[0]!.text);
+
+    expect(report.ok).toBe(false);
+    expect(report.environments[0]).toMatchObject({
+      name: "prod",
+      ok: true,
+      apiEndpoint: "https://api.honeycomb.io",
+      uiEndpoint: "https://ui.honeycomb.io",
+      teamSlug: "team",
+      environmentSlug: "production",
+      permissions: { queries: true, boards: false },
+    });
+    expect(report.environments[0].latencyMs).toBeGreaterThanOrEqual(0);
+    expect(report.environments[1]).toMatchObject({
+      name: "dev",
+      ok: false,
+      apiEndpoint: "https://api.eu1.honeycomb.io",
+      startupError: "Auth failed for environment dev: Unauthorized",
+    });
+    expect(report.environments[1].error).toMatch(/unknown API key/);
+    expect(report.environments[1].lastError.message).toBe(report.environments[1].error);
+    expect(report.cache).toMatchObject({ enabled: true, maxSize: 1000 });
+    expect(report.cache.resources.auth).toMatchObject({ ttl: 3600, keys: 1 });
+  });
+
+  it("checks a single environment", async () => {
+    const tool = createCheckEnvironmentsTool(api);
+    const result = await tool.handler({ environment: "prod" });
+    const report = JSON.parse(result.content[0]!.text);
+
+    expect(report.ok).toBe(true);
+    expect(report.environments.map((env: { name: string }) => env.name)).toEqual(["prod"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the last failed request to an environment", async () => {
+    fetchMock.mockImplementationOnce(() => Promise.reject(new Error("socket hang up")));
+    await expect(api.listDatasets("prod")).rejects.toThrow("socket hang up");
+
+    const tool = createCheckEnvironmentsTool(api);
+    const report = JSON.parse((await tool.handler({ environment: "prod" })).content[0]!.text);
+
+    expect(report.environments[0].ok).toBe(true);
+    expect(report.environments[0].lastError.message).toBe("socket hang up");
+  });
+
+  it("returns an error for unknown environments", async () => {
+    const tool = createCheckEnvironmentsTool(api);
+    const result = await tool.handler({ environment: "missing" });
+
+    expect(result.content[0]!.text).toContain('Unknown environment: "missing"');
+  });
+});
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { HoneycombAPI } from "../api/client.js";
+import { handleToolError } from "../utils/tool-error.js";
+import { CheckEnvironmentsSchema } from "../types/schema.js";
+import { runDiagnostics } from "../utils/diagnostics.js";
+import { ToolExtra } from "../types/tool.js";
+
+/**
+ * Tool to check the health of the configured Honeycomb environments. This tool authenticates against each environment and reports the result together with the team, permissions, endpoint, latency, recent errors, and the cache state.
+ * 
+ * @param api - The Honeycomb API client
+ * @returns An MCP tool object with name, schema, and handler function
+ */
+export function createCheckEnvironmentsTool(api: HoneycombAPI) {
+  return {
+    name: "check_environments",
+    description: "Checks that each configured Honeycomb environment is reachable and its API key is valid. Reports per environment whether authentication succeeded, the team and environment slugs, the API key permissions, the API endpoint, request latency, and the last error, along with the cache state. Use this to troubleshoot failing tool calls.",
+    schema: CheckEnvironmentsSchema.shape,
+    /**
+     * Handler for the check_environments tool
+     * 
+     * @param params - The parameters for the tool
+     * @param params.environment - Optional single environment to check
+     * @param extra - MCP request context; its signal cancels in-flight API calls
+     * @returns A health report for the environments and the cache
+     */
+    handler: async (params: z.infer<typeof CheckEnvironmentsSchema>, extra?: ToolExtra) => {
+      try {
+        const report = await runDiagnostics(api, params.environment ? [params.environment] : undefined, { signal: extra?.signal });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+          metadata: {
+            ok: report.ok,
+            environments: report.environments.length,
+          },
+        };
+      } catch (error) {
+        return handleToolError(error, "check_environments");
+      }
+    }
+  };
+}
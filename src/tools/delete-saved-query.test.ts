@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createDeleteSavedQueryTool } from "./delete-saved-query.js";
+import { SavedQueryStore } from "../query/saved-queries.js";
+
+// An unrestricted client, and one limited to the prod environment
+const everyEnvironment = { isScoped: () => false, hasEnvironment: () => true } as any;
+const prodOnly = { isScoped: () => true, hasEnvironment: (environment: string) => environment === "prod" } as any;
+
+describe("delete_saved_query tool", () => {
+  let dir: string;
+  let store: SavedQueryStore;
+  let tool: ReturnType<typeof createDeleteSavedQueryTool>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-queries-"));
+    store = new SavedQueryStore(join(dir, "queries.yaml"));
+    tool = createDeleteSavedQueryTool(everyEnvironment, store);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("deletes a saved query", async () => {
+    await store.save("errors", { query: { environment: "prod" } });
+    await store.save("latency", { query: { environment: "prod" } });
+
+    const result = await tool.handler({ name: "errors" });
+
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({ deleted: "errors" });
+    expect(Object.keys(await store.list())).toEqual(["latency"]);
+  });
+
+  it("won't delete queries outside a scoped client's environments", async () => {
+    await store.save("dev-errors", { query: { environment: "dev" } });
+
+    const result = await createDeleteSavedQueryTool(prodOnly, store).handler({ name: "dev-errors" });
+
+    expect(result.content[0]!.text).toMatch(/No saved query named 'dev-errors'/);
+    expect(Object.keys(await store.list())).toEqual(["dev-errors"]);
+  });
+
+  it("suggests similar names for a query that isn't saved", async () => {
+    await store.save("errors", { query: { environment: "prod" } });
+
+    const result = await tool.handler({ name: "error" });
+
+    expect(result.content[0]!.text).toMatch(/No saved query named 'error'/);
+    expect(result.content[0]!.text).toMatch(/Did you mean 'errors'\?/);
+  });
+});
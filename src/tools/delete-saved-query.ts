@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { HoneycombAPI } from "../api/client.js";
+import { handleToolError } from "../utils/tool-error.js";
+import { DeleteSavedQuerySchema } from "../types/schema.js";
+import { savedQueryScope, SavedQueryStore } from "../query/saved-queries.js";
+
+/**
+ * Tool to delete a saved query. This tool removes the named query from the saved queries file.
+ *
+ * @param api - The Honeycomb API client, whose environment scope decides the queries that may be deleted
+ * @param savedQueries - The saved query store
+ * @returns An MCP tool object with name, schema, and handler function
+ */
+export function createDeleteSavedQueryTool(api: HoneycombAPI, savedQueries: SavedQueryStore) {
+  return {
+    name: "delete_saved_query",
+    description: "Deletes a saved query by name from the saved queries file.",
+    schema: DeleteSavedQuerySchema.shape,
+    /**
+     * Handler for the delete_saved_query tool
+     *
+     * @param params - The parameters for the tool
+     * @param params.name - The name of the saved query to delete
+     * @returns The name of the deleted query
+     */
+    handler: async (params: z.infer<typeof DeleteSavedQuerySchema>) => {
+      try {
+        await savedQueries.delete(params.name, savedQueryScope(api));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ deleted: params.name, file: savedQueries.path }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error, "delete_saved_query");
+      }
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createExplainQueryTool } from "./explain-query.js";
+import { FakeHoneycomb } from "../testing/fake-honeycomb.js";
+import { HoneycombAPI } from "../api/client.js";
+import { Config } from "../config.js";
+import { initializeCache } from "../cache/index.js";
+
+const config: Config = {
+  environments: [{ name: "demo", apiKey: "demo-key" }],
+  cache: {
+    defaultTTL: 300,
+    ttl: { dataset: 900, column: 900, board: 900, slo: 900, trigger: 900, marker: 900, recipient: 900, auth: 3600 },
+    enabled: false,
+    maxSize: 1000,
+  },
+  rateLimit: { enabled: false, queries: { requestsPerMinute: 120, burst: 20 }, metadata: { requestsPerMinute: 600, burst: 50 } },
+};
+
+const columns = [
+  { key_name: "service.name", type: "string" as const },
+  { key_name: "error", type: "boolean" as const },
+  { key_name: "duration_ms", type: "float" as const },
+];
+
+function parse(result: { content: { text?: string }[] }) {
+  return JSON.parse(result.content[0]!.text!);
+}
+
+describe("explain_query tool", () => {
+  let fake: FakeHoneycomb;
+  let tool: ReturnType<typeof createExplainQueryTool>;
+
+  beforeEach(() => {
+    initializeCache(config);
+    fake = new FakeHoneycomb({
+      environments: [{ name: "demo", apiKey: "demo-key", team: { name: "Demo", slug: "demo-team" }, datasets: [{ slug: "web", columns }] }],
+    });
+    tool = createExplainQueryTool(new HoneycombAPI(config, { fetch: fake.fetch }));
+  });
+
+  it("shows the request run_query would send without running it", async () => {
+    const explained = parse(await tool.handler({
+      environment: "demo",
+      dataset: "web",
+      breakdowns: ["error"],
+      start_time: "2025-01-01T00:00:00Z",
+      end_time: "2025-01-01T01:00:00Z",
+    }));
+
+    const body = {
+      calculations: [{ op: "COUNT" }],
+      breakdowns: ["error"],
+      start_time: 1735689600,
+      end_time: 1735693200,
+      limit: 100,
+    };
+    expect(explained.request).toEqual({ method: "POST", path: "/1/queries/web", body });
+    expect(explained.cardinality).toMatchObject({ max_rows: 3, may_hit_limit: false });
+    const url = new URL(explained.query_url);
+    expect(`${url.origin}${url.pathname}`).toBe("https://ui.honeycomb.io/demo-team/environments/demo/datasets/web");
+    expect(JSON.parse(url.searchParams.get("query")!)).toEqual(body);
+    expect(explained.metadata.timeWindow).toEqual({ start: "2025-01-01T00:00:00.000Z", end: "2025-01-01T01:00:00.000Z" });
+    expect(fake.requests.some(request => request.path.startsWith("/1/quer"))).toBe(false);
+  });
+
+  it("reports the problems run_query would reject the query for", async () => {
+    const result = await tool.handler({
+      environment: "demo",
+      dataset: "web",
+      calculations: [{ op: "P99", column: "duraton_ms" }],
+    });
+
+    expect(result.content[0]!.text).toContain("Unknown column 'duraton_ms'");
+    expect(result.content[0]!.text).toContain("Did you mean 'duration_ms'?");
+  });
+
+  it("explains environment-wide queries without fetching columns", async () => {
+    const explained = parse(await tool.handler({
+      environment: "demo",
+      dataset: "__all__",
+      breakdowns: ["error"],
+      time_range: 3600,
+    }));
+
+    expect(explained.request.path).toBe("/1/queries/__all__");
+    expect(explained.cardinality).toMatchObject({ max_rows: 100, may_hit_limit: true });
+    expect(explained.cardinality.breakdowns[0].note).toMatch(/isn't available for this query/);
+    expect(fake.requests.some(request => request.path.startsWith("/1/columns"))).toBe(false);
+  });
+
+  it("explains queries for keys without the columns permission", async () => {
+    const api = new HoneycombAPI(
+      { ...config, environments: [{ name: "demo", apiKey: "demo-key", permissions: { queries: true, columns: false } }] },
+      { fetch: fake.fetch }
+    );
+
+    const explained = parse(await createExplainQueryTool(api).handler({
+      environment: "demo",
+      dataset: "web",
+      breakdowns: ["made_up"],
+      time_range: 3600,
+    }));
+
+    expect(explained.request.body.breakdowns).toEqual(["made_up"]);
+    expect(explained.cardinality.breakdowns[0].note).toMatch(/isn't available for this query/);
+    expect(fake.requests.some(request => request.path.startsWith("/1/columns"))).toBe(false);
+  });
+});
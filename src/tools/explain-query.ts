@@ -0,0 +1,78 @@
+import { HoneycombAPI } from "../api/client.js";
+import { handleToolError } from "../utils/tool-error.js";
+import { ToolExtra } from "../types/tool.js";
+import { buildQueryBody } from "../query/request.js";
+import { estimateCardinality } from "../query/cardinality.js";
+import { formatTimeWindow, resolveTimeWindow } from "../query/time.js";
+import { columnsForChecks, prepareQuery, runQuerySchema } from "./run-query.js";
+
+// run_query parameters that shape its response rather than the query
+const { output: _, max_points: __, compare_to: ___, ...schema } = runQuerySchema;
+
+/**
+ * Creates a tool that checks a query and shows what run_query would send,
+ * without running it
+ *
+ * @param api - The Honeycomb API client
+ * @returns A configured tool object with name, schema, and handler
+ */
+export function createExplainQueryTool(api: HoneycombAPI) {
+  return {
+    name: "explain_query",
+    description: `Checks a query without running it, taking the same parameters as run_query. Use it before an expensive or unfamiliar query to avoid spending API budget on one that fails.
+Returns the exact JSON body run_query would send to /1/queries/{dataset}, with defaults filled in and times resolved, an estimate of how many rows it returns based on the dataset's columns, and a link that opens the query in the Honeycomb UI. Invalid queries fail with the same errors and suggestions as run_query.
+`,
+    schema,
+    /**
+     * Handles the explain_query tool request
+     *
+     * @param params - The parameters for the query, as for run_query
+     * @param extra - MCP request context; its signal cancels in-flight API calls
+     * @returns The query body, estimated result size and UI link
+     */
+    handler: async (params: any, extra?: ToolExtra) => {
+      try {
+        await prepareQuery(api, params, extra);
+
+        const { output: _output, max_points: _maxPoints, compare_to: _compareTo, validate_columns: _validate, ...query } = params;
+        const body = buildQueryBody(query);
+        const options = { signal: extra?.signal };
+        // Columns and the team slug are cached, so explaining costs no queries.
+        // Estimates go without columns when they can't be fetched, as for __all__.
+        const [columns, queryUrl] = await Promise.all([
+          columnsForChecks(api, params.environment, params.dataset, extra?.signal),
+          api.getQueryTemplateUrl(params.environment, params.dataset, body, options),
+        ]);
+
+        const response = {
+          request: {
+            method: "POST",
+            path: `/1/queries/${params.dataset}`,
+            body,
+          },
+          cardinality: estimateCardinality(body, columns),
+          query_url: queryUrl,
+          metadata: {
+            environment: params.environment,
+            dataset: params.dataset,
+            timeWindow: formatTimeWindow(resolveTimeWindow(body)),
+          },
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(response, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error, "explain_query", {
+          environment: params.environment,
+          dataset: params.dataset,
+        });
+      }
+    },
+  };
+}
@@ -48,7 +48,7 @@ describe("get-board tool", () => {
       boardId: "board-1" 
     });
 
-    expect(api.getBoard).toHaveBeenCalledWith("test-env", "board-1");
+    expect(api.getBoard).toHaveBeenCalledWith("test-env", "board-1", { signal: undefined });
     
     // Type assertion to tell TypeScript this is a success result with metadata
     const successResult = result as { 
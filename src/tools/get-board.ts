@@ -2,6 +2,7 @@ import { z } from "zod";
 import { HoneycombAPI } from "../api/client.js";
 import { handleToolError } from "../utils/tool-error.js";
 import { GetBoardSchema } from "../types/schema.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Tool to get a specific board (dashboard) from a Honeycomb environment. This tool returns a detailed object containing the board's ID, name, description, creation time, and last update time.
@@ -20,9 +21,10 @@ export function createGetBoardTool(api: HoneycombAPI) {
      * @param params - The parameters for the tool
      * @param params.environment - The Honeycomb environment
      * @param params.boardId - The ID of the board to retrieve
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns Board details
      */
-    handler: async ({ environment, boardId }: z.infer<typeof GetBoardSchema>) => {
+    handler: async ({ environment, boardId }: z.infer<typeof GetBoardSchema>, extra?: ToolExtra) => {
       // Validate input parameters
       if (!environment) {
         return handleToolError(new Error("environment parameter is required"), "get_board");
@@ -34,7 +36,7 @@ export function createGetBoardTool(api: HoneycombAPI) {
 
       try {
         // Fetch board from the API
-        const board = await api.getBoard(environment, boardId);
+        const board = await api.getBoard(environment, boardId, { signal: extra?.signal });
         
         return {
           content: [
@@ -55,7 +55,8 @@ describe('get-slo tool', () => {
     expect(mockApi.getSLO).toHaveBeenCalledWith(
       testParams.environment,
       testParams.dataset,
-      testParams.sloId
+      testParams.sloId,
+      { signal: undefined }
     );
 
     // Check response structure
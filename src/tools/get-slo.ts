@@ -1,21 +1,22 @@
 import { z } from "zod";
 import { HoneycombAPI } from "../api/client.js";
 import { handleToolError } from "../utils/tool-error.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Interface for simplified SLO data returned by the get_slo tool
  */
 interface SimplifiedSLODetails {
-  id: string;
+  id?: string;
   name: string;
   description: string;
   time_period_days: number;
   target_per_million: number;
-  compliance: number;
-  budget_remaining: number;
+  compliance?: number;
+  budget_remaining?: number;
   sli: string | undefined;
-  created_at: string;
-  updated_at: string;
+  created_at?: string;
+  updated_at?: string;
 }
 
 /**
@@ -40,9 +41,10 @@ export function createGetSLOTool(api: HoneycombAPI) {
      * @param params.environment - The Honeycomb environment
      * @param params.dataset - The dataset containing the SLO
      * @param params.sloId - The ID of the SLO to retrieve
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns Detailed information about the specified SLO
      */
-    handler: async ({ environment, dataset, sloId }: { environment: string; dataset: string; sloId: string }) => {
+    handler: async ({ environment, dataset, sloId }: { environment: string; dataset: string; sloId: string }, extra?: ToolExtra) => {
       // Validate input parameters
       if (!environment) {
         return handleToolError(new Error("environment parameter is required"), "get_slo");
@@ -56,7 +58,7 @@ export function createGetSLOTool(api: HoneycombAPI) {
 
       try {
         // Fetch SLO details from the API
-        const slo = await api.getSLO(environment, dataset, sloId);
+        const slo = await api.getSLO(environment, dataset, sloId, { signal: extra?.signal });
         
         // Simplify the response to reduce context window usage
         const simplifiedSLO: SimplifiedSLODetails = {
@@ -17,6 +17,7 @@ describe("createTraceDeepLinkTool", () => {
     getVisibleColumns: vi.fn(),
     getColumnByName: vi.fn(),
     getTeamSlug: vi.fn().mockResolvedValue("test-team"), // Mock team slug retrieval
+    getUiEndpoint: vi.fn().mockReturnValue("https://ui.honeycomb.io"),
     getAuthInfo: vi.fn().mockResolvedValue({
       team: { slug: "test-team", name: "Test Team" }
     }),
@@ -43,7 +44,7 @@ describe("createTraceDeepLinkTool", () => {
       expect(parsed).toHaveProperty("dataset", "test-dataset");
       expect(parsed).toHaveProperty("traceId", "abc123");
       expect(parsed).toHaveProperty("team", "test-team");
-      expect(mockApi.getTeamSlug).toHaveBeenCalledWith("test-env");
+      expect(mockApi.getTeamSlug).toHaveBeenCalledWith("test-env", { signal: undefined });
     } else {
       throw new Error("Expected result to have content[0].text");
     }
@@ -100,6 +101,24 @@ describe("createTraceDeepLinkTool", () => {
     }
   });
 
+  it("should use the environment's regional UI endpoint", async () => {
+    mockApi.getUiEndpoint.mockReturnValueOnce("https://ui.eu1.honeycomb.io");
+    const tool = createTraceDeepLinkTool(mockApi as any);
+    const result = await tool.handler({
+      environment: "eu-env",
+      dataset: "test-dataset",
+      traceId: "abc123",
+    });
+
+    if (result.content && result.content[0] && result.content[0].text) {
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.url).toBe("https://ui.eu1.honeycomb.io/test-team/environments/eu-env/datasets/test-dataset/trace?trace_id=abc123");
+      expect(mockApi.getUiEndpoint).toHaveBeenCalledWith("eu-env");
+    } else {
+      throw new Error("Expected result to have content[0].text");
+    }
+  });
+
   it("should handle error when required parameters are missing", async () => {
     const tool = createTraceDeepLinkTool(mockApi as any);
     
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { HoneycombAPI } from "../api/client.js";
 import { handleToolError } from "../utils/tool-error.js";
 import { TraceDeepLinkSchema } from "../types/schema.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Tool to generate a deep link to a specific trace in the Honeycomb UI. This tool returns a URL that can be used to directly access a trace, optionally highlighting a specific span and limiting the time range.
@@ -25,9 +26,10 @@ export function createTraceDeepLinkTool(api: HoneycombAPI) {
      * Handler for the get_trace_link tool
      * 
      * @param params - The parameters for the tool
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns A URL for direct access to the trace in the Honeycomb UI
      */
-    handler: async (params: z.infer<typeof TraceDeepLinkSchema>) => {
+    handler: async (params: z.infer<typeof TraceDeepLinkSchema>, extra?: ToolExtra) => {
       try {
         // Validate required parameters
         if (!params.environment) {
@@ -41,10 +43,11 @@ export function createTraceDeepLinkTool(api: HoneycombAPI) {
         }
 
         // Get the team slug for the environment
-        const teamSlug = await api.getTeamSlug(params.environment);
+        const teamSlug = await api.getTeamSlug(params.environment, { signal: extra?.signal });
         
-        // Start building the trace URL
-        let traceUrl = `https://ui.honeycomb.io/${teamSlug}/environments/${params.environment}/trace?trace_id=${encodeURIComponent(params.traceId)}`;
+        // Start building the trace URL on the environment's regional UI
+        const uiEndpoint = api.getUiEndpoint(params.environment);
+        let traceUrl = `${uiEndpoint}/${teamSlug}/environments/${params.environment}/trace?trace_id=${encodeURIComponent(params.traceId)}`;
         
         // Add optional parameters if provided
         if (params.spanId) {
@@ -71,7 +71,8 @@ describe('get-trigger tool', () => {
     expect(mockApi.getTrigger).toHaveBeenCalledWith(
       testParams.environment,
       testParams.dataset,
-      testParams.triggerId
+      testParams.triggerId,
+      { signal: undefined }
     );
 
     // Check response structure
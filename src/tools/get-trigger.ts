@@ -1,12 +1,13 @@
 import { z } from "zod";
 import { HoneycombAPI } from "../api/client.js";
 import { handleToolError } from "../utils/tool-error.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Interface for simplified recipient data in a trigger
  */
 interface SimplifiedRecipient {
-  type: string;
+  type?: string;
   target?: string;
 }
 
@@ -14,21 +15,21 @@ interface SimplifiedRecipient {
  * Interface for simplified trigger data returned by the get_trigger tool
  */
 interface SimplifiedTriggerDetails {
-  id: string;
-  name: string;
+  id?: string;
+  name?: string;
   description: string;
-  threshold: {
+  threshold?: {
     op: string;
     value: number;
   };
-  frequency: number;
+  frequency?: number;
   alert_type?: string;
-  triggered: boolean;
-  disabled: boolean;
+  triggered?: boolean;
+  disabled?: boolean;
   recipients: SimplifiedRecipient[];
   evaluation_schedule_type?: string;
-  created_at: string;
-  updated_at: string;
+  created_at?: string;
+  updated_at?: string;
 }
 
 /**
@@ -53,9 +54,10 @@ export function createGetTriggerTool(api: HoneycombAPI) {
      * @param params.environment - The Honeycomb environment
      * @param params.dataset - The dataset containing the trigger
      * @param params.triggerId - The ID of the trigger to retrieve
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns Detailed information about the specified trigger
      */
-    handler: async ({ environment, dataset, triggerId }: { environment: string; dataset: string; triggerId: string }) => {
+    handler: async ({ environment, dataset, triggerId }: { environment: string; dataset: string; triggerId: string }, extra?: ToolExtra) => {
       // Validate input parameters
       if (!environment) {
         return handleToolError(new Error("environment parameter is required"), "get_trigger");
@@ -69,14 +71,14 @@ export function createGetTriggerTool(api: HoneycombAPI) {
 
       try {
         // Fetch trigger details from the API
-        const trigger = await api.getTrigger(environment, dataset, triggerId);
+        const trigger = await api.getTrigger(environment, dataset, triggerId, { signal: extra?.signal });
         
         // Simplify the response to reduce context window usage
         const simplifiedTrigger: SimplifiedTriggerDetails = {
           id: trigger.id,
           name: trigger.name,
           description: trigger.description || '',
-          threshold: {
+          threshold: trigger.threshold && {
             op: trigger.threshold.op,
             value: trigger.threshold.value,
           },
@@ -84,7 +86,7 @@ export function createGetTriggerTool(api: HoneycombAPI) {
           alert_type: trigger.alert_type,
           triggered: trigger.triggered,
           disabled: trigger.disabled,
-          recipients: trigger.recipients.map(r => ({
+          recipients: (trigger.recipients ?? []).map(r => ({
             type: r.type,
             target: r.target,
           })),
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { registerTools } from "./index.js";
+import { HoneycombAPI } from "../api/client.js";
+import { Config } from "../config.js";
+import { initializeCache } from "../cache/index.js";
+import { RetryConfigSchema } from "../api/retry.js";
+import { SavedQueryStore } from "../query/saved-queries.js";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Mock fetch globally
+const fetchMock = vi.fn();
+global.fetch = fetchMock as unknown as typeof fetch;
+
+const retryPolicy = RetryConfigSchema.parse({});
+
+type ToolCallback = (args: Record<string, any>, extra: unknown) => Promise<any>;
+
+describe("registerTools", () => {
+  const config: Config = {
+    environments: [
+      {
+        name: "prod",
+        apiKey: "prod-key",
+        permissions: { queries: true, columns: true, boards: false, slos: false, triggers: true },
+      },
+      {
+        name: "dev",
+        apiKey: "dev-key",
+        permissions: { queries: false, columns: true, boards: false, slos: true, triggers: true },
+      },
+    ],
+    cache: {
+      defaultTTL: 300,
+      ttl: {
+        dataset: 900,
+        column: 900,
+        board: 900,
+        slo: 900,
+        trigger: 900,
+        marker: 900,
+        recipient: 900,
+        auth: 3600
+      },
+      enabled: true,
+      maxSize: 1000
+    }
+  };
+
+  let tools: Map<string, { description: string; enabled: boolean; callback: ToolCallback }>;
+  const mockServer = {
+    tool: vi.fn((name: string, description: string, _schema: unknown, callback: ToolCallback) => {
+      const handle = { description, enabled: true, callback };
+      tools.set(name, handle);
+      return handle;
+    }),
+    sendToolListChanged: vi.fn(),
+  };
+
+  beforeEach(() => {
+    initializeCache(config);
+    tools = new Map();
+    fetchMock.mockReset();
+  });
+
+  it("hides tools that no environment's API key can use", () => {
+    registerTools(mockServer as any, new HoneycombAPI(config));
+
+    expect(tools.get("list_boards")?.enabled).toBe(false);
+    expect(tools.get("get_board")?.enabled).toBe(false);
+    expect(tools.get("list_triggers")?.enabled).toBe(true);
+    expect(tools.get("list_datasets")?.enabled).toBe(true);
+  });
+
+  it("marks tools that only some environments can use", () => {
+    registerTools(mockServer as any, new HoneycombAPI(config));
+
+    expect(tools.get("run_query")?.description).toContain(
+      'Not available in these environments, whose API keys lack the "queries" permission: dev.'
+    );
+    expect(tools.get("list_slos")?.description).toContain('lack the "slos" permission: prod.');
+    expect(tools.get("list_columns")?.description).not.toContain("Not available");
+  });
+
+  it("only considers the environments a scoped client can see", () => {
+    registerTools(mockServer as any, new HoneycombAPI(config).withEnvironmentScope(["dev"]));
+
+    expect(tools.get("run_query")?.enabled).toBe(false);
+    expect(tools.get("list_slos")?.description).not.toContain("Not available");
+  });
+
+  it("rechecks permissions when the configuration is reloaded", () => {
+    const api = new HoneycombAPI(config);
+    const stop = registerTools(mockServer as any, api);
+    mockServer.sendToolListChanged.mockClear();
+
+    api.reloadConfig({
+      ...config,
+      environments: [
+        { ...config.environments[0]!, permissions: { ...config.environments[0]!.permissions, boards: true, queries: false } },
+        config.environments[1]!,
+      ],
+    });
+
+    expect(tools.get("list_boards")?.enabled).toBe(true);
+    expect(tools.get("list_boards")?.description).toContain('lack the "boards" permission: dev.');
+    expect(tools.get("run_query")?.enabled).toBe(false);
+    expect(mockServer.sendToolListChanged).toHaveBeenCalledTimes(1);
+
+    // Once stopped, later reloads leave the tools alone
+    stop();
+    api.reloadConfig(config);
+    expect(tools.get("list_boards")?.enabled).toBe(true);
+    expect(mockServer.sendToolListChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns a structured error for disallowed calls without making a request", async () => {
+    registerTools(mockServer as any, new HoneycombAPI(config));
+
+    const result = await tools.get("run_query")!.callback({ environment: "dev", dataset: "api" }, {});
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      error: "insufficient_permission",
+      tool: "run_query",
+      environment: "dev",
+      permission: "queries",
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("adds the saved query tools when given a saved query store", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-queries-"));
+    try {
+      const store = new SavedQueryStore(join(dir, "queries.yaml"));
+      await store.save("dev-errors", { query: { environment: "dev", dataset: "api", calculations: [{ op: "COUNT" }] } });
+
+      registerTools(mockServer as any, new HoneycombAPI(config));
+      expect(tools.has("run_saved_query")).toBe(false);
+
+      registerTools(mockServer as any, new HoneycombAPI(config), store);
+      expect([...tools.keys()]).toEqual(expect.arrayContaining(["list_saved_queries", "save_query", "delete_saved_query", "run_saved_query"]));
+
+      // The environment saved with the query is held to the same permissions
+      const result = await tools.get("run_saved_query")!.callback({ name: "dev-errors" }, {});
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        error: "insufficient_permission",
+        tool: "run_saved_query",
+        environment: "dev",
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("leaves the decision to the API when an environment's permissions are unknown", async () => {
+    const unknown = new HoneycombAPI({
+      ...config,
+      environments: [{ name: "prod", apiKey: "prod-key" }],
+    });
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      json: () => Promise.resolve([]),
+      headers: new Headers({})
+    });
+    registerTools(mockServer as any, unknown);
+
+    expect(tools.get("list_boards")?.enabled).toBe(true);
+    const result = await tools.get("list_boards")!.callback({ environment: "prod" }, {});
+
+    expect(result.isError).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalled();
+  });
+
+  it("records retried requests in the result metadata", async () => {
+    const api = new HoneycombAPI({ ...config, retry: { ...retryPolicy, initialDelayMs: 1 } });
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        json: () => Promise.resolve({}),
+        headers: new Headers({})
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        json: () => Promise.resolve([]),
+        headers: new Headers({})
+      });
+    registerTools(mockServer as any, api);
+
+    const result = await tools.get("list_datasets")!.callback({ environment: "prod" }, {});
+
+    expect(result.isError).toBeUndefined();
+    expect(result._meta.retries).toEqual([
+      { environment: "prod", path: "/1/datasets", attempt: 1, reason: "server error (503)", delayMs: expect.any(Number) },
+    ]);
+  });
+});
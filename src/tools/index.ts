@@ -2,7 +2,9 @@ import { HoneycombAPI } from "../api/client.js";
 import { createListDatasetsTool } from "./list-datasets.js";
 import { createListColumnsTool } from "./list-columns.js";
 import { createRunQueryTool } from "./run-query.js";
+import { createExplainQueryTool } from "./explain-query.js";
 import { createAnalyzeColumnsTool } from "./analyze-columns.js";
+import { createBubbleUpTool } from "./bubble-up.js";
 import { createListBoardsTool } from "./list-boards.js";
 import { createGetBoardTool } from "./get-board.js";
 import { createListMarkersTool } from "./list-markers.js";
@@ -13,16 +15,83 @@ import { createListTriggersTool } from "./list-triggers.js";
 import { createGetTriggerTool } from "./get-trigger.js";
 import { createTraceDeepLinkTool } from "./get-trace-link.js";
 import { createInstrumentationGuidanceTool } from "./instrumentation-guidance.js";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createCheckEnvironmentsTool } from "./check-environments.js";
+import { createListSavedQueriesTool } from "./list-saved-queries.js";
+import { createSaveQueryTool } from "./save-query.js";
+import { createDeleteSavedQueryTool } from "./delete-saved-query.js";
+import { createRunSavedQueryTool } from "./run-saved-query.js";
+import { SavedQueryStore } from "../query/saved-queries.js";
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { PermissionError } from "../utils/errors.js";
+import { collectRetries, RetryRecord } from "../api/retry.js";
+
+/**
+ * The api_key_access permission each tool needs, as reported by /1/auth
+ *
+ * Tools that are not listed work with any configuration key.
+ */
+export const TOOL_PERMISSIONS: Record<string, string> = {
+  list_columns: "columns",
+  run_query: "queries",
+  analyze_columns: "queries",
+  bubble_up: "queries",
+  run_saved_query: "queries",
+  list_boards: "boards",
+  get_board: "boards",
+  list_markers: "markers",
+  list_recipients: "recipients",
+  list_slos: "slos",
+  get_slo: "slos",
+  list_triggers: "triggers",
+  get_trigger: "triggers",
+};
+
+/**
+ * Format a permission error as a structured tool result
+ */
+function permissionErrorResult(toolName: string, error: PermissionError) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          error: "insufficient_permission",
+          tool: toolName,
+          environment: error.environment,
+          permission: error.permission,
+          message: error.getFormattedMessage(),
+        }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Add the retried requests of a tool call to its result's _meta, which
+ * MCP clients keep, unlike unknown top-level keys
+ */
+function withRetryMetadata(result: any, retries: RetryRecord[]) {
+  if (retries.length === 0 || !result || typeof result !== "object") {
+    return result;
+  }
+  return { ...result, _meta: { ...result._meta, retries } };
+}
 
 /**
  * Register all tools with the MCP server
  * 
+ * Tools follow configuration reloads: those no environment's key can use are
+ * hidden, the descriptions name the environments a tool won't work in, and
+ * the client is told the tool list changed.
+ * 
  * @param server - The MCP server instance
  * @param api - The Honeycomb API client
+ * @param savedQueries - The saved query store; the saved query tools are left out without one
+ * @returns A function that stops following configuration reloads
  */
-export function registerTools(server: McpServer, api: HoneycombAPI) {
+export function registerTools(server: McpServer, api: HoneycombAPI, savedQueries?: SavedQueryStore): () => void {
   const tools = [
     // Dataset tools
     createListDatasetsTool(api),
@@ -30,7 +99,9 @@ export function registerTools(server: McpServer, api: HoneycombAPI) {
 
     // Query tools
     createRunQueryTool(api),
+    createExplainQueryTool(api),
     createAnalyzeColumnsTool(api),
+    createBubbleUpTool(api),
 
     // Board tools
     createListBoardsTool(api),
@@ -54,55 +125,107 @@ export function registerTools(server: McpServer, api: HoneycombAPI) {
     createTraceDeepLinkTool(api),
     
     // Instrumentation tools
-    createInstrumentationGuidanceTool(api)
+    createInstrumentationGuidanceTool(api),
+
+    // Diagnostics tools
+    createCheckEnvironmentsTool(api),
+
+    // Saved query tools
+    ...(savedQueries
+      ? [
+          createListSavedQueriesTool(api, savedQueries),
+          createSaveQueryTool(api, savedQueries),
+          createDeleteSavedQueryTool(api, savedQueries),
+          createRunSavedQueryTool(api, savedQueries),
+        ]
+      : []),
   ];
 
   // Register each tool with the server
-  for (const tool of tools) {
+  const registered = tools.map(tool => {
+    const permission = TOOL_PERMISSIONS[tool.name];
+
+    // Run the tool, turning failures into error results
+    const callTool = async (args: Record<string, any>, extra: any) => {
+      try {
+        // Validate and ensure required fields are present before passing to handler
+        // (dataset may be omitted when the environment has a configured default dataset)
+        if (tool.name.includes("analyze_columns") && (!args.environment || !args.columns)) {
+          throw new Error("Missing required fields: environment and columns are required");
+        } else if (tool.name.includes("run_query") && !args.environment) {
+          throw new Error("Missing required fields: environment is required");
+        }
+        
+        // Refuse calls the key can't make before any request is sent
+        if (permission && args.environment) {
+          api.requirePermission(args.environment, permission);
+        }
+
+        // Use type assertion to satisfy TypeScript's type checking
+        // Pass the request context through so cancelling the call aborts its API requests
+        const result = await tool.handler(args as any, extra);
+        
+        // If the result already has the expected format, return it directly
+        if (result && typeof result === 'object' && 'content' in result) {
+          return result as any;
+        }
+        
+        // Otherwise, format the result as expected by the SDK
+        return {
+          content: [
+            {
+              type: "text",
+              text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+            },
+          ],
+        } as any;
+      } catch (error) {
+        if (error instanceof PermissionError) {
+          return permissionErrorResult(tool.name, error) as any;
+        }
+        // Format errors to match the SDK's expected format
+        return {
+          content: [
+            {
+              type: "text",
+              text: error instanceof Error ? error.message : String(error),
+            },
+          ],
+          isError: true,
+        } as any;
+      }
+    };
+
     // Register the tool with the server using type assertion to bypass TypeScript's strict type checking
-    (server as any).tool(
+    const handle: RegisteredTool = (server as any).tool(
       tool.name,
       tool.description,
       tool.schema, 
       async (args: Record<string, any>, extra: any) => {
-        try {
-          // Validate and ensure required fields are present before passing to handler
-          if (tool.name.includes("analyze_columns") && (!args.environment || !args.dataset || !args.columns)) {
-            throw new Error("Missing required fields: environment, dataset, and columns are required");
-          } else if (tool.name.includes("run_query") && (!args.environment || !args.dataset)) {
-            throw new Error("Missing required fields: environment and dataset are required");
-          }
-          
-          // Use type assertion to satisfy TypeScript's type checking
-          const result = await tool.handler(args as any);
-          
-          // If the result already has the expected format, return it directly
-          if (result && typeof result === 'object' && 'content' in result) {
-            return result as any;
-          }
-          
-          // Otherwise, format the result as expected by the SDK
-          return {
-            content: [
-              {
-                type: "text",
-                text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
-              },
-            ],
-          } as any;
-        } catch (error) {
-          // Format errors to match the SDK's expected format
-          return {
-            content: [
-              {
-                type: "text",
-                text: error instanceof Error ? error.message : String(error),
-              },
-            ],
-            isError: true,
-          } as any;
-        }
+        const retries: RetryRecord[] = [];
+        const result = await collectRetries(retries, () => callTool(args, extra));
+        return withRetryMetadata(result, retries);
       }
     );
-  }
+    return { tool, permission, handle };
+  });
+
+  // Hide tools no environment's key can use, and mark the environments a tool won't work in
+  const applyPermissions = () => {
+    const environments = api.getEnvironments();
+    for (const { tool, permission, handle } of registered) {
+      const denied = permission ? environments.filter(env => api.isPermissionDenied(env, permission)) : [];
+      handle.enabled = denied.length === 0 || denied.length < environments.length;
+      handle.description = denied.length > 0
+        ? `${tool.description} Not available in these environments, whose API keys lack the "${permission}" permission: ${denied.join(", ")}.`
+        : tool.description;
+    }
+  };
+  applyPermissions();
+
+  // Keys and their permissions can change when the configuration is reloaded
+  return api.onReload(() => {
+    applyPermissions();
+    server.sendToolListChanged();
+  });
 }
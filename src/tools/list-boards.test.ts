@@ -45,7 +45,7 @@ describe("list-boards tool", () => {
     const tool = createListBoardsTool(api);
     const result = await tool.handler({ environment: "test-env" });
 
-    expect(api.getBoards).toHaveBeenCalledWith("test-env");
+    expect(api.getBoards).toHaveBeenCalledWith("test-env", { signal: undefined });
     
     // Type assertion to tell TypeScript this is a success result with metadata
     const successResult = result as { 
@@ -4,6 +4,7 @@ import { handleToolError } from "../utils/tool-error.js";
 import { ListBoardsSchema } from "../types/schema.js";
 import { getCache } from "../cache/index.js";
 import { CollectionOptions, PaginatedResponse } from "../types/api.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Tool to list boards (dashboards) in a Honeycomb environment. This tool returns a list of all boards available in the specified environment, including their IDs, names, descriptions, creation times, and last update times.
@@ -27,9 +28,10 @@ export function createListBoardsTool(api: HoneycombAPI) {
      * @param params.sort_order - Optional sort direction (asc/desc)
      * @param params.search - Optional search term
      * @param params.search_fields - Optional fields to search in
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns List of boards with relevant metadata, potentially paginated
      */
-    handler: async (params: z.infer<typeof ListBoardsSchema>) => {
+    handler: async (params: z.infer<typeof ListBoardsSchema>, extra?: ToolExtra) => {
       const { environment, page, limit, sort_by, sort_order, search, search_fields } = params;
       
       // Validate input parameters
@@ -39,7 +41,7 @@ export function createListBoardsTool(api: HoneycombAPI) {
 
       try {
         // Fetch boards from the API
-        const boards = await api.getBoards(environment);
+        const boards = await api.getBoards(environment, { signal: extra?.signal });
         
         // Safety check - ensure boards is an array
         if (!Array.isArray(boards)) {
@@ -103,7 +103,8 @@ describe('list-columns tool', () => {
     // Verify API was called with correct parameters
     expect(mockApi.getVisibleColumns).toHaveBeenCalledWith(
       testParams.environment,
-      testParams.dataset
+      testParams.dataset,
+      { signal: undefined }
     );
 
     // Check response structure
@@ -200,7 +201,8 @@ describe('list-columns tool', () => {
       // Verify API was called
       expect(mockApi.getVisibleColumns).toHaveBeenCalledWith(
         testParams.environment,
-        testParams.dataset
+        testParams.dataset,
+        { signal: undefined }
       );
       
       // Verify cache was used with correct parameters
@@ -328,7 +330,8 @@ describe('list-columns tool', () => {
       // Verify the API was called
       expect(mockApi.getVisibleColumns).toHaveBeenCalledWith(
         testParams.environment,
-        testParams.dataset
+        testParams.dataset,
+        { signal: undefined }
       );
       
       // Parse the JSON response
@@ -4,6 +4,7 @@ import { handleToolError } from "../utils/tool-error.js";
 import { ListColumnsSchema } from "../types/schema.js";
 import { getCache } from "../cache/index.js";
 import { PaginatedResponse, CollectionOptions } from "../types/api.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Interface for simplified column data returned by the list_columns tool
@@ -14,7 +15,7 @@ interface SimplifiedColumn {
   description: string;
   hidden: boolean;
   last_written?: string | null;
-  created_at: string;
+  created_at?: string;
 }
 
 /**
@@ -42,27 +43,28 @@ export function createListColumnsTool(api: HoneycombAPI) {
      * @param params.sort_order - Optional sort direction (asc/desc)
      * @param params.search - Optional search term
      * @param params.search_fields - Optional fields to search in
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns Simplified list of columns with relevant metadata, potentially paginated
      */
-    handler: async (params: z.infer<typeof ListColumnsSchema>) => {
-      const { environment, dataset, page, limit, sort_by, sort_order, search, search_fields } = params;
+    handler: async (params: z.infer<typeof ListColumnsSchema>, extra?: ToolExtra) => {
+      const { environment, page, limit, sort_by, sort_order, search, search_fields } = params;
       
       // Validate input parameters
       if (!environment) {
         return handleToolError(new Error("environment parameter is required"), "list_columns");
       }
-      if (!dataset) {
-        return handleToolError(new Error("dataset parameter is required"), "list_columns");
-      }
 
       try {
+        const dataset = params.dataset || api.getDefaultDataset(environment);
+
         // Fetch columns from the API
-        const columns = await api.getVisibleColumns(environment, dataset);
+        const columns = await api.getVisibleColumns(environment, dataset, { signal: extra?.signal });
         
         // Simplify the response to reduce context window usage
         const simplifiedColumns: SimplifiedColumn[] = columns.map(column => ({
           name: column.key_name,
-          type: column.type,
+          // Columns are strings unless the API says otherwise
+          type: column.type ?? 'string',
           description: column.description || '',
           hidden: column.hidden || false,
           last_written: column.last_written || null,
@@ -57,7 +57,7 @@ describe('list-datasets tool', () => {
     const result = await tool.handler({ environment: 'test-env' });
 
     // Verify API was called with correct parameters
-    expect(mockApi.listDatasets).toHaveBeenCalledWith('test-env');
+    expect(mockApi.listDatasets).toHaveBeenCalledWith('test-env', { signal: undefined });
 
     // Check response structure
     expect(result).toHaveProperty('content');
@@ -177,7 +177,7 @@ describe('list-datasets tool', () => {
       });
       
       // Verify API was called
-      expect(mockApi.listDatasets).toHaveBeenCalledWith('test-env');
+      expect(mockApi.listDatasets).toHaveBeenCalledWith('test-env', { signal: undefined });
       
       // Verify cache was used with correct parameters
       expect(mockCacheManager.accessCollection).toHaveBeenCalledWith(
@@ -302,7 +302,7 @@ describe('list-datasets tool', () => {
       });
       
       // Verify the API was called
-      expect(mockApi.listDatasets).toHaveBeenCalledWith('test-env');
+      expect(mockApi.listDatasets).toHaveBeenCalledWith('test-env', { signal: undefined });
       
       // Parse the JSON response
       const response = JSON.parse(result.content[0]!.text!);
@@ -3,6 +3,7 @@ import { HoneycombAPI } from "../api/client.js";
 import { handleToolError } from "../utils/tool-error.js";
 import { getCache } from "../cache/index.js";
 import { CollectionOptions, PaginatedResponse } from "../types/api.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Schema for the list_datasets tool parameters
@@ -48,11 +49,12 @@ export function createListDatasetsTool(api: HoneycombAPI) {
      * Handles the list_datasets tool request with pagination and search
      * 
      * @param params - The parameters containing environment and optional pagination/search options
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns A formatted paginated response with the list of datasets
      */
     handler: async (params: { 
       environment: string 
-    } & CollectionOptions) => {
+    } & CollectionOptions, extra?: ToolExtra) => {
       try {
         // Validate required parameters
         if (!params.environment) {
@@ -60,7 +62,7 @@ export function createListDatasetsTool(api: HoneycombAPI) {
         }
 
         // Fetch datasets from the API
-        const datasets = await api.listDatasets(params.environment);
+        const datasets = await api.listDatasets(params.environment, { signal: extra?.signal });
         
         // Simplify the datasets to reduce context window usage
         const simplifiedDatasets = datasets.map(dataset => ({
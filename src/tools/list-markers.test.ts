@@ -30,8 +30,8 @@ describe("list-markers tool", () => {
         type: "deploy",
         url: "https://github.com/example/repo/releases/tag/v1.2.3",
         created_at: "2023-01-01T00:00:00Z",
-        start_time: "2023-01-01T00:00:00Z",
-        end_time: "2023-01-01T00:05:00Z",
+        start_time: 1672531200,
+        end_time: 1672531500,
       },
       {
         id: "marker-2",
@@ -39,8 +39,7 @@ describe("list-markers tool", () => {
         type: "feature",
         url: "",
         created_at: "2023-01-03T00:00:00Z",
-        start_time: "2023-01-03T00:00:00Z",
-        end_time: "",
+        start_time: 1672704000,
       },
     ];
 
@@ -49,7 +48,7 @@ describe("list-markers tool", () => {
     const tool = createListMarkersTool(api);
     const result = await tool.handler({ environment: "test-env" });
 
-    expect(api.getMarkers).toHaveBeenCalledWith("test-env");
+    expect(api.getMarkers).toHaveBeenCalledWith("test-env", { signal: undefined });
     
     // Type assertion to tell TypeScript this is a success result with metadata
     const successResult = result as { 
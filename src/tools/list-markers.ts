@@ -4,6 +4,7 @@ import { handleToolError } from "../utils/tool-error.js";
 import { ListMarkersSchema } from "../types/schema.js";
 import { getCache } from "../cache/index.js";
 import { PaginatedResponse } from "../types/api.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Tool to list markers (deployment events) in a Honeycomb environment. This tool returns a list of all markers available in the specified environment, including their IDs, messages, types, URLs, creation times, start times, and end times.
@@ -27,9 +28,10 @@ export function createListMarkersTool(api: HoneycombAPI) {
      * @param params.sort_order - Optional sort direction (asc/desc)
      * @param params.search - Optional search term
      * @param params.search_fields - Optional fields to search in
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns List of markers with relevant metadata, potentially paginated
      */
-    handler: async (params: z.infer<typeof ListMarkersSchema>) => {
+    handler: async (params: z.infer<typeof ListMarkersSchema>, extra?: ToolExtra) => {
       const { environment, page, limit, sort_by, sort_order, search, search_fields } = params;
       
       // Validate input parameters
@@ -39,7 +41,7 @@ export function createListMarkersTool(api: HoneycombAPI) {
 
       try {
         // Fetch markers from the API
-        const markers = await api.getMarkers(environment);
+        const markers = await api.getMarkers(environment, { signal: extra?.signal });
         
         // Create a simplified response
         const simplifiedMarkers = markers.map(marker => ({
@@ -138,6 +140,11 @@ export function createListMarkersTool(api: HoneycombAPI) {
                   : bValue.localeCompare(aValue);
               }
               
+              // Markers without the field sort last
+              if (aValue === undefined || bValue === undefined) {
+                return aValue === bValue ? 0 : aValue === undefined ? 1 : -1;
+              }
+              
               return order === 'asc' 
                 ? (aValue > bValue ? 1 : -1) 
                 : (bValue > aValue ? 1 : -1);
@@ -47,7 +47,7 @@ describe("list-recipients tool", () => {
     const tool = createListRecipientsTool(api);
     const result = await tool.handler({ environment: "test-env" });
 
-    expect(api.getRecipients).toHaveBeenCalledWith("test-env");
+    expect(api.getRecipients).toHaveBeenCalledWith("test-env", { signal: undefined });
     
     // Type assertion to tell TypeScript this is a success result with metadata
     const successResult = result as { 
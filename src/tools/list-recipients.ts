@@ -2,6 +2,7 @@ import { z } from "zod";
 import { HoneycombAPI } from "../api/client.js";
 import { handleToolError } from "../utils/tool-error.js";
 import { ListRecipientsSchema } from "../types/schema.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Tool to list notification recipients in a Honeycomb environment. This tool returns a list of all recipients available in the specified environment, including their names, types, targets, and metadata.
@@ -19,9 +20,10 @@ export function createListRecipientsTool(api: HoneycombAPI) {
      * 
      * @param params - The parameters for the tool
      * @param params.environment - The Honeycomb environment
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns List of recipients with relevant metadata
      */
-    handler: async ({ environment }: z.infer<typeof ListRecipientsSchema>) => {
+    handler: async ({ environment }: z.infer<typeof ListRecipientsSchema>, extra?: ToolExtra) => {
       // Validate input parameters
       if (!environment) {
         return handleToolError(new Error("environment parameter is required"), "list_recipients");
@@ -29,7 +31,7 @@ export function createListRecipientsTool(api: HoneycombAPI) {
 
       try {
         // Fetch recipients from the API
-        const recipients = await api.getRecipients(environment);
+        const recipients = await api.getRecipients(environment, { signal: extra?.signal });
         
         // Create a simplified response
         const simplifiedRecipients = recipients.map(recipient => ({
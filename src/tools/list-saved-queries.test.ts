@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createListSavedQueriesTool } from "./list-saved-queries.js";
+import { SavedQueryStore } from "../query/saved-queries.js";
+
+// An unrestricted client, and one limited to the prod environment
+const everyEnvironment = { isScoped: () => false, hasEnvironment: () => true } as any;
+const prodOnly = { isScoped: () => true, hasEnvironment: (environment: string) => environment === "prod" } as any;
+
+describe("list_saved_queries tool", () => {
+  let dir: string;
+  let store: SavedQueryStore;
+  let tool: ReturnType<typeof createListSavedQueriesTool>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-queries-"));
+    store = new SavedQueryStore(join(dir, "queries.yaml"));
+    tool = createListSavedQueriesTool(everyEnvironment, store);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("lists the saved queries by name with their placeholders", async () => {
+    await store.save("latency", { description: "P99 latency", query: { environment: "prod", time_range: "{window}" }, defaults: { window: "1h" } });
+    await store.save("errors", { query: { environment: "prod", where: "service.name = \"{service}\"" } });
+
+    const result = await tool.handler({});
+    const listed = JSON.parse(result.content[0]!.text);
+
+    expect(listed.file).toBe(store.path);
+    expect(listed.queries.map((q: { name: string }) => q.name)).toEqual(["errors", "latency"]);
+    expect(listed.queries[1]).toEqual({
+      name: "latency",
+      description: "P99 latency",
+      placeholders: [{ name: "window", default: "1h" }],
+      query: { environment: "prod", time_range: "{window}" },
+    });
+    expect(result).toMatchObject({ metadata: { count: 2 } });
+  });
+
+  it("lists only the queries a scoped client's environments can run", async () => {
+    await store.save("prod-errors", { query: { environment: "prod" } });
+    await store.save("dev-errors", { query: { environment: "dev", where: "team = \"payments\"" } });
+    await store.save("any-errors", { query: { environment: "{env}" } });
+
+    const listed = JSON.parse((await createListSavedQueriesTool(prodOnly, store).handler({})).content[0]!.text);
+
+    expect(listed.queries.map((q: { name: string }) => q.name)).toEqual(["prod-errors"]);
+  });
+
+  it("reports a saved queries file it cannot read", async () => {
+    await writeFile(store.path, "queries: [");
+
+    const result = await tool.handler({});
+
+    expect(result.content[0]!.text).toMatch(/Failed to parse saved queries file/);
+  });
+});
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { HoneycombAPI } from "../api/client.js";
+import { handleToolError } from "../utils/tool-error.js";
+import { ListSavedQueriesSchema } from "../types/schema.js";
+import { savedQueryScope, SavedQueryStore, summarizeSavedQuery } from "../query/saved-queries.js";
+
+/**
+ * Tool to list the saved queries. This tool returns each saved query the client's environments can run, with its name, description, placeholders with their defaults, and the run_query parameters it stands for.
+ *
+ * @param api - The Honeycomb API client, whose environment scope decides the queries listed
+ * @param savedQueries - The saved query store
+ * @returns An MCP tool object with name, schema, and handler function
+ */
+export function createListSavedQueriesTool(api: HoneycombAPI, savedQueries: SavedQueryStore) {
+  return {
+    name: "list_saved_queries",
+    description: "Lists the saved queries: named run_query templates kept in a local file. Each comes with its description, the placeholders it takes such as {service} or {window} with any default values, and its run_query parameters. Run one with run_saved_query.",
+    schema: ListSavedQueriesSchema.shape,
+    /**
+     * Handler for the list_saved_queries tool
+     *
+     * @param _params - The parameters for the tool (none)
+     * @returns The saved queries, sorted by name
+     */
+    handler: async (_params: z.infer<typeof ListSavedQueriesSchema>) => {
+      try {
+        const queries = await savedQueries.list(savedQueryScope(api));
+        const summaries = Object.keys(queries)
+          .sort()
+          .map(name => summarizeSavedQuery(name, queries[name]!));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ file: savedQueries.path, queries: summaries }, null, 2),
+            },
+          ],
+          metadata: {
+            count: summaries.length,
+          },
+        };
+      } catch (error) {
+        return handleToolError(error, "list_saved_queries");
+      }
+    },
+  };
+}
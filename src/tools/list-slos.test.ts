@@ -63,7 +63,8 @@ describe('list-slos tool', () => {
     // Verify API was called with correct parameters
     expect(mockApi.getSLOs).toHaveBeenCalledWith(
       testParams.environment,
-      testParams.dataset
+      testParams.dataset,
+      { signal: undefined }
     );
 
     // Check response structure
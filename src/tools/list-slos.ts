@@ -2,12 +2,13 @@ import { z } from "zod";
 import { HoneycombAPI } from "../api/client.js";
 import { handleToolError } from "../utils/tool-error.js";
 import { DatasetArgumentsSchema } from "../types/schema.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Interface for simplified SLO data returned by the list_slos tool
  */
 interface SimplifiedSLO {
-  id: string;
+  id?: string;
   name: string;
   description: string;
   time_period_days: number;
@@ -34,9 +35,10 @@ export function createListSLOsTool(api: HoneycombAPI) {
      * @param params - The parameters for the tool
      * @param params.environment - The Honeycomb environment
      * @param params.dataset - The dataset to fetch SLOs from
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns Simplified list of SLOs with relevant metadata
      */
-    handler: async ({ environment, dataset }: z.infer<typeof DatasetArgumentsSchema>) => {
+    handler: async ({ environment, dataset }: z.infer<typeof DatasetArgumentsSchema>, extra?: ToolExtra) => {
       // Validate input parameters
       if (!environment) {
         return handleToolError(new Error("environment parameter is required"), "list_slos");
@@ -47,7 +49,7 @@ export function createListSLOsTool(api: HoneycombAPI) {
 
       try {
         // Fetch SLOs from the API
-        const slos = await api.getSLOs(environment, dataset);
+        const slos = await api.getSLOs(environment, dataset, { signal: extra?.signal });
         
         // Simplify the response to reduce context window usage
         const simplifiedSLOs: SimplifiedSLO[] = slos.map(slo => ({
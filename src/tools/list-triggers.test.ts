@@ -87,7 +87,8 @@ describe('list-triggers tool', () => {
     // Verify API was called with correct parameters
     expect(mockApi.getTriggers).toHaveBeenCalledWith(
       testParams.environment,
-      testParams.dataset
+      testParams.dataset,
+      { signal: undefined }
     );
 
     // Check response structure
@@ -2,21 +2,22 @@ import { z } from "zod";
 import { HoneycombAPI } from "../api/client.js";
 import { handleToolError } from "../utils/tool-error.js";
 import { DatasetArgumentsSchema } from "../types/schema.js";
+import { ToolExtra } from "../types/tool.js";
 
 /**
  * Interface for simplified trigger data returned by the list_triggers tool
  */
 interface SimplifiedTrigger {
-  id: string;
-  name: string;
+  id?: string;
+  name?: string;
   description: string;
-  threshold: {
+  threshold?: {
     op: string;
     value: number;
   };
-  triggered: boolean;
-  disabled: boolean;
-  frequency: number;
+  triggered?: boolean;
+  disabled?: boolean;
+  frequency?: number;
   alert_type?: string;
 }
 
@@ -40,9 +41,10 @@ export function createListTriggersTool(api: HoneycombAPI) {
      * @param params - The parameters for the tool
      * @param params.environment - The Honeycomb environment
      * @param params.dataset - The dataset to fetch triggers from
+     * @param extra - MCP request context; its signal cancels in-flight API calls
      * @returns Simplified list of triggers with relevant metadata
      */
-    handler: async ({ environment, dataset }: z.infer<typeof DatasetArgumentsSchema>) => {
+    handler: async ({ environment, dataset }: z.infer<typeof DatasetArgumentsSchema>, extra?: ToolExtra) => {
       // Validate input parameters
       if (!environment) {
         return handleToolError(new Error("environment parameter is required"), "list_triggers");
@@ -53,14 +55,14 @@ export function createListTriggersTool(api: HoneycombAPI) {
 
       try {
         // Fetch triggers from the API
-        const triggers = await api.getTriggers(environment, dataset);
+        const triggers = await api.getTriggers(environment, dataset, { signal: extra?.signal });
         
         // Simplify the response to reduce context window usage
         const simplifiedTriggers: SimplifiedTrigger[] = triggers.map(trigger => ({
           id: trigger.id,
           name: trigger.name,
           description: trigger.description || '',
-          threshold: {
+          threshold: trigger.threshold && {
             op: trigger.threshold.op,
             value: trigger.threshold.value,
           },
@@ -5,12 +5,21 @@ import { HoneycombError } from '../utils/errors.js';
 describe('run-query tool', () => {
   // Mock API
   const mockApi = {
-    runAnalysisQuery: vi.fn()
+    runAnalysisQuery: vi.fn(),
+    getMarkers: vi.fn(),
+    getDatasetMarkers: vi.fn(),
+    getColumns: vi.fn(),
+    isPermissionDenied: vi.fn()
   };
 
   // Reset mocks before each test
   beforeEach(() => {
     vi.resetAllMocks();
+    mockApi.getColumns.mockResolvedValue([
+      { key_name: 'duration_ms', type: 'float' },
+      { key_name: 'service', type: 'string' },
+      { key_name: 'error', type: 'boolean' }
+    ]);
   });
 
   // Test parameters
@@ -61,7 +70,8 @@ describe('run-query tool', () => {
     expect(mockApi.runAnalysisQuery).toHaveBeenCalledWith(
       testParams.environment,
       testParams.dataset,
-      testParams
+      testParams,
+      { signal: undefined }
     );
 
     // Check response structure
@@ -109,6 +119,221 @@ describe('run-query tool', () => {
     expect(response.series[0]).toHaveProperty('name', 'heatmap');
   });
 
+  it('should return one series per calculation and group for timeseries output', async () => {
+    mockApi.runAnalysisQuery.mockResolvedValue({
+      data: {
+        results: [{ service: 'api', COUNT: 3 }],
+        series: [
+          { time: '2025-01-01T00:00:00Z', service: 'api', COUNT: 1, 'AVG(duration_ms)': 100 },
+          { time: '2025-01-01T00:01:00Z', service: 'api', COUNT: 2, 'AVG(duration_ms)': 300 },
+          { time: '2025-01-01T00:01:00Z', service: 'web', COUNT: 5, 'AVG(duration_ms)': 50 },
+        ]
+      }
+    });
+
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({ ...testParams, breakdowns: ['service'], output: 'timeseries' });
+
+    const { output: _, ...query } = { ...testParams, breakdowns: ['service'], output: 'timeseries' };
+    expect(mockApi.runAnalysisQuery).toHaveBeenCalledWith(
+      testParams.environment,
+      testParams.dataset,
+      query,
+      expect.objectContaining({ includeSeries: true })
+    );
+
+    const response = JSON.parse(result.content[0]!.text!);
+    expect(response.results).toHaveLength(1);
+    expect(response.timeseries).toMatchObject({
+      granularity: 60,
+      start: '2025-01-01T00:00:00.000Z',
+      end: '2025-01-01T00:01:00.000Z',
+      series: [
+        { calculation: 'COUNT', group: { service: 'api' }, values: [1, 2] },
+        { calculation: 'AVG(duration_ms)', group: { service: 'api' }, values: [100, 300] },
+        { calculation: 'COUNT', group: { service: 'web' }, values: [null, 5] },
+        { calculation: 'AVG(duration_ms)', group: { service: 'web' }, values: [null, 50] },
+      ]
+    });
+  });
+
+  it('should downsample timeseries output to the point budget', async () => {
+    mockApi.runAnalysisQuery.mockResolvedValue({
+      data: {
+        results: [{ COUNT: 10 }],
+        series: [0, 1, 2, 3].map(i => ({ time: new Date(Date.UTC(2025, 0, 1, 0, i)).toISOString(), COUNT: i + 1 }))
+      }
+    });
+
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({ ...testParams, calculations: [{ op: 'COUNT' as const }], output: 'timeseries', max_points: 2 });
+
+    expect(mockApi.runAnalysisQuery.mock.calls[0]![2]).not.toHaveProperty('max_points');
+    const response = JSON.parse(result.content[0]!.text!);
+    expect(response.timeseries).toMatchObject({
+      granularity: 120,
+      series: [{ calculation: 'COUNT', values: [3, 7], peak: { time: '2025-01-01T00:03:00.000Z', value: 4 } }]
+    });
+  });
+
+  it('should compare against an earlier window when compare_to is given', async () => {
+    mockApi.runAnalysisQuery
+      .mockResolvedValueOnce({ data: { results: [{ COUNT: 120 }] }, links: { query_url: 'https://ui.honeycomb.io/now' } })
+      .mockResolvedValueOnce({ data: { results: [{ COUNT: 100 }] }, links: { query_url: 'https://ui.honeycomb.io/before' } });
+
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({
+      environment: 'test-env',
+      dataset: 'test-dataset',
+      calculations: [{ op: 'COUNT' as const }],
+      start_time: 1735689600,
+      end_time: 1735693200,
+      compare_to: '-7d',
+    }, { signal: new AbortController().signal, _meta: { progressToken: 'tok' }, sendNotification: vi.fn() } as any);
+
+    // Only the current window reports progress, so one token's progress keeps increasing
+    expect(mockApi.runAnalysisQuery.mock.calls[0]![3].onProgress).toBeTypeOf('function');
+    expect(mockApi.runAnalysisQuery.mock.calls[1]![3].onProgress).toBeUndefined();
+
+    const windows = mockApi.runAnalysisQuery.mock.calls.map(call => [call[2].start_time, call[2].end_time]);
+    expect(windows).toEqual([[1735689600, 1735693200], [1735084800, 1735088400]]);
+    expect(mockApi.runAnalysisQuery.mock.calls[0]![2]).not.toHaveProperty('compare_to');
+
+    const response = JSON.parse(result.content[0]!.text!);
+    expect(response.comparison).toMatchObject({
+      current_window: { start: '2025-01-01T00:00:00.000Z', end: '2025-01-01T01:00:00.000Z' },
+      previous_window: { start: '2024-12-25T00:00:00.000Z', end: '2024-12-25T01:00:00.000Z' },
+      previous_query_url: 'https://ui.honeycomb.io/before',
+      groups: [{ group: {}, changes: { COUNT: { current: 120, previous: 100, change: 20, percent_change: 20 } } }],
+    });
+  });
+
+  it('should reject compare_to offsets into the future', async () => {
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({ ...testParams, compare_to: '+1d' });
+
+    expect(result.content[0]!.text).toContain('compare_to must reach into the past');
+    expect(mockApi.runAnalysisQuery).not.toHaveBeenCalled();
+  });
+
+  it('should resolve time expressions and echo the window back', async () => {
+    mockApi.getMarkers.mockResolvedValue([{ id: 'deploy-1', start_time: 1735689600 }]);
+    mockApi.runAnalysisQuery.mockResolvedValue({ data: { results: [] } });
+
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({
+      ...testParams,
+      start_time: 'since marker deploy-1',
+      end_time: '2025-01-01T06:00:00Z',
+    });
+
+    expect(mockApi.getMarkers).toHaveBeenCalledWith('test-env', expect.anything());
+    expect(mockApi.runAnalysisQuery.mock.calls[0]![2]).toMatchObject({ start_time: 1735689600, end_time: 1735711200 });
+    const response = JSON.parse(result.content[0]!.text!);
+    expect(response.metadata.timeWindow).toEqual({ start: '2025-01-01T00:00:00.000Z', end: '2025-01-01T06:00:00.000Z' });
+  });
+
+  it('should reject misspelled and misused columns before querying', async () => {
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({
+      ...testParams,
+      calculations: [{ op: 'P99', column: 'service' }],
+      filters: [{ column: 'duraton_ms', op: '>', value: 100 }],
+    });
+
+    const text = result.content[0]!.text!;
+    expect(text).toContain("filters[0].column: Unknown column 'duraton_ms'");
+    expect(text).toContain("filters[0].column: Did you mean 'duration_ms'?");
+    expect(text).toContain("calculations[0]: P99 needs a numeric column, but 'service' is a string column");
+    expect(mockApi.getColumns).toHaveBeenCalledWith('test-env', 'test-dataset', expect.anything());
+    expect(mockApi.runAnalysisQuery).not.toHaveBeenCalled();
+  });
+
+  it('should skip column checks when validate_columns is false', async () => {
+    mockApi.runAnalysisQuery.mockResolvedValue({ data: { results: [] } });
+
+    const tool = createRunQueryTool(mockApi as any);
+    await tool.handler({ ...testParams, breakdowns: ['derived_region'], validate_columns: false });
+
+    expect(mockApi.getColumns).not.toHaveBeenCalled();
+    expect(mockApi.runAnalysisQuery.mock.calls[0]![2]).not.toHaveProperty('validate_columns');
+  });
+
+  it('should skip column checks for environment-wide queries', async () => {
+    mockApi.runAnalysisQuery.mockResolvedValue({ data: { results: [] } });
+
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({ ...testParams, dataset: '__all__', breakdowns: ['service'] });
+
+    expect(result.content[0]!.text).not.toContain('Failed to execute');
+    expect(mockApi.getColumns).not.toHaveBeenCalled();
+    expect(mockApi.runAnalysisQuery).toHaveBeenCalledWith('test-env', '__all__', expect.anything(), expect.anything());
+  });
+
+  it('should run the query unchecked when the columns cannot be fetched', async () => {
+    mockApi.getColumns.mockRejectedValue(new HoneycombError(503, 'Service unavailable'));
+    mockApi.runAnalysisQuery.mockResolvedValue({ data: { results: [] } });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({ ...testParams, breakdowns: ['derived_region'] });
+
+    expect(result.content[0]!.text).not.toContain('Failed to execute');
+    expect(mockApi.runAnalysisQuery).toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Skipping column checks for test-dataset'));
+    consoleError.mockRestore();
+  });
+
+  it('should skip column checks for keys without the columns permission', async () => {
+    mockApi.isPermissionDenied.mockImplementation((_env: string, permission: string) => permission === 'columns');
+    mockApi.runAnalysisQuery.mockResolvedValue({ data: { results: [] } });
+
+    const tool = createRunQueryTool(mockApi as any);
+    await tool.handler({ ...testParams, breakdowns: ['derived_region'] });
+
+    expect(mockApi.getColumns).not.toHaveBeenCalled();
+    expect(mockApi.runAnalysisQuery).toHaveBeenCalled();
+  });
+
+  it('should turn a where expression into filters', async () => {
+    mockApi.runAnalysisQuery.mockResolvedValue({ data: { results: [] } });
+
+    const tool = createRunQueryTool(mockApi as any);
+    await tool.handler({ ...testParams, where: 'service = "api" OR duration_ms > 500' });
+
+    const query = mockApi.runAnalysisQuery.mock.calls[0]![2];
+    expect(query.filters).toEqual([
+      { column: 'service', op: '=', value: 'api' },
+      { column: 'duration_ms', op: '>', value: 500 }
+    ]);
+    expect(query.filter_combination).toBe('OR');
+    expect(query).not.toHaveProperty('where');
+  });
+
+  it('should reject where together with filters', async () => {
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({
+      ...testParams,
+      where: 'duration_ms > 500',
+      filters: [{ column: 'service', op: '=', value: 'api' }]
+    });
+
+    expect(result.content[0]!.text).toContain('Use either where or filters, not both');
+    expect(mockApi.runAnalysisQuery).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown markers before querying', async () => {
+    mockApi.getMarkers.mockResolvedValue([]);
+    mockApi.getDatasetMarkers.mockResolvedValue([]);
+
+    const tool = createRunQueryTool(mockApi as any);
+    const result = await tool.handler({ ...testParams, time_range: 'since marker gone' });
+
+    expect(result.content[0]!.text).toContain("Unknown marker 'gone'");
+    expect(mockApi.getDatasetMarkers).toHaveBeenCalledWith('test-env', 'test-dataset', expect.anything());
+    expect(mockApi.runAnalysisQuery).not.toHaveBeenCalled();
+  });
+
   it('should include groupBy data', async () => {
     const paramsWithGroupBy = {
       ...testParams,
@@ -249,4 +474,23 @@ describe('run-query tool', () => {
       console.error = originalConsoleError;
     }
   });
-});
\ No newline at end of file
+
+  it('should leave retries to the API client', async () => {
+    mockApi.runAnalysisQuery.mockRejectedValue(
+      new HoneycombError(503, 'Honeycomb API error: Service Unavailable')
+    );
+
+    const originalConsoleError = console.error;
+    console.error = vi.fn();
+
+    try {
+      const tool = createRunQueryTool(mockApi as any);
+      const result = await tool.handler(testParams);
+
+      expect(mockApi.runAnalysisQuery).toHaveBeenCalledTimes(1);
+      expect(result.content[0]!.text!).toContain('Service Unavailable');
+    } finally {
+      console.error = originalConsoleError;
+    }
+  });
+});
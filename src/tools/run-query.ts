@@ -1,40 +1,130 @@
 import { z } from "zod";
 import { HoneycombAPI } from "../api/client.js";
 import { handleToolError } from "../utils/tool-error.js";
-import { QueryToolSchema } from "../types/schema.js";
+import { QueryToolSchema, TimePointSchema, TimeRangeSchema } from "../types/schema.js";
 import { summarizeResults } from "../utils/transformations.js";
-import { validateQuery } from "../query/validation.js";
+import { validateQuery, validateQueryColumns } from "../query/validation.js";
+import { ToolExtra } from "../types/tool.js";
+import { QueryOptions } from "../types/api.js";
+import { createQueryProgressReporter } from "../utils/progress.js";
+import { buildTimeSeries, compactTimeSeries } from "../query/timeseries.js";
+import {
+  formatTimeWindow,
+  markerFinder,
+  ResolvedTimeParameters,
+  resolveTimeParameters,
+  resolveTimeWindow,
+  TimeWindow,
+} from "../query/time.js";
+import { compareResults, parseCompareOffset, shiftWindow } from "../query/compare.js";
+import { parseWhere } from "../query/where.js";
+import { QueryError } from "../utils/errors.js";
+import { Column } from "../types/column.js";
+
+/**
+ * What run_query returns: aggregate rows only, or rows plus their time series
+ */
+type QueryOutput = "results" | "timeseries";
+
+// Values per series in timeseries output unless the caller picks a budget
+const DEFAULT_MAX_POINTS = 60;
+
+/**
+ * How run_query shapes its response, beyond the query itself
+ */
+interface ResponseOptions {
+  hasHeatmap: boolean;
+  output?: QueryOutput;
+  maxPoints?: number;
+  // Seconds between the query's window and the one it is compared to, negative for the past
+  compareOffset?: number;
+}
+
+/**
+ * A query whose time parameters have been resolved to seconds
+ */
+type ResolvedQuery = Omit<z.infer<typeof QueryToolSchema>, keyof ResolvedTimeParameters> & ResolvedTimeParameters;
+
+/**
+ * Run a query over two windows and match up their results by breakdown group
+ *
+ * Both windows are pinned to absolute times first, so the previous window is
+ * exactly the current one shifted by the offset.
+ */
+async function runComparison(
+  api: HoneycombAPI,
+  params: ResolvedQuery,
+  window: TimeWindow,
+  compareOffset: number,
+  options: QueryOptions
+) {
+  const previousWindow = shiftWindow(window, compareOffset);
+  const inWindow = ({ start, end }: TimeWindow) => ({ ...params, time_range: undefined, start_time: start, end_time: end });
+
+  const [result, previous] = await Promise.all([
+    api.runAnalysisQuery(params.environment, params.dataset, inWindow(window), options),
+    // Only the current query reports progress, so the progress token's values keep increasing
+    api.runAnalysisQuery(params.environment, params.dataset, inWindow(previousWindow), { ...options, includeSeries: false, onProgress: undefined }),
+  ]);
+  const previousResults = previous.data?.results || [];
+
+  return {
+    result,
+    comparison: {
+      current_window: formatTimeWindow(window),
+      previous_window: formatTimeWindow(previousWindow),
+      previous_query_url: previous.links?.query_url || null,
+      groups: compareResults(result.data?.results || [], previousResults, params),
+      previous_summary: summarizeResults(previousResults, params),
+    },
+  };
+}
 
 /**
  * Helper function to execute a query and process the results
  */
 async function executeQuery(
   api: HoneycombAPI, 
-  params: z.infer<typeof QueryToolSchema>,
-  hasHeatmap: boolean
+  params: ResolvedQuery,
+  { hasHeatmap, output = "results", maxPoints = DEFAULT_MAX_POINTS, compareOffset }: ResponseOptions,
+  options: QueryOptions = {}
 ) {
-  // Execute the query
-  const result = await api.runAnalysisQuery(params.environment, params.dataset, params);
+  const window = resolveTimeWindow(params);
+
+  // Execute the query, and its comparison run if there is one
+  const { result, comparison } = compareOffset !== undefined
+    ? await runComparison(api, params, window, compareOffset, options)
+    : { result: await api.runAnalysisQuery(params.environment, params.dataset, params, options), comparison: undefined };
   
   try {
     // Simplify the response to reduce context window usage
     const simplifiedResponse = {
       results: result.data?.results || [],
       // Only include series data if heatmap calculation is present (it's usually large)
-      ...(hasHeatmap ? { series: result.data?.series || [] } : {}),
+      ...(hasHeatmap && output !== "timeseries" ? { series: result.data?.series || [] } : {}),
+
+      // One downsampled series per calculation and group when asked for
+      ...(output === "timeseries"
+        ? { timeseries: compactTimeSeries(buildTimeSeries(result.data?.series || [], params), maxPoints) }
+        : {}),
       
       // Include a query URL if available 
       query_url: result.links?.query_url || null,
       
       // Add summary statistics for numeric columns
       summary: summarizeResults(result.data?.results || [], params),
+
+      // How each group changed since the earlier window
+      ...(comparison ? { comparison } : {}),
       
       // Add query metadata for context
       metadata: {
         environment: params.environment,
         dataset: params.dataset,
         executedAt: new Date().toISOString(),
-        resultCount: result.data?.results?.length || 0
+        resultCount: result.data?.results?.length || 0,
+        // The absolute window the time parameters resolved to
+        timeWindow: formatTimeWindow(window)
       }
     };
     
@@ -66,252 +156,336 @@ async function executeQuery(
 }
 
 /**
- * Creates a tool for running queries against a Honeycomb dataset or environment.
- * 
- * This tool handles construction, validation, execution, and summarization of
- * Honeycomb queries, returning both raw results and useful statistical summaries.
- * 
- * @param api - The Honeycomb API client
- * @returns A configured tool object with name, schema, and handler
+ * Parameters of run_query, shared with explain_query
  */
-export function createRunQueryTool(api: HoneycombAPI) {
-  return {
-    name: "run_query",
-    description: `Executes a Honeycomb query, returning results with statistical summaries. 
-
-CRITICAL RULE: For COUNT operations, NEVER include a "column" field in your calculation, even as null or undefined. Example: Use {"op": "COUNT"} NOT {"op": "COUNT", "column": "anything"}.
-
-Additional Rules:
-1) All parameters must be at the TOP LEVEL (not nested inside a 'query' property)
-2) Field names must be exact - use 'op' (not 'operation'), 'breakdowns' (not 'group_by')
-3) Only use the exact operation names listed in the schema (e.g., use "P95" for 95th percentile, not "PERCENTILE")
-4) For all operations EXCEPT COUNT and CONCURRENCY, you must specify a "column" field
-`,
-    schema: {
-      environment: z.string().min(1).trim().describe("The Honeycomb environment to query"),
-      dataset: z.string().min(1).trim().describe("The dataset to query. Use __all__ to query across all datasets in the environment."),
-      calculations: z.array(z.object({
-        op: z.enum([
-          "COUNT",               
-          "CONCURRENCY",         
-          "SUM",                 
-          "AVG",                 
-          "COUNT_DISTINCT",      
-          "MAX",                 
-          "MIN",                 
-          "P001",                
-          "P01",                 
-          "P05",                 
-          "P10",                 
-          "P20",                 
-          "P25",                 
-          "P50",                 
-          "P75",                 
-          "P80",                 
-          "P90",                 
-          "P95",                 
-          "P99",                 
-          "P999",                
-          "RATE_AVG",            
-          "RATE_SUM",            
-          "RATE_MAX",            
-          "HEATMAP",             
-        ]).describe(`⚠️⚠️⚠️ CRITICAL RULES FOR OPERATIONS:
+export const runQuerySchema = {
+  environment: z.string().min(1).trim().describe("The Honeycomb environment to query"),
+  dataset: z.string().min(1).trim().optional().describe("The dataset to query. Use __all__ to query across all datasets in the environment. Defaults to the environment's configured default dataset."),
+  calculations: z.array(z.object({
+    op: z.enum([
+      "COUNT",               
+      "CONCURRENCY",         
+      "SUM",                 
+      "AVG",                 
+      "COUNT_DISTINCT",      
+      "MAX",                 
+      "MIN",                 
+      "P001",                
+      "P01",                 
+      "P05",                 
+      "P10",                 
+      "P20",                 
+      "P25",                 
+      "P50",                 
+      "P75",                 
+      "P80",                 
+      "P90",                 
+      "P95",                 
+      "P99",                 
+      "P999",                
+      "RATE_AVG",            
+      "RATE_SUM",            
+      "RATE_MAX",            
+      "HEATMAP",             
+    ]).describe(`⚠️⚠️⚠️ CRITICAL RULES FOR OPERATIONS:
 
 1. FOR COUNT OPERATIONS:
    - NEVER include a "column" field
    - CORRECT: {"op": "COUNT"}
    - INCORRECT: {"op": "COUNT", "column": "anything"} 
-   
+
 2. FOR PERCENTILES:
    - Use the exact P* operations (P95, P99, etc.)
    - CORRECT: {"op": "P95", "column": "duration_ms"}
    - INCORRECT: {"op": "PERCENTILE", "percentile": 95}
-   
+
 3. ALL operations EXCEPT COUNT and CONCURRENCY REQUIRE a column field
 
 COMMON ERRORS TO AVOID:
 - DO NOT include "column" with COUNT or CONCURRENCY
 - DO NOT use "PERCENTILE" - use "P95", "P99", etc. instead
 - DO NOT misspell operation names`),
-        column: z.string().min(1).trim().optional().describe("⚠️ CRITICAL: NEVER include this field when op is COUNT or CONCURRENCY. REQUIRED for all other operations."),
-      }).superRefine((calculation, ctx) => {
-        // Prevent column for COUNT or CONCURRENCY
-        if ((calculation.op === "COUNT" || calculation.op === "CONCURRENCY") && calculation.column !== undefined) {
-          ctx.addIssue({
-            code: z.ZodIssueCode.custom,
-            message: `ERROR: ${calculation.op} operations MUST NOT have a column field. Remove the "column" field entirely.`,
-            path: ["column"]
-          });
-        }
-        
-        // Require column for all other operations
-        if (!(calculation.op === "COUNT" || calculation.op === "CONCURRENCY") && calculation.column === undefined) {
-          ctx.addIssue({
-            code: z.ZodIssueCode.custom,
-            message: `ERROR: ${calculation.op} operations REQUIRE a column field.`,
-            path: ["column"]
-          });
-        }
-      })).describe("⚠️ CRITICAL RULE: For COUNT or CONCURRENCY operations, you MUST OMIT the 'column' field COMPLETELY - do not include it at all. For all other operations, the 'column' field is REQUIRED."),
-      breakdowns: z.array(z.string().min(1).trim()).optional().describe("MUST use field name 'breakdowns' (not 'group_by'). Columns to group results by."),
-      filters: z.array(z.object({
-        column: z.string().min(1).trim().describe("MUST use field name 'column'. Name of the column to filter on."),
-        op: z.enum([
-          "=", "!=", ">", ">=", "<", "<=", 
-          "starts-with", "does-not-start-with", 
-          "ends-with", "does-not-end-with",
-          "exists", "does-not-exist", 
-          "contains", "does-not-contain",
-          "in", "not-in"
-        ]).describe(`MUST use field name 'op'. Available operators:
+    column: z.string().min(1).trim().optional().describe("⚠️ CRITICAL: NEVER include this field when op is COUNT or CONCURRENCY. REQUIRED for all other operations."),
+  }).superRefine((calculation, ctx) => {
+    // Prevent column for COUNT or CONCURRENCY
+    if ((calculation.op === "COUNT" || calculation.op === "CONCURRENCY") && calculation.column !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `ERROR: ${calculation.op} operations MUST NOT have a column field. Remove the "column" field entirely.`,
+        path: ["column"]
+      });
+    }
+    
+    // Require column for all other operations
+    if (!(calculation.op === "COUNT" || calculation.op === "CONCURRENCY") && calculation.column === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `ERROR: ${calculation.op} operations REQUIRE a column field.`,
+        path: ["column"]
+      });
+    }
+  })).describe("⚠️ CRITICAL RULE: For COUNT or CONCURRENCY operations, you MUST OMIT the 'column' field COMPLETELY - do not include it at all. For all other operations, the 'column' field is REQUIRED."),
+  breakdowns: z.array(z.string().min(1).trim()).optional().describe("MUST use field name 'breakdowns' (not 'group_by'). Columns to group results by."),
+  filters: z.array(z.object({
+    column: z.string().min(1).trim().describe("MUST use field name 'column'. Name of the column to filter on."),
+    op: z.enum([
+      "=", "!=", ">", ">=", "<", "<=", 
+      "starts-with", "does-not-start-with", 
+      "ends-with", "does-not-end-with",
+      "exists", "does-not-exist", 
+      "contains", "does-not-contain",
+      "in", "not-in"
+    ]).describe(`MUST use field name 'op'. Available operators:
 - Equality: "=", "!="
 - Comparison: ">", ">=", "<", "<="
 - String: "starts-with", "does-not-start-with", "ends-with", "does-not-end-with", "contains", "does-not-contain"
 - Existence: "exists", "does-not-exist"
 - Arrays: "in", "not-in" (use with array values)`),
-        value: z.any().optional().describe("MUST use field name 'value'. Comparison value. Optional for exists operators. Use arrays for in/not-in.")
-      })).optional().describe("MUST use field name 'filters' (an array of filter objects). Pre-calculation filters for the query."),
-      filter_combination: z.enum(["AND", "OR"]).optional().describe("MUST use field name 'filter_combination' (not 'combine_filters'). How to combine filters: AND or OR. Default: AND."),
-      orders: z.array(z.object({
-        column: z.string().min(1).trim().describe("MUST use field name 'column'. Column to order by. Required when sorting by a column directly."),
-        op: z.string().optional().describe("MUST use field name 'op' when provided. Operation to order by. Must match a calculation operation."),
-        order: z.enum(["ascending", "descending"]).optional().describe("MUST use field name 'order' when provided. Available values: \"ascending\" (low to high) or \"descending\" (high to low).")
-      })).optional().describe("MUST use field name 'orders' (not 'sort' or 'order_by'). Array of sort configurations."),
-      limit: z.number().int().positive().optional().describe("MUST use field name 'limit'. Maximum number of result rows to return."),
-      time_range: z.number().positive().optional().describe("MUST use field name 'time_range' (with underscore). Relative time range in seconds from now."),
-      start_time: z.number().int().positive().optional().describe("MUST use field name 'start_time' (with underscore). Absolute start timestamp in seconds."),
-      end_time: z.number().int().positive().optional().describe("MUST use field name 'end_time' (with underscore). Absolute end timestamp in seconds."),
-      granularity: z.number().int().nonnegative().optional().describe("MUST use field name 'granularity'. Time resolution in seconds. 0 for auto."),
-      havings: z.array(z.object({
-        calculate_op: z.enum([
-          "COUNT",               
-          "CONCURRENCY",         
-          "SUM",                 
-          "AVG",                 
-          "COUNT_DISTINCT",      
-          "MAX",                 
-          "MIN",                 
-          "P001",                
-          "P01",                 
-          "P05",                 
-          "P10",                 
-          "P20",                 
-          "P25",                 
-          "P50",                 
-          "P75",                 
-          "P80",                 
-          "P90",                 
-          "P95",                 
-          "P99",                 
-          "P999",                
-          "RATE_AVG",            
-          "RATE_SUM",            
-          "RATE_MAX"             
-        ]).describe(`MUST use field name 'calculate_op'. Available operations:
+    value: z.any().optional().describe("MUST use field name 'value'. Comparison value. Optional for exists operators. Use arrays for in/not-in.")
+  })).optional().describe("MUST use field name 'filters' (an array of filter objects). Pre-calculation filters for the query."),
+  filter_combination: z.enum(["AND", "OR"]).optional().describe("MUST use field name 'filter_combination' (not 'combine_filters'). How to combine filters: AND or OR. Default: AND."),
+  where: z.string().trim().min(1).optional().describe("Filters written as one expression instead of filters and filter_combination, e.g. 'service.name = \"api\" AND duration_ms > 500 AND http.route starts-with \"/v1\"'. Join conditions with AND or OR, not both. Quote strings; give in and not-in a list such as (\"a\", \"b\"); quote column names with spaces in backticks."),
+  orders: z.array(z.object({
+    column: z.string().min(1).trim().describe("MUST use field name 'column'. Column to order by. Required when sorting by a column directly."),
+    op: z.string().optional().describe("MUST use field name 'op' when provided. Operation to order by. Must match a calculation operation."),
+    order: z.enum(["ascending", "descending"]).optional().describe("MUST use field name 'order' when provided. Available values: \"ascending\" (low to high) or \"descending\" (high to low).")
+  })).optional().describe("MUST use field name 'orders' (not 'sort' or 'order_by'). Array of sort configurations."),
+  limit: z.number().int().positive().optional().describe("MUST use field name 'limit'. Maximum number of result rows to return."),
+  time_range: TimeRangeSchema.optional().describe("MUST use field name 'time_range' (with underscore). Relative time range from now, in seconds or as a duration such as \"90m\" or \"7d\". Also accepts \"since <time>\", e.g. \"since marker abc123\"."),
+  start_time: TimePointSchema.optional().describe("MUST use field name 'start_time' (with underscore). Absolute start: UNIX seconds, an ISO 8601 timestamp (UTC unless it has an offset), \"now-3h\", \"3h ago\", \"yesterday 14:00 UTC\", or \"since marker <id>\"."),
+  end_time: TimePointSchema.optional().describe("MUST use field name 'end_time' (with underscore). Absolute end, in the same forms as start_time, e.g. \"now-1h\"."),
+  granularity: z.number().int().nonnegative().optional().describe("MUST use field name 'granularity'. Time resolution in seconds. 0 for auto."),
+  havings: z.array(z.object({
+    calculate_op: z.enum([
+      "COUNT",               
+      "CONCURRENCY",         
+      "SUM",                 
+      "AVG",                 
+      "COUNT_DISTINCT",      
+      "MAX",                 
+      "MIN",                 
+      "P001",                
+      "P01",                 
+      "P05",                 
+      "P10",                 
+      "P20",                 
+      "P25",                 
+      "P50",                 
+      "P75",                 
+      "P80",                 
+      "P90",                 
+      "P95",                 
+      "P99",                 
+      "P999",                
+      "RATE_AVG",            
+      "RATE_SUM",            
+      "RATE_MAX"             
+    ]).describe(`MUST use field name 'calculate_op'. Available operations:
 - NO COLUMN ALLOWED: COUNT, CONCURRENCY
 - REQUIRE COLUMN: SUM, AVG, COUNT_DISTINCT, MAX, MIN, P001, P01, P05, P10, P20, P25, P50, P75, P80, P90, P95, P99, P999, RATE_AVG, RATE_SUM, RATE_MAX`),
-        column: z.string().min(1).trim().optional().describe("MUST use field name 'column'. NEVER use with COUNT/CONCURRENCY. REQUIRED for all other operations."),
-        op: z.enum(["=", "!=", ">", ">=", "<", "<="]).describe("MUST use field name 'op'. Available comparison operators: \"=\", \"!=\", \">\", \">=\", \"<\", \"<=\""),
-        value: z.number().describe("MUST use field name 'value'. Numeric threshold value to compare against.")
-      })).optional().describe("MUST use field name 'havings'. Post-calculation filters with same column rules as calculations.")
-    },
+    column: z.string().min(1).trim().optional().describe("MUST use field name 'column'. NEVER use with COUNT/CONCURRENCY. REQUIRED for all other operations."),
+    op: z.enum(["=", "!=", ">", ">=", "<", "<="]).describe("MUST use field name 'op'. Available comparison operators: \"=\", \"!=\", \">\", \">=\", \"<\", \"<=\""),
+    value: z.number().describe("MUST use field name 'value'. Numeric threshold value to compare against.")
+  })).optional().describe("MUST use field name 'havings'. Post-calculation filters with same column rules as calculations."),
+  output: z.enum(["results", "timeseries"]).optional().describe("What to return. \"results\" (default) returns aggregate rows for the whole time range. \"timeseries\" also returns, for each calculation and breakdown group, its values over time, its peak, and where its level shifted, if it did. Use it to find when a change started."),
+  max_points: z.number().int().min(2).max(1000).optional().describe(`Most values returned per series with output \"timeseries\". Buckets are merged to fit. Default: ${DEFAULT_MAX_POINTS}.`),
+  compare_to: z.string().trim().optional().describe("Also run the query over an earlier window and report how each breakdown group changed. An offset into the past, e.g. \"-1d\" for the same window yesterday or \"-7d\" for last week. Units: s, m, h, d, w. Each window returns its own top groups up to the limit, so a group that moved in or out of the top shows null for the other window rather than its actual value."),
+  validate_columns: z.boolean().optional().describe("Check the query's columns against the dataset before running it: unknown columns, numeric calculations on non-numeric columns, and filters that don't suit a column's type, with suggestions for misspelled names. Default: true. Set to false to query derived columns, which aren't listed. Skipped for environment-wide queries on __all__, for API keys without the columns permission, and when the columns can't be fetched.")
+};
+
+/**
+ * Fix up and check run_query parameters before they become a query
+ *
+ * Repairs common mistakes in field names and nesting, turns a where
+ * expression into filters, resolves time expressions to seconds, and runs
+ * validateQuery and, unless turned off, validateQueryColumns. The
+ * parameters are updated in place.
+ *
+ * @throws QueryError if the query is invalid
+ */
+export async function prepareQuery(api: HoneycombAPI, params: any, extra?: ToolExtra): Promise<void> {
+  // Fall back to the environment's default dataset when none is given
+  if (!params.dataset && params.environment) {
+    params.dataset = api.getDefaultDataset(params.environment);
+  }
+
+  // Handle query object nesting - common mistake is to put params inside a 'query' property
+  if (params.query && typeof params.query === 'object' && params.environment && params.dataset) {
+    console.warn("Detected nested query object - pulling properties to top level");
+    // Merge query properties into top level, but don't overwrite existing top-level properties
+    for (const [key, value] of Object.entries(params.query)) {
+      if (params[key] === undefined) {
+        params[key] = value;
+      }
+    }
+    
+    // We've processed the query object, now delete it to avoid confusion
+    delete params.query;
+  }
+  
+  // Handle common field name mistakes
+  if (params.group_by && !params.breakdowns) {
+    params.breakdowns = params.group_by;
+    delete params.group_by;
+    console.warn("Detected 'group_by' field - renamed to 'breakdowns'");
+  }
+  
+  // Handle order_by -> orders conversion
+  if (params.order_by && !params.orders) {
+    // Convert single order_by object to orders array
+    if (!Array.isArray(params.order_by)) {
+      params.orders = [params.order_by];
+    } else {
+      params.orders = params.order_by;
+    }
+    delete params.order_by;
+    console.warn("Detected 'order_by' field - renamed to 'orders'");
+  }
+  
+  // Handle having -> havings conversion
+  if (params.having && !params.havings) {
+    params.havings = params.having;
+    delete params.having;
+    console.warn("Detected 'having' field - renamed to 'havings'");
+  }
+  
+  // Validate calculations array and field names
+  if (params.calculations) {
+    for (const calc of params.calculations) {
+      // Handle operation -> op conversion if needed
+      if (calc.operation && !calc.op) {
+        calc.op = calc.operation;
+        delete calc.operation;
+        console.warn("Detected 'operation' field in calculation - renamed to 'op'");
+      }
+      
+      // Handle field -> column conversion if needed
+      if (calc.field && !calc.column) {
+        calc.column = calc.field;
+        delete calc.field;
+        console.warn("Detected 'field' field in calculation - renamed to 'column'");
+      }
+      
+      // We now rely on Zod schema refinements for validation of column rules
+    }
+  }
+  
+  // Parse a where expression into the filters it stands for
+  if (params.where !== undefined) {
+    if (params.filters?.length) {
+      throw new QueryError("Use either where or filters, not both", [
+        "Move the filters into the where expression, e.g. duration_ms > 500 AND error = true",
+      ]);
+    }
+    const { filters, filter_combination } = parseWhere(params.where);
+    if (params.filter_combination && filter_combination && params.filter_combination !== filter_combination) {
+      throw new QueryError(`where joins its conditions with ${filter_combination}, but filter_combination is ${params.filter_combination}`, [
+        "Drop filter_combination; the where expression decides how its conditions combine",
+      ]);
+    }
+    params.filters = filters;
+    params.filter_combination = filter_combination;
+    delete params.where;
+  }
+
+  // Resolve time expressions such as "now-3h" or "since marker abc" to seconds
+  const time = await resolveTimeParameters(
+    { time_range: params.time_range, start_time: params.start_time, end_time: params.end_time },
+    markerFinder(api, params.environment, params.dataset, { signal: extra?.signal })
+  );
+  delete params.time_range;
+  delete params.start_time;
+  delete params.end_time;
+  Object.assign(params, time);
+
+  // Validate parameters with our standard validation
+  validateQuery(params);
+
+  // Catch unknown or misused columns before spending a query on them; columns are cached
+  if (params.validate_columns !== false) {
+    const columns = await columnsForChecks(api, params.environment, params.dataset, extra?.signal);
+    if (columns) {
+      validateQueryColumns(params, columns);
+    }
+  }
+}
+
+/**
+ * A dataset's columns for checking a query, or undefined when they can't be had
+ *
+ * Column checks never stop a query from running: they are skipped for keys
+ * without the "columns" permission, for environment-wide queries on __all__
+ * (which /1/columns doesn't accept) and when the columns request fails.
+ * Only a cancelled call fails.
+ */
+export async function columnsForChecks(
+  api: HoneycombAPI,
+  environment: string,
+  dataset: string,
+  signal?: AbortSignal,
+): Promise<Column[] | undefined> {
+  if (dataset === "__all__" || api.isPermissionDenied(environment, "columns")) {
+    return undefined;
+  }
+  try {
+    return await api.getColumns(environment, dataset, { signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    console.error(`Skipping column checks for ${dataset}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Creates a tool for running queries against a Honeycomb dataset or environment.
+ * 
+ * This tool handles construction, validation, execution, and summarization of
+ * Honeycomb queries, returning both raw results and useful statistical summaries.
+ * 
+ * @param api - The Honeycomb API client
+ * @returns A configured tool object with name, schema, and handler
+ */
+export function createRunQueryTool(api: HoneycombAPI) {
+  return {
+    name: "run_query",
+    description: `Executes a Honeycomb query, returning results with statistical summaries. 
+
+CRITICAL RULE: For COUNT operations, NEVER include a "column" field in your calculation, even as null or undefined. Example: Use {"op": "COUNT"} NOT {"op": "COUNT", "column": "anything"}.
+
+Additional Rules:
+1) All parameters must be at the TOP LEVEL (not nested inside a 'query' property)
+2) Field names must be exact - use 'op' (not 'operation'), 'breakdowns' (not 'group_by')
+3) Only use the exact operation names listed in the schema (e.g., use "P95" for 95th percentile, not "PERCENTILE")
+4) For all operations EXCEPT COUNT and CONCURRENCY, you must specify a "column" field
+`,
+    schema: runQuerySchema,
     /**
      * Handles the run_query tool request
      * 
      * @param params - The parameters for the query
+     * @param extra - MCP request context; its signal cancels in-flight API calls,
+     *   and its progress token, if any, receives a notification for every poll
      * @returns A formatted response with query results and summary statistics
      */
-    handler: async (params: any) => {
+    handler: async (params: any, extra?: ToolExtra) => {
       try {
-        // Handle query object nesting - common mistake is to put params inside a 'query' property
-        if (params.query && typeof params.query === 'object' && params.environment && params.dataset) {
-          console.warn("Detected nested query object - pulling properties to top level");
-          // Merge query properties into top level, but don't overwrite existing top-level properties
-          for (const [key, value] of Object.entries(params.query)) {
-            if (params[key] === undefined) {
-              params[key] = value;
-            }
-          }
-          
-          // We've processed the query object, now delete it to avoid confusion
-          delete params.query;
-        }
-        
-        // Handle common field name mistakes
-        if (params.group_by && !params.breakdowns) {
-          params.breakdowns = params.group_by;
-          delete params.group_by;
-          console.warn("Detected 'group_by' field - renamed to 'breakdowns'");
-        }
-        
-        // Handle order_by -> orders conversion
-        if (params.order_by && !params.orders) {
-          // Convert single order_by object to orders array
-          if (!Array.isArray(params.order_by)) {
-            params.orders = [params.order_by];
-          } else {
-            params.orders = params.order_by;
-          }
-          delete params.order_by;
-          console.warn("Detected 'order_by' field - renamed to 'orders'");
-        }
-        
-        // Handle having -> havings conversion
-        if (params.having && !params.havings) {
-          params.havings = params.having;
-          delete params.having;
-          console.warn("Detected 'having' field - renamed to 'havings'");
-        }
-        
-        // Validate calculations array and field names
-        if (params.calculations) {
-          for (const calc of params.calculations) {
-            // Handle operation -> op conversion if needed
-            if (calc.operation && !calc.op) {
-              calc.op = calc.operation;
-              delete calc.operation;
-              console.warn("Detected 'operation' field in calculation - renamed to 'op'");
-            }
-            
-            // Handle field -> column conversion if needed
-            if (calc.field && !calc.column) {
-              calc.column = calc.field;
-              delete calc.field;
-              console.warn("Detected 'field' field in calculation - renamed to 'column'");
-            }
-            
-            // We now rely on Zod schema refinements for validation of column rules
-          }
-        }
-        
-        // Validate parameters with our standard validation
-        validateQuery(params);
-        
+        await prepareQuery(api, params, extra);
+
         // Check if any calculations use HEATMAP
         const hasHeatmap = params.calculations.some((calc: any) => calc.op === "HEATMAP");
         
-        // Execute the query with retry logic for transient API issues
-        const maxRetries = 3;
-        let lastError: unknown = null;
-        
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
-          try {
-            return await executeQuery(api, params, hasHeatmap);
-          } catch (error) {
-            lastError = error;
-            console.error(`Query attempt ${attempt} failed: ${error instanceof Error ? error.message : String(error)}`);
-            
-            // Only retry if not the last attempt
-            if (attempt < maxRetries) {
-              console.error(`Retrying in ${attempt * 500}ms...`);
-              await new Promise(resolve => setTimeout(resolve, attempt * 500));
-            }
-          }
-        }
-        
-        // If we get here, all attempts failed
-        throw lastError || new Error("All query attempts failed");
+        // These shape the response; they are not part of the query
+        const { output, max_points, compare_to, validate_columns: _, ...query } = params;
+        const compareOffset = compare_to !== undefined ? parseCompareOffset(compare_to) : undefined;
+
+        // Transient API failures are already retried by the client's retry policy
+        return await executeQuery(api, query, { hasHeatmap, output, maxPoints: max_points, compareOffset }, {
+          ...(output === "timeseries" ? { includeSeries: true } : {}),
+          signal: extra?.signal,
+          onProgress: createQueryProgressReporter(extra),
+        });
       } catch (error) {
         return handleToolError(error, "run_query", {
           environment: params.environment,
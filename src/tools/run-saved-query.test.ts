@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createRunSavedQueryTool } from "./run-saved-query.js";
+import { SavedQueryStore } from "../query/saved-queries.js";
+import { FakeHoneycomb } from "../testing/fake-honeycomb.js";
+import { HoneycombAPI } from "../api/client.js";
+import { Config } from "../config.js";
+import { initializeCache } from "../cache/index.js";
+
+const config: Config = {
+  environments: [{ name: "demo", apiKey: "demo-key" }, { name: "staging", apiKey: "staging-key" }],
+  cache: {
+    defaultTTL: 300,
+    ttl: { dataset: 900, column: 900, board: 900, slo: 900, trigger: 900, marker: 900, recipient: 900, auth: 3600 },
+    enabled: false,
+    maxSize: 1000,
+  },
+  rateLimit: { enabled: false, queries: { requestsPerMinute: 120, burst: 20 }, metadata: { requestsPerMinute: 600, burst: 50 } },
+};
+
+const events = [
+  { "service.name": "api", "http.route": "/users", duration_ms: 20 },
+  { "service.name": "api", "http.route": "/orders", duration_ms: 300 },
+  { "service.name": "web", "http.route": "/", duration_ms: 50 },
+];
+
+function parse(result: { content: { text?: string }[] }) {
+  return JSON.parse(result.content[0]!.text!);
+}
+
+describe("run_saved_query tool", () => {
+  let dir: string;
+  let store: SavedQueryStore;
+  let fake: FakeHoneycomb;
+  let tool: ReturnType<typeof createRunSavedQueryTool>;
+
+  beforeEach(async () => {
+    initializeCache(config);
+    dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-queries-"));
+    store = new SavedQueryStore(join(dir, "queries.yaml"));
+    await store.save("routes", {
+      query: {
+        environment: "demo",
+        dataset: "web",
+        calculations: [{ op: "COUNT" }],
+        breakdowns: ["http.route"],
+        where: "service.name = \"{service}\"",
+        time_range: "{window}",
+        limit: "{limit}",
+      },
+      defaults: { window: "1h", limit: 10 },
+    });
+    fake = new FakeHoneycomb({
+      environments: [
+        { name: "demo", apiKey: "demo-key", datasets: [{ slug: "web", events }] },
+        { name: "staging", apiKey: "staging-key", datasets: [{ slug: "web", events: events.slice(2) }] },
+      ],
+    });
+    tool = createRunSavedQueryTool(new HoneycombAPI(config, { fetch: fake.fetch }), store);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("runs the query with its placeholders filled in", async () => {
+    const response = parse(await tool.handler({ name: "routes", arguments: { service: "api", window: "3h" } }));
+
+    expect(response.results).toHaveLength(2);
+    expect(response.metadata).toMatchObject({ environment: "demo", dataset: "web" });
+    const body = fake.requests.find(request => request.method === "POST" && request.path === "/1/queries/web")!.body;
+    expect(body).toMatchObject({
+      filters: [{ column: "service.name", op: "=", value: "api" }],
+      time_range: 10800,
+      limit: 10,
+    });
+  });
+
+  it("runs in another environment when asked", async () => {
+    const response = parse(await tool.handler({ name: "routes", arguments: { service: "web" }, environment: "staging" }));
+
+    expect(response.metadata).toMatchObject({ environment: "staging" });
+    expect(response.results).toHaveLength(1);
+  });
+
+  it("explains arguments that make the query invalid", async () => {
+    const result = await tool.handler({ name: "routes", arguments: { service: "api", limit: "lots" } });
+
+    expect(result.content[0]!.text).toMatch(/Saved query 'routes' is not a valid query once filled in: limit: /);
+    expect(fake.requests.some(request => request.method === "POST")).toBe(false);
+  });
+
+  it("won't run another environment's query for a scoped client", async () => {
+    const scoped = createRunSavedQueryTool(new HoneycombAPI(config, { fetch: fake.fetch }).withEnvironmentScope(["staging"]), store);
+
+    const result = await scoped.handler({ name: "routes", arguments: { service: "web" }, environment: "staging" });
+
+    expect(result.content[0]!.text).toMatch(/No saved query named 'routes'/);
+    expect(fake.requests.some(request => request.method === "POST")).toBe(false);
+  });
+
+  it("asks for arguments without defaults", async () => {
+    const result = await tool.handler({ name: "routes" });
+
+    expect(result.content[0]!.text).toMatch(/needs a value for \{service\}/);
+  });
+});
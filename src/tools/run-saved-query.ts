@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { HoneycombAPI } from "../api/client.js";
+import { handleToolError } from "../utils/tool-error.js";
+import { RunSavedQuerySchema } from "../types/schema.js";
+import { ToolExtra } from "../types/tool.js";
+import { instantiateSavedQuery, savedQueryScope, SavedQueryStore } from "../query/saved-queries.js";
+import { PermissionError, QueryError } from "../utils/errors.js";
+import { createRunQueryTool, runQuerySchema } from "./run-query.js";
+
+const RunQueryParameters = z.object(runQuerySchema);
+
+/**
+ * Tool to run a saved query by name. This tool fills the saved query's placeholders with the given arguments and runs the result exactly as run_query would.
+ *
+ * @param api - The Honeycomb API client
+ * @param savedQueries - The saved query store
+ * @returns An MCP tool object with name, schema, and handler function
+ */
+export function createRunSavedQueryTool(api: HoneycombAPI, savedQueries: SavedQueryStore) {
+  const runQuery = createRunQueryTool(api);
+
+  return {
+    name: "run_saved_query",
+    description: "Runs a saved query by name, filling its placeholders such as {service} or {window} from arguments; placeholders with defaults may be left out. environment and dataset override the ones saved with the query. Returns the same response as run_query. Use list_saved_queries to see the saved queries and the arguments they take.",
+    schema: RunSavedQuerySchema.shape,
+    /**
+     * Handler for the run_saved_query tool
+     *
+     * @param params - The parameters for the tool
+     * @param params.name - The name of the saved query
+     * @param params.arguments - Values for the query's placeholders
+     * @param params.environment - Environment to run in instead of the saved one
+     * @param params.dataset - Dataset to run against instead of the saved one
+     * @param extra - MCP request context; its signal cancels in-flight API calls
+     * @returns The run_query response for the filled-in query
+     */
+    handler: async (params: z.infer<typeof RunSavedQuerySchema>, extra?: ToolExtra) => {
+      try {
+        const saved = await savedQueries.get(params.name, savedQueryScope(api));
+        const query = instantiateSavedQuery(params.name, saved, params.arguments);
+        if (params.environment) {
+          query.environment = params.environment;
+        }
+        if (params.dataset) {
+          query.dataset = params.dataset;
+        }
+
+        const parsed = RunQueryParameters.safeParse(query);
+        if (!parsed.success) {
+          const issues = parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+          throw new QueryError(`Saved query '${params.name}' is not a valid query once filled in: ${issues.join("; ")}`, [
+            "Check the arguments against the query's placeholders with list_saved_queries",
+            "Fix the saved query with save_query and overwrite set to true",
+          ]);
+        }
+
+        // The environment may come from the saved query, so the key is checked here
+        api.requirePermission(parsed.data.environment, "queries");
+
+        return await runQuery.handler(parsed.data, extra);
+      } catch (error) {
+        if (error instanceof PermissionError) {
+          throw error;
+        }
+        return handleToolError(error, "run_saved_query", {
+          environment: params.environment,
+          dataset: params.dataset,
+        });
+      }
+    },
+  };
+}
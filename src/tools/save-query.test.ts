@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createSaveQueryTool } from "./save-query.js";
+import { SavedQueryStore } from "../query/saved-queries.js";
+
+// An unrestricted client, and one limited to the prod environment
+const everyEnvironment = { isScoped: () => false, hasEnvironment: () => true } as any;
+const prodOnly = { isScoped: () => true, hasEnvironment: (environment: string) => environment === "prod" } as any;
+
+describe("save_query tool", () => {
+  let dir: string;
+  let store: SavedQueryStore;
+  let tool: ReturnType<typeof createSaveQueryTool>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-queries-"));
+    store = new SavedQueryStore(join(dir, "queries.yaml"));
+    tool = createSaveQueryTool(everyEnvironment, store);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("saves a query template and reports its placeholders", async () => {
+    const result = await tool.handler({
+      name: "errors-by-route",
+      description: "Errors of a service by route",
+      query: { environment: "prod", dataset: "api", breakdowns: ["http.route"], where: "service.name = \"{service}\" AND error = true", time_range: "{window}" },
+      defaults: { window: "1h" },
+    });
+
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({ saved: "errors-by-route", placeholders: ["service", "window"] });
+    expect(await store.get("errors-by-route")).toMatchObject({ defaults: { window: "1h" } });
+  });
+
+  it("checks the parameters that have no placeholders", async () => {
+    const result = await tool.handler({
+      name: "bad",
+      query: { environment: "prod", breakdown: ["http.route"], limit: -1, time_range: "{window}" },
+    });
+
+    expect(result.content[0]!.text).toMatch(/'breakdown' is not a run_query parameter/);
+    expect(result.content[0]!.text).toMatch(/limit: /);
+    expect(result.content[0]!.text).toMatch(/Did you mean 'breakdowns' instead of 'breakdown'\?/);
+    expect(await store.list()).toEqual({});
+  });
+
+  it("rejects defaults for placeholders the query doesn't use", async () => {
+    const result = await tool.handler({ name: "q", query: { environment: "{env}" }, defaults: { window: "1h" } });
+
+    expect(result.content[0]!.text).toMatch(/doesn't use: window/);
+  });
+
+  it("keeps a scoped client to its own environments", async () => {
+    await store.save("dev-errors", { query: { environment: "dev" } });
+    const scoped = createSaveQueryTool(prodOnly, store);
+
+    expect((await scoped.handler({ name: "mine", query: { environment: "dev" } })).content[0]!.text)
+      .toMatch(/must be for an environment you can use/);
+    expect((await scoped.handler({ name: "mine", query: { environment: "{env}" } })).content[0]!.text)
+      .toMatch(/must be for an environment you can use/);
+    expect((await scoped.handler({ name: "dev-errors", query: { environment: "prod" }, overwrite: true })).content[0]!.text)
+      .toMatch(/already saved for another environment/);
+    expect((await store.get("dev-errors")).query).toEqual({ environment: "dev" });
+  });
+
+  it("refuses a taken name unless overwrite is set", async () => {
+    await tool.handler({ name: "q", query: { environment: "prod" } });
+
+    expect((await tool.handler({ name: "q", query: { environment: "dev" } })).content[0]!.text).toMatch(/already saved/);
+    await tool.handler({ name: "q", query: { environment: "dev" }, overwrite: true });
+    expect((await store.get("q")).query).toEqual({ environment: "dev" });
+  });
+});
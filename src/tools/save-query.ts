@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { HoneycombAPI } from "../api/client.js";
+import { handleToolError } from "../utils/tool-error.js";
+import { SaveQuerySchema } from "../types/schema.js";
+import { placeholdersOf, savedQueryScope, SavedQueryStore } from "../query/saved-queries.js";
+import { QueryError } from "../utils/errors.js";
+import { closestMatches } from "../utils/fuzzy.js";
+import { runQuerySchema } from "./run-query.js";
+
+/**
+ * Check the parts of a query template that can be checked before it is filled in
+ *
+ * Every parameter must be one run_query takes, and parameters without
+ * placeholders must already be valid. Those with placeholders are checked
+ * when the query is run.
+ *
+ * @throws QueryError listing every problem found
+ */
+export function checkQueryTemplate(query: Record<string, unknown>): void {
+  const parameters = Object.keys(runQuerySchema);
+  const problems: string[] = [];
+  const suggestions: string[] = [];
+
+  for (const [key, value] of Object.entries(query)) {
+    const schema = runQuerySchema[key as keyof typeof runQuerySchema];
+    if (!schema) {
+      problems.push(`'${key}' is not a run_query parameter`);
+      suggestions.push(...closestMatches(key, parameters).slice(0, 1).map(match => `Did you mean '${match}' instead of '${key}'?`));
+      continue;
+    }
+    if (placeholdersOf(value).length > 0) {
+      continue;
+    }
+    const parsed = schema.safeParse(value);
+    if (!parsed.success) {
+      problems.push(...parsed.error.issues.map(issue => `${[key, ...issue.path].join(".")}: ${issue.message}`));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new QueryError(`Invalid query template: ${problems.join("; ")}`, [
+      ...suggestions,
+      "Give the query as run_query parameters, e.g. {\"environment\": \"production\", \"dataset\": \"api\", \"breakdowns\": [\"{column}\"]}",
+    ]);
+  }
+}
+
+/**
+ * Tool to save a query template under a name. This tool stores run_query parameters, which may contain placeholders, in the saved queries file so the query can be run again with run_saved_query.
+ *
+ * @param api - The Honeycomb API client, whose environment scope decides the queries that may be saved or replaced
+ * @param savedQueries - The saved query store
+ * @returns An MCP tool object with name, schema, and handler function
+ */
+export function createSaveQueryTool(api: HoneycombAPI, savedQueries: SavedQueryStore) {
+  return {
+    name: "save_query",
+    description: "Saves a run_query query under a name so it can be run again with run_saved_query. Strings in the query may hold placeholders such as {service} or {window}, filled in with arguments when the query is run; give defaults for placeholders callers may leave out. Fails if the name is taken unless overwrite is set. Parameters without placeholders are checked when saving, the rest when the query runs.",
+    schema: SaveQuerySchema.shape,
+    /**
+     * Handler for the save_query tool
+     *
+     * @param params - The parameters for the tool
+     * @param params.name - Name to save the query under
+     * @param params.query - The run_query parameters, possibly with placeholders
+     * @param params.defaults - Default values for placeholders
+     * @param params.overwrite - Replace a query already saved under the name
+     * @returns The saved name and the placeholders the query takes
+     */
+    handler: async (params: z.infer<typeof SaveQuerySchema>) => {
+      try {
+        checkQueryTemplate(params.query);
+
+        const placeholders = placeholdersOf(params.query);
+        const unused = Object.keys(params.defaults ?? {}).filter(name => !placeholders.includes(name));
+        if (unused.length > 0) {
+          throw new QueryError(`Defaults given for placeholders the query doesn't use: ${unused.join(", ")}`, [
+            placeholders.length > 0 ? `Its placeholders are ${placeholders.map(p => `{${p}}`).join(", ")}` : "The query has no placeholders",
+          ]);
+        }
+
+        await savedQueries.save(params.name, {
+          description: params.description,
+          query: params.query,
+          defaults: params.defaults,
+        }, params.overwrite, savedQueryScope(api));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ saved: params.name, file: savedQueries.path, placeholders }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error, "save_query");
+      }
+    },
+  };
+}
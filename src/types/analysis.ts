@@ -51,6 +51,8 @@ export interface SimplifiedColumnAnalysis {
   count: number;
   /** Total number of events/records across all results */
   totalEvents: number;
+  /** The absolute window analyzed, as ISO 8601 timestamps */
+  timeWindow?: { start: string; end: string };
   /** Most frequent values in the columns with their counts */
   topValues?: Array<ValueWithPercentage>;
   /** Statistical information for numeric columns */
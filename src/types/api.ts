@@ -1,22 +1,13 @@
+import type { Auth, Dataset } from "./generated/honeycomb-api.js";
+
+export type { Dataset };
+
 export interface Resource {
   uri: string;
   name: string;
   description: string;
 }
 
-export interface Dataset {
-  name: string;
-  slug: string;
-  description?: string;
-  settings?: {
-    delete_protected?: boolean;
-  };
-  expand_json_depth?: number;
-  regular_columns_count?: number;
-  last_written_at?: string | null;
-  created_at: string;
-}
-
 export interface DatasetWithColumns extends Dataset {
   columns: {
     name: string;
@@ -61,23 +52,39 @@ export interface PromptResponse {
   }[];
 }
 
-export interface AuthResponse {
-  id: string;
-  type: string;
-  api_key_access: Record<string, boolean>;
-  environment?: {
-    name: string;
-    slug: string;
-  };
-  team?: {
-    name: string;
-    slug: string;
-  };
+/**
+ * Response of the /1/auth endpoint
+ */
+export type AuthResponse = Auth;
+
+/**
+ * Per-call options accepted by every HoneycombAPI method
+ */
+export interface CallOptions {
+  // Aborts in-flight requests and polling, e.g. when the MCP client cancels the tool call
+  signal?: AbortSignal;
+  // Overrides the client's per-request timeout, in milliseconds
+  timeoutMs?: number;
+}
+
+/**
+ * State of a running query, reported after each poll for its results
+ */
+export interface QueryProgress {
+  // Number of polls so far, starting at 1
+  polls: number;
+  elapsedMs: number;
+  // Overall time limit for the query
+  timeoutMs: number;
 }
 
-export interface QueryOptions {
+export interface QueryOptions extends CallOptions {
   includeSeries?: boolean;
   limit?: number;
+  // Overrides the client's time limit for the query to finish, in milliseconds
+  queryTimeoutMs?: number;
+  // Called after every poll that finds the query still running
+  onProgress?: (progress: QueryProgress) => void;
 }
 
 /**
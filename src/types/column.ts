@@ -1,10 +1,4 @@
-export interface Column {
-  id: string;
-  key_name: string;
-  type: "string" | "float" | "integer" | "boolean";
-  description: string;
-  hidden: boolean;
-  last_written?: string;
-  created_at: string;
-  updated_at: string;
-}
+/**
+ * A dataset column, as defined in api.yaml
+ */
+export type { Column } from "./generated/honeycomb-api.js";
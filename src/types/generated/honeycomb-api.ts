@@ -0,0 +1,932 @@
+// Generated by scripts/generate-api-types.ts from api.yaml. Do not edit by hand;
+// run `pnpm run generate:api` after updating the spec.
+import { z } from "zod";
+
+/**
+ * A legacy error, containing only a textual description.
+ */
+export const ErrorSchema = z.object({
+  error: z.string().optional(),
+}).passthrough();
+export type Error = z.infer<typeof ErrorSchema>;
+
+/**
+ * A JSONAPI-formatted error message.
+ */
+export const JSONAPIErrorSchema = z.object({
+  errors: z.array(z.object({
+    id: z.string(),
+    status: z.string().optional(),
+    code: z.string(),
+    title: z.string().optional(),
+    detail: z.string().optional(),
+    source: z.object({
+      pointer: z.string().optional(),
+      header: z.string().optional(),
+      parameter: z.string().optional(),
+    }).passthrough().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+export type JSONAPIError = z.infer<typeof JSONAPIErrorSchema>;
+
+/**
+ * An RFC7807 'Problem Detail' formatted error message.
+ */
+export const DetailedErrorSchema = z.object({
+  error: z.string(),
+  status: z.number(),
+  type: z.string(),
+  title: z.string(),
+  detail: z.string().optional(),
+  instance: z.string().optional(),
+}).passthrough();
+export type DetailedError = z.infer<typeof DetailedErrorSchema>;
+
+/**
+ * An RFC7807 'Problem Detail' formatted Rate Limited error.
+ */
+export const RateLimitedProblemSchema = DetailedErrorSchema;
+export type RateLimitedProblem = z.infer<typeof RateLimitedProblemSchema>;
+
+/**
+ * An JSON:API formatted Rate Limited error.
+ */
+export const RateLimitedJSONAPISchema = JSONAPIErrorSchema;
+export type RateLimitedJSONAPI = z.infer<typeof RateLimitedJSONAPISchema>;
+
+/**
+ * You have exceeded your assigned limit for the requested API action.
+ */
+export const RateLimitedErrorSchema = z.union([RateLimitedProblemSchema, RateLimitedJSONAPISchema]);
+export type RateLimitedError = z.infer<typeof RateLimitedErrorSchema>;
+
+export const ValidationErrorSchema = DetailedErrorSchema.and(z.object({
+  status: z.number().optional(),
+  type: z.string().optional(),
+  title: z.string().optional(),
+  type_detail: z.array(z.object({
+    field: z.string().optional(),
+    code: z.enum(["invalid", "missing", "incorrect_type", "already_exists"]).optional(),
+    description: z.string().optional(),
+  }).passthrough()).optional(),
+}).passthrough());
+export type ValidationError = z.infer<typeof ValidationErrorSchema>;
+
+export const EventSchema = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]));
+export type Event = z.infer<typeof EventSchema>;
+
+export const BatchEventSchema = z.object({
+  data: EventSchema.and(z.record(z.string(), z.unknown())).optional(),
+  time: z.string().optional(),
+  samplerate: z.number().int().optional(),
+}).passthrough();
+export type BatchEvent = z.infer<typeof BatchEventSchema>;
+
+export const AuthSchema = z.object({
+  id: z.string(),
+  type: z.enum(["configuration", "ingest"]),
+  api_key_access: z.object({
+    events: z.boolean().optional(),
+    markers: z.boolean().optional(),
+    triggers: z.boolean().optional(),
+    boards: z.boolean().optional(),
+    queries: z.boolean().optional(),
+    columns: z.boolean().optional(),
+    createDatasets: z.boolean().optional(),
+    slos: z.boolean().optional(),
+    recipients: z.boolean().optional(),
+    privateBoards: z.boolean().optional(),
+  }).passthrough(),
+  environment: z.object({
+    name: z.string().optional(),
+    slug: z.string().optional(),
+  }).passthrough(),
+  team: z.object({
+    name: z.string().optional(),
+    slug: z.string().optional(),
+  }).passthrough(),
+}).passthrough();
+export type Auth = z.infer<typeof AuthSchema>;
+
+export const BoardQuerySchema = z.object({
+  caption: z.string().optional(),
+  graph_settings: z.object({
+    hide_markers: z.boolean().optional(),
+    log_scale: z.boolean().optional(),
+    omit_missing_values: z.boolean().optional(),
+    stacked_graphs: z.boolean().optional(),
+    utc_xaxis: z.boolean().optional(),
+    overlaid_charts: z.boolean().optional(),
+  }).passthrough().optional(),
+  query_style: z.enum(["graph", "table", "combo"]).optional(),
+  dataset: z.string().optional(),
+  query_id: z.string().optional(),
+  query: z.record(z.string(), z.unknown()).nullable().optional(),
+  query_annotation_id: z.string().optional(),
+  visualization_settings: z.object({
+    hide_compare: z.boolean().optional(),
+    hide_hovers: z.boolean().optional(),
+    hide_markers: z.boolean().optional(),
+    utc_xaxis: z.boolean().optional(),
+    overlaid_charts: z.boolean().optional(),
+    charts: z.array(z.object({
+      chart_index: z.number().int().optional(),
+      chart_type: z.enum(["default", "line", "stacked", "stat", "tsbar"]).optional(),
+      log_scale: z.boolean().optional(),
+      omit_missing_values: z.boolean().optional(),
+    }).passthrough()).optional(),
+  }).passthrough().optional(),
+}).passthrough();
+export type BoardQuery = z.infer<typeof BoardQuerySchema>;
+
+export const BoardSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  style: z.string().optional(),
+  column_layout: z.enum(["multi", "single"]).optional(),
+  queries: z.array(BoardQuerySchema).optional(),
+  slos: z.array(z.string()).optional(),
+  links: z.object({
+    board_url: z.string().optional(),
+  }).passthrough().optional(),
+  id: z.string().optional(),
+}).passthrough();
+export type Board = z.infer<typeof BoardSchema>;
+
+export const CreateColumnSchema = z.object({
+  key_name: z.string(),
+  type: z.enum(["string", "float", "integer", "boolean"]).optional(),
+  description: z.string().optional(),
+  hidden: z.boolean().optional(),
+  id: z.string().optional(),
+  last_written: z.string().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+}).passthrough();
+export type CreateColumn = z.infer<typeof CreateColumnSchema>;
+
+export const ColumnSchema = CreateColumnSchema.and(z.object({
+  key_name: z.unknown().optional(),
+}).passthrough());
+export type Column = z.infer<typeof ColumnSchema>;
+
+export const ColumnListSchema = z.array(ColumnSchema);
+export type ColumnList = z.infer<typeof ColumnListSchema>;
+
+export const DerivedColumnSchema = z.object({
+  id: z.string(),
+  alias: z.string(),
+  expression: z.string(),
+  description: z.string().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+}).passthrough();
+export type DerivedColumn = z.infer<typeof DerivedColumnSchema>;
+
+export const DerivedColumnListSchema = z.array(DerivedColumnSchema);
+export type DerivedColumnList = z.infer<typeof DerivedColumnListSchema>;
+
+export const DatasetDefinitionSchema = z.object({
+  name: z.string(),
+  column_type: z.enum(["column", "derived_column"]).optional(),
+}).passthrough().nullable();
+export type DatasetDefinition = z.infer<typeof DatasetDefinitionSchema>;
+
+/**
+ * Dataset Definitions describe the fields with special meaning in the Dataset.
+ */
+export const DatasetDefinitionsSchema = z.object({
+  span_id: DatasetDefinitionSchema.optional(),
+  trace_id: DatasetDefinitionSchema.optional(),
+  parent_id: DatasetDefinitionSchema.optional(),
+  name: DatasetDefinitionSchema.optional(),
+  service_name: DatasetDefinitionSchema.optional(),
+  duration_ms: DatasetDefinitionSchema.optional(),
+  span_kind: DatasetDefinitionSchema.optional(),
+  annotation_type: DatasetDefinitionSchema.optional(),
+  link_span_id: DatasetDefinitionSchema.optional(),
+  link_trace_id: DatasetDefinitionSchema.optional(),
+  error: DatasetDefinitionSchema.optional(),
+  status: DatasetDefinitionSchema.optional(),
+  route: DatasetDefinitionSchema.optional(),
+  user: DatasetDefinitionSchema.optional(),
+  log_severity: DatasetDefinitionSchema.optional(),
+  log_message: DatasetDefinitionSchema.optional(),
+}).passthrough();
+export type DatasetDefinitions = z.infer<typeof DatasetDefinitionsSchema>;
+
+/**
+ * Datasets are a collection of events from a specific source or related source.
+ */
+export const DatasetSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  settings: z.object({
+    delete_protected: z.boolean().optional(),
+  }).passthrough().optional(),
+  expand_json_depth: z.number().int().optional(),
+  slug: z.string().optional(),
+  regular_columns_count: z.number().int().nullable().optional(),
+  last_written_at: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+}).passthrough();
+export type Dataset = z.infer<typeof DatasetSchema>;
+
+/**
+ * an object to send to the Dataset API via PUT
+ */
+export const DatasetCreationPayloadSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  expand_json_depth: z.number().int().optional(),
+}).passthrough();
+export type DatasetCreationPayload = z.infer<typeof DatasetCreationPayloadSchema>;
+
+/**
+ * an object to send to the Dataset API via PUT
+ */
+export const DatasetUpdatePayloadSchema = z.object({
+  description: z.string(),
+  expand_json_depth: z.number().int(),
+  settings: z.object({
+    delete_protected: z.boolean().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+export type DatasetUpdatePayload = z.infer<typeof DatasetUpdatePayloadSchema>;
+
+export const KinesisEventRecordSchema = z.object({
+  data: z.string().optional(),
+}).passthrough();
+export type KinesisEventRecord = z.infer<typeof KinesisEventRecordSchema>;
+
+export const KinesisEventSchema = z.object({
+  requestId: z.string().optional(),
+  timestamp: z.number().int().optional(),
+  records: z.array(KinesisEventRecordSchema).optional(),
+}).passthrough();
+export type KinesisEvent = z.infer<typeof KinesisEventSchema>;
+
+export const KinesisResponseSchema = z.object({
+  requestId: z.string().optional(),
+  timestamp: z.number().int().optional(),
+  errorMessage: z.string().optional(),
+}).passthrough();
+export type KinesisResponse = z.infer<typeof KinesisResponseSchema>;
+
+export const MarkerSchema = z.object({
+  start_time: z.number().int().optional(),
+  end_time: z.number().int().optional(),
+  message: z.string().optional(),
+  type: z.string().optional(),
+  url: z.string().optional(),
+  id: z.string().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+  color: z.string().optional(),
+}).passthrough();
+export type Marker = z.infer<typeof MarkerSchema>;
+
+export const MarkerSettingSchema = z.object({
+  type: z.string(),
+  color: z.string(),
+  id: z.string().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().nullable().optional(),
+}).passthrough();
+export type MarkerSetting = z.infer<typeof MarkerSettingSchema>;
+
+/**
+ * One of the supported Recipient Types
+ */
+export const RecipientTypeSchema = z.enum(["pagerduty", "email", "slack", "webhook", "msteams", "msteams_workflow"]);
+export type RecipientType = z.infer<typeof RecipientTypeSchema>;
+
+export const NotificationRecipientDetailsSchema = z.object({
+  pagerduty_severity: z.enum(["critical", "error", "warning", "info"]).optional(),
+  variables: z.array(z.object({
+    name: z.string(),
+    value: z.string().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+export type NotificationRecipientDetails = z.infer<typeof NotificationRecipientDetailsSchema>;
+
+export const NotificationRecipientSchema = z.object({
+  id: z.string().optional(),
+  type: RecipientTypeSchema.optional(),
+  target: z.string().optional(),
+  details: NotificationRecipientDetailsSchema.optional(),
+}).passthrough();
+export type NotificationRecipient = z.infer<typeof NotificationRecipientSchema>;
+
+export const FilterOpSchema = z.enum(["=", "!=", ">", ">=", "<", "<=", "starts-with", "does-not-start-with", "ends-with", "does-not-end-with", "exists", "does-not-exist", "contains", "does-not-contain", "in", "not-in"]);
+export type FilterOp = z.infer<typeof FilterOpSchema>;
+
+export const HavingOpSchema = z.enum(["=", "!=", ">", ">=", "<", "<="]);
+export type HavingOp = z.infer<typeof HavingOpSchema>;
+
+export const HavingCalculateOpSchema = z.enum(["COUNT", "CONCURRENCY", "SUM", "AVG", "COUNT_DISTINCT", "MAX", "MIN", "P001", "P01", "P05", "P10", "P20", "P25", "P50", "P75", "P80", "P90", "P95", "P99", "P999", "RATE_AVG", "RATE_SUM", "RATE_MAX"]);
+export type HavingCalculateOp = z.infer<typeof HavingCalculateOpSchema>;
+
+export const UpdatePipelineConfigurationRolloutResponseSchema = z.record(z.string(), z.unknown());
+export type UpdatePipelineConfigurationRolloutResponse = z.infer<typeof UpdatePipelineConfigurationRolloutResponseSchema>;
+
+export const QueryOpSchema = z.enum(["COUNT", "CONCURRENCY", "SUM", "AVG", "COUNT_DISTINCT", "HEATMAP", "MAX", "MIN", "P001", "P01", "P05", "P10", "P20", "P25", "P50", "P75", "P80", "P90", "P95", "P99", "P999", "RATE_AVG", "RATE_SUM", "RATE_MAX"]);
+export type QueryOp = z.infer<typeof QueryOpSchema>;
+
+export const QuerySchema = z.object({
+  id: z.string().optional(),
+  breakdowns: z.array(z.string()).optional(),
+  calculations: z.array(z.object({
+    op: QueryOpSchema.and(z.unknown()),
+    column: z.string().nullable().optional(),
+  }).passthrough()).optional(),
+  filters: z.array(z.object({
+    op: FilterOpSchema,
+    column: z.string().nullable().optional(),
+    value: z.union([z.null(), z.number().int(), z.number(), z.string(), z.boolean(), z.array(z.unknown())]).optional(),
+  }).passthrough()).optional(),
+  filter_combination: z.enum(["AND", "OR"]).optional(),
+  granularity: z.number().int().optional(),
+  orders: z.array(z.object({
+    column: z.string().optional(),
+    op: QueryOpSchema.optional(),
+    order: z.enum(["ascending", "descending"]).optional(),
+  }).passthrough()).optional(),
+  limit: z.number().int().optional(),
+  start_time: z.number().int().optional(),
+  end_time: z.number().int().optional(),
+  time_range: z.number().int().optional(),
+  havings: z.array(z.object({
+    calculate_op: HavingCalculateOpSchema,
+    column: z.string().nullable().optional(),
+    op: HavingOpSchema.optional(),
+    value: z.number().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+export type Query = z.infer<typeof QuerySchema>;
+
+/**
+ * A Query Annotation consists of a name and description associated with a query to add context when collaborating.
+ */
+export const QueryAnnotationSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  query_id: z.string(),
+  id: z.string().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+}).passthrough();
+export type QueryAnnotation = z.infer<typeof QueryAnnotationSchema>;
+
+/**
+ * A Query Result is created with the Query ID.
+ */
+export const CreateQueryResultRequestSchema = z.object({
+  query_id: z.string().optional(),
+  disable_series: z.boolean().optional(),
+  disable_total_by_aggregate: z.boolean().optional(),
+  disable_other_by_aggregate: z.boolean().optional(),
+  limit: z.number().int().optional(),
+}).passthrough();
+export type CreateQueryResultRequest = z.infer<typeof CreateQueryResultRequestSchema>;
+
+/**
+ * A Query Result is created with the Query ID.
+ */
+export const QueryResultSchema = z.object({
+  query: QuerySchema.optional(),
+  id: z.string().optional(),
+  complete: z.boolean().optional(),
+  links: z.object({
+    query_url: z.string().optional(),
+    graph_image_url: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+export type QueryResult = z.infer<typeof QueryResultSchema>;
+
+/**
+ * Query result details
+ */
+export const QueryResultsDataSchema = z.object({
+  data: z.record(z.string(), z.unknown()).optional(),
+}).passthrough();
+export type QueryResultsData = z.infer<typeof QueryResultsDataSchema>;
+
+export const QueryResultsSeriesSchema = QueryResultsDataSchema.and(z.object({
+  time: z.string().optional(),
+}).passthrough());
+export type QueryResultsSeries = z.infer<typeof QueryResultsSeriesSchema>;
+
+/**
+ * Query Results for the Query ID. The response body will be a JSON object with "complete": true and the results populated once the query is complete. The response body will contain caching headers to indicate that once complete, and the Query Result may be cached, as it will not change.
+ */
+export const QueryResultDetailsSchema = z.object({
+  query: QuerySchema.optional(),
+  id: z.string().optional(),
+  complete: z.boolean().optional(),
+  data: z.object({
+    series: z.array(QueryResultsSeriesSchema).optional(),
+    results: z.array(QueryResultsDataSchema).optional(),
+    total_by_aggregate: QueryResultsDataSchema.optional(),
+    total_by_aggregate_series: z.array(QueryResultsSeriesSchema).optional(),
+    other_by_aggregate: QueryResultsDataSchema.optional(),
+  }).passthrough().optional(),
+  links: z.object({
+    query_url: z.string().optional(),
+    graph_image_url: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+export type QueryResultDetails = z.infer<typeof QueryResultDetailsSchema>;
+
+export const RecipientPropertiesSchema = z.object({
+  id: z.string().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+  type: RecipientTypeSchema.optional(),
+}).passthrough();
+export type RecipientProperties = z.infer<typeof RecipientPropertiesSchema>;
+
+export const PagerDutyRecipientSchema = RecipientPropertiesSchema.and(z.object({
+  type: z.enum(["pagerduty"]).optional(),
+}).passthrough()).and(z.object({
+  details: z.object({
+    pagerduty_integration_name: z.string(),
+    pagerduty_integration_key: z.string(),
+  }).passthrough().optional(),
+}).passthrough());
+export type PagerDutyRecipient = z.infer<typeof PagerDutyRecipientSchema>;
+
+export const EmailRecipientSchema = RecipientPropertiesSchema.and(z.object({
+  type: z.enum(["email"]).optional(),
+}).passthrough()).and(z.object({
+  details: z.object({
+    email_address: z.string(),
+  }).passthrough().optional(),
+}).passthrough());
+export type EmailRecipient = z.infer<typeof EmailRecipientSchema>;
+
+export const SlackRecipientSchema = RecipientPropertiesSchema.and(z.object({
+  type: z.enum(["slack"]).optional(),
+}).passthrough()).and(z.object({
+  details: z.object({
+    slack_channel: z.string(),
+  }).passthrough().optional(),
+}).passthrough());
+export type SlackRecipient = z.infer<typeof SlackRecipientSchema>;
+
+export const MSTeamsRecipientSchema = RecipientPropertiesSchema.and(z.object({
+  type: z.enum(["msteams"]).optional(),
+}).passthrough()).and(z.object({
+  details: z.object({
+    webhook_name: z.string(),
+    webhook_url: z.string(),
+  }).passthrough().optional(),
+}).passthrough());
+export type MSTeamsRecipient = z.infer<typeof MSTeamsRecipientSchema>;
+
+export const MSTeamsWorkflowRecipientSchema = RecipientPropertiesSchema.and(z.object({
+  type: z.enum(["msteams_workflow"]).optional(),
+}).passthrough()).and(z.object({
+  details: z.object({
+    webhook_name: z.string(),
+    webhook_url: z.string(),
+  }).passthrough().optional(),
+}).passthrough());
+export type MSTeamsWorkflowRecipient = z.infer<typeof MSTeamsWorkflowRecipientSchema>;
+
+export const WebhookHeaderSchema = z.object({
+  header: z.string(),
+  value: z.string().optional(),
+}).passthrough();
+export type WebhookHeader = z.infer<typeof WebhookHeaderSchema>;
+
+export const TemplateVariableDefinitionSchema = z.object({
+  name: z.string(),
+  default_value: z.string().optional(),
+}).passthrough();
+export type TemplateVariableDefinition = z.infer<typeof TemplateVariableDefinitionSchema>;
+
+export const PayloadTemplateSchema = z.object({
+  body: z.string().optional(),
+}).passthrough();
+export type PayloadTemplate = z.infer<typeof PayloadTemplateSchema>;
+
+export const WebhookRecipientSchema = RecipientPropertiesSchema.and(z.object({
+  type: z.enum(["webhook"]).optional(),
+}).passthrough()).and(z.object({
+  details: z.object({
+    webhook_headers: z.array(WebhookHeaderSchema).optional(),
+    webhook_name: z.string(),
+    webhook_url: z.string(),
+    webhook_secret: z.string().optional(),
+    webhook_payloads: z.object({
+      template_variables: z.array(TemplateVariableDefinitionSchema).optional(),
+      payload_templates: z.object({
+        trigger: PayloadTemplateSchema.optional(),
+        budget_rate: PayloadTemplateSchema.optional(),
+        exhaustion_time: PayloadTemplateSchema.optional(),
+      }).passthrough().optional(),
+    }).passthrough().optional(),
+  }).passthrough().optional(),
+}).passthrough());
+export type WebhookRecipient = z.infer<typeof WebhookRecipientSchema>;
+
+export const RecipientSchema = z.union([PagerDutyRecipientSchema, EmailRecipientSchema, SlackRecipientSchema, WebhookRecipientSchema, MSTeamsRecipientSchema, MSTeamsWorkflowRecipientSchema]);
+export type Recipient = z.infer<typeof RecipientSchema>;
+
+export const BaseTriggerSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  threshold: z.object({
+    op: z.enum([">", ">=", "<", "<="]),
+    value: z.number(),
+    exceeded_limit: z.number().int().optional(),
+  }).passthrough().optional(),
+  frequency: z.number().int().optional(),
+  alert_type: z.enum(["on_change", "on_true"]).optional(),
+  disabled: z.boolean().optional(),
+  triggered: z.boolean().optional(),
+  recipients: z.array(NotificationRecipientSchema).optional(),
+  evaluation_schedule_type: z.enum(["frequency", "window"]).optional(),
+  evaluation_schedule: z.object({
+    window: z.object({
+      days_of_week: z.array(z.enum(["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"])),
+      start_time: z.string(),
+      end_time: z.string(),
+    }).passthrough(),
+  }).passthrough().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+}).passthrough();
+export type BaseTrigger = z.infer<typeof BaseTriggerSchema>;
+
+export const TriggerWithInlineQuerySchema = BaseTriggerSchema.and(z.object({
+  query: z.record(z.string(), z.unknown()).optional(),
+}).passthrough());
+export type TriggerWithInlineQuery = z.infer<typeof TriggerWithInlineQuerySchema>;
+
+export const TriggerWithQueryReferenceSchema = BaseTriggerSchema.and(z.object({
+  query_id: z.string().optional(),
+}).passthrough());
+export type TriggerWithQueryReference = z.infer<typeof TriggerWithQueryReferenceSchema>;
+
+export const CreateTriggerRequestSchema = z.union([TriggerWithInlineQuerySchema, TriggerWithQueryReferenceSchema]);
+export type CreateTriggerRequest = z.infer<typeof CreateTriggerRequestSchema>;
+
+export const TriggerResponseSchema = TriggerWithInlineQuerySchema.and(TriggerWithQueryReferenceSchema);
+export type TriggerResponse = z.infer<typeof TriggerResponseSchema>;
+
+export const SLOCreateSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  description: z.string().optional(),
+  sli: z.object({
+    alias: z.string(),
+  }).passthrough(),
+  time_period_days: z.number().int(),
+  target_per_million: z.number().int(),
+  reset_at: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+  dataset_slugs: z.array(z.unknown()).optional(),
+}).passthrough();
+export type SLOCreate = z.infer<typeof SLOCreateSchema>;
+
+export const SLOSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  description: z.string().optional(),
+  sli: z.object({
+    alias: z.string(),
+  }).passthrough(),
+  time_period_days: z.number().int(),
+  target_per_million: z.number().int(),
+  reset_at: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+  dataset_slugs: z.array(z.unknown()).optional(),
+}).passthrough();
+export type SLO = z.infer<typeof SLOSchema>;
+
+export const SLODetailedResponseSchema = SLOSchema.and(z.object({
+  compliance: z.number().optional(),
+  budget_remaining: z.number().optional(),
+}).passthrough());
+export type SLODetailedResponse = z.infer<typeof SLODetailedResponseSchema>;
+
+export const BurnAlertSharedParamsSchema = z.object({
+  id: z.string().optional(),
+  description: z.string().optional(),
+  triggered: z.boolean().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+}).passthrough();
+export type BurnAlertSharedParams = z.infer<typeof BurnAlertSharedParamsSchema>;
+
+export const ExhaustionTimeBurnAlertSchema = BurnAlertSharedParamsSchema.and(z.object({
+  alert_type: z.enum(["exhaustion_time", "budget_rate"]).optional(),
+  exhaustion_minutes: z.number().int().optional(),
+}).passthrough());
+export type ExhaustionTimeBurnAlert = z.infer<typeof ExhaustionTimeBurnAlertSchema>;
+
+export const ExhaustionTimeBurnAlertListResponseSchema = ExhaustionTimeBurnAlertSchema.and(z.object({
+  slo: z.object({
+    id: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough());
+export type ExhaustionTimeBurnAlertListResponse = z.infer<typeof ExhaustionTimeBurnAlertListResponseSchema>;
+
+export const BudgetRateBurnAlertSchema = BurnAlertSharedParamsSchema.and(z.object({
+  alert_type: z.enum(["exhaustion_time", "budget_rate"]),
+  budget_rate_window_minutes: z.number().int(),
+  budget_rate_decrease_threshold_per_million: z.number().int(),
+}).passthrough());
+export type BudgetRateBurnAlert = z.infer<typeof BudgetRateBurnAlertSchema>;
+
+export const BudgetRateBurnAlertListResponseSchema = BudgetRateBurnAlertSchema.and(z.object({
+  slo: z.object({
+    id: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough());
+export type BudgetRateBurnAlertListResponse = z.infer<typeof BudgetRateBurnAlertListResponseSchema>;
+
+export const BurnAlertListResponseSchema = z.union([ExhaustionTimeBurnAlertListResponseSchema, BudgetRateBurnAlertListResponseSchema]);
+export type BurnAlertListResponse = z.infer<typeof BurnAlertListResponseSchema>;
+
+export const ExhaustionTimeBurnAlertDetailResponseSchema = ExhaustionTimeBurnAlertListResponseSchema.and(z.object({
+  recipients: z.array(NotificationRecipientSchema).optional(),
+}).passthrough());
+export type ExhaustionTimeBurnAlertDetailResponse = z.infer<typeof ExhaustionTimeBurnAlertDetailResponseSchema>;
+
+export const BudgetRateBurnAlertDetailResponseSchema = BudgetRateBurnAlertListResponseSchema.and(z.object({
+  recipients: z.array(NotificationRecipientSchema).optional(),
+}).passthrough());
+export type BudgetRateBurnAlertDetailResponse = z.infer<typeof BudgetRateBurnAlertDetailResponseSchema>;
+
+export const BurnAlertDetailResponseSchema = z.union([ExhaustionTimeBurnAlertDetailResponseSchema, BudgetRateBurnAlertDetailResponseSchema]);
+export type BurnAlertDetailResponse = z.infer<typeof BurnAlertDetailResponseSchema>;
+
+export const CreateExhaustionTimeBurnAlertRequestSchema = ExhaustionTimeBurnAlertSchema.and(z.object({
+  slo: z.object({
+    id: z.string(),
+  }).passthrough(),
+  recipients: z.array(NotificationRecipientSchema),
+}).passthrough());
+export type CreateExhaustionTimeBurnAlertRequest = z.infer<typeof CreateExhaustionTimeBurnAlertRequestSchema>;
+
+export const CreateBudgetRateBurnAlertRequestSchema = BudgetRateBurnAlertSchema.and(z.object({
+  slo: z.object({
+    id: z.string(),
+  }).passthrough(),
+  recipients: z.array(NotificationRecipientSchema),
+}).passthrough());
+export type CreateBudgetRateBurnAlertRequest = z.infer<typeof CreateBudgetRateBurnAlertRequestSchema>;
+
+export const CreateBurnAlertRequestSchema = z.union([CreateExhaustionTimeBurnAlertRequestSchema, CreateBudgetRateBurnAlertRequestSchema]);
+export type CreateBurnAlertRequest = z.infer<typeof CreateBurnAlertRequestSchema>;
+
+export const UpdateExhaustionTimeBurnAlertRequestSchema = ExhaustionTimeBurnAlertSchema.and(z.object({
+  recipients: z.array(NotificationRecipientSchema),
+}).passthrough());
+export type UpdateExhaustionTimeBurnAlertRequest = z.infer<typeof UpdateExhaustionTimeBurnAlertRequestSchema>;
+
+export const UpdateBudgetRateBurnAlertRequestSchema = BudgetRateBurnAlertSchema.and(z.object({
+  recipients: z.array(NotificationRecipientSchema),
+}).passthrough());
+export type UpdateBudgetRateBurnAlertRequest = z.infer<typeof UpdateBudgetRateBurnAlertRequestSchema>;
+
+export const UpdateBurnAlertRequestSchema = z.union([UpdateExhaustionTimeBurnAlertRequestSchema, UpdateBudgetRateBurnAlertRequestSchema]);
+export type UpdateBurnAlertRequest = z.infer<typeof UpdateBurnAlertRequestSchema>;
+
+export const IngestKeyTypeSchema = z.object({
+  key_type: z.enum(["ingest"]),
+}).passthrough();
+export type IngestKeyType = z.infer<typeof IngestKeyTypeSchema>;
+
+export const ApiKeyBaseAttributesSchema = z.object({
+  name: z.string(),
+  disabled: z.boolean().optional(),
+  permissions: z.object({
+    create_datasets: z.boolean().optional(),
+  }).passthrough().optional(),
+  timestamps: z.object({
+    created: z.string().optional(),
+    updated: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+export type ApiKeyBaseAttributes = z.infer<typeof ApiKeyBaseAttributesSchema>;
+
+export const IngestKeyAttributesSchema = IngestKeyTypeSchema.and(ApiKeyBaseAttributesSchema).and(z.record(z.string(), z.unknown()));
+export type IngestKeyAttributes = z.infer<typeof IngestKeyAttributesSchema>;
+
+export const ApiKeyTypesSchema = z.object({
+  key_type: z.enum(["ingest"]).optional(),
+}).passthrough();
+export type ApiKeyTypes = z.infer<typeof ApiKeyTypesSchema>;
+
+export const UserRelationshipSchema = z.object({
+  data: z.object({
+    id: z.string(),
+    type: z.enum(["users"]),
+  }).passthrough(),
+}).passthrough();
+export type UserRelationship = z.infer<typeof UserRelationshipSchema>;
+
+/**
+ * The User who initially created this resource.
+ */
+export const CreatorRelationshipSchema = UserRelationshipSchema.and(z.record(z.string(), z.unknown()));
+export type CreatorRelationship = z.infer<typeof CreatorRelationshipSchema>;
+
+/**
+ * The User who last edited this resource.
+ */
+export const EditorRelationshipSchema = UserRelationshipSchema.and(z.record(z.string(), z.unknown()));
+export type EditorRelationship = z.infer<typeof EditorRelationshipSchema>;
+
+/**
+ * The Environment this object is associated with.
+ */
+export const EnvironmentRelationshipSchema = z.object({
+  data: z.object({
+    id: z.string(),
+    type: z.enum(["environments"]),
+  }).passthrough(),
+}).passthrough();
+export type EnvironmentRelationship = z.infer<typeof EnvironmentRelationshipSchema>;
+
+export const TeamRelationshipSchema = z.object({
+  team: z.object({
+    data: z.object({
+      id: z.string(),
+      type: z.enum(["teams"]),
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+export type TeamRelationship = z.infer<typeof TeamRelationshipSchema>;
+
+export const ApiKeyAttributesSchema = ApiKeyTypesSchema.and(ApiKeyBaseAttributesSchema).and(z.record(z.string(), z.unknown()));
+export type ApiKeyAttributes = z.infer<typeof ApiKeyAttributesSchema>;
+
+export const ApiKeyObjectSchema = z.object({
+  id: z.string().optional(),
+  type: z.enum(["api-keys"]).optional(),
+  attributes: ApiKeyAttributesSchema.optional(),
+  relationships: z.object({
+    environment: EnvironmentRelationshipSchema,
+    creator: CreatorRelationshipSchema,
+    editor: EditorRelationshipSchema,
+  }).passthrough().optional(),
+  links: z.object({
+    self: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+export type ApiKeyObject = z.infer<typeof ApiKeyObjectSchema>;
+
+export const IncludedResourceSchema = z.object({
+  id: z.string().optional(),
+  type: z.string().optional(),
+  attributes: z.record(z.string(), z.unknown()).optional(),
+}).passthrough();
+export type IncludedResource = z.infer<typeof IncludedResourceSchema>;
+
+export const ApiKeyResponseSchema = z.object({
+  data: ApiKeyObjectSchema,
+}).passthrough();
+export type ApiKeyResponse = z.infer<typeof ApiKeyResponseSchema>;
+
+export const ApiKeyCreateRequestSchema = z.object({
+  data: z.object({
+    type: z.enum(["api-keys"]),
+    attributes: IngestKeyAttributesSchema,
+    relationships: z.object({
+      environment: EnvironmentRelationshipSchema,
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+export type ApiKeyCreateRequest = z.infer<typeof ApiKeyCreateRequestSchema>;
+
+export const ApiKeyCreateResponseSchema = z.object({
+  data: z.object({
+    id: z.string(),
+    type: z.enum(["api-keys"]),
+    attributes: IngestKeyAttributesSchema.and(z.object({
+      secret: z.string().optional(),
+    }).passthrough()),
+    relationships: z.object({
+      environment: EnvironmentRelationshipSchema,
+      creator: CreatorRelationshipSchema,
+      editor: EditorRelationshipSchema,
+    }).passthrough(),
+    links: z.object({
+      self: z.string().optional(),
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+export type ApiKeyCreateResponse = z.infer<typeof ApiKeyCreateResponseSchema>;
+
+export const ApiKeyUpdateRequestSchema = z.object({
+  data: z.object({
+    id: z.string(),
+    type: z.enum(["api-keys"]),
+    attributes: z.object({
+      name: z.string().optional(),
+      enabled: z.boolean().optional(),
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+export type ApiKeyUpdateRequest = z.infer<typeof ApiKeyUpdateRequestSchema>;
+
+/**
+ * Links to iterate through the pages of results.
+ */
+export const PaginationLinksSchema = z.object({
+  next: z.string().nullable(),
+}).passthrough();
+export type PaginationLinks = z.infer<typeof PaginationLinksSchema>;
+
+export const ApiKeyListResponseSchema = z.object({
+  data: z.array(ApiKeyObjectSchema),
+  links: PaginationLinksSchema.optional(),
+}).passthrough();
+export type ApiKeyListResponse = z.infer<typeof ApiKeyListResponseSchema>;
+
+export const EnvironmentColorSchema = z.enum(["blue", "green", "gold", "red", "purple", "lightBlue", "lightGreen", "lightGold", "lightRed", "lightPurple"]);
+export type EnvironmentColor = z.infer<typeof EnvironmentColorSchema>;
+
+export const CreateEnvironmentRequestSchema = z.object({
+  data: z.object({
+    type: z.enum(["environments"]),
+    attributes: z.object({
+      name: z.string(),
+      description: z.string().optional(),
+      color: EnvironmentColorSchema.optional(),
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+export type CreateEnvironmentRequest = z.infer<typeof CreateEnvironmentRequestSchema>;
+
+export const UpdateEnvironmentRequestSchema = z.object({
+  data: z.object({
+    id: z.string(),
+    type: z.enum(["environments"]),
+    attributes: z.object({
+      description: z.string().optional(),
+      color: EnvironmentColorSchema.optional(),
+      settings: z.object({
+        delete_protected: z.boolean().optional(),
+      }).passthrough().optional(),
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+export type UpdateEnvironmentRequest = z.infer<typeof UpdateEnvironmentRequestSchema>;
+
+export const EnvironmentSchema = z.object({
+  id: z.string(),
+  type: z.enum(["environments"]),
+  links: z.object({
+    self: z.string(),
+  }).passthrough(),
+  attributes: z.object({
+    name: z.string(),
+    description: z.string(),
+    color: z.union([EnvironmentColorSchema, z.enum(["classic"])]),
+    slug: z.string(),
+    settings: z.object({
+      delete_protected: z.boolean(),
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+export type Environment = z.infer<typeof EnvironmentSchema>;
+
+export const EnvironmentResponseSchema = z.object({
+  data: EnvironmentSchema,
+}).passthrough();
+export type EnvironmentResponse = z.infer<typeof EnvironmentResponseSchema>;
+
+export const EnvironmentListResponseSchema = z.object({
+  data: z.array(EnvironmentSchema),
+  links: PaginationLinksSchema.optional(),
+}).passthrough();
+export type EnvironmentListResponse = z.infer<typeof EnvironmentListResponseSchema>;
+
+export const AuthV2ResponseSchema = z.object({
+  included: z.array(IncludedResourceSchema).optional(),
+  data: z.object({
+    id: z.string(),
+    type: z.enum(["api-keys"]),
+    relationships: TeamRelationshipSchema.and(z.record(z.string(), z.unknown())).optional(),
+    attributes: z.object({
+      name: z.string().optional(),
+      key_type: z.enum(["management"]).optional(),
+      disabled: z.boolean().optional(),
+      scopes: z.array(z.unknown()).optional(),
+      timestamps: z.object({
+        created: z.string().optional(),
+        updated: z.string().optional(),
+      }).passthrough().optional(),
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+export type AuthV2Response = z.infer<typeof AuthV2ResponseSchema>;
@@ -1,19 +1,6 @@
 /**
- * Interface for a Honeycomb marker (deployment event)
+ * A Honeycomb marker (deployment event), as defined in api.yaml
+ *
+ * start_time and end_time are Unix timestamps in seconds.
  */
-export interface Marker {
-  id: string;
-  message: string;
-  type: string;
-  url?: string;
-  created_at: string;
-  start_time: string;
-  end_time?: string;
-}
-
-/**
- * Response type for listing markers
- */
-export interface MarkersResponse {
-  markers: Marker[];
-}
+export type { Marker } from "./generated/honeycomb-api.js";
@@ -61,6 +61,10 @@ interface QueryResultData {
   series?: QuerySeriesValue[];
 }
 
+/**
+ * A query result as returned by the client, with each result row flattened
+ * from Honeycomb's `{ data: { ... } }` wrapper into a plain record
+ */
 export interface QueryResult {
   data?: QueryResultData;
   links?: {
@@ -75,8 +79,69 @@ export interface QueryResultValue {
   [key: string]: string | number | boolean | null;
 }
 
+/**
+ * One row of a query's time series: the values of every calculation for one
+ * breakdown group in one time bucket
+ */
 export interface QuerySeriesValue {
-  [key: string]: string | number | boolean | null;
+  // Start of the time bucket, as an ISO 8601 timestamp
+  time?: string;
+  [key: string]: string | number | boolean | null | undefined;
+}
+
+/**
+ * The value of a calculation in one time bucket
+ */
+export interface TimeSeriesPoint {
+  // Start of the bucket, in Unix seconds
+  time: number;
+  // null when the group had no events in the bucket
+  value: number | null;
+}
+
+/**
+ * Values of one calculation for one breakdown group over time
+ */
+export interface TimeSeries {
+  // Result column of the calculation, e.g. "P99(duration_ms)"
+  calculation: string;
+  // Breakdown values identifying the group; empty without breakdowns
+  group: Record<string, string | number | boolean | null>;
+  points: TimeSeriesPoint[];
+}
+
+/**
+ * Every time series of a query result, bucketed at the same granularity
+ */
+export interface TimeSeriesSet {
+  // Width of each bucket, in seconds
+  granularity: number;
+  // Start of the first and last buckets, in Unix seconds
+  start: number;
+  end: number;
+  series: TimeSeries[];
+}
+
+/**
+ * A calculation's value in one bucket of two series, and how it changed
+ */
+export interface TimeSeriesDiffPoint {
+  time: number;
+  current: number | null;
+  baseline: number | null;
+  // null when either value is missing
+  delta: number | null;
+  // null when either value is missing or the baseline is 0
+  percentChange: number | null;
+}
+
+/**
+ * Bucket-by-bucket comparison of a series against a baseline
+ */
+export interface TimeSeriesDiff {
+  calculation: string;
+  group: Record<string, string | number | boolean | null>;
+  points: TimeSeriesDiffPoint[];
 }
 
 export interface QueryResponse {
@@ -1,33 +1,7 @@
 /**
- * Interface for notification recipient types
+ * A notification recipient and its type, as defined in api.yaml
+ *
+ * Recipients have no name; what identifies them depends on the type, e.g.
+ * the email address or Slack channel in details.
  */
-export type RecipientType = 
-  | "email" 
-  | "slack" 
-  | "pagerduty" 
-  | "webhook" 
-  | "msteams" 
-  | "msteams_workflow";
-
-/**
- * Interface for a notification recipient
- */
-export interface Recipient {
-  id: string;
-  name: string;
-  type: RecipientType;
-  target?: string;
-  details?: {
-    pagerduty_severity?: "critical" | "error" | "warning" | "info";
-    url?: string;
-  };
-  created_at: string;
-  updated_at: string;
-}
-
-/**
- * Response type for listing recipients
- */
-export interface RecipientsResponse {
-  recipients: Recipient[];
-}
+export type { Recipient, RecipientType } from "./generated/honeycomb-api.js";
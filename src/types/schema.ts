@@ -43,7 +43,7 @@ export const ColumnInfoSchema = z.object({
  */
 export const ListColumnsSchema = z.object({
   environment: z.string().min(1).trim().describe("The Honeycomb environment"),
-  dataset: z.string().min(1).trim().describe("The dataset to fetch columns from"),
+  dataset: z.string().min(1).trim().optional().describe("The dataset to fetch columns from. Defaults to the environment's configured default dataset."),
 }).merge(PaginationSchema).describe("Parameters for listing columns in a Honeycomb dataset. Returns column names, types, and additional metadata.");
 
 // Input validation schemas using zod
@@ -177,6 +177,16 @@ export const HavingSchema = z.object({
   value: z.number().describe("Numeric threshold value to compare against"),
 }).describe("Post-calculation filter. Column rule: never use column with COUNT/CONCURRENCY; required for all other operations.");
 
+export const TimePointSchema = z.union([
+  z.number().int().positive(),
+  z.string().trim().min(1),
+]).describe("A point in time: UNIX seconds, an ISO 8601 timestamp (UTC unless it has an offset), \"now-3h\", \"3h ago\", \"yesterday 14:00 UTC\", or \"since marker <id>\"");
+
+export const TimeRangeSchema = z.union([
+  z.number().positive(),
+  z.string().trim().min(1),
+]).describe("A duration in seconds or as text such as \"90m\", \"2h\" or \"7d\", or \"since <time>\" for a window from that time until now");
+
 export const QueryToolSchema = z.object({
   environment: z.string().min(1).trim().describe("Honeycomb environment to query"),
   dataset: z.string().min(1).trim().describe("Dataset to query. Use __all__ for all datasets in the environment."),
@@ -186,9 +196,9 @@ export const QueryToolSchema = z.object({
   filter_combination: z.enum(["AND", "OR"]).optional().describe("How to combine filters. AND = all must match; OR = any can match. Default: AND."),
   orders: z.array(OrderSchema).optional().describe("How to sort results. Can only reference columns in breakdowns or calculations."),
   limit: z.number().int().positive().optional().describe("Maximum number of result rows to return"),
-  time_range: z.number().positive().optional().describe("Relative time range in seconds from now (e.g., 3600 for last hour). Default: 2 hours."),
-  start_time: z.number().int().positive().optional().describe("Absolute start time as UNIX timestamp in seconds"),
-  end_time: z.number().int().positive().optional().describe("Absolute end time as UNIX timestamp in seconds"),
+  time_range: TimeRangeSchema.optional().describe("Relative time range from now, in seconds (e.g., 3600 for last hour) or as a duration such as \"1h\". Default: 2 hours."),
+  start_time: TimePointSchema.optional().describe("Absolute start time as UNIX seconds, an ISO 8601 timestamp, or an expression such as \"now-3h\" or \"since marker <id>\""),
+  end_time: TimePointSchema.optional().describe("Absolute end time as UNIX seconds, an ISO 8601 timestamp, or an expression such as \"now-1h\""),
   granularity: z.number().int().nonnegative().optional().describe("Time resolution in seconds for query graph. Use 0 for auto or omit. Max: time_range/10, Min: time_range/1000."),
   havings: z.array(HavingSchema).optional().describe("Post-calculation filters to apply to results after calculations. Each column/calculate_op must exist in calculations. Multiple havings allowed per column/calculate_op."),
 }).describe("Honeycomb query parameters. All fields are optional. If no calculations are provided, COUNT will be applied automatically. Use calculations with proper column rules (never use column with COUNT/CONCURRENCY).").refine(data => {
@@ -201,8 +211,8 @@ export const QueryToolSchema = z.object({
     return false;
   }
   
-  // If both start_time and end_time are provided, ensure end_time > start_time
-  if (hasStartTime && hasEndTime && data.start_time && data.end_time) {
+  // If both start_time and end_time are given in seconds, ensure end_time > start_time
+  if (typeof data.start_time === "number" && typeof data.end_time === "number") {
     return data.end_time > data.start_time;
   }
   
@@ -214,11 +224,27 @@ export const QueryToolSchema = z.object({
 
 export const ColumnAnalysisSchema = z.object({
   environment: z.string().min(1).trim().describe("The Honeycomb environment containing the dataset"),
-  dataset: z.string().min(1).trim().describe("The dataset containing the column to analyze"),
+  dataset: z.string().min(1).trim().optional().describe("The dataset containing the column to analyze. Defaults to the environment's configured default dataset."),
   columns: z.array(z.string()).min(1).max(10).describe("The names of the columns to analyze"),
-  timeRange: z.number().positive().optional().describe("Time range in seconds to analyze. Default is 2 hours."),
+  timeRange: TimeRangeSchema.optional().describe("Time range to analyze, in seconds or as a duration such as \"6h\", or \"since <time>\". Default is 1 hour."),
+  startTime: TimePointSchema.optional().describe("Start of the window to analyze, as UNIX seconds or an expression such as \"yesterday 14:00 UTC\""),
+  endTime: TimePointSchema.optional().describe("End of the window to analyze, as UNIX seconds or an expression such as \"now-1h\""),
 });
 
+export const BubbleUpSchema = z.object({
+  environment: z.string().min(1).trim().describe("The Honeycomb environment containing the dataset"),
+  dataset: z.string().min(1).trim().optional().describe("The dataset to investigate. Defaults to the environment's configured default dataset."),
+  filters: z.array(FilterSchema).optional().describe("Select the events to explain, e.g. [{\"column\": \"duration_ms\", \"op\": \">\", \"value\": 1000}] for slow requests. Either filters or having is required."),
+  filter_combination: z.enum(["AND", "OR"]).optional().describe("How to combine the selection filters. Default: AND. Must be AND when there is also a having."),
+  having: HavingSchema.optional().describe("Select the events of every having_breakdown group that passes this check, e.g. services whose P99(duration_ms) is over 1000. Requires having_breakdown."),
+  having_breakdown: z.string().min(1).trim().optional().describe("The column whose groups the having is checked against"),
+  columns: z.array(z.string().min(1).trim()).min(1).max(50).optional().describe("Columns to compare. Defaults to the dataset's most recently written string, integer and boolean columns, skipping IDs and the columns used to select."),
+  max_columns: z.number().int().positive().max(50).optional().describe("Most columns to compare when columns is omitted. Each column costs two queries. Default: 20."),
+  time_range: TimeRangeSchema.optional().describe("Relative time range from now, in seconds or as a duration such as \"1h\". Default: 2 hours."),
+  start_time: TimePointSchema.optional(),
+  end_time: TimePointSchema.optional(),
+}).describe("Parameters for comparing a selection of events against all other events across columns.");
+
 export const PromptSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
@@ -414,3 +440,43 @@ export const TraceDeepLinkSchema = z.object({
   message: "End timestamp must be greater than start timestamp",
   path: ["traceEndTs"]
 });
+
+/**
+ * Schema for checking environment health
+ */
+export const CheckEnvironmentsSchema = z.object({
+  environment: z.string().min(1).trim().optional().describe("Check only this environment (defaults to all configured environments)"),
+}).describe("Parameters for checking authentication and connectivity of Honeycomb environments.");
+
+/**
+ * Schema for listing the saved queries
+ */
+export const ListSavedQueriesSchema = z.object({}).describe("Parameters for listing the saved queries.");
+
+/**
+ * Schema for saving a query template under a name
+ */
+export const SaveQuerySchema = z.object({
+  name: z.string().min(1).trim().describe("Name to save the query under, e.g. \"slow-endpoints\". Letters, digits, '.', '_' and '-'."),
+  description: z.string().optional().describe("What the query shows, for whoever runs it later"),
+  query: z.record(z.unknown()).describe("run_query parameters. Any string in them may hold placeholders such as {service} or {window}, filled in when the query is run; a string that is only a placeholder takes the argument's type, e.g. \"limit\": \"{limit}\"."),
+  defaults: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe("Values for placeholders that callers may leave out, e.g. {\"window\": \"1h\"}"),
+  overwrite: z.boolean().optional().describe("Replace a query already saved under the name. Default: false."),
+}).describe("Parameters for saving a named query template.");
+
+/**
+ * Schema for deleting a saved query
+ */
+export const DeleteSavedQuerySchema = z.object({
+  name: z.string().min(1).trim().describe("The name of the saved query to delete"),
+}).describe("Parameters for deleting a saved query.");
+
+/**
+ * Schema for running a saved query
+ */
+export const RunSavedQuerySchema = z.object({
+  name: z.string().min(1).trim().describe("The name of the saved query to run"),
+  arguments: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe("Values for the query's placeholders, e.g. {\"service\": \"api\", \"window\": \"3h\"}. Placeholders with defaults may be left out."),
+  environment: z.string().min(1).trim().optional().describe("Run in this environment instead of the one saved with the query"),
+  dataset: z.string().min(1).trim().optional().describe("Run against this dataset instead of the one saved with the query"),
+}).describe("Parameters for running a saved query by name.");
@@ -0,0 +1,10 @@
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * The extra argument the MCP SDK passes to tool handlers
+ *
+ * Its signal fires when the client cancels the tool call. Handlers receive it
+ * as optional so they can also be invoked directly, e.g. in tests.
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createDeadline, sleep } from "./abort.js";
+
+describe("abort utilities", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createDeadline", () => {
+    it("aborts when the timeout elapses", () => {
+      vi.useFakeTimers();
+      const deadline = createDeadline(100);
+
+      vi.advanceTimersByTime(99);
+      expect(deadline.signal.aborted).toBe(false);
+
+      vi.advanceTimersByTime(1);
+      expect(deadline.signal.aborted).toBe(true);
+      expect(deadline.timedOut()).toBe(true);
+    });
+
+    it("aborts with the caller's reason when the caller aborts", () => {
+      const controller = new AbortController();
+      const deadline = createDeadline(10_000, controller.signal);
+
+      controller.abort(new Error("cancelled"));
+
+      expect(deadline.signal.aborted).toBe(true);
+      expect(deadline.signal.reason).toEqual(new Error("cancelled"));
+      expect(deadline.timedOut()).toBe(false);
+      deadline.clear();
+    });
+
+    it("starts aborted if the caller already aborted", () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const deadline = createDeadline(10_000, controller.signal);
+
+      expect(deadline.signal.aborted).toBe(true);
+      deadline.clear();
+    });
+
+    it("stops the timer when cleared", () => {
+      vi.useFakeTimers();
+      const deadline = createDeadline(100);
+
+      deadline.clear();
+      vi.advanceTimersByTime(200);
+
+      expect(deadline.signal.aborted).toBe(false);
+    });
+  });
+
+  describe("sleep", () => {
+    it("resolves after the delay", async () => {
+      vi.useFakeTimers();
+      const done = vi.fn();
+      sleep(500).then(done);
+
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(done).toHaveBeenCalled();
+    });
+
+    it("rejects with the abort reason when the signal aborts", async () => {
+      const controller = new AbortController();
+      const pending = sleep(10_000, controller.signal);
+
+      controller.abort(new Error("cancelled"));
+
+      await expect(pending).rejects.toThrow("cancelled");
+    });
+  });
+});
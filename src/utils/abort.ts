@@ -0,0 +1,69 @@
+/**
+ * An abort signal that fires when either the caller aborts or a timeout elapses
+ */
+export interface Deadline {
+  signal: AbortSignal;
+  /** Whether the signal fired because the timeout elapsed */
+  timedOut(): boolean;
+  /** Stop the timer and detach from the caller's signal */
+  clear(): void;
+}
+
+/**
+ * Combine an optional caller signal with a timeout
+ *
+ * Always call clear() once the guarded work is finished, so the timer does
+ * not keep the process alive and the caller's signal does not leak listeners.
+ *
+ * @param timeoutMs - Time after which the signal aborts
+ * @param parent - The caller's signal, e.g. from an MCP tool call
+ * @returns The combined signal
+ */
+export function createDeadline(timeoutMs: number, parent?: AbortSignal): Deadline {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onParentAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener("abort", onParentAbort, { once: true });
+  }
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new DOMException(`Timed out after ${timeoutMs}ms`, "TimeoutError"));
+  }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onParentAbort);
+    },
+  };
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ *
+ * @throws The signal's abort reason if it aborts before the delay is over
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
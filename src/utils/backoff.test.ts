@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { backoffDelay } from "./backoff.js";
+
+describe("backoffDelay", () => {
+  const schedule = { initialDelayMs: 250, maxDelayMs: 5000 };
+
+  it("doubles the delay with each attempt up to the maximum", () => {
+    const delays = [0, 1, 2, 3, 4, 5, 6].map(attempt => backoffDelay(attempt, schedule, () => 1));
+
+    expect(delays).toEqual([250, 500, 1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it("jitters within the upper half of each step", () => {
+    expect(backoffDelay(2, schedule, () => 0)).toBe(500);
+    expect(backoffDelay(2, schedule, () => 0.5)).toBe(750);
+  });
+
+  it("supports other growth factors", () => {
+    expect(backoffDelay(2, { ...schedule, multiplier: 3 }, () => 1)).toBe(2250);
+  });
+});
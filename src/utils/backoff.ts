@@ -0,0 +1,32 @@
+/**
+ * Shape of an exponential backoff schedule
+ */
+export interface BackoffOptions {
+  /** Delay before the first retry or poll */
+  initialDelayMs: number;
+  /** Upper bound for any single delay */
+  maxDelayMs: number;
+  /** Growth factor between attempts (defaults to 2) */
+  multiplier?: number;
+}
+
+/**
+ * Delay before a retry or poll, growing exponentially with jitter
+ *
+ * The delay is drawn from the upper half of the exponential step, so waits
+ * keep growing while concurrent callers drift apart instead of polling in
+ * lockstep.
+ *
+ * @param attempt - Zero-based number of the attempt that just finished
+ * @param options - The backoff schedule
+ * @param random - Source of randomness in [0, 1), replaceable in tests
+ * @returns The delay in milliseconds
+ */
+export function backoffDelay(
+  attempt: number,
+  { initialDelayMs, maxDelayMs, multiplier = 2 }: BackoffOptions,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelayMs, initialDelayMs * multiplier ** attempt);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
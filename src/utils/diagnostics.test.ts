@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { formatDiagnosticsReport, DiagnosticsReport } from "./diagnostics.js";
+
+describe("formatDiagnosticsReport", () => {
+  const report: DiagnosticsReport = {
+    ok: false,
+    checkedAt: "2025-01-01T00:00:00.000Z",
+    environments: [
+      {
+        name: "prod",
+        ok: true,
+        apiEndpoint: "https://api.honeycomb.io",
+        uiEndpoint: "https://ui.honeycomb.io",
+        teamSlug: "team",
+        environmentSlug: "production",
+        permissions: { queries: true, boards: false, columns: true },
+        latencyMs: 42,
+      },
+      {
+        name: "dev",
+        ok: false,
+        apiEndpoint: "https://api.eu1.honeycomb.io",
+        uiEndpoint: "https://ui.eu1.honeycomb.io",
+        latencyMs: 12,
+        error: "Honeycomb API error (401): unknown API key",
+        startupError: "Auth failed for environment dev: Unauthorized",
+        lastError: { message: "Honeycomb API error (401): unknown API key", at: "2025-01-01T00:00:00.000Z" },
+      },
+    ],
+    cache: {
+      enabled: true,
+      maxSize: 1000,
+      resources: { dataset: { ttl: 900, keys: 2, hits: 5, misses: 1 } },
+    },
+  };
+
+  it("lists each environment with its status and details", () => {
+    const text = formatDiagnosticsReport(report);
+
+    expect(text).toContain("OK   prod");
+    expect(text).toContain("latency:     42ms");
+    expect(text).toContain("permissions: queries, columns");
+    expect(text).toContain("FAIL dev");
+    expect(text).toContain("error:       Honeycomb API error (401): unknown API key");
+    expect(text).toContain("at startup:  Auth failed for environment dev: Unauthorized");
+    // The last error is not repeated when it is the current failure
+    expect(text).not.toContain("last error:");
+  });
+
+  it("summarizes the cache and the overall result", () => {
+    const text = formatDiagnosticsReport(report);
+
+    expect(text).toContain("Cache: enabled (max 1000 items per resource type)");
+    expect(text).toContain("dataset    ttl 900s, 2 cached, 5 hits, 1 misses");
+    expect(text).toContain("One or more environments failed their health check.");
+  });
+});
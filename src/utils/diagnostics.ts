@@ -0,0 +1,82 @@
+import { HoneycombAPI, EnvironmentHealth } from "../api/client.js";
+import { getCache, CacheStats } from "../cache/index.js";
+import { CallOptions } from "../types/api.js";
+
+/**
+ * Health of every environment a client can see, plus the cache state
+ */
+export interface DiagnosticsReport {
+  ok: boolean;
+  checkedAt: string;
+  environments: EnvironmentHealth[];
+  cache: CacheStats;
+}
+
+/**
+ * Check environments and collect the cache state
+ *
+ * Environments are checked one at a time to stay clear of rate limits.
+ *
+ * @param api - The Honeycomb API client
+ * @param names - Environments to check (defaults to every environment the client can see)
+ * @param options - Cancellation signal and timeout for each check
+ * @returns The report; ok is false if any environment failed its check
+ */
+export async function runDiagnostics(
+  api: HoneycombAPI,
+  names: string[] = api.getEnvironments(),
+  options: CallOptions = {}
+): Promise<DiagnosticsReport> {
+  const environments: EnvironmentHealth[] = [];
+  for (const name of names) {
+    environments.push(await api.checkEnvironment(name, options));
+  }
+
+  return {
+    ok: environments.length > 0 && environments.every(env => env.ok),
+    checkedAt: new Date().toISOString(),
+    environments,
+    cache: getCache().getStats(),
+  };
+}
+
+/**
+ * Render a diagnostics report as plain text for the terminal
+ */
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const lines: string[] = [`Honeycomb MCP diagnostics (${report.checkedAt})`, ""];
+
+  for (const env of report.environments) {
+    lines.push(`${env.ok ? "OK  " : "FAIL"} ${env.name}`);
+    lines.push(`     endpoint:    ${env.apiEndpoint} (UI: ${env.uiEndpoint})`);
+    if (env.latencyMs !== undefined) {
+      lines.push(`     latency:     ${env.latencyMs}ms`);
+    }
+    if (env.teamSlug || env.environmentSlug) {
+      lines.push(`     team:        ${env.teamSlug ?? "-"}, environment: ${env.environmentSlug || "(classic)"}`);
+    }
+    if (env.permissions) {
+      const granted = Object.entries(env.permissions).filter(([, allowed]) => allowed).map(([name]) => name);
+      lines.push(`     permissions: ${granted.length > 0 ? granted.join(", ") : "none"}`);
+    }
+    if (env.error) {
+      lines.push(`     error:       ${env.error}`);
+    }
+    if (env.startupError) {
+      lines.push(`     at startup:  ${env.startupError}`);
+    }
+    if (env.lastError && env.lastError.message !== env.error) {
+      lines.push(`     last error:  ${env.lastError.message} (${env.lastError.at})`);
+    }
+  }
+
+  lines.push("");
+  lines.push(`Cache: ${report.cache.enabled ? "enabled" : "disabled"} (max ${report.cache.maxSize} items per resource type)`);
+  for (const [resourceType, stats] of Object.entries(report.cache.resources)) {
+    lines.push(`  ${resourceType.padEnd(10)} ttl ${stats.ttl}s, ${stats.keys} cached, ${stats.hits} hits, ${stats.misses} misses`);
+  }
+
+  lines.push("");
+  lines.push(report.ok ? "All environments are healthy." : "One or more environments failed their health check.");
+  return lines.join("\n");
+}
@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 /**
  * Base error class for Honeycomb API errors
  */
@@ -9,6 +11,9 @@ export interface ValidationErrorContext {
 }
 
 export class HoneycombError extends Error {
+  // How long the API asked us to wait before retrying, from its Retry-After header
+  public retryAfterMs?: number;
+
   constructor(
     public statusCode: number,
     message: string,
@@ -60,3 +65,60 @@ export class QueryError extends HoneycombError {
     this.name = "QueryError";
   }
 }
+
+/**
+ * Error for tool calls the environment's API key is not allowed to make
+ *
+ * Raised before any request is sent, based on the key's api_key_access
+ * as reported by the /1/auth endpoint.
+ */
+export class PermissionError extends HoneycombError {
+  constructor(
+    public environment: string,
+    public permission: string
+  ) {
+    super(
+      403,
+      `Insufficient permission: the API key for environment "${environment}" does not have the "${permission}" permission`,
+      [
+        `Use an environment whose API key has the "${permission}" permission`,
+        `Or grant the "${permission}" permission to this API key in Honeycomb's team settings`,
+      ]
+    );
+    this.name = "PermissionError";
+  }
+}
+
+// Issues listed in a response validation error before the rest are summarized
+const MAX_LISTED_ISSUES = 5;
+
+/**
+ * Error for API responses that do not have the shape described in api.yaml
+ *
+ * Raised instead of passing malformed data on to tools, where it would fail
+ * in less obvious ways. Not retried, since the same request would get the
+ * same response.
+ */
+export class ResponseValidationError extends HoneycombError {
+  constructor(
+    public method: string,
+    public path: string,
+    public issues: z.ZodIssue[]
+  ) {
+    const listed = issues.slice(0, MAX_LISTED_ISSUES).map(issue =>
+      `  - ${issue.path.length > 0 ? issue.path.join(".") : "(response)"}: ${issue.message}`
+    );
+    if (issues.length > MAX_LISTED_ISSUES) {
+      listed.push(`  - ...and ${issues.length - MAX_LISTED_ISSUES} more`);
+    }
+    super(
+      502,
+      `Unexpected response from Honeycomb for ${method} ${path}:\n${listed.join("\n")}`,
+      [
+        "The Honeycomb API may have changed; check for a newer version of this server",
+        "Report the response shape if the problem persists",
+      ]
+    );
+    this.name = "ResponseValidationError";
+  }
+}
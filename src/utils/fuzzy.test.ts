@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { closestMatches, editDistance } from "./fuzzy.js";
+
+describe("fuzzy matching", () => {
+  it("counts the edits between two strings", () => {
+    expect(editDistance("duration_ms", "duration_ms")).toBe(0);
+    expect(editDistance("duraton_ms", "duration_ms")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+  });
+
+  it("finds likely misspellings, closest first", () => {
+    const columns = ["duration_ms", "db.duration_ms", "service.name", "status_code", "name"];
+
+    expect(closestMatches("duraton_ms", columns)).toEqual(["duration_ms"]);
+    expect(closestMatches("Service.Name", columns)).toEqual(["service.name", "name"]);
+    expect(closestMatches("duration", columns)).toEqual(["duration_ms", "db.duration_ms"]);
+  });
+
+  it("returns nothing for unrelated names", () => {
+    expect(closestMatches("trace.trace_id", ["duration_ms", "service.name"])).toEqual([]);
+    expect(closestMatches("ab", ["xy", "abc"], 1)).toEqual(["abc"]);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Number of single-character insertions, deletions and substitutions that
+ * turn one string into the other (Levenshtein distance)
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Find the candidates that look like a misspelling of a name, closest first
+ *
+ * Matching ignores case. A candidate matches when it is a few edits away
+ * from the name (about one edit per three characters), or when one of the
+ * two contains the other, as with "duration" and "duration_ms".
+ *
+ * @param limit - Most candidates returned
+ */
+export function closestMatches(name: string, candidates: Iterable<string>, limit: number = 3): string[] {
+  const target = name.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(target.length / 3));
+
+  const matches: { candidate: string; distance: number }[] = [];
+  for (const candidate of new Set(candidates)) {
+    const lower = candidate.toLowerCase();
+    const distance = editDistance(target, lower);
+    const contains = target.length >= 3 && lower.length >= 3 && (lower.includes(target) || target.includes(lower));
+    if (candidate !== name && (distance <= maxDistance || contains)) {
+      matches.push({ candidate, distance });
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(match => match.candidate);
+}
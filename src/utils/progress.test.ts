@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from "vitest";
+import { createQueryProgressReporter } from "./progress.js";
+import { ToolExtra } from "../types/tool.js";
+
+function createExtra(progressToken?: string | number) {
+  return {
+    signal: new AbortController().signal,
+    requestId: 1,
+    _meta: progressToken === undefined ? undefined : { progressToken },
+    sendNotification: vi.fn().mockResolvedValue(undefined),
+    sendRequest: vi.fn(),
+  } as unknown as ToolExtra & { sendNotification: ReturnType<typeof vi.fn> };
+}
+
+describe("createQueryProgressReporter", () => {
+  it("sends a progress notification for each poll", () => {
+    const extra = createExtra("token-1");
+    const report = createQueryProgressReporter(extra);
+
+    report?.({ polls: 1, elapsedMs: 1500, timeoutMs: 120_000 });
+    report?.({ polls: 2, elapsedMs: 2600, timeoutMs: 120_000 });
+
+    expect(extra.sendNotification).toHaveBeenCalledTimes(2);
+    expect(extra.sendNotification).toHaveBeenLastCalledWith({
+      method: "notifications/progress",
+      params: {
+        progressToken: "token-1",
+        progress: 2,
+        message: "Query still running after 2.6s (poll 2, times out after 120s)",
+      },
+    });
+  });
+
+  it("does nothing when the client did not ask for progress", () => {
+    expect(createQueryProgressReporter(createExtra())).toBeUndefined();
+    expect(createQueryProgressReporter(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,34 @@
+import { ToolExtra } from "../types/tool.js";
+import { QueryProgress } from "../types/api.js";
+
+/**
+ * Create a callback that reports query progress to the MCP client
+ *
+ * Progress notifications are only sent when the client asked for them by
+ * passing a progress token with the tool call. Failing to deliver one does
+ * not affect the query.
+ *
+ * @param extra - MCP request context of the tool call
+ * @returns The callback, or undefined if the client did not ask for progress
+ */
+export function createQueryProgressReporter(
+  extra?: ToolExtra
+): ((progress: QueryProgress) => void) | undefined {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) {
+    return undefined;
+  }
+
+  return ({ polls, elapsedMs, timeoutMs }) => {
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: polls,
+        message: `Query still running after ${(elapsedMs / 1000).toFixed(1)}s (poll ${polls}, times out after ${Math.round(timeoutMs / 1000)}s)`,
+      },
+    }).catch(error => {
+      console.error("Failed to send query progress notification:", error);
+    });
+  };
+}
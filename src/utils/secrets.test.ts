@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolveSecret, registerSecret, redactSecrets, isSecretReference, installLogRedaction } from "./secrets.js";
+import { handleToolError } from "./tool-error.js";
+
+describe("secrets", () => {
+  describe("resolveSecret", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "honeycomb-mcp-secrets-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("returns literal values unchanged", async () => {
+      expect(isSecretReference("abc123")).toBe(false);
+      expect(await resolveSecret("abc123")).toBe("abc123");
+    });
+
+    it("reads keys from files", async () => {
+      const path = join(dir, "key");
+      await writeFile(path, "file-key\n");
+
+      expect(await resolveSecret(`file:${path}`)).toBe("file-key");
+      await expect(resolveSecret(`file:${join(dir, "missing")}`)).rejects.toThrow(/Failed to read secret file/);
+    });
+
+    it("reads keys from command output", async () => {
+      expect(await resolveSecret("cmd:echo command-key")).toBe("command-key");
+      await expect(resolveSecret("cmd:echo oops >&2; exit 3")).rejects.toThrow(/Secret command failed: .*\(oops\)/);
+    });
+
+    it("reads keys from other environment variables", async () => {
+      expect(await resolveSecret("env:MY_KEY", { MY_KEY: "env-key" })).toBe("env-key");
+      await expect(resolveSecret("env:MISSING", {})).rejects.toThrow("Secret environment variable MISSING is not set");
+    });
+
+    it("rejects references that resolve to an empty value", async () => {
+      await expect(resolveSecret("env:EMPTY", { EMPTY: "  " })).rejects.toThrow(/resolved to an empty value/);
+    });
+  });
+
+  describe("redaction", () => {
+    const secret = "hcaik_0123456789abcdef";
+
+    beforeEach(() => {
+      registerSecret(secret);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("masks registered secrets", () => {
+      expect(redactSecrets(`key=${secret}, again ${secret}`)).toBe("key=[REDACTED], again [REDACTED]");
+    });
+
+    it("ignores values too short to redact safely", () => {
+      registerSecret("abc");
+      expect(redactSecrets("abcdef")).toBe("abcdef");
+    });
+
+    it("removes secrets from tool error text", async () => {
+      const result = await handleToolError(new Error(`Request failed with key ${secret}`), "run_query", {
+        suppressConsole: true,
+      });
+
+      expect(result.error.message).toBe("Request failed with key [REDACTED]");
+      expect(result.content[0]!.text).not.toContain(secret);
+    });
+
+    it("removes secrets from logs", () => {
+      const methods = ["error", "warn", "log", "info", "debug"] as const;
+      const originals = methods.map(method => console[method]);
+      const logged: unknown[][] = [];
+      methods.forEach(method => { console[method] = (...args: unknown[]) => { logged.push(args); }; });
+      try {
+        installLogRedaction();
+        console.error(`Auth failed for ${secret}`, new Error(`bad key ${secret}`), { count: 1 });
+        console.warn("Environment %s", { name: "prod", apiKey: secret });
+        console.log({ headers: { "X-Honeycomb-Team": secret } });
+        console.info(secret);
+      } finally {
+        methods.forEach((method, i) => { console[method] = originals[i]!; });
+      }
+
+      expect(logged[0]).toHaveLength(1);
+      expect(logged[0]![0]).toMatch(/^Auth failed for \[REDACTED\] Error: bad key \[REDACTED\]\n[\s\S]*\{ count: 1 \}$/);
+      expect(logged[1]![0]).toBe("Environment { name: 'prod', apiKey: '[REDACTED]' }");
+      expect(logged[2]![0]).toBe("{ headers: { 'X-Honeycomb-Team': '[REDACTED]' } }");
+      expect(logged[3]![0]).toBe("[REDACTED]");
+      expect(logged.flat().join("")).not.toContain(secret);
+    });
+  });
+});
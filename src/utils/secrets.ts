@@ -0,0 +1,117 @@
+import { exec } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { format, promisify } from "node:util";
+
+const execAsync = promisify(exec);
+
+/**
+ * Prefixes marking an apiKey value as a reference instead of a literal key
+ *
+ * - file:<path> reads the key from a file (a leading ~ expands to the home directory)
+ * - cmd:<command> runs a shell command and uses its stdout, e.g. `cmd:op read op://vault/honeycomb/key`
+ * - env:<NAME> reads the key from another environment variable
+ */
+export const SECRET_REFERENCE_PREFIXES = ["file:", "cmd:", "env:"] as const;
+
+// Commands that talk to a password manager may wait on an unlock prompt
+const COMMAND_TIMEOUT_MS = 30_000;
+
+// Shorter values are too likely to occur in ordinary text to redact safely
+const MIN_REDACTED_LENGTH = 8;
+
+const REDACTED = "[REDACTED]";
+
+const knownSecrets = new Set<string>();
+
+/**
+ * Check whether a value is a secret reference rather than a literal secret
+ */
+export function isSecretReference(value: string): boolean {
+  return SECRET_REFERENCE_PREFIXES.some(prefix => value.startsWith(prefix));
+}
+
+/**
+ * Resolve a secret reference to its value
+ *
+ * Literal values are returned unchanged. Failures never include the
+ * secret itself, only the reference and the reason.
+ *
+ * @param value - A literal secret or a file:, cmd:, or env: reference
+ * @param env - Environment variables used for env: references
+ * @returns The secret with surrounding whitespace removed
+ * @throws Error if the reference cannot be resolved or resolves to an empty value
+ */
+export async function resolveSecret(value: string, env: NodeJS.ProcessEnv = process.env): Promise<string> {
+  let resolved: string;
+
+  if (value.startsWith("file:")) {
+    const path = value.slice("file:".length).trim().replace(/^~(?=$|\/)/, homedir());
+    try {
+      resolved = await readFile(path, "utf8");
+    } catch (error) {
+      throw new Error(`Failed to read secret file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else if (value.startsWith("cmd:")) {
+    const command = value.slice("cmd:".length).trim();
+    try {
+      ({ stdout: resolved } = await execAsync(command, { timeout: COMMAND_TIMEOUT_MS, windowsHide: true }));
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`Secret command failed: ${command}${stderr ? ` (${stderr})` : ""}`);
+    }
+  } else if (value.startsWith("env:")) {
+    const name = value.slice("env:".length).trim();
+    const fromEnv = env[name];
+    if (fromEnv === undefined) {
+      throw new Error(`Secret environment variable ${name} is not set`);
+    }
+    resolved = fromEnv;
+  } else {
+    return value;
+  }
+
+  resolved = resolved.trim();
+  if (!resolved) {
+    throw new Error(`Secret reference "${value}" resolved to an empty value`);
+  }
+  return resolved;
+}
+
+/**
+ * Remember a secret so it is masked by redactSecrets
+ */
+export function registerSecret(secret: string): void {
+  if (secret.length >= MIN_REDACTED_LENGTH) {
+    knownSecrets.add(secret);
+  }
+}
+
+/**
+ * Replace every registered secret in a piece of text with a placeholder
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const secret of knownSecrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted;
+}
+
+// Console methods that write log lines, wrapped by installLogRedaction
+const LOG_METHODS = ["error", "warn", "log", "info", "debug"] as const;
+
+/**
+ * Wrap the console's logging methods so registered secrets never reach the logs
+ *
+ * Each call is formatted into one line first, as the console itself would,
+ * so secrets inside logged objects and errors are masked too.
+ */
+export function installLogRedaction(): void {
+  for (const method of LOG_METHODS) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      original(redactSecrets(format(...args)));
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { HoneycombError } from "./errors.js";
+import { redactSecrets } from "./secrets.js";
 import { z } from "zod";
 
 /**
@@ -36,6 +37,9 @@ export async function handleToolError(
     errorMessage = error.message;
   }
 
+  // Error text can echo request details, so never let an API key through
+  errorMessage = redactSecrets(errorMessage);
+
   // Log the error to stderr for debugging, unless suppressed
   if (!options.suppressConsole) {
     console.error(`Tool '${toolName}' failed:`, error);